@@ -24,6 +24,10 @@ const PremiumPage = React.lazy(() => import('./pages/premium'))
 const SignupPage = React.lazy(() => import('./pages/signup'))
 const ModelIntakePage = React.lazy(() => import('./pages/model-intake'))
 const AboutPage = React.lazy(() => import('./pages/about'))
+const ForgotPasswordPage = React.lazy(() => import('./pages/forgot-password'))
+const ResetPasswordPage = React.lazy(() => import('./pages/reset-password'))
+const VerifyEmailPage = React.lazy(() => import('./pages/verify-email'))
+const SecurityPage = React.lazy(() => import('./pages/security'))
 
 // Import ProtectedRoute directly instead of lazy loading it
 import ProtectedRoute from './components/protected-route'
@@ -428,6 +432,28 @@ function App() {
                   <AboutPage />
                 </Suspense>
               } />
+              <Route path="/forgot-password" element={
+                <Suspense fallback={<LoadingFallback />}>
+                  <ForgotPasswordPage />
+                </Suspense>
+              } />
+              <Route path="/reset-password" element={
+                <Suspense fallback={<LoadingFallback />}>
+                  <ResetPasswordPage />
+                </Suspense>
+              } />
+              <Route path="/verify-email" element={
+                <Suspense fallback={<LoadingFallback />}>
+                  <VerifyEmailPage />
+                </Suspense>
+              } />
+              <Route path="/account/security" element={
+                <ProtectedRoute allowedRoles={['admin', 'creator']}>
+                  <Suspense fallback={<LoadingFallback />}>
+                    <SecurityPage />
+                  </Suspense>
+                </ProtectedRoute>
+              } />
             </Routes>
           </Suspense>
         </BrowserRouter>
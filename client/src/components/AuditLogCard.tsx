@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "../lib/queryClient";
+import { API_BASE_URL } from "../lib/config";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useToast } from "../hooks/use-toast";
+import type { AuditEvent } from "@/../../shared/schema";
+
+const AUDIT_EVENTS_URL = '/api/admin/audit-events';
+const PAGE_SIZE = 50;
+
+interface AuditEventsResponse {
+  items: AuditEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+interface AuditFilters {
+  actorId: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { actorId: '', action: '', targetType: '', targetId: '', from: '', to: '' };
+
+// Date inputs are local calendar days; the range covers the whole of both days
+function filterParams(filters: AuditFilters) {
+  const params = new URLSearchParams();
+  for (const key of ['actorId', 'action', 'targetType', 'targetId'] as const) {
+    if (filters[key].trim()) {
+      params.set(key, filters[key].trim());
+    }
+  }
+  if (filters.from) {
+    params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  }
+  return params;
+}
+
+function formatValue(value: unknown) {
+  return value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function AuditLogCard() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const params = filterParams(filters);
+  params.set('page', String(page));
+  params.set('pageSize', String(PAGE_SIZE));
+  const eventsQuery = `${AUDIT_EVENTS_URL}?${params}`;
+  const { data, isLoading } = useQuery({
+    queryKey: [eventsQuery],
+    queryFn: getQueryFn<AuditEventsResponse>({ on401: 'redirect' }),
+  });
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+    setPage(1);
+  };
+
+  const exportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}${AUDIT_EVENTS_URL}/export?${filterParams(filters)}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Export failed');
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-events-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Audit export error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export audit log',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const field = (key: keyof AuditFilters, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <div className="space-y-1">
+      <Label htmlFor={`audit-${key}`}>{label}</Label>
+      <Input
+        id={`audit-${key}`}
+        value={draft[key]}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription>
+          Every change made by an admin, with what it changed and where it came from. Entries can't be edited or deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={applyFilters} className="grid grid-cols-2 gap-3 md:grid-cols-6 items-end">
+          {field('action', 'Action', { placeholder: 'e.g. gallery' })}
+          {field('actorId', 'Admin ID', { inputMode: 'numeric' })}
+          {field('targetType', 'Target type', { placeholder: 'e.g. content' })}
+          {field('targetId', 'Target ID')}
+          {field('from', 'From', { type: 'date' })}
+          {field('to', 'To', { type: 'date' })}
+          <div className="col-span-2 md:col-span-6 flex flex-wrap gap-2">
+            <Button type="submit">Apply filters</Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                setDraft(EMPTY_FILTERS);
+                setFilters(EMPTY_FILTERS);
+                setPage(1);
+              }}
+            >
+              Clear
+            </Button>
+            <Button type="button" variant="outline" disabled={isExporting} onClick={exportCsv}>
+              {isExporting ? 'Exporting...' : 'Export CSV'}
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading audit log...</div>
+        ) : total === 0 ? (
+          <div className="text-sm text-muted-foreground">No matching events</div>
+        ) : (
+          <>
+            <div className="rounded-md border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <th className="p-2 text-left font-medium">Time</th>
+                    <th className="p-2 text-left font-medium">Admin</th>
+                    <th className="p-2 text-left font-medium">Action</th>
+                    <th className="p-2 text-left font-medium">Target</th>
+                    <th className="p-2 text-left font-medium">Result</th>
+                    <th className="p-2 text-left font-medium">IP address</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {data!.items.map((event) => {
+                    const changes = Object.entries(event.changes ?? {});
+                    return (
+                      <React.Fragment key={event.id}>
+                        <tr className="border-b">
+                          <td className="p-2 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</td>
+                          <td className="p-2">{event.actorEmail ?? '—'}{event.actorId !== null && ` (#${event.actorId})`}</td>
+                          <td className="p-2">
+                            <div className="font-medium">{event.action}</div>
+                            <div className="text-xs text-muted-foreground break-all">{event.method} {event.path}</div>
+                          </td>
+                          <td className="p-2">{event.targetType ? `${event.targetType}${event.targetId ? ` #${event.targetId}` : ''}` : '—'}</td>
+                          <td className="p-2">
+                            <Badge variant={event.statusCode < 400 ? 'outline' : 'destructive'}>{event.statusCode}</Badge>
+                          </td>
+                          <td className="p-2 whitespace-nowrap">{event.ipAddress ?? '—'}</td>
+                          <td className="p-2 text-right">
+                            {(changes.length > 0 || event.userAgent) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                              >
+                                {expanded === event.id ? 'Hide' : changes.length > 0 ? `${changes.length} change${changes.length === 1 ? '' : 's'}` : 'Details'}
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                        {expanded === event.id && (
+                          <tr className="border-b bg-muted/30">
+                            <td colSpan={7} className="p-2 space-y-2">
+                              {changes.length > 0 && (
+                                <table className="w-full text-xs">
+                                  <thead>
+                                    <tr>
+                                      <th className="p-1 text-left font-medium">Field</th>
+                                      <th className="p-1 text-left font-medium">Before</th>
+                                      <th className="p-1 text-left font-medium">After</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {changes.map(([name, change]) => (
+                                      <tr key={name}>
+                                        <td className="p-1 font-mono">{name}</td>
+                                        <td className="p-1 break-all">{formatValue(change.before)}</td>
+                                        <td className="p-1 break-all">{formatValue(change.after)}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                              {event.userAgent && <p className="text-xs text-muted-foreground break-all">{event.userAgent}</p>}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>{total} event{total === 1 ? '' : 's'}</span>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <span>Page {page} of {pageCount}</span>
+                <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Textarea } from "./ui/textarea";
 import { useToast } from "../hooks/use-toast";
 import { useQueryClient } from "@tanstack/react-query";
+import { UserSessionsDialog } from "./UserSessionsDialog";
 
 interface CreatorCardProps {
   creator: {
@@ -197,6 +198,7 @@ export function CreatorCard({ creator, onViewContent }: CreatorCardProps) {
         </Button>
         
         <div className="space-x-2">
+          <UserSessionsDialog userId={creator.id} userLabel={creator.displayName || creator.username || creator.email} />
           {creator.creatorProfile?.approvalStatus !== 'approved' && (
             <Dialog open={isApprovalDialogOpen} onOpenChange={setIsApprovalDialogOpen}>
               <DialogTrigger asChild>
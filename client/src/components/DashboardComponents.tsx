@@ -1,10 +1,29 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { mediaUrl } from "../lib/config";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { useToast } from "../hooks/use-toast";
+import { REPORT_REASON_LABELS } from "./ReportMediaDialog";
+import type { ReportReason, ReportStatus } from "@/../../shared/schema";
 
 /**
- * Dashboard components that were previously in the admin dashboard
- * These are provided as reference for future implementation
+ * Dashboard components that were previously in the admin dashboard. FlaggedContentCard and
+ * ContentApprovalCard are backed by the moderation queues; the rest are provided as reference
+ * for future implementation.
  */
 
 export const NewSignupsCard = () => {
@@ -35,7 +54,156 @@ export const NewSignupsCard = () => {
   );
 };
 
+interface FlaggedReport {
+  id: number;
+  mediaKind: 'gallery' | 'content';
+  mediaId: number;
+  status: ReportStatus;
+  reportCount: number;
+  autoHidden: boolean;
+  lastReportedAt: string;
+  media: {
+    title: string;
+    type: string;
+    isPremium: boolean;
+    hiddenAt: string | null;
+    previewUrl: string | null;
+  } | null;
+  reasons: { reason: ReportReason; count: number }[];
+  recentEntries: {
+    reason: ReportReason;
+    details: string | null;
+    createdAt: string;
+    reporter: { id: number; username: string | null; displayName: string | null } | null;
+  }[];
+}
+
+interface ReportsResponse {
+  items: FlaggedReport[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const REPORTS_URL = '/api/admin/reports';
+
+// Same red/yellow/orange scale the card has always used
+function reasonTone(reason: ReportReason | undefined) {
+  if (reason === 'underage' || reason === 'non_consensual') {
+    return 'bg-red-100 text-red-600';
+  }
+  return reason === 'copyright' ? 'bg-yellow-100 text-yellow-600' : 'bg-orange-100 text-orange-600';
+}
+
+const ReportReview = ({ report, onClosed }: { report: FlaggedReport; onClosed: () => void }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const act = async (action: 'resolve' | 'dismiss' | 'remove', successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await apiRequest('POST', `${REPORTS_URL}/${report.id}/${action}`, { note: note.trim() || undefined });
+      await queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(REPORTS_URL)
+      });
+      toast({ title: 'Success', description: successMessage });
+      onClosed();
+    } catch (error) {
+      console.error('Report action error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update report',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <DialogContent className="max-w-2xl">
+      <DialogHeader>
+        <DialogTitle>{report.media?.title ?? 'Deleted item'}</DialogTitle>
+      </DialogHeader>
+      <div className="space-y-4">
+        <div className="flex gap-4">
+          {report.media?.previewUrl && (
+            <img
+              src={mediaUrl(report.media.previewUrl)}
+              alt={report.media.title}
+              className="h-32 w-32 rounded object-cover bg-gray-200"
+            />
+          )}
+          <div className="space-y-2 text-sm">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{report.mediaKind === 'gallery' ? 'Gallery' : 'Creator content'} #{report.mediaId}</Badge>
+              {report.media?.isPremium && <Badge variant="secondary">Premium</Badge>}
+              {report.media?.hiddenAt && <Badge variant="destructive">Hidden</Badge>}
+              {!report.media && <Badge variant="outline">Already deleted</Badge>}
+            </div>
+            <p className="text-muted-foreground">
+              Reported by {report.reportCount} user{report.reportCount === 1 ? '' : 's'}, last {new Date(report.lastReportedAt).toLocaleString()}
+            </p>
+            <ul className="space-y-1">
+              {report.reasons.map(({ reason, count }) => (
+                <li key={reason}>{REPORT_REASON_LABELS[reason]}: {count}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        {report.recentEntries.some(entry => entry.details) && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent reports</h4>
+            {report.recentEntries.filter(entry => entry.details).map((entry, index) => (
+              <div key={index} className="rounded-md border p-2 text-sm">
+                <p>{entry.details}</p>
+                <p className="text-xs text-muted-foreground">
+                  {entry.reporter?.displayName || entry.reporter?.username || 'Deleted user'}, {new Date(entry.createdAt).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor={`report-note-${report.id}`}>Note (optional)</Label>
+          <Textarea id={`report-note-${report.id}`} value={note} onChange={(e) => setNote(e.target.value)} />
+        </div>
+      </div>
+      <DialogFooter className="mt-4">
+        <Button variant="outline" disabled={isSaving} onClick={() => act('dismiss', 'Report dismissed')}>
+          {report.autoHidden && report.media?.hiddenAt ? 'Dismiss and restore' : 'Dismiss'}
+        </Button>
+        {report.media && (
+          <>
+            <Button disabled={isSaving} onClick={() => act('resolve', 'Item kept hidden')}>
+              Keep hidden
+            </Button>
+            <Button variant="destructive" disabled={isSaving} onClick={() => act('remove', 'Item removed')}>
+              Remove item
+            </Button>
+          </>
+        )}
+      </DialogFooter>
+    </DialogContent>
+  );
+};
+
 export const FlaggedContentCard = () => {
+  const [showAll, setShowAll] = useState(false);
+  const [page, setPage] = useState(1);
+  const [reviewing, setReviewing] = useState<number | null>(null);
+  const pageSize = showAll ? 25 : 3;
+
+  const reportsQuery = `${REPORTS_URL}?status=open&page=${page}&pageSize=${pageSize}`;
+  const { data, isLoading } = useQuery({
+    queryKey: [reportsQuery],
+    queryFn: getQueryFn<ReportsResponse>({ on401: 'redirect' }),
+  });
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
   return (
     <Card>
       <CardHeader>
@@ -43,53 +211,194 @@ export const FlaggedContentCard = () => {
         <CardDescription>Content that requires review</CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <div className="h-8 w-8 rounded-full bg-red-100 flex items-center justify-center">
-                <span className="text-xs font-medium text-red-600">!</span>
-              </div>
-              <div>
-                <p className="text-sm font-medium">Inappropriate content</p>
-                <p className="text-xs text-muted-foreground">Reported by 3 users</p>
-              </div>
-            </div>
-            <Button size="sm" variant="outline">Review</Button>
-          </div>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <div className="h-8 w-8 rounded-full bg-yellow-100 flex items-center justify-center">
-                <span className="text-xs font-medium text-yellow-600">!</span>
-              </div>
-              <div>
-                <p className="text-sm font-medium">Potential copyright issue</p>
-                <p className="text-xs text-muted-foreground">Reported by 1 user</p>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading reports...</div>
+        ) : total === 0 ? (
+          <div className="text-sm text-muted-foreground">Nothing has been reported</div>
+        ) : (
+          <div className="space-y-4">
+            {data!.items.map((report) => (
+              <div key={report.id} className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <div className={`h-8 w-8 rounded-full flex items-center justify-center ${reasonTone(report.reasons[0]?.reason)}`}>
+                    <span className="text-xs font-medium">!</span>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium">
+                      {report.reasons[0] ? REPORT_REASON_LABELS[report.reasons[0].reason] : 'Reported'}
+                      {report.media?.hiddenAt && <Badge variant="destructive" className="ml-2">Hidden</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {report.media?.title ?? 'Deleted item'} &middot; Reported by {report.reportCount} user{report.reportCount === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                </div>
+                <Dialog open={reviewing === report.id} onOpenChange={(open) => setReviewing(open ? report.id : null)}>
+                  <DialogTrigger asChild>
+                    <Button size="sm" variant="outline">Review</Button>
+                  </DialogTrigger>
+                  <ReportReview report={report} onClosed={() => setReviewing(null)} />
+                </Dialog>
               </div>
-            </div>
-            <Button size="sm" variant="outline">Review</Button>
-          </div>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <div className="h-8 w-8 rounded-full bg-orange-100 flex items-center justify-center">
-                <span className="text-xs font-medium text-orange-600">!</span>
-              </div>
-              <div>
-                <p className="text-sm font-medium">Age verification concern</p>
-                <p className="text-xs text-muted-foreground">System flagged</p>
+            ))}
+            {showAll && pageCount > 1 && (
+              <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <span>Page {page} of {pageCount}</span>
+                <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
               </div>
-            </div>
-            <Button size="sm" variant="outline">Review</Button>
+            )}
           </div>
-        </div>
+        )}
       </CardContent>
-      <CardFooter>
-        <Button variant="outline" className="w-full">View All Flagged Content</Button>
-      </CardFooter>
+      {(showAll || total > pageSize) && (
+        <CardFooter>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => {
+              setShowAll(!showAll);
+              setPage(1);
+            }}
+          >
+            {showAll ? 'Show Fewer' : `View All Flagged Content (${total})`}
+          </Button>
+        </CardFooter>
+      )}
     </Card>
   );
 };
 
+interface PendingPost {
+  id: number;
+  title: string;
+  description: string | null;
+  contentType: 'image' | 'video';
+  url: string;
+  thumbnailUrl: string | null;
+  hlsUrl: string | null;
+  processingStatus: 'pending' | 'processing' | 'ready' | 'failed';
+  isPremium: boolean;
+  price: number | null;
+  createdAt: string;
+  creator: { id: number; username: string | null; displayName: string | null; avatarUrl: string | null } | null;
+  creatorApprovedPosts: number;
+}
+
+interface PendingContentResponse {
+  items: PendingPost[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PENDING_CONTENT_URL = '/api/admin/content/pending';
+const PENDING_PAGE_SIZE = 25;
+
+const PendingPostPreview = ({ post }: { post: PendingPost }) => {
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg bg-black/90 overflow-hidden flex items-center justify-center min-h-48">
+        {post.contentType === 'video' ? (
+          post.processingStatus === 'ready' ? (
+            <video
+              key={post.id}
+              controls
+              playsInline
+              preload="metadata"
+              poster={post.thumbnailUrl ? mediaUrl(post.thumbnailUrl) : undefined}
+              className="w-full max-h-96 object-contain"
+            >
+              {post.hlsUrl && <source src={mediaUrl(post.hlsUrl)} type="application/vnd.apple.mpegurl" />}
+              <source src={mediaUrl(post.url)} type="video/mp4" />
+            </video>
+          ) : (
+            <p className="p-6 text-sm text-white/80">
+              {post.processingStatus === 'failed' ? 'This video failed to process' : 'This video is still processing'}
+            </p>
+          )
+        ) : (
+          <img src={mediaUrl(post.url)} alt={post.title} className="w-full max-h-96 object-contain" />
+        )}
+      </div>
+      <div className="space-y-1 text-sm">
+        <p className="font-medium">{post.title}</p>
+        {post.description && <p className="text-muted-foreground whitespace-pre-line">{post.description}</p>}
+        <div className="flex flex-wrap gap-2 pt-1">
+          <Badge variant="outline">{post.contentType === 'video' ? 'Video' : 'Image'}</Badge>
+          {post.isPremium && <Badge variant="secondary">Premium{post.price ? ` $${post.price.toFixed(2)}` : ''}</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          By {post.creator?.displayName || post.creator?.username || 'Deleted user'}
+          {' '}&middot; {post.creatorApprovedPosts} published post{post.creatorApprovedPosts === 1 ? '' : 's'}
+          {' '}&middot; Submitted {new Date(post.createdAt).toLocaleString()}
+        </p>
+      </div>
+    </div>
+  );
+};
+
 export const ContentApprovalCard = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [previewId, setPreviewId] = useState<number | null>(null);
+  const [rejecting, setRejecting] = useState<number[] | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const pendingQuery = `${PENDING_CONTENT_URL}?page=${page}&pageSize=${PENDING_PAGE_SIZE}`;
+  const { data, isLoading } = useQuery({
+    queryKey: [pendingQuery],
+    queryFn: getQueryFn<PendingContentResponse>({ on401: 'redirect' }),
+  });
+  const items = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PENDING_PAGE_SIZE));
+  const preview = items.find(item => item.id === previewId) ?? items[0];
+  const allSelected = items.length > 0 && items.every(item => selected.includes(item.id));
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelected(checked ? [...selected, id] : selected.filter(selectedId => selectedId !== id));
+  };
+
+  const decide = async (ids: number[], decision: 'approve' | 'reject') => {
+    setIsSaving(true);
+    try {
+      const result = await apiRequest<{ decided: { id: number }[]; skipped: number[] }>('POST', '/api/admin/content/moderation', {
+        decision,
+        ids,
+        ...(decision === 'reject' && { reason: reason.trim() })
+      });
+      await queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(PENDING_CONTENT_URL)
+      });
+      setSelected(selected.filter(id => !ids.includes(id)));
+      setRejecting(null);
+      setReason('');
+      const count = result.decided.length;
+      toast({
+        title: 'Success',
+        description: `${count} post${count === 1 ? '' : 's'} ${decision === 'approve' ? 'approved' : 'rejected'}`
+          + (result.skipped.length > 0 ? `; ${result.skipped.length} had already been reviewed` : '')
+      });
+    } catch (error) {
+      console.error('Content moderation error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to review content',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -97,50 +406,128 @@ export const ContentApprovalCard = () => {
         <CardDescription>New content waiting for approval</CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <div className="h-10 w-10 rounded bg-gray-200 overflow-hidden">
-                <img 
-                  src="https://placehold.co/100x100?text=Image" 
-                  alt="Content thumbnail" 
-                  className="h-full w-full object-cover"
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading pending content...</div>
+        ) : total === 0 ? (
+          <div className="text-sm text-muted-foreground">Nothing is waiting for approval</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => setSelected(checked ? items.map(item => item.id) : [])}
                 />
-              </div>
-              <div>
-                <p className="text-sm font-medium">Summer photoshoot</p>
-                <p className="text-xs text-muted-foreground">Submitted 2 hours ago</p>
+                Select all on this page
+              </label>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={selected.length === 0 || isSaving}
+                  onClick={() => setRejecting(selected)}
+                >
+                  Reject ({selected.length})
+                </Button>
+                <Button size="sm" disabled={selected.length === 0 || isSaving} onClick={() => decide(selected, 'approve')}>
+                  Approve ({selected.length})
+                </Button>
               </div>
             </div>
-            <div className="flex space-x-2">
-              <Button size="sm" variant="destructive">Reject</Button>
-              <Button size="sm">Approve</Button>
-            </div>
-          </div>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <div className="h-10 w-10 rounded bg-gray-200 overflow-hidden">
-                <img 
-                  src="https://placehold.co/100x100?text=Image" 
-                  alt="Content thumbnail" 
-                  className="h-full w-full object-cover"
-                />
-              </div>
-              <div>
-                <p className="text-sm font-medium">Beach day collection</p>
-                <p className="text-xs text-muted-foreground">Submitted 5 hours ago</p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                {items.map((item) => (
+                  <div
+                    key={item.id}
+                    className={`flex items-center gap-3 rounded-md border p-2 cursor-pointer ${preview?.id === item.id ? 'border-primary bg-muted/50' : ''}`}
+                    onClick={() => setPreviewId(item.id)}
+                  >
+                    <Checkbox
+                      checked={selected.includes(item.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onCheckedChange={(checked) => toggle(item.id, checked === true)}
+                    />
+                    <div className="h-10 w-10 rounded bg-gray-200 overflow-hidden shrink-0">
+                      {(item.contentType === 'image' || item.thumbnailUrl) && (
+                        <img
+                          src={mediaUrl(item.contentType === 'image' ? item.url : item.thumbnailUrl!)}
+                          alt={item.title}
+                          className="h-full w-full object-cover"
+                        />
+                      )}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{item.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {item.creator?.displayName || item.creator?.username || 'Deleted user'} &middot; {new Date(item.createdAt).toLocaleDateString()}
+                        {item.creatorApprovedPosts === 0 && <Badge variant="outline" className="ml-2">First post</Badge>}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+                {pageCount > 1 && (
+                  <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+                    <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                      Previous
+                    </Button>
+                    <span>Page {page} of {pageCount}</span>
+                    <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                      Next
+                    </Button>
+                  </div>
+                )}
               </div>
-            </div>
-            <div className="flex space-x-2">
-              <Button size="sm" variant="destructive">Reject</Button>
-              <Button size="sm">Approve</Button>
+
+              {preview && (
+                <div className="space-y-3">
+                  <PendingPostPreview post={preview} />
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="destructive" disabled={isSaving} onClick={() => setRejecting([preview.id])}>
+                      Reject
+                    </Button>
+                    <Button size="sm" disabled={isSaving} onClick={() => decide([preview.id], 'approve')}>
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
-        </div>
+        )}
       </CardContent>
-      <CardFooter>
-        <Button variant="outline" className="w-full">View All Pending Content</Button>
+      <CardFooter className="text-xs text-muted-foreground">
+        {total} post{total === 1 ? '' : 's'} pending. Creators are emailed when their posts are approved or rejected.
       </CardFooter>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {rejecting?.length === 1 ? 'post' : `${rejecting?.length} posts`}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="content-reject-reason">Reason (sent to the creator)</Label>
+            <Textarea
+              id="content-reject-reason"
+              value={reason}
+              maxLength={1000}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || isSaving}
+              onClick={() => rejecting && decide(rejecting, 'reject')}
+            >
+              {isSaving ? 'Rejecting...' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Slider } from "./ui/slider";
+import { useToast } from "../hooks/use-toast";
+import type { PlatformSettings } from "@/../../shared/schema";
+
+const SETTINGS_URL = '/api/admin/settings';
+
+interface DuplicateMatch {
+  kind: 'gallery' | 'content';
+  id: number;
+  title: string;
+  type: string;
+  creatorId: number | null;
+  isPremium: boolean;
+  previewUrl: string | null;
+  createdAt: string;
+  distance: number;
+}
+
+interface DuplicatesResponse {
+  threshold: number;
+  groups: Array<{ items: DuplicateMatch[] }>;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  gallery: 'Gallery',
+  featured: 'Featured',
+  image: 'Creator image',
+  video: 'Creator video',
+};
+
+export function DuplicateMediaCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Slider position while dragging, and the threshold the list was last loaded with
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [threshold, setThreshold] = useState<number | null>(null);
+
+  const { data: settings } = useQuery({
+    queryKey: [SETTINGS_URL],
+    queryFn: getQueryFn<PlatformSettings>({ on401: 'redirect' }),
+  });
+
+  const query = threshold === null ? '' : `?threshold=${threshold}`;
+  const { data, isLoading, error } = useQuery({
+    queryKey: [`/api/admin/media/duplicates${query}`],
+    queryFn: getQueryFn<DuplicatesResponse>({ on401: 'redirect' }),
+  });
+
+  const current = dragging ?? threshold ?? data?.threshold ?? settings?.duplicateHashThreshold ?? 8;
+
+  const saveThreshold = async () => {
+    try {
+      const updated = await apiRequest<PlatformSettings>('PATCH', SETTINGS_URL, { duplicateHashThreshold: current });
+      queryClient.setQueryData([SETTINGS_URL], updated);
+      toast({ title: 'Success', description: 'Upload warnings will use this threshold' });
+    } catch (error) {
+      console.error('Settings update error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update settings',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Duplicate Media</CardTitle>
+        <CardDescription>
+          Near-identical images across the gallery, featured models and creator content, oldest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2 w-full max-w-sm">
+            <Label>Match threshold: {current} of 64 bits</Label>
+            <Slider
+              min={0}
+              max={20}
+              step={1}
+              value={[current]}
+              onValueChange={([value]) => setDragging(value)}
+              onValueCommit={([value]) => {
+                setDragging(null);
+                setThreshold(value);
+              }}
+            />
+            <p className="text-sm text-muted-foreground">
+              Lower only matches resized or recompressed copies; higher also catches crops and edits, with more false matches.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={saveThreshold}
+            disabled={!settings || settings.duplicateHashThreshold === current}
+          >
+            Use for upload warnings
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-muted-foreground">Looking for duplicates...</div>
+        ) : error ? (
+          <div className="text-destructive">Failed to load duplicates</div>
+        ) : !data?.groups.length ? (
+          <div className="text-muted-foreground">No duplicates found</div>
+        ) : (
+          <div className="space-y-4">
+            {data.groups.map(group => (
+              <div key={`${group.items[0].kind}-${group.items[0].id}`} className="rounded-md border p-3">
+                <div className="flex gap-3 overflow-x-auto">
+                  {group.items.map((item, index) => (
+                    <div key={`${item.kind}-${item.id}`} className="w-40 shrink-0 space-y-1 text-sm">
+                      <div className="aspect-square overflow-hidden rounded bg-muted">
+                        {item.previewUrl && (
+                          <img src={item.previewUrl} alt={item.title} loading="lazy" className="h-full w-full object-cover" />
+                        )}
+                      </div>
+                      <p className="truncate font-medium" title={item.title}>{item.title}</p>
+                      <p className="text-muted-foreground">
+                        {TYPE_LABELS[item.type] ?? item.type} #{item.id}
+                        {item.creatorId !== null && ` · creator ${item.creatorId}`}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {index === 0 ? (
+                          <Badge variant="secondary">Original</Badge>
+                        ) : (
+                          <Badge variant="outline">{item.distance === 0 ? 'Identical' : `${item.distance} bits off`}</Badge>
+                        )}
+                        {item.isPremium && <Badge>Premium</Badge>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,6 +10,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "./ui/dropdown-menu";
+import { UserSessionsDialog } from "./UserSessionsDialog";
 
 interface FollowerCardProps {
   follower: {
@@ -138,6 +139,7 @@ export function FollowerCard({ follower }: FollowerCardProps) {
       </CardContent>
       <CardFooter className="flex justify-between pt-0 pb-3">
         <Button variant="outline" size="sm" className="text-xs h-8">View Details</Button>
+        <UserSessionsDialog userId={follower.id} userLabel={follower.displayName || follower.username || follower.email} />
         <Button variant="secondary" size="sm" className="text-xs h-8">Message</Button>
       </CardFooter>
     </Card>
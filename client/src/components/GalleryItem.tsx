@@ -2,7 +2,8 @@ import { Button } from "./ui/button";
 import { useToast } from "../hooks/use-toast";
 import type { GalleryImage } from "../types/gallery";
 import { useQueryClient } from "@tanstack/react-query";
-import { API_BASE_URL } from "../lib/config";
+import { API_BASE_URL, mediaUrl } from "../lib/config";
+import { ResponsiveImage } from "./ResponsiveImage";
 
 interface GalleryItemProps {
   image: GalleryImage;
@@ -104,66 +105,23 @@ export function GalleryItem({ image, type = 'gallery' }: GalleryItemProps) {
   };
 
   const copyUrl = () => {
-    navigator.clipboard.writeText(image.url);
+    navigator.clipboard.writeText(mediaUrl(image.url));
     toast({ title: 'Success', description: 'Image URL copied to clipboard' });
   };
 
   return (
     <div className="relative group">
-      <img
-        src={image.url.startsWith('http') ? image.url : image.url.startsWith('/') ? `${API_BASE_URL}${image.url}` : `${API_BASE_URL}/${image.url}`}
+      <ResponsiveImage
+        src={image.url}
+        variants={image.variants}
+        resolveUrl={mediaUrl}
+        sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+        loading="lazy"
         alt={image.title}
         className="w-full h-48 object-cover rounded-lg"
         onError={(e) => {
-          // Handle image loading errors
+          // The server resolves where the file lives, so there's no other path worth trying
           console.error(`Failed to load image: ${image.url}`);
-          
-          // Try alternative path if the original path fails
-          const currentSrc = e.currentTarget.src;
-          console.log('Image load error. Trying fallback from:', currentSrc);
-          
-          // Extract the filename from the URL
-          const imagePath = image.url.split('/').pop();
-          if (!imagePath) {
-            console.error('Could not extract image filename from URL:', image.url);
-            e.currentTarget.src = 'https://placehold.co/400x300?text=Image+Not+Found';
-            return;
-          }
-          
-          // Try different fallback paths in sequence
-          if (!currentSrc.includes('?fallback=')) {
-            // First fallback: direct path to client/public/uploads
-            const fallbackSrc = `/uploads/${imagePath}?fallback=1`;
-            console.log('Trying first fallback URL (direct public path):', fallbackSrc);
-            e.currentTarget.src = fallbackSrc;
-            return;
-          }
-          
-          if (currentSrc.includes('?fallback=1')) {
-            // Second fallback: API_BASE_URL with uploads
-            const secondFallbackSrc = `${API_BASE_URL}/uploads/${imagePath}?fallback=2`;
-            console.log('Trying second fallback URL (API_BASE_URL):', secondFallbackSrc);
-            e.currentTarget.src = secondFallbackSrc;
-            return;
-          }
-          
-          if (currentSrc.includes('?fallback=2')) {
-            // Third fallback: window.location.origin with uploads
-            const thirdFallbackSrc = `${window.location.origin}/uploads/${imagePath}?fallback=3`;
-            console.log('Trying third fallback URL (window.location.origin):', thirdFallbackSrc);
-            e.currentTarget.src = thirdFallbackSrc;
-            return;
-          }
-          
-          if (currentSrc.includes('?fallback=3')) {
-            // Fourth fallback: try the raw image name in case it's in the root
-            const fourthFallbackSrc = `/${imagePath}?fallback=4`;
-            console.log('Trying fourth fallback URL (root path):', fourthFallbackSrc);
-            e.currentTarget.src = fourthFallbackSrc;
-            return;
-          }
-          
-          // If all fallbacks fail, show placeholder
           e.currentTarget.src = 'https://placehold.co/400x300?text=Image+Not+Found';
           e.currentTarget.alt = 'Image failed to load';
         }}
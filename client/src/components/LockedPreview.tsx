@@ -0,0 +1,44 @@
+import { useMemo, type ReactNode } from "react";
+import { Lock } from "lucide-react";
+import { blurHashToDataUrl } from "../lib/blurhash";
+
+interface LockedPreviewProps {
+  teaserUrl?: string | null;
+  blurHash?: string | null;
+  title: string;
+  // Price or subscribe call to action shown over the teaser
+  children: ReactNode;
+  onUnlock: () => void;
+}
+
+/**
+ * Stands in for a premium item the viewer hasn't unlocked. The server only sends a heavily
+ * blurred teaser for these, so there's no real image in the page to pull out of devtools.
+ * The BlurHash paints immediately while the teaser loads.
+ */
+export function LockedPreview({ teaserUrl, blurHash, title, children, onUnlock }: LockedPreviewProps) {
+  const placeholder = useMemo(() => (blurHash ? blurHashToDataUrl(blurHash) : undefined), [blurHash]);
+
+  return (
+    <div
+      className="absolute inset-0 cursor-pointer bg-neutral-900 bg-cover bg-center"
+      style={placeholder ? { backgroundImage: `url(${placeholder})` } : undefined}
+      onClick={onUnlock}
+    >
+      {teaserUrl && (
+        <img
+          src={teaserUrl}
+          alt={`${title} (locked)`}
+          loading="lazy"
+          className="w-full h-full object-cover"
+        />
+      )}
+      <div className="absolute inset-0 bg-black/40 flex items-center justify-center">
+        <div className="text-center space-y-2">
+          <Lock className="mx-auto h-8 w-8 text-white" />
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
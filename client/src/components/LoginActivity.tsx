@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useToast } from "../hooks/use-toast";
+import type { AccountLockout, LoginAttempt } from "@/../../shared/schema";
+
+interface LoginAttemptsResponse {
+  attempts: LoginAttempt[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 25;
+const LOCKOUTS_URL = '/api/admin/lockouts';
+
+const REASON_LABELS: Record<string, string> = {
+  unknown_account: 'Unknown account',
+  invalid_password: 'Wrong password',
+  invalid_code: 'Wrong 2FA code',
+  account_locked: 'Account locked',
+  ip_rate_limited: 'IP rate limited',
+  email_taken: 'Email taken',
+};
+
+export function LoginActivity() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [outcome, setOutcome] = useState<'all' | 'true' | 'false'>('all');
+  const [page, setPage] = useState(1);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (email.trim()) params.set('email', email.trim());
+  if (outcome !== 'all') params.set('success', outcome);
+
+  const { data: attemptsData, isLoading } = useQuery({
+    queryKey: [`/api/admin/login-attempts?${params.toString()}`],
+    queryFn: getQueryFn<LoginAttemptsResponse>({ on401: 'redirect' }),
+  });
+  const { data: lockoutsData } = useQuery({
+    queryKey: [LOCKOUTS_URL],
+    queryFn: getQueryFn<AccountLockout[]>({ on401: 'redirect' }),
+  });
+
+  const attempts = attemptsData?.attempts ?? [];
+  const lockouts = lockoutsData ?? [];
+  const total = attemptsData?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const unlock = async (lockedEmail: string) => {
+    try {
+      await apiRequest('DELETE', `${LOCKOUTS_URL}/${encodeURIComponent(lockedEmail)}`);
+      await queryClient.invalidateQueries({ queryKey: [LOCKOUTS_URL] });
+      toast({ title: 'Success', description: `${lockedEmail} unlocked` });
+    } catch (error) {
+      console.error('Unlock error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to unlock account',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Login Activity</CardTitle>
+        <CardDescription>Recent sign-in attempts and temporarily locked accounts</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {lockouts.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Locked Accounts</h3>
+            {lockouts.map((lockout) => (
+              <div key={lockout.email} className="flex items-center justify-between border rounded-md p-3">
+                <div className="text-sm">
+                  <div className="font-medium">{lockout.email}</div>
+                  <div className="text-muted-foreground">
+                    Locked until {lockout.lockedUntil ? new Date(lockout.lockedUntil).toLocaleString() : '-'}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => unlock(lockout.email)}>
+                  Unlock
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-4">
+          <Input
+            placeholder="Filter by email..."
+            className="max-w-sm"
+            value={email}
+            onChange={(e) => {
+              setEmail(e.target.value);
+              setPage(1);
+            }}
+          />
+          <Select
+            value={outcome}
+            onValueChange={(value) => {
+              setOutcome(value as 'all' | 'true' | 'false');
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Outcome" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All attempts</SelectItem>
+              <SelectItem value="true">Succeeded</SelectItem>
+              <SelectItem value="false">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-6 text-muted-foreground">Loading login activity...</div>
+        ) : attempts.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">No login attempts recorded.</div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="p-2 text-left font-medium">Time</th>
+                  <th className="p-2 text-left font-medium">Type</th>
+                  <th className="p-2 text-left font-medium">Email</th>
+                  <th className="p-2 text-left font-medium">IP Address</th>
+                  <th className="p-2 text-left font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {attempts.map((attempt) => (
+                  <tr key={attempt.id} className="border-b">
+                    <td className="p-2">{new Date(attempt.createdAt).toLocaleString()}</td>
+                    <td className="p-2 capitalize">{attempt.kind.replace('_', ' ')}</td>
+                    <td className="p-2">{attempt.email || '-'}</td>
+                    <td className="p-2">{attempt.ipAddress || '-'}</td>
+                    <td className="p-2">
+                      {attempt.success ? (
+                        <Badge variant="outline">Success</Badge>
+                      ) : (
+                        <Badge variant="destructive">
+                          {(attempt.reason && REASON_LABELS[attempt.reason]) || 'Failed'}
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{total} attempt{total === 1 ? '' : 's'}</span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span>Page {page} of {pageCount}</span>
+            <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { useToast } from "../hooks/use-toast";
+import type { QuarantinedMedia } from "@/../../shared/schema";
+
+const RECONCILIATION_URL = '/api/admin/media/reconciliation';
+const QUARANTINE_URL = '/api/admin/media/quarantine';
+const PAGE_SIZE = 25;
+
+interface ReconciliationReport {
+  store: 'local' | 's3';
+  dryRun: boolean;
+  objects: { count: number; bytes: number };
+  orphans: {
+    count: number;
+    bytes: number;
+    items: Array<{ key: string; size: number; lastModified: string; reason: 'orphan' | 'duplicate'; quarantined: boolean }>;
+  };
+  dangling: {
+    count: number;
+    items: Array<{ table: string; id: number; field: string; url: string; key: string; problem: 'missing' | 'misplaced' }>;
+  };
+  quarantined: { count: number; bytes: number };
+  purged: { count: number; bytes: number };
+  legacyCopiesRemoved: { count: number; bytes: number };
+  failures: number;
+}
+
+interface ReconciliationResponse {
+  running: boolean;
+  run: { id: number; report: ReconciliationReport; startedAt: string; finishedAt: string } | null;
+}
+
+interface QuarantineResponse {
+  items: QuarantinedMedia[];
+  total: number;
+  bytes: number;
+  page: number;
+  pageSize: number;
+}
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function MediaStorageCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+
+  const { data: reconciliation, isLoading } = useQuery({
+    queryKey: [RECONCILIATION_URL],
+    queryFn: getQueryFn<ReconciliationResponse>({ on401: 'redirect' }),
+    // Runs happen in the background; poll until the new report is in
+    refetchInterval: (query) => query.state.data?.running ? 3000 : false,
+  });
+  const running = reconciliation?.running ?? false;
+  const quarantineQuery = `${QUARANTINE_URL}?page=${page}&pageSize=${PAGE_SIZE}`;
+  const { data: quarantine } = useQuery({
+    queryKey: [quarantineQuery],
+    queryFn: getQueryFn<QuarantineResponse>({ on401: 'redirect' }),
+    refetchInterval: running ? 3000 : false,
+  });
+
+  const report = reconciliation?.run?.report;
+  const total = quarantine?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: [RECONCILIATION_URL] });
+    await queryClient.invalidateQueries({ queryKey: [quarantineQuery] });
+  };
+
+  const run = async (dryRun: boolean) => {
+    try {
+      await apiRequest('POST', RECONCILIATION_URL, { dryRun });
+      await refresh();
+      toast({ title: 'Success', description: dryRun ? 'Checking the media store' : 'Cleaning up the media store' });
+    } catch (error) {
+      console.error('Reconciliation error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start reconciliation',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const act = async (entry: QuarantinedMedia, action: 'restore' | 'delete') => {
+    try {
+      if (action === 'restore') {
+        await apiRequest('POST', `${QUARANTINE_URL}/${entry.id}/restore`);
+      } else {
+        await apiRequest('DELETE', `${QUARANTINE_URL}/${entry.id}`);
+      }
+      await refresh();
+      toast({ title: 'Success', description: `${entry.key} ${action === 'restore' ? 'restored' : 'deleted'}` });
+    } catch (error) {
+      console.error('Quarantine action error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : `Failed to ${action} file`,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Media Storage</CardTitle>
+        <CardDescription>
+          Files in the media store that nothing refers to, and records pointing at files that are gone.
+          Orphans are quarantined before they're deleted, and can be restored until then.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" onClick={() => run(true)} disabled={running}>
+            Check now
+          </Button>
+          <Button onClick={() => run(false)} disabled={running}>
+            Clean up now
+          </Button>
+          {running && <span className="text-sm text-muted-foreground">Reconciling...</span>}
+        </div>
+
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading report...</div>
+        ) : !report ? (
+          <div className="text-muted-foreground">No reconciliation has run yet</div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {report.dryRun ? 'Checked' : 'Cleaned up'} {new Date(reconciliation!.run!.finishedAt).toLocaleString()}
+              {' '}({report.store === 's3' ? 'S3' : 'local'} store)
+            </p>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4 text-sm">
+              <div>
+                <div className="text-2xl font-bold">{report.objects.count}</div>
+                <div className="text-muted-foreground">files, {formatMegabytes(report.objects.bytes)}</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.orphans.count}</div>
+                <div className="text-muted-foreground">orphans, {formatMegabytes(report.orphans.bytes)}</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.dangling.count}</div>
+                <div className="text-muted-foreground">dangling references</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.quarantined.count}</div>
+                <div className="text-muted-foreground">
+                  quarantined, {report.purged.count} deleted
+                  {report.legacyCopiesRemoved.count > 0 && `, ${report.legacyCopiesRemoved.count} legacy copies removed`}
+                </div>
+              </div>
+            </div>
+            {report.failures > 0 && (
+              <p className="text-sm text-destructive">{report.failures} file(s) could not be moved or deleted; see the server log</p>
+            )}
+
+            {report.dangling.items.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Dangling References</h3>
+                <div className="rounded-md border overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/50">
+                        <th className="p-2 text-left font-medium">Record</th>
+                        <th className="p-2 text-left font-medium">Field</th>
+                        <th className="p-2 text-left font-medium">URL</th>
+                        <th className="p-2 text-left font-medium">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.dangling.items.map((item) => (
+                        <tr key={`${item.table}-${item.id}-${item.field}`} className="border-b">
+                          <td className="p-2">{item.table} #{item.id}</td>
+                          <td className="p-2">{item.field}</td>
+                          <td className="p-2 break-all">{item.url}</td>
+                          <td className="p-2">
+                            {item.problem === 'missing' ? (
+                              <Badge variant="destructive">Missing</Badge>
+                            ) : (
+                              <Badge variant="outline" title={`Expected at ${item.key}`}>Wrong visibility</Badge>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {report.orphans.items.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Orphaned Files</h3>
+                <div className="rounded-md border overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/50">
+                        <th className="p-2 text-left font-medium">Key</th>
+                        <th className="p-2 text-left font-medium">Size</th>
+                        <th className="p-2 text-left font-medium">Modified</th>
+                        <th className="p-2 text-left font-medium">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.orphans.items.map((item) => (
+                        <tr key={item.key} className="border-b">
+                          <td className="p-2 break-all">{item.key}</td>
+                          <td className="p-2">{formatMegabytes(item.size)}</td>
+                          <td className="p-2">{new Date(item.lastModified).toLocaleString()}</td>
+                          <td className="p-2 space-x-1">
+                            {item.reason === 'duplicate' && <Badge variant="secondary">Stale copy</Badge>}
+                            {item.quarantined ? (
+                              <Badge variant="outline">Quarantined</Badge>
+                            ) : (
+                              <Badge variant="outline">{report.dryRun ? 'Would be quarantined' : 'Too recent'}</Badge>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="font-medium">Quarantine</h3>
+          {total === 0 ? (
+            <div className="text-sm text-muted-foreground">Nothing in quarantine</div>
+          ) : (
+            <>
+              <div className="rounded-md border overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="p-2 text-left font-medium">Original key</th>
+                      <th className="p-2 text-left font-medium">Size</th>
+                      <th className="p-2 text-left font-medium">Deleted after</th>
+                      <th className="p-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {quarantine!.items.map((entry) => (
+                      <tr key={entry.id} className="border-b">
+                        <td className="p-2 break-all">
+                          {entry.key}
+                          {entry.reason === 'duplicate' && <Badge variant="secondary" className="ml-2">Stale copy</Badge>}
+                        </td>
+                        <td className="p-2">{formatMegabytes(entry.size)}</td>
+                        <td className="p-2">{new Date(entry.deleteAfter).toLocaleString()}</td>
+                        <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                          <Button variant="outline" size="sm" onClick={() => act(entry, 'restore')}>
+                            Restore
+                          </Button>
+                          <Button variant="destructive" size="sm" onClick={() => act(entry, 'delete')}>
+                            Delete now
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>{total} file{total === 1 ? '' : 's'}, {formatMegabytes(quarantine!.bytes)}</span>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <span>Page {page} of {pageCount}</span>
+                  <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
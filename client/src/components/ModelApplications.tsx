@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { useToast } from "../hooks/use-toast";
+import { API_BASE_URL } from "../lib/config";
+import type { Model, ModelApplicationStatus } from "@/../../shared/schema";
+
+interface ModelApplicationsResponse {
+  models: Model[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 20;
+
+const STATUS_LABELS: Record<ModelApplicationStatus, string> = {
+  new: 'New',
+  under_review: 'Under Review',
+  accepted: 'Accepted',
+  declined: 'Declined',
+};
+
+const STATUS_VARIANTS: Record<ModelApplicationStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  new: 'default',
+  under_review: 'secondary',
+  accepted: 'outline',
+  declined: 'destructive',
+};
+
+function formatList(value: unknown) {
+  const list = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(list) ? list.join(', ') : '-';
+}
+
+function ApplicationDetails({ model }: { model: Model }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState(model.reviewerNotes ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/models')
+      });
+      toast({ title: 'Success', description: successMessage });
+    } catch (error) {
+      console.error('Model application update error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update application',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isAccepted = model.status === 'accepted';
+
+  return (
+    <DialogContent className="max-w-3xl">
+      <DialogHeader>
+        <DialogTitle>Model Application Details</DialogTitle>
+      </DialogHeader>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <h3 className="font-medium mb-2">Personal Information</h3>
+          <div className="space-y-2">
+            <div><span className="font-medium">Name:</span> {model.firstName} {model.lastName}</div>
+            <div><span className="font-medium">Email:</span> {model.email}</div>
+            <div><span className="font-medium">Phone:</span> {model.phone}</div>
+            <div><span className="font-medium">Date of Birth:</span> {model.dateOfBirth}</div>
+            <div><span className="font-medium">Alias:</span> {model.aliasName || '-'}</div>
+          </div>
+        </div>
+        <div>
+          <h3 className="font-medium mb-2">Social Media</h3>
+          <div className="space-y-2">
+            <div><span className="font-medium">Platforms:</span> {formatList(model.socialPlatforms)}</div>
+            <div><span className="font-medium">Handles:</span> {model.socialHandles || '-'}</div>
+            <div><span className="font-medium">OnlyFans:</span> {model.onlyFansLink || '-'}</div>
+          </div>
+        </div>
+        <div className="col-span-1 md:col-span-2">
+          <h3 className="font-medium mb-2">Photos</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[
+              { label: 'Body Photo', url: model.bodyPhotoUrl },
+              { label: 'License Photo (ID)', url: model.licensePhotoUrl },
+            ].map(({ label, url }) => (
+              <div key={label}>
+                <p className="text-sm mb-1">{label}</p>
+                <a href={`${API_BASE_URL}${url}`} target="_blank" rel="noopener noreferrer">
+                  <img
+                    src={`${API_BASE_URL}${url}`}
+                    alt={label}
+                    className="max-w-full h-auto rounded-md border"
+                    onError={(e) => {
+                      e.currentTarget.src = 'https://placehold.co/400x300?text=Photo+Unavailable';
+                    }}
+                  />
+                </a>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="col-span-1 md:col-span-2 space-y-2">
+          <h3 className="font-medium">Review</h3>
+          <div>
+            <span className="font-medium">Status:</span>{' '}
+            <Badge variant={STATUS_VARIANTS[model.status]}>{STATUS_LABELS[model.status]}</Badge>
+            {model.reviewedAt && (
+              <span className="text-sm text-muted-foreground ml-2">
+                Last reviewed {new Date(model.reviewedAt).toLocaleString()}
+              </span>
+            )}
+          </div>
+          <Textarea
+            placeholder="Reviewer notes (only visible to admins)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+      </div>
+      <DialogFooter className="mt-4">
+        <Button
+          variant="outline"
+          disabled={isSaving}
+          onClick={() => runAction(
+            () => apiRequest('PATCH', `/api/models/${model.id}`, { reviewerNotes: notes || null }),
+            'Notes saved'
+          )}
+        >
+          Save Notes
+        </Button>
+        {!isAccepted && model.status !== 'under_review' && (
+          <Button
+            variant="secondary"
+            disabled={isSaving}
+            onClick={() => runAction(
+              () => apiRequest('PATCH', `/api/models/${model.id}`, { status: 'under_review', reviewerNotes: notes || null }),
+              'Application marked as under review'
+            )}
+          >
+            Mark Under Review
+          </Button>
+        )}
+        {!isAccepted && (
+          <>
+            <Button
+              disabled={isSaving}
+              onClick={() => runAction(
+                () => apiRequest('POST', `/api/models/${model.id}/accept`, { reviewerNotes: notes || null }),
+                'Application accepted and creator account created'
+              )}
+            >
+              Accept
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={isSaving || model.status === 'declined'}
+              onClick={() => runAction(
+                () => apiRequest('PATCH', `/api/models/${model.id}`, { status: 'declined', reviewerNotes: notes || null }),
+                'Application declined'
+              )}
+            >
+              Decline
+            </Button>
+          </>
+        )}
+      </DialogFooter>
+    </DialogContent>
+  );
+}
+
+export function ModelApplications() {
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<ModelApplicationStatus | 'all'>('all');
+  const [page, setPage] = useState(1);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (status !== 'all') params.set('status', status);
+  if (search.trim()) params.set('search', search.trim());
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [`/api/models?${params.toString()}`],
+    queryFn: getQueryFn<ModelApplicationsResponse>({ on401: 'redirect' }),
+  });
+
+  // The query layer falls back to an empty array when the server is unreachable
+  const models = data?.models ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center p-6 text-center">
+        <h3 className="text-lg font-medium mb-2">Error loading model applications</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {error instanceof Error ? error.message : 'Unknown error'}
+        </p>
+        <Button variant="outline" onClick={() => refetch()}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <Input
+          placeholder="Search models..."
+          className="max-w-sm"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setPage(1);
+          }}
+        />
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value as ModelApplicationStatus | 'all');
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading model applications...</div>
+      ) : models.length === 0 ? (
+        <div className="text-center py-12 border border-dashed rounded-lg border-muted-foreground/20">
+          <h3 className="text-lg font-medium mb-2">No Model Applications</h3>
+          <p className="text-muted-foreground max-w-md mx-auto">
+            When models apply to join Babes Espresso, their applications will appear here for review.
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="p-2 text-left font-medium">Name</th>
+                <th className="p-2 text-left font-medium">Email</th>
+                <th className="p-2 text-left font-medium">Alias</th>
+                <th className="p-2 text-left font-medium">Status</th>
+                <th className="p-2 text-left font-medium">Submitted</th>
+                <th className="p-2 text-left font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {models.map((model) => (
+                <tr key={model.id} className="border-b">
+                  <td className="p-2">{model.firstName} {model.lastName}</td>
+                  <td className="p-2">{model.email}</td>
+                  <td className="p-2">{model.aliasName || '-'}</td>
+                  <td className="p-2">
+                    <Badge variant={STATUS_VARIANTS[model.status]}>{STATUS_LABELS[model.status]}</Badge>
+                  </td>
+                  <td className="p-2">{model.createdAt ? new Date(model.createdAt).toLocaleDateString() : '-'}</td>
+                  <td className="p-2">
+                    <Dialog>
+                      <DialogTrigger asChild>
+                        <Button variant="outline" size="sm">View Details</Button>
+                      </DialogTrigger>
+                      <ApplicationDetails model={model} />
+                    </Dialog>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{total} application{total === 1 ? '' : 's'}</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span>Page {page} of {pageCount}</span>
+          <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+import { useToast } from "../hooks/use-toast";
+import type { ContentApprovalMode, PlatformSettings } from "@/../../shared/schema";
+
+const SETTINGS_URL = '/api/admin/settings';
+
+const POLICIES: { key: keyof PlatformSettings; label: string; description: string }[] = [
+  {
+    key: 'requireAdminTwoFactor',
+    label: 'Require two-factor authentication for admins',
+    description: 'Admins without 2FA are sent to enrollment and blocked from the dashboard until they finish.'
+  },
+];
+
+const APPROVAL_MODE_LABELS: Record<ContentApprovalMode, string> = {
+  off: 'Publish immediately',
+  new_creators: 'Review new creators',
+  all: 'Review every post',
+};
+
+export function PlatformSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: [SETTINGS_URL],
+    queryFn: getQueryFn<PlatformSettings>({ on401: 'redirect' }),
+  });
+
+  const updateSetting = async (key: keyof PlatformSettings, value: boolean | number | string) => {
+    try {
+      const updated = await apiRequest<PlatformSettings>('PATCH', SETTINGS_URL, { [key]: value });
+      queryClient.setQueryData([SETTINGS_URL], updated);
+      toast({ title: 'Success', description: 'Settings updated' });
+    } catch (error) {
+      console.error('Settings update error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update settings',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>Platform Policies</CardTitle>
+        <CardDescription>Security and moderation rules that apply across the site</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !settings ? (
+          <div className="text-muted-foreground">Loading settings...</div>
+        ) : (
+          POLICIES.map(({ key, label, description }) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor={key}>{label}</Label>
+                <p className="text-sm text-muted-foreground">{description}</p>
+              </div>
+              <Switch
+                id={key}
+                checked={Boolean(settings[key])}
+                onCheckedChange={(checked) => updateSetting(key, checked)}
+              />
+            </div>
+          ))
+        )}
+        {settings && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="reportHideThreshold">Hide content after this many reports</Label>
+              <p className="text-sm text-muted-foreground">
+                Reported items are hidden until an admin reviews them once this many users have reported them. 0 never hides anything automatically.
+              </p>
+            </div>
+            <Input
+              id="reportHideThreshold"
+              key={settings.reportHideThreshold}
+              type="number"
+              min={0}
+              max={100}
+              className="w-24"
+              defaultValue={settings.reportHideThreshold}
+              onBlur={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isInteger(value) && value !== settings.reportHideThreshold) {
+                  updateSetting('reportHideThreshold', value);
+                }
+              }}
+            />
+          </div>
+        )}
+        {settings && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="contentApprovalMode">Content approval</Label>
+              <p className="text-sm text-muted-foreground">
+                Posts that need approval stay hidden until an admin approves them from the approval queue.
+              </p>
+            </div>
+            <Select
+              value={settings.contentApprovalMode}
+              onValueChange={(value) => updateSetting('contentApprovalMode', value)}
+            >
+              <SelectTrigger id="contentApprovalMode" className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(APPROVAL_MODE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {settings?.contentApprovalMode === 'new_creators' && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="newCreatorApprovedPosts">Posts to review for new creators</Label>
+              <p className="text-sm text-muted-foreground">
+                A creator's posts are reviewed until this many of them have been approved.
+              </p>
+            </div>
+            <Input
+              id="newCreatorApprovedPosts"
+              key={settings.newCreatorApprovedPosts}
+              type="number"
+              min={1}
+              max={100}
+              className="w-24"
+              defaultValue={settings.newCreatorApprovedPosts}
+              onBlur={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isInteger(value) && value !== settings.newCreatorApprovedPosts) {
+                  updateSetting('newCreatorApprovedPosts', value);
+                }
+              }}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
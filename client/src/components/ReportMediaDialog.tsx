@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { apiRequest } from "../lib/queryClient";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { useToast } from "../hooks/use-toast";
+import type { ReportReason } from "@/../../shared/schema";
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  underage: 'Appears to involve a minor',
+  non_consensual: 'Shared without consent',
+  copyright: 'Copyright infringement',
+  harassment: 'Harassment or hate',
+  spam: 'Spam or scam',
+  other: 'Something else',
+};
+
+interface ReportMediaDialogProps {
+  kind: 'gallery' | 'content';
+  id: number;
+  title: string;
+  triggerClassName?: string;
+}
+
+export function ReportMediaDialog({ kind, id, title, triggerClassName }: ReportMediaDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async () => {
+    if (!reason) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', '/api/reports', {
+        mediaKind: kind,
+        mediaId: id,
+        reason,
+        details: details.trim() || undefined
+      });
+      setOpen(false);
+      setReason('');
+      setDetails('');
+      toast({ title: 'Success', description: 'Thanks, our moderators will take a look' });
+    } catch (error) {
+      console.error('Report error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send report',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className={triggerClassName}>
+          Report
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report "{title}"</DialogTitle>
+          <DialogDescription>
+            Reports are anonymous to the creator. Items reported by several people are hidden until a moderator reviews them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`report-reason-${kind}-${id}`}>Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+              <SelectTrigger id={`report-reason-${kind}-${id}`}>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REPORT_REASON_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`report-details-${kind}-${id}`}>Details (optional)</Label>
+            <Textarea
+              id={`report-details-${kind}-${id}`}
+              value={details}
+              maxLength={1000}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={submit} disabled={!reason || isSubmitting}>
+            {isSubmitting ? 'Sending...' : 'Send report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+import { useState, type ImgHTMLAttributes } from "react";
+import type { ImageVariant } from "../types/gallery";
+
+interface ResponsiveImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+  src: string;
+  variants?: ImageVariant[];
+  // Layout width of the image, e.g. "(min-width: 1024px) 33vw, 100vw"
+  sizes: string;
+  resolveUrl?: (url: string) => string;
+}
+
+const SOURCE_FORMATS: Array<ImageVariant['format']> = ['avif', 'webp'];
+
+function srcSetFor(variants: ImageVariant[], format: ImageVariant['format'], resolveUrl: (url: string) => string) {
+  return variants
+    .filter(variant => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(variant => `${resolveUrl(variant.url)} ${variant.width}w`)
+    .join(', ');
+}
+
+/**
+ * Renders a <picture> that lets the browser pick the smallest AVIF/WebP/JPEG rendition
+ * for the layout width. Items without variants (older uploads) fall back to a plain <img>.
+ */
+export function ResponsiveImage({ src, variants, sizes, resolveUrl = url => url, onError, ...imgProps }: ResponsiveImageProps) {
+  // If a rendition fails to load, drop to the plain src so the caller's onError fallbacks still apply
+  const [variantsFailed, setVariantsFailed] = useState(false);
+
+  if (!variants?.length || variantsFailed) {
+    return <img src={resolveUrl(src)} onError={onError} {...imgProps} />;
+  }
+
+  return (
+    <picture>
+      {SOURCE_FORMATS.map(format => {
+        const srcSet = srcSetFor(variants, format, resolveUrl);
+        return srcSet ? <source key={format} type={`image/${format}`} srcSet={srcSet} sizes={sizes} /> : null;
+      })}
+      <img
+        src={resolveUrl(src)}
+        srcSet={srcSetFor(variants, 'jpeg', resolveUrl) || undefined}
+        sizes={sizes}
+        onError={() => setVariantsFailed(true)}
+        {...imgProps}
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,55 @@
+import { Pause, Play, RotateCw, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Progress } from "./ui/progress";
+import type { ResumableUpload } from "../hooks/use-resumable-upload";
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Progress and pause/resume controls for a useResumableUpload upload. Renders nothing while
+ * idle, so forms can mount it unconditionally.
+ */
+export function UploadProgress({ upload }: { upload: ResumableUpload }) {
+  if (upload.status === 'idle') {
+    return null;
+  }
+
+  const percent = upload.total > 0 ? Math.round((upload.uploaded / upload.total) * 100) : 0;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="truncate font-medium">{upload.fileName}</span>
+        <span className="shrink-0 text-muted-foreground">
+          {upload.status === 'complete'
+            ? 'Uploaded, processing...'
+            : `${formatMegabytes(upload.uploaded)} of ${formatMegabytes(upload.total)}`}
+        </span>
+      </div>
+      <Progress value={percent} className="h-2" />
+      {upload.status === 'error' && (
+        <p className="text-sm text-destructive">{upload.error} Your progress is saved.</p>
+      )}
+      {upload.status !== 'complete' && (
+        <div className="flex justify-end gap-2">
+          {upload.status === 'uploading' ? (
+            <Button type="button" variant="outline" size="sm" onClick={upload.pause}>
+              <Pause className="mr-1 h-4 w-4" /> Pause
+            </Button>
+          ) : (
+            <Button type="button" variant="outline" size="sm" onClick={upload.resume}>
+              {upload.status === 'error'
+                ? <><RotateCw className="mr-1 h-4 w-4" /> Retry</>
+                : <><Play className="mr-1 h-4 w-4" /> Resume</>}
+            </Button>
+          )}
+          <Button type="button" variant="ghost" size="sm" onClick={upload.cancel}>
+            <X className="mr-1 h-4 w-4" /> Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { useToast } from "../hooks/use-toast";
+
+interface UserSession {
+  handle: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+interface UserSessionsDialogProps {
+  userId: number;
+  userLabel: string;
+}
+
+function SessionList({ userId }: { userId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRevoking, setIsRevoking] = useState(false);
+  const sessionsUrl = `/api/admin/users/${userId}/sessions`;
+
+  const { data, isLoading } = useQuery({
+    queryKey: [sessionsUrl],
+    queryFn: getQueryFn<UserSession[]>({ on401: 'redirect' }),
+  });
+  const sessions = data ?? [];
+
+  const revoke = async (url: string, successMessage: string) => {
+    setIsRevoking(true);
+    try {
+      await apiRequest('DELETE', url);
+      await queryClient.invalidateQueries({ queryKey: [sessionsUrl] });
+      toast({ title: 'Success', description: successMessage });
+    } catch (error) {
+      console.error('Session revoke error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to revoke session',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-6 text-muted-foreground">Loading sessions...</div>;
+  }
+
+  return (
+    <>
+      {sessions.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">No active sessions.</div>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {sessions.map((session) => (
+            <div key={session.handle} className="flex items-start justify-between gap-4 border rounded-md p-3">
+              <div className="text-sm space-y-1 min-w-0">
+                <div className="font-medium truncate">{session.userAgent || 'Unknown device'}</div>
+                <div className="text-muted-foreground">
+                  {session.ipAddress || 'Unknown IP'} · Last active {new Date(session.updatedAt).toLocaleString()}
+                </div>
+                <div className="text-muted-foreground">
+                  Expires {new Date(session.expiresAt).toLocaleString()}
+                </div>
+              </div>
+              {session.current ? (
+                <Badge variant="secondary">This session</Badge>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isRevoking}
+                  onClick={() => revoke(`${sessionsUrl}/${encodeURIComponent(session.handle)}`, 'Session revoked')}
+                >
+                  Revoke
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <DialogFooter>
+        <Button
+          variant="destructive"
+          disabled={isRevoking || sessions.every((session) => session.current)}
+          onClick={() => revoke(sessionsUrl, 'All sessions revoked')}
+        >
+          Revoke All
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+export function UserSessionsDialog({ userId, userLabel }: UserSessionsDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">Sessions</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Active Sessions</DialogTitle>
+          <DialogDescription>
+            Devices currently signed in as {userLabel}. Revoking a session signs that device out.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Only fetch while open so every card doesn't query on render */}
+        {open && <SessionList userId={userId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
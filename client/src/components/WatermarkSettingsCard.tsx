@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { API_BASE_URL } from "../lib/config";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Separator } from "./ui/separator";
+import { Slider } from "./ui/slider";
+import { Switch } from "./ui/switch";
+import { useToast } from "../hooks/use-toast";
+import { watermarkPositions, type PlatformSettings, type User } from "@/../../shared/schema";
+
+const SETTINGS_URL = '/api/admin/settings';
+
+const POSITION_LABELS: Record<PlatformSettings['watermarkPosition'], string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+  center: 'Center',
+};
+
+interface LeakTrace {
+  viewer: Pick<User, 'id' | 'username' | 'email' | 'role'> | null;
+  viewerId: number;
+  confidence: number;
+}
+
+export function WatermarkSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [opacity, setOpacity] = useState<number | null>(null);
+  const [traceKind, setTraceKind] = useState<'content' | 'gallery'>('content');
+  const [traceId, setTraceId] = useState('');
+  const [leakedFile, setLeakedFile] = useState<File | null>(null);
+  const [tracing, setTracing] = useState(false);
+  const [trace, setTrace] = useState<LeakTrace | null>(null);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: [SETTINGS_URL],
+    queryFn: getQueryFn<PlatformSettings>({ on401: 'redirect' }),
+  });
+
+  const updateSettings = async (changes: Partial<PlatformSettings>) => {
+    try {
+      const updated = await apiRequest<PlatformSettings>('PATCH', SETTINGS_URL, changes);
+      queryClient.setQueryData([SETTINGS_URL], updated);
+      toast({ title: 'Success', description: 'Settings updated' });
+    } catch (error) {
+      console.error('Settings update error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update settings',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const traceLeak = async () => {
+    if (!leakedFile || !traceId) return;
+    setTracing(true);
+    setTrace(null);
+    try {
+      const formData = new FormData();
+      formData.append('image', leakedFile);
+      const response = await fetch(`${API_BASE_URL}/api/admin/media/${traceKind}/${traceId}/trace`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Trace failed');
+      }
+      setTrace(data);
+    } catch (error) {
+      console.error('Leak trace error:', error);
+      toast({
+        title: 'No match',
+        description: error instanceof Error ? error.message : 'Failed to trace image',
+        variant: 'destructive'
+      });
+    } finally {
+      setTracing(false);
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>Watermarks</CardTitle>
+        <CardDescription>Brand preview images and trace leaked premium images back to the viewer</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !settings ? (
+          <div className="text-muted-foreground">Loading settings...</div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="watermarkPreviews">Watermark uploaded images</Label>
+                <p className="text-sm text-muted-foreground">
+                  New uploads get the creator's alias and the site logo on every size, full size included.
+                </p>
+              </div>
+              <Switch
+                id="watermarkPreviews"
+                checked={settings.watermarkPreviews}
+                onCheckedChange={(checked) => updateSettings({ watermarkPreviews: checked })}
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Position</Label>
+                <Select
+                  value={settings.watermarkPosition}
+                  onValueChange={(value) => updateSettings({ watermarkPosition: value as PlatformSettings['watermarkPosition'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {watermarkPositions.map(position => (
+                      <SelectItem key={position} value={position}>{POSITION_LABELS[position]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Opacity: {Math.round((opacity ?? settings.watermarkOpacity) * 100)}%</Label>
+                <Slider
+                  min={10}
+                  max={100}
+                  step={5}
+                  value={[Math.round((opacity ?? settings.watermarkOpacity) * 100)]}
+                  onValueChange={([value]) => setOpacity(value / 100)}
+                  onValueCommit={([value]) => {
+                    setOpacity(null);
+                    updateSettings({ watermarkOpacity: value / 100 });
+                  }}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="traceablePremiumMedia">Traceable premium images</Label>
+                <p className="text-sm text-muted-foreground">
+                  Hide the viewer's account id in every premium image they're served. Uses more server CPU.
+                </p>
+              </div>
+              <Switch
+                id="traceablePremiumMedia"
+                checked={settings.traceablePremiumMedia}
+                onCheckedChange={(checked) => updateSettings({ traceablePremiumMedia: checked })}
+              />
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Trace a leaked image</Label>
+            <p className="text-sm text-muted-foreground">
+              Upload the leaked copy and pick the item it was taken from.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={traceKind} onValueChange={(value) => setTraceKind(value as 'content' | 'gallery')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="content">Content</SelectItem>
+                <SelectItem value="gallery">Gallery</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-28"
+              type="number"
+              min={1}
+              placeholder="Item ID"
+              value={traceId}
+              onChange={(e) => setTraceId(e.target.value)}
+            />
+            <Input
+              className="max-w-xs"
+              type="file"
+              accept="image/*"
+              onChange={(e) => setLeakedFile(e.target.files?.[0] ?? null)}
+            />
+            <Button onClick={traceLeak} disabled={tracing || !leakedFile || !traceId}>
+              {tracing ? 'Tracing...' : 'Trace'}
+            </Button>
+          </div>
+          {trace && (
+            <div className="rounded-md border p-3 text-sm">
+              {trace.viewer ? (
+                <p>
+                  Served to <span className="font-medium">{trace.viewer.username}</span> ({trace.viewer.email}, {trace.viewer.role})
+                </p>
+              ) : (
+                <p>Served to account #{trace.viewerId}, which no longer exists</p>
+              )}
+              <p className="text-muted-foreground">Match confidence: {Math.round(trace.confidence * 100)}%</p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+import { useCallback, useRef, useState } from 'react';
+import { cancelResumableUpload, forgetResumableUpload, uploadResumable } from '../lib/resumableUpload';
+
+export type ResumableUploadStatus = 'idle' | 'uploading' | 'paused' | 'error' | 'complete';
+
+export interface ResumableUploadState {
+  status: ResumableUploadStatus;
+  fileName?: string;
+  uploaded: number;
+  total: number;
+  error?: string;
+}
+
+export interface ResumableUpload extends ResumableUploadState {
+  // Resolves with the upload id once the whole file is on the server, however many pauses
+  // and retries that takes; rejects only if the upload is cancelled
+  upload: (file: File) => Promise<string>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Call after the form has been submitted with the upload id
+  finish: () => void;
+}
+
+const IDLE: ResumableUploadState = { status: 'idle', uploaded: 0, total: 0 };
+
+export function useResumableUpload(): ResumableUpload {
+  const [state, setState] = useState<ResumableUploadState>(IDLE);
+  const fileRef = useRef<File | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const settleRef = useRef<{ resolve: (id: string) => void; reject: (error: Error) => void } | null>(null);
+
+  const run = useCallback(async () => {
+    const file = fileRef.current;
+    if (!file) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState(current => ({ ...current, status: 'uploading', error: undefined }));
+    try {
+      const uploadId = await uploadResumable(file, {
+        signal: controller.signal,
+        onProgress: (uploaded, total) => setState(current => ({ ...current, uploaded, total }))
+      });
+      setState(current => ({ ...current, status: 'complete', uploaded: current.total }));
+      settleRef.current?.resolve(uploadId);
+      settleRef.current = null;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Paused or cancelled; cancel() has already settled the promise if it needed to
+        return;
+      }
+      console.error('Resumable upload error:', error);
+      setState(current => ({
+        ...current,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Upload failed'
+      }));
+    }
+  }, []);
+
+  const upload = useCallback((file: File) => {
+    fileRef.current = file;
+    setState({ status: 'uploading', fileName: file.name, uploaded: 0, total: file.size });
+    const promise = new Promise<string>((resolve, reject) => {
+      settleRef.current = { resolve, reject };
+    });
+    void run();
+    return promise;
+  }, [run]);
+
+  const pause = useCallback(() => {
+    controllerRef.current?.abort();
+    setState(current => (current.status === 'uploading' ? { ...current, status: 'paused' } : current));
+  }, []);
+
+  const resume = useCallback(() => {
+    void run();
+  }, [run]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    if (fileRef.current) {
+      void cancelResumableUpload(fileRef.current);
+    }
+    fileRef.current = null;
+    settleRef.current?.reject(new Error('Upload cancelled'));
+    settleRef.current = null;
+    setState(IDLE);
+  }, []);
+
+  const finish = useCallback(() => {
+    if (fileRef.current) {
+      forgetResumableUpload(fileRef.current);
+    }
+    fileRef.current = null;
+    setState(IDLE);
+  }, []);
+
+  return { ...state, upload, pause, resume, cancel, finish };
+}
@@ -0,0 +1,95 @@
+// BlurHash decoder (https://blurha.sh), matching the encoder in server/utils/blurhash.ts
+
+const BASE83_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function decodeBase83(value: string) {
+  let result = 0;
+  for (const char of value) {
+    const digit = BASE83_DIGITS.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid BlurHash character: ${char}`);
+    }
+    result = result * 83 + digit;
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number) {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearTosRGB(value: number) {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255);
+}
+
+function signPow(value: number, exponent: number) {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+// Decodes a hash into RGBA pixels of the given size
+export function decodeBlurHash(hash: string, width: number, height: number): Uint8ClampedArray {
+  const sizeFlag = decodeBase83(hash[0]);
+  const componentsX = (sizeFlag % 9) + 1;
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  if (hash.length !== 4 + 2 * componentsX * componentsY) {
+    throw new Error('Invalid BlurHash length');
+  }
+
+  const maximumValue = (decodeBase83(hash[1]) + 1) / 166;
+  const colors: Array<[number, number, number]> = [];
+  const dc = decodeBase83(hash.slice(2, 6));
+  colors.push([sRGBToLinear(dc >> 16), sRGBToLinear((dc >> 8) & 255), sRGBToLinear(dc & 255)]);
+  for (let i = 1; i < componentsX * componentsY; i++) {
+    const ac = decodeBase83(hash.slice(4 + i * 2, 6 + i * 2));
+    const unquantise = (value: number) => signPow((value - 9) / 9, 2) * maximumValue;
+    colors.push([
+      unquantise(Math.floor(ac / (19 * 19))),
+      unquantise(Math.floor(ac / 19) % 19),
+      unquantise(ac % 19)
+    ]);
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const color = colors[i + j * componentsX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+      const offset = (y * width + x) * 4;
+      pixels[offset] = linearTosRGB(r);
+      pixels[offset + 1] = linearTosRGB(g);
+      pixels[offset + 2] = linearTosRGB(b);
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+// A tiny PNG of the hash, for use as a CSS background while the teaser image loads
+export function blurHashToDataUrl(hash: string, width = 32, height = 32): string | undefined {
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return undefined;
+    }
+    context.putImageData(new ImageData(decodeBlurHash(hash, width, height), width, height), 0, 0);
+    return canvas.toDataURL();
+  } catch (error) {
+    console.warn('Could not decode BlurHash:', error);
+    return undefined;
+  }
+}
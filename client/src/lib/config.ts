@@ -3,6 +3,13 @@ export const API_BASE_URL = window.location.hostname === 'localhost'
   ? 'http://localhost:3020' 
   : window.location.origin;
 
+// Media URLs from the API are either absolute (a CDN, a presigned bucket URL) or paths on the
+// API server, which serves or redirects to the file wherever it's stored
+export function mediaUrl(url: string) {
+  if (url.startsWith('http')) return url;
+  return url.startsWith('/') ? `${API_BASE_URL}${url}` : `${API_BASE_URL}/${url}`;
+}
+
 // Fallback ports to try if the main port is not working
 export const FALLBACK_PORTS = [3020, 3021, 3022, 3023, 3024, 3025];
 
@@ -0,0 +1,158 @@
+import { API_BASE_URL } from './config';
+
+// Client side of the /api/uploads protocol: the file goes up in checksummed chunks, and an
+// interrupted upload carries on from the server's offset instead of starting over. The
+// session id is kept in localStorage, so this also works after a reload.
+
+export interface UploadSessionInfo {
+  id: string;
+  offset: number;
+  size: number;
+  complete: boolean;
+  chunkSize: number;
+  expiresAt: string;
+}
+
+export interface ResumableUploadOptions {
+  // Aborting pauses the upload; calling uploadResumable again with the same file resumes it
+  signal?: AbortSignal;
+  onProgress?: (uploaded: number, total: number) => void;
+}
+
+export class UploadRequestError extends Error {
+  constructor(message: string, public status: number, public code?: string, public offset?: number) {
+    super(message);
+    this.name = 'UploadRequestError';
+  }
+}
+
+const STORAGE_PREFIX = 'resumable-upload:';
+// A flaky connection gets this many tries per chunk, waiting 1s, 2s, 4s... in between
+const MAX_RETRIES = 5;
+// Refusals that mean "send from this offset", not "give up"
+const RECOVERABLE_CODES = ['OFFSET_MISMATCH', 'CHECKSUM_MISMATCH', 'UPLOAD_BUSY'];
+
+function storageKey(file: File) {
+  return `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function pausedError() {
+  return new DOMException('Upload paused', 'AbortError');
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`, { ...init, credentials: 'include' });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new UploadRequestError(data.message || `Request failed with status ${response.status}`, response.status, data.code, data.offset);
+  }
+  return data as T;
+}
+
+async function sha256Base64(data: ArrayBuffer) {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  let binary = '';
+  digest.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(pausedError());
+    }, { once: true });
+  });
+}
+
+async function findOrCreateSession(file: File): Promise<UploadSessionInfo> {
+  const storedId = localStorage.getItem(storageKey(file));
+  if (storedId) {
+    try {
+      return await request<UploadSessionInfo>(`/api/uploads/${storedId}`);
+    } catch (error) {
+      // Expired, already used, or swept; start a new one
+      localStorage.removeItem(storageKey(file));
+    }
+  }
+
+  const session = await request<UploadSessionInfo>('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filename: file.name, mimeType: file.type, size: file.size })
+  });
+  localStorage.setItem(storageKey(file), session.id);
+  return session;
+}
+
+/**
+ * Uploads the file, or the rest of it, and resolves with the upload id to submit in place of
+ * the file. Rejects with an AbortError when paused through the signal.
+ */
+export async function uploadResumable(file: File, { signal, onProgress }: ResumableUploadOptions = {}): Promise<string> {
+  const session = await findOrCreateSession(file);
+  let offset = session.offset;
+  let retries = 0;
+  onProgress?.(offset, file.size);
+
+  while (offset < file.size) {
+    if (signal?.aborted) {
+      throw pausedError();
+    }
+
+    const chunk = await file.slice(offset, offset + session.chunkSize).arrayBuffer();
+    try {
+      const updated = await request<UploadSessionInfo>(`/api/uploads/${session.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': String(offset),
+          'Upload-Checksum': `sha256 ${await sha256Base64(chunk)}`
+        },
+        body: chunk,
+        signal
+      });
+      offset = updated.offset;
+      retries = 0;
+      onProgress?.(offset, file.size);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw error;
+      }
+      const recoverable = !(error instanceof UploadRequestError)
+        || error.status >= 500
+        || (error.code !== undefined && RECOVERABLE_CODES.includes(error.code));
+      if (!recoverable || retries >= MAX_RETRIES) {
+        if (error instanceof UploadRequestError && (error.status === 404 || error.status === 410)) {
+          localStorage.removeItem(storageKey(file));
+        }
+        throw error;
+      }
+      if (error instanceof UploadRequestError && error.offset !== undefined) {
+        offset = error.offset;
+      }
+      await wait(1000 * 2 ** retries, signal);
+      retries++;
+    }
+  }
+
+  return session.id;
+}
+
+// Called once the form holding the upload id has been submitted; the server has used the session up
+export function forgetResumableUpload(file: File) {
+  localStorage.removeItem(storageKey(file));
+}
+
+export async function cancelResumableUpload(file: File) {
+  const storedId = localStorage.getItem(storageKey(file));
+  localStorage.removeItem(storageKey(file));
+  if (storedId) {
+    await request(`/api/uploads/${storedId}`, { method: 'DELETE' }).catch(error => {
+      console.warn('Could not cancel upload:', error);
+    });
+  }
+}
@@ -23,7 +23,6 @@ import {
 } from "../components/ui/dialog";
 import { useState, Suspense, useEffect } from "react";
 import { useToast } from "../hooks/use-toast";
-import type { Model } from "@/../../shared/schema";
 import type { GalleryImage } from "../types/gallery";
 import { 
   DropdownMenu, 
@@ -38,6 +37,16 @@ import { GalleryItem } from '../components/GalleryItem';
 import { CreatorCard } from '../components/CreatorCard';
 import { CreatorContent } from '../components/CreatorContent';
 import { FollowerCard } from '../components/FollowerCard';
+import { ModelApplications } from '../components/ModelApplications';
+import { PlatformSettingsCard } from '../components/PlatformSettingsCard';
+import { WatermarkSettingsCard } from '../components/WatermarkSettingsCard';
+import { DuplicateMediaCard } from '../components/DuplicateMediaCard';
+import { MediaStorageCard } from '../components/MediaStorageCard';
+import { AuditLogCard } from '../components/AuditLogCard';
+import { LoginActivity } from '../components/LoginActivity';
+import { ContentApprovalCard, FlaggedContentCard } from '../components/DashboardComponents';
+import { UploadProgress } from '../components/UploadProgress';
+import { useResumableUpload } from '../hooks/use-resumable-upload';
 import { API_BASE_URL } from "../lib/config";
 
 interface UploadFormData {
@@ -61,9 +70,6 @@ export default function AdminDashboard() {
   const [selectedCreatorId, setSelectedCreatorId] = useState<number | null>(null);
   const [selectedCreatorName, setSelectedCreatorName] = useState<string | null>(null);
   const [viewingContent, setViewingContent] = useState(false);
-  const [modelsData, setModelsData] = useState<Model[]>([]);
-  const [modelsLoading, setModelsLoading] = useState(true);
-  const [modelsError, setModelsError] = useState<Error | null>(null);
   const [uploadFormData, setUploadFormData] = useState<UploadFormData>({
     title: '',
     description: '',
@@ -77,35 +83,7 @@ export default function AdminDashboard() {
     isPremium: false
   });
   const [galleryDialogOpen, setGalleryDialogOpen] = useState(false);
-
-  useEffect(() => {
-    const fetchModels = async () => {
-      setModelsLoading(true);
-      setModelsError(null);
-      
-      try {
-        console.log('⭐️ Starting models data fetch...');
-        const startTime = Date.now();
-        
-        const data = await apiRequest<any[]>('/api/models', {}, 15000);
-        const duration = Date.now() - startTime;
-        
-        console.log(`⭐️ Models data fetch completed in ${duration}ms`);
-        console.log('⭐️ Models data received:', data);
-        
-        setModelsData(Array.isArray(data) ? data : []);
-      } catch (error) {
-        console.error('⭐️ Models fetch error:', error);
-        setModelsError(error instanceof Error ? error : new Error('Unknown error'));
-        console.log('⭐️ Using empty fallback data for models');
-        setModelsData([]);
-      } finally {
-        setModelsLoading(false);
-      }
-    };
-
-    fetchModels();
-  }, [toast]);
+  const resumableUpload = useResumableUpload();
 
   const { data: galleryData = [], error: galleryError, isLoading: galleryLoading } = useQuery({
     queryKey: ['gallery'],
@@ -208,14 +186,6 @@ export default function AdminDashboard() {
     }
   });
 
-  const filteredModels = modelsData
-    .filter((model) =>
-      model.first_name.toLowerCase().includes(search.toLowerCase()) ||
-      model.last_name.toLowerCase().includes(search.toLowerCase()) ||
-      model.email.toLowerCase().includes(search.toLowerCase()) ||
-      (model.alias_name && model.alias_name.toLowerCase().includes(search.toLowerCase()))
-    );
-
   const handleProfilePictureChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0] || null;
     setProfilePicture(file);
@@ -306,11 +276,11 @@ export default function AdminDashboard() {
     }
 
     // Validate file size
-    const maxSize = 5 * 1024 * 1024; // 5MB
+    const maxSize = 50 * 1024 * 1024; // 50MB
     if (data.file.size > maxSize) {
       toast({ 
         title: 'Error', 
-        description: 'File size too large. Maximum allowed size is 5MB.',
+        description: 'File size too large. Maximum allowed size is 50MB.',
         variant: 'destructive'
       });
       return;
@@ -331,8 +301,18 @@ export default function AdminDashboard() {
       endpoint: `${API_BASE_URL}/api/${type}`
     });
 
+    // The file goes up in resumable chunks first; the form then refers to it by upload id
+    let uploadId: string;
+    try {
+      uploadId = await resumableUpload.upload(data.file);
+    } catch (error) {
+      // Cancelled from the progress controls
+      loadingToast.dismiss();
+      return;
+    }
+
     const formData = new FormData();
-    formData.append('image', data.file);
+    formData.append('uploadId', uploadId);
     formData.append('title', data.title || data.file.name);
     formData.append('description', data.description);
     formData.append('tags', JSON.stringify(data.tags.split(',').map(tag => tag.trim()).filter(Boolean)));
@@ -355,11 +335,20 @@ export default function AdminDashboard() {
       }, 120000);
       
       console.log('Upload successful:', responseData);
+      resumableUpload.finish();
 
-      toast({ 
-        title: 'Success', 
-        description: `${type.charAt(0).toUpperCase() + type.slice(1)} uploaded successfully` 
-      });
+      // Only one toast shows at a time, so a duplicate warning takes the place of the success message
+      if (responseData.duplicateWarning) {
+        toast({
+          title: 'Uploaded, but it may be a duplicate',
+          description: `${responseData.duplicateWarning.message} See the Duplicates tab to compare.`
+        });
+      } else {
+        toast({ 
+          title: 'Success', 
+          description: `${type.charAt(0).toUpperCase() + type.slice(1)} uploaded successfully` 
+        });
+      }
       
       // Close the dialog after successful upload
       setGalleryDialogOpen(false);
@@ -386,6 +375,8 @@ export default function AdminDashboard() {
       });
     } catch (error) {
       console.error('Upload error:', error);
+      // The server has taken the uploaded file either way, so a retry starts a fresh upload
+      resumableUpload.finish();
       
       if (error instanceof Error) {
         if (error.message.includes('timeout')) {
@@ -571,13 +562,16 @@ export default function AdminDashboard() {
       </div>
 
       <Tabs defaultValue="dashboard" className="space-y-8">
-        <TabsList className="grid grid-cols-2 md:grid-cols-5 lg:grid-cols-7 w-full">
+        <TabsList className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 w-full">
           <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
           <TabsTrigger value="gallery">Gallery</TabsTrigger>
           <TabsTrigger value="featured">Featured</TabsTrigger>
           <TabsTrigger value="models">Models</TabsTrigger>
           <TabsTrigger value="creators">Creators</TabsTrigger>
           <TabsTrigger value="followers">Followers</TabsTrigger>
+          <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+          <TabsTrigger value="storage">Storage</TabsTrigger>
+          <TabsTrigger value="audit">Audit Log</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
@@ -763,6 +757,15 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
           </div>
+          <div className="mt-4">
+            <ContentApprovalCard />
+          </div>
+          <div className="mt-4">
+            <FlaggedContentCard />
+          </div>
+          <div className="mt-4">
+            <LoginActivity />
+          </div>
         </TabsContent>
 
         <TabsContent value="gallery">
@@ -942,12 +945,18 @@ export default function AdminDashboard() {
                           }}
                         />
                         <p className="text-sm text-muted-foreground">
-                          Supported formats: JPEG, PNG, WebP. Max size: 5MB.
+                          Supported formats: JPEG, PNG, WebP. Max size: 50MB.
                         </p>
                       </div>
+                      <UploadProgress upload={resumableUpload} />
                     </div>
                     <DialogFooter>
-                      <Button onClick={() => handleGalleryUpload(uploadFormData, 'gallery')}>Submit</Button>
+                      <Button
+                        onClick={() => handleGalleryUpload(uploadFormData, 'gallery')}
+                        disabled={resumableUpload.status !== 'idle'}
+                      >
+                        Submit
+                      </Button>
                     </DialogFooter>
                   </DialogContent>
                 </Dialog>
@@ -1061,237 +1070,7 @@ export default function AdminDashboard() {
               <CardDescription>Review and manage model applications</CardDescription>
             </CardHeader>
             <CardContent>
-              {modelsError ? (
-                <div className="flex flex-col items-center justify-center p-6 text-center">
-                  <h3 className="text-lg font-medium mb-2">Error loading model applications</h3>
-                  <p className="text-sm text-gray-500 mb-4">
-                    {modelsError.message || 'Unknown error'}
-                  </p>
-                  <p className="text-sm text-amber-600 mb-4">
-                    There appears to be an issue with the database connection. Our team is working to fix this.
-                  </p>
-                  <Button 
-                    onClick={() => {
-                      setModelsLoading(true);
-                      setModelsError(null);
-                      
-                      // First try the real API
-                      const fetchModels = async () => {
-                        try {
-                          console.log('Retrying models data fetch with extended timeout...');
-                          const data = await apiRequest<any[]>('/api/models', {}, 20000);
-                          console.log('Models data received:', data);
-                          setModelsData(Array.isArray(data) ? data : []);
-                        } catch (error) {
-                          console.error('Models fetch retry error:', error);
-                          
-                          // If it fails, use empty fallback data
-                          console.log('Using empty fallback data for models');
-                          setModelsData([]);
-                          
-                          // Show a toast notification about using fallback
-                          toast({
-                            title: 'Using Fallback Data',
-                            description: 'Could not connect to database. Using empty model list as fallback.',
-                            variant: 'default'
-                          });
-                        } finally {
-                          setModelsLoading(false);
-                        }
-                      };
-                      
-                      fetchModels();
-                    }}
-                    variant="outline"
-                  >
-                    Try Again
-                  </Button>
-                </div>
-              ) : modelsLoading ? (
-                <div className="flex items-center justify-center py-8">
-                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-primary" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Loading model applications...
-                </div>
-              ) : !modelsData?.length ? (
-                <div className="text-center py-12 border border-dashed rounded-lg border-muted-foreground/20">
-                  <h3 className="text-lg font-medium mb-2">No Model Applications Yet</h3>
-                  <p className="text-muted-foreground mb-6 max-w-md mx-auto">
-                    When models apply to join Babes Espresso, their applications will appear here for review.
-                  </p>
-                  <div className="flex justify-center">
-                    <Button 
-                      variant="outline" 
-                      onClick={() => window.location.href = '/'}
-                    >
-                      Go to Homepage
-                    </Button>
-                  </div>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <Input
-                      placeholder="Search models..."
-                      className="max-w-sm"
-                      value={search}
-                      onChange={(e) => setSearch(e.target.value)}
-                    />
-                  </div>
-                  
-                  <div className="rounded-md border">
-                    <table className="w-full">
-                      <thead>
-                        <tr className="border-b bg-muted/50">
-                          <th className="p-2 text-left font-medium">Name</th>
-                          <th className="p-2 text-left font-medium">Email</th>
-                          <th className="p-2 text-left font-medium">Phone</th>
-                          <th className="p-2 text-left font-medium">Alias</th>
-                          <th className="p-2 text-left font-medium">Actions</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {modelsData
-                          .filter((model) =>
-                            model.first_name.toLowerCase().includes(search.toLowerCase()) ||
-                            model.last_name.toLowerCase().includes(search.toLowerCase()) ||
-                            model.email.toLowerCase().includes(search.toLowerCase()) ||
-                            (model.alias_name && model.alias_name.toLowerCase().includes(search.toLowerCase()))
-                          )
-                          .map((model, index) => (
-                            <tr key={index} className="border-b">
-                              <td className="p-2">{model.first_name} {model.last_name}</td>
-                              <td className="p-2">{model.email}</td>
-                              <td className="p-2">{model.phone}</td>
-                              <td className="p-2">{model.alias_name || '-'}</td>
-                              <td className="p-2">
-                                <Dialog>
-                                  <DialogTrigger asChild>
-                                    <Button variant="outline" size="sm">View Details</Button>
-                                  </DialogTrigger>
-                                  <DialogContent className="max-w-3xl">
-                                    <DialogHeader>
-                                      <DialogTitle>Model Application Details</DialogTitle>
-                                    </DialogHeader>
-                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                      <div>
-                                        <h3 className="font-medium mb-2">Personal Information</h3>
-                                        <div className="space-y-2">
-                                          <div>
-                                            <span className="font-medium">Name:</span> {model.first_name} {model.last_name}
-                                          </div>
-                                          <div>
-                                            <span className="font-medium">Email:</span> {model.email}
-                                          </div>
-                                          <div>
-                                            <span className="font-medium">Phone:</span> {model.phone}
-                                          </div>
-                                          <div>
-                                            <span className="font-medium">Date of Birth:</span> {model.date_of_birth}
-                                          </div>
-                                          <div>
-                                            <span className="font-medium">Alias:</span> {model.alias_name || '-'}
-                                          </div>
-                                        </div>
-                                      </div>
-                                      <div>
-                                        <h3 className="font-medium mb-2">Social Media</h3>
-                                        <div className="space-y-2">
-                                          <div>
-                                            <span className="font-medium">Platforms:</span> {
-                                              typeof model.social_platforms === 'string' 
-                                                ? JSON.parse(model.social_platforms).join(', ') 
-                                                : Array.isArray(model.social_platforms) 
-                                                  ? model.social_platforms.join(', ') 
-                                                  : '-'
-                                            }
-                                          </div>
-                                          <div>
-                                            <span className="font-medium">Handles:</span> {model.social_handles || '-'}
-                                          </div>
-                                          <div>
-                                            <span className="font-medium">OnlyFans:</span> {model.onlyfans_link || '-'}
-                                          </div>
-                                        </div>
-                                      </div>
-                                      <div className="col-span-1 md:col-span-2">
-                                        <h3 className="font-medium mb-2">Photos</h3>
-                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                          <div>
-                                            <p className="text-sm mb-1">Body Photo</p>
-                                            {model.body_photo_url ? (
-                                              <a href={`${API_BASE_URL}${model.body_photo_url}`} target="_blank" rel="noopener noreferrer">
-                                                <img 
-                                                  src={`${API_BASE_URL}${model.body_photo_url}`} 
-                                                  alt="Body Photo" 
-                                                  className="max-w-full h-auto rounded-md border"
-                                                />
-                                              </a>
-                                            ) : (
-                                              <div className="text-muted-foreground">No body photo available</div>
-                                            )}
-                                          </div>
-                                          <div>
-                                            <p className="text-sm mb-1">License Photo (ID)</p>
-                                            {model.license_photo_url ? (
-                                              <a href={`${API_BASE_URL}${model.license_photo_url}`} target="_blank" rel="noopener noreferrer">
-                                                <img 
-                                                  src={`${API_BASE_URL}${model.license_photo_url}`} 
-                                                  alt="License Photo" 
-                                                  className="max-w-full h-auto rounded-md border"
-                                                />
-                                              </a>
-                                            ) : (
-                                              <div className="text-muted-foreground">No license photo available</div>
-                                            )}
-                                          </div>
-                                        </div>
-                                      </div>
-                                      <div className="mt-4">
-                                        <h3 className="font-medium mb-2">Terms & Conditions</h3>
-                                        <div>
-                                          <span className="font-medium">Terms Accepted:</span> {
-                                            typeof model.terms_accepted === 'string'
-                                              ? JSON.parse(model.terms_accepted).every(Boolean) ? 'Yes' : 'No'
-                                              : Array.isArray(model.terms_accepted)
-                                                ? model.terms_accepted.every(Boolean) ? 'Yes' : 'No'
-                                                : 'Unknown'
-                                          }
-                                        </div>
-                                      </div>
-                                    </div>
-                                    <DialogFooter className="mt-4">
-                                      <Button variant="outline" onClick={() => {
-                                        // Implement approval logic here
-                                        toast({
-                                          title: "Feature not implemented",
-                                          description: "Model approval functionality is not yet implemented",
-                                        });
-                                      }}>
-                                        Approve
-                                      </Button>
-                                      <Button variant="destructive" onClick={() => {
-                                        // Implement rejection logic here
-                                        toast({
-                                          title: "Feature not implemented",
-                                          description: "Model rejection functionality is not yet implemented",
-                                        });
-                                      }}>
-                                        Reject
-                                      </Button>
-                                    </DialogFooter>
-                                  </DialogContent>
-                                </Dialog>
-                              </td>
-                            </tr>
-                          ))}
-                      </tbody>
-                    </table>
-                  </div>
-                </div>
-              )}
+              <ModelApplications />
             </CardContent>
           </Card>
         </TabsContent>
@@ -1400,8 +1179,23 @@ export default function AdminDashboard() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="duplicates">
+          <DuplicateMediaCard />
+        </TabsContent>
+
+        <TabsContent value="storage">
+          <MediaStorageCard />
+        </TabsContent>
+
+        <TabsContent value="audit">
+          <AuditLogCard />
+        </TabsContent>
+
         <TabsContent value="settings">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <PlatformSettingsCard />
+            <WatermarkSettingsCard />
+
             <Card>
               <CardHeader>
                 <CardTitle>Site Settings</CardTitle>
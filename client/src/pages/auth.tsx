@@ -7,6 +7,7 @@ import { useToast } from "../hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "../components/ui/form";
 import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
 import { Button } from "../components/ui/button";
 import { Eye, EyeOff } from "lucide-react";
 import { z } from "zod";
@@ -20,10 +21,20 @@ const loginSchema = z.object({
 
 type LoginForm = z.infer<typeof loginSchema>;
 
+interface LoginResponse {
+  message: string;
+  user: { id: number; email: string; role: string };
+  redirectTo: string;
+  twoFactorRequired?: boolean;
+}
+
 export default function AuthPage() {
   const { toast } = useToast();
   const navigate = useNavigate();
   const [showPassword, setShowPassword] = useState(false);
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
 
   const form = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -33,10 +44,58 @@ export default function AuthPage() {
     }
   });
 
+  const handleLoginSuccess = async (data: LoginResponse) => {
+    try {
+      // Show success message
+      toast({
+        title: "Success",
+        description: data.message || "Logged in successfully",
+      });
+
+      // Wait longer for the session to be fully established
+      // This helps prevent issues with session not being ready when redirecting
+      await new Promise(resolve => setTimeout(resolve, 1500));
+
+      // Clear any existing session data in localStorage to prevent conflicts
+      try {
+        localStorage.removeItem('lastAuthError');
+        localStorage.setItem('authSuccess', Date.now().toString());
+      } catch (e) {
+        console.warn('Failed to update localStorage:', e);
+        // Continue even if localStorage fails
+      }
+
+      // Redirect based on role
+      if (data.redirectTo) {
+        navigate(data.redirectTo);
+      } else {
+        navigate(data.user.role === 'admin' ? '/admin' : '/gallery');
+      }
+    } catch (error) {
+      console.error('Post-login error:', error);
+      
+      // Store the error in localStorage for debugging
+      try {
+        localStorage.setItem('lastAuthError', JSON.stringify({
+          time: Date.now(),
+          message: error instanceof Error ? error.message : 'Unknown error',
+        }));
+      } catch (e) {
+        console.warn('Failed to store error in localStorage:', e);
+      }
+      
+      toast({
+        title: "Error",
+        description: "Login successful but redirect failed. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const mutation = useMutation({
     mutationFn: async (data: LoginForm) => {
       try {
-        const response = await apiRequest<{ message: string; user: { id: number; email: string; role: string }; redirectTo: string }>("POST", "/api/auth/login", data);
+        const response = await apiRequest<LoginResponse>("POST", "/api/auth/login", data);
         return response;
       } catch (error) {
         console.error('Login error:', error);
@@ -44,51 +103,12 @@ export default function AuthPage() {
       }
     },
     onSuccess: async (data) => {
-      try {
-        // Show success message
-        toast({
-          title: "Success",
-          description: data.message || "Logged in successfully",
-        });
-
-        // Wait longer for the session to be fully established
-        // This helps prevent issues with session not being ready when redirecting
-        await new Promise(resolve => setTimeout(resolve, 1500));
-
-        // Clear any existing session data in localStorage to prevent conflicts
-        try {
-          localStorage.removeItem('lastAuthError');
-          localStorage.setItem('authSuccess', Date.now().toString());
-        } catch (e) {
-          console.warn('Failed to update localStorage:', e);
-          // Continue even if localStorage fails
-        }
-
-        // Redirect based on role
-        if (data.redirectTo) {
-          navigate(data.redirectTo);
-        } else {
-          navigate(data.user.role === 'admin' ? '/admin' : '/gallery');
-        }
-      } catch (error) {
-        console.error('Post-login error:', error);
-        
-        // Store the error in localStorage for debugging
-        try {
-          localStorage.setItem('lastAuthError', JSON.stringify({
-            time: Date.now(),
-            message: error instanceof Error ? error.message : 'Unknown error',
-          }));
-        } catch (e) {
-          console.warn('Failed to store error in localStorage:', e);
-        }
-        
-        toast({
-          title: "Error",
-          description: "Login successful but redirect failed. Please try again.",
-          variant: "destructive",
-        });
+      // The password was right but the account has 2FA; ask for a code before logging in
+      if (data.twoFactorRequired) {
+        setTwoFactorRequired(true);
+        return;
       }
+      await handleLoginSuccess(data);
     },
     onError: (error) => {
       console.error('Login mutation error:', error);
@@ -113,6 +133,29 @@ export default function AuthPage() {
     },
   });
 
+  const twoFactorMutation = useMutation({
+    mutationFn: (code: string) =>
+      apiRequest<LoginResponse>(
+        "POST",
+        "/api/auth/login/2fa",
+        useRecoveryCode ? { recoveryCode: code } : { code }
+      ),
+    onSuccess: handleLoginSuccess,
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "Verification failed";
+      // The pending login expires or locks after too many attempts; start over from the password
+      if (message.includes('log in again')) {
+        setTwoFactorRequired(false);
+        setTwoFactorCode('');
+      }
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <div className="min-h-screen bg-background py-8 px-4">
       <Card className="max-w-md mx-auto">
@@ -120,66 +163,119 @@ export default function AuthPage() {
           <CardTitle className="text-center">Admin Login</CardTitle>
         </CardHeader>
         <CardContent>
-          <Form {...form}>
+          {twoFactorRequired ? (
             <form
-              onSubmit={form.handleSubmit((data) => mutation.mutate(data))}
+              onSubmit={(e) => {
+                e.preventDefault();
+                twoFactorMutation.mutate(twoFactorCode);
+              }}
               className="space-y-4"
             >
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email</FormLabel>
-                    <FormControl>
-                      <Input type="email" {...field} />
-                    </FormControl>
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <div className="relative">
-                      <FormControl>
-                        <Input 
-                          type={showPassword ? "text" : "password"} autoComplete="current-password" 
-                          {...field} 
-                        />
-                      </FormControl>
-                      <button
-                        type="button"
-                        onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                      >
-                        {showPassword ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
-                      </button>
-                    </div>
-                  </FormItem>
-                )}
-              />
+              <div className="space-y-2">
+                <Label htmlFor="twoFactorCode">
+                  {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+                </Label>
+                <Input
+                  id="twoFactorCode"
+                  autoFocus
+                  autoComplete="one-time-code"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '6-digit code'}
+                />
+              </div>
               <Button
                 type="submit"
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white"
-                disabled={mutation.isPending}
+                disabled={twoFactorMutation.isPending || !twoFactorCode}
               >
-                {mutation.isPending ? "Logging in..." : "Login"}
+                {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
               </Button>
-              <div className="text-sm text-center mt-4">
-                <span className="text-white">Don't have an account?{" "}</span>
-                <Link href="/signup" className="text-white font-semibold hover:underline">
-                  Sign Up
-                </Link>
+              <div className="text-sm text-center">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setTwoFactorCode('');
+                  }}
+                  className="hover:underline"
+                >
+                  {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                </button>
               </div>
             </form>
-          </Form>
+          ) : (
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((data) => mutation.mutate(data))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <div className="relative">
+                        <FormControl>
+                          <Input 
+                            type={showPassword ? "text" : "password"} autoComplete="current-password" 
+                            {...field} 
+                          />
+                        </FormControl>
+                        <button
+                          type="button"
+                          onClick={() => setShowPassword(!showPassword)}
+                          className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
+                        >
+                          {showPassword ? (
+                            <EyeOff className="h-4 w-4" />
+                          ) : (
+                            <Eye className="h-4 w-4" />
+                          )}
+                        </button>
+                      </div>
+                      <div className="text-right">
+                        <button
+                          type="button"
+                          onClick={() => navigate('/forgot-password')}
+                          className="text-sm hover:underline"
+                        >
+                          Forgot password?
+                        </button>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                  disabled={mutation.isPending}
+                >
+                  {mutation.isPending ? "Logging in..." : "Login"}
+                </Button>
+                <div className="text-sm text-center mt-4">
+                  <span className="text-white">Don't have an account?{" "}</span>
+                  <Link href="/signup" className="text-white font-semibold hover:underline">
+                    Sign Up
+                  </Link>
+                </div>
+              </form>
+            </Form>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,59 +1,256 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Layout } from '@/components/layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import type { CreatorProfile, Gallery } from '@shared/schema';
-import { useState } from 'react';
+import { useResumableUpload } from '@/hooks/use-resumable-upload';
+import { UploadProgress } from '@/components/UploadProgress';
+import { apiRequest } from '@/lib/queryClient';
+import { API_BASE_URL, mediaUrl } from '@/lib/config';
+import type { CreatorProfile, Content } from '@shared/schema';
+import { useEffect, useState } from 'react';
+
+interface ProfileFormData {
+  aliasName: string;
+  instagram: string;
+  twitter: string;
+  tiktok: string;
+  onlyfans: string;
+  monthlySubscriptionPrice: string;
+  perPostPrice: string;
+}
+
+interface ContentEditData {
+  id: number;
+  title: string;
+  description: string;
+  isPremium: boolean;
+  price: string;
+}
+
+const emptyProfileForm: ProfileFormData = {
+  aliasName: '',
+  instagram: '',
+  twitter: '',
+  tiktok: '',
+  onlyfans: '',
+  monthlySubscriptionPrice: '0',
+  perPostPrice: '0'
+};
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${url}`, {
+    credentials: 'include'
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
 
 export default function CreatorDashboard() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [profileForm, setProfileForm] = useState<ProfileFormData>(emptyProfileForm);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const resumableUpload = useResumableUpload();
+  const [editing, setEditing] = useState<ContentEditData | null>(null);
   const [uploadFormData, setUploadFormData] = useState({
     title: '',
     description: '',
-    tags: '',
     file: null as File | null,
-    contentRating: 'sfw' as 'sfw' | 'nsfw',
-    isPremium: false
+    isPremium: false,
+    price: ''
   });
 
   const { data: profile, isLoading: profileLoading } = useQuery<CreatorProfile>({
     queryKey: ['creator-profile'],
-    queryFn: async () => {
-      const response = await fetch('/api/creator/profile', {
+    queryFn: () => fetchJson<CreatorProfile>('/api/creator/profile')
+  });
+
+  const { data: content, isLoading: contentLoading } = useQuery<Content[]>({
+    queryKey: ['creator-content'],
+    queryFn: () => fetchJson<Content[]>('/api/creator/content')
+  });
+
+  useEffect(() => {
+    if (!profile) return;
+    setProfileForm({
+      aliasName: profile.aliasName || '',
+      instagram: profile.instagram || '',
+      twitter: profile.twitter || '',
+      tiktok: profile.tiktok || '',
+      onlyfans: profile.onlyfans || '',
+      monthlySubscriptionPrice: String(profile.monthlySubscriptionPrice ?? 0),
+      perPostPrice: String(profile.perPostPrice ?? 0)
+    });
+  }, [profile]);
+
+  const updateProfileField = (field: keyof ProfileFormData) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setProfileForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleProfileUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingProfile(true);
+    try {
+      await apiRequest('PATCH', '/api/creator/profile', {
+        aliasName: profileForm.aliasName.trim() || undefined,
+        instagram: profileForm.instagram.trim() || null,
+        twitter: profileForm.twitter.trim() || null,
+        tiktok: profileForm.tiktok.trim() || null,
+        onlyfans: profileForm.onlyfans.trim() || null,
+        monthlySubscriptionPrice: Number(profileForm.monthlySubscriptionPrice) || 0,
+        perPostPrice: Number(profileForm.perPostPrice) || 0
+      });
+      await queryClient.invalidateQueries({ queryKey: ['creator-profile'] });
+      toast({ title: 'Success', description: 'Profile updated successfully' });
+    } catch (error) {
+      console.error('Profile update error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update profile',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const handleFeaturedImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('image', file);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/creator/profile/featured-image`, {
+        method: 'POST',
+        body: formData,
         credentials: 'include'
       });
       if (!response.ok) {
-        throw new Error('Failed to fetch profile');
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || error.message || 'Upload failed');
       }
-      return response.json();
+      await queryClient.invalidateQueries({ queryKey: ['creator-profile'] });
+      toast({ title: 'Success', description: 'Featured image updated' });
+    } catch (error) {
+      console.error('Featured image upload error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload featured image',
+        variant: 'destructive'
+      });
+    } finally {
+      e.target.value = '';
     }
-  });
+  };
 
-  const { data: content, isLoading: contentLoading } = useQuery<Gallery[]>({
-    queryKey: ['creator-content'],
-    queryFn: async () => {
-      const response = await fetch('/api/creator/content', {
+  const handleContentUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!uploadFormData.file) {
+      toast({ title: 'Error', description: 'Please choose a file to upload', variant: 'destructive' });
+      return;
+    }
+
+    const form = e.target as HTMLFormElement;
+    setIsUploading(true);
+    try {
+      // Sent in resumable chunks first, so a dropped connection doesn't lose a long video
+      const uploadId = await resumableUpload.upload(uploadFormData.file);
+
+      const formData = new FormData();
+      formData.append('uploadId', uploadId);
+      formData.append('title', uploadFormData.title);
+      formData.append('description', uploadFormData.description);
+      formData.append('isPremium', String(uploadFormData.isPremium));
+      if (uploadFormData.isPremium && uploadFormData.price) {
+        formData.append('price', uploadFormData.price);
+      }
+
+      const response = await fetch(`${API_BASE_URL}/api/content`, {
+        method: 'POST',
+        body: formData,
         credentials: 'include'
       });
+      resumableUpload.finish();
       if (!response.ok) {
-        throw new Error('Failed to fetch content');
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Upload failed');
       }
-      return response.json();
+      const created: { moderationStatus: string; duplicateWarning?: { message: string } } = await response.json();
+      await queryClient.invalidateQueries({ queryKey: ['creator-content'] });
+      setUploadFormData({ title: '', description: '', file: null, isPremium: false, price: '' });
+      form.reset();
+      toast(created.duplicateWarning
+        ? { title: 'Uploaded, but it may be a duplicate', description: created.duplicateWarning.message }
+        : {
+          title: 'Success',
+          description: created.moderationStatus === 'pending'
+            ? "Content submitted for review; it'll be published once an admin approves it"
+            : 'Content uploaded successfully'
+        });
+    } catch (error) {
+      console.error('Content upload error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload content',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsUploading(false);
     }
-  });
+  };
 
-  const handleProfileUpdate = async (e: React.FormEvent) => {
-    e.preventDefault();
-    // Implementation for profile update
+  const handleContentEdit = async () => {
+    if (!editing) return;
+    try {
+      await apiRequest('PATCH', `/api/creator/content/${editing.id}`, {
+        title: editing.title,
+        description: editing.description,
+        isPremium: editing.isPremium,
+        price: editing.isPremium && editing.price ? Number(editing.price) : null
+      });
+      await queryClient.invalidateQueries({ queryKey: ['creator-content'] });
+      setEditing(null);
+      toast({ title: 'Success', description: 'Content updated successfully' });
+    } catch (error) {
+      console.error('Content update error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update content',
+        variant: 'destructive'
+      });
+    }
   };
 
-  const handleContentUpload = async (e: React.FormEvent) => {
-    e.preventDefault();
-    // Implementation for content upload
+  const handleContentDelete = async (id: number) => {
+    try {
+      await apiRequest('DELETE', `/api/creator/content/${id}`);
+      await queryClient.invalidateQueries({ queryKey: ['creator-content'] });
+      toast({ title: 'Success', description: 'Content deleted successfully' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete content',
+        variant: 'destructive'
+      });
+    }
   };
 
   if (profileLoading || contentLoading) {
@@ -72,7 +269,12 @@ export default function CreatorDashboard() {
     <Layout>
       <div className="container mx-auto p-6">
         <h1 className="text-3xl font-bold mb-6">Creator Dashboard</h1>
-        
+        {profile && profile.approvalStatus !== 'approved' && (
+          <p className="mb-6 text-sm text-muted-foreground">
+            Your creator account is {profile.approvalStatus}. You can edit your profile, but posting content requires approval.
+          </p>
+        )}
+
         <Tabs defaultValue="profile" className="space-y-6">
           <TabsList>
             <TabsTrigger value="profile">Profile</TabsTrigger>
@@ -85,15 +287,33 @@ export default function CreatorDashboard() {
             <Card>
               <CardHeader>
                 <CardTitle>Creator Profile</CardTitle>
-                <CardDescription>Manage your public profile and social links</CardDescription>
+                <CardDescription>Manage your public profile, social links and pricing</CardDescription>
               </CardHeader>
               <CardContent>
                 <form onSubmit={handleProfileUpdate} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="featuredImage">Featured Image</Label>
+                    {profile?.featuredImageUrl && (
+                      <img
+                        src={mediaUrl(profile.featuredImageUrl)}
+                        alt="Featured"
+                        className="w-48 h-48 object-cover rounded-lg"
+                      />
+                    )}
+                    <Input
+                      id="featuredImage"
+                      type="file"
+                      accept="image/jpeg,image/png,image/webp"
+                      onChange={handleFeaturedImageChange}
+                    />
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="aliasName">Display Name</Label>
                     <Input
                       id="aliasName"
-                      value={profile?.aliasName || ''}
+                      value={profileForm.aliasName}
+                      onChange={updateProfileField('aliasName')}
                       placeholder="Your public display name"
                     />
                   </div>
@@ -102,7 +322,8 @@ export default function CreatorDashboard() {
                     <Label htmlFor="instagram">Instagram Handle</Label>
                     <Input
                       id="instagram"
-                      value={profile?.instagram || ''}
+                      value={profileForm.instagram}
+                      onChange={updateProfileField('instagram')}
                       placeholder="@username"
                     />
                   </div>
@@ -111,7 +332,8 @@ export default function CreatorDashboard() {
                     <Label htmlFor="twitter">Twitter Handle</Label>
                     <Input
                       id="twitter"
-                      value={profile?.twitter || ''}
+                      value={profileForm.twitter}
+                      onChange={updateProfileField('twitter')}
                       placeholder="@username"
                     />
                   </div>
@@ -120,7 +342,8 @@ export default function CreatorDashboard() {
                     <Label htmlFor="tiktok">TikTok Handle</Label>
                     <Input
                       id="tiktok"
-                      value={profile?.tiktok || ''}
+                      value={profileForm.tiktok}
+                      onChange={updateProfileField('tiktok')}
                       placeholder="@username"
                     />
                   </div>
@@ -129,12 +352,40 @@ export default function CreatorDashboard() {
                     <Label htmlFor="onlyfans">OnlyFans Link</Label>
                     <Input
                       id="onlyfans"
-                      value={profile?.onlyfans || ''}
+                      value={profileForm.onlyfans}
+                      onChange={updateProfileField('onlyfans')}
                       placeholder="https://onlyfans.com/..."
                     />
                   </div>
 
-                  <Button type="submit">Save Changes</Button>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="monthlySubscriptionPrice">Monthly Subscription Price ($)</Label>
+                      <Input
+                        id="monthlySubscriptionPrice"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={profileForm.monthlySubscriptionPrice}
+                        onChange={updateProfileField('monthlySubscriptionPrice')}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="perPostPrice">Per Post Price ($)</Label>
+                      <Input
+                        id="perPostPrice"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={profileForm.perPostPrice}
+                        onChange={updateProfileField('perPostPrice')}
+                      />
+                    </div>
+                  </div>
+
+                  <Button type="submit" disabled={isSavingProfile}>
+                    {isSavingProfile ? 'Saving...' : 'Save Changes'}
+                  </Button>
                 </form>
               </CardContent>
             </Card>
@@ -154,6 +405,7 @@ export default function CreatorDashboard() {
                       id="title"
                       value={uploadFormData.title}
                       onChange={(e) => setUploadFormData(prev => ({ ...prev, title: e.target.value }))}
+                      required
                     />
                   </div>
 
@@ -167,127 +419,179 @@ export default function CreatorDashboard() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="file">Image</Label>
+                    <Label htmlFor="file">Image or Video</Label>
                     <Input
                       id="file"
                       type="file"
-                      accept="image/jpeg,image/png,image/webp"
+                      accept="image/jpeg,image/png,image/webp,video/mp4"
                       onChange={(e) => {
                         const file = e.target.files?.[0] || null;
                         setUploadFormData(prev => ({ ...prev, file }));
                       }}
                     />
                     <p className="text-sm text-muted-foreground">
-                      Supported formats: JPEG, PNG, WebP. Max size: 5MB.
+                      Supported formats: JPEG, PNG, WebP, MP4. Images up to 50MB, videos up to 2GB.
+                      Large uploads can be paused and resumed.
                     </p>
                   </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="tags">Tags (comma-separated)</Label>
-                    <Input
-                      id="tags"
-                      value={uploadFormData.tags}
-                      onChange={(e) => setUploadFormData(prev => ({ ...prev, tags: e.target.value }))}
-                      placeholder="model, featured, etc"
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label>Content Rating</Label>
-                    <div className="flex space-x-4">
-                      <div className="flex items-center space-x-2">
-                        <input
-                          type="radio"
-                          id="sfw"
-                          name="contentRating"
-                          value="sfw"
-                          checked={uploadFormData.contentRating === 'sfw'}
-                          onChange={(e) => setUploadFormData(prev => ({ 
-                            ...prev, 
-                            contentRating: e.target.value as 'sfw' | 'nsfw' 
-                          }))}
-                        />
-                        <Label htmlFor="sfw">SFW</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <input
-                          type="radio"
-                          id="nsfw"
-                          name="contentRating"
-                          value="nsfw"
-                          checked={uploadFormData.contentRating === 'nsfw'}
-                          onChange={(e) => setUploadFormData(prev => ({ 
-                            ...prev, 
-                            contentRating: e.target.value as 'sfw' | 'nsfw' 
-                          }))}
-                        />
-                        <Label htmlFor="nsfw">18+</Label>
-                      </div>
-                    </div>
-                  </div>
+                  <UploadProgress upload={resumableUpload} />
 
                   <div className="flex items-center space-x-2">
                     <input
                       type="checkbox"
                       id="premium"
                       checked={uploadFormData.isPremium}
-                      onChange={(e) => setUploadFormData(prev => ({ 
-                        ...prev, 
-                        isPremium: e.target.checked 
+                      onChange={(e) => setUploadFormData(prev => ({
+                        ...prev,
+                        isPremium: e.target.checked
                       }))}
                     />
                     <Label htmlFor="premium">Premium Content (Requires Subscription)</Label>
                   </div>
 
-                  <Button type="submit">Upload Content</Button>
+                  {uploadFormData.isPremium && (
+                    <div className="space-y-2">
+                      <Label htmlFor="price">Unlock Price ($, optional)</Label>
+                      <Input
+                        id="price"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={uploadFormData.price}
+                        onChange={(e) => setUploadFormData(prev => ({ ...prev, price: e.target.value }))}
+                      />
+                    </div>
+                  )}
+
+                  <Button type="submit" disabled={isUploading}>
+                    {isUploading ? 'Uploading...' : 'Upload Content'}
+                  </Button>
                 </form>
 
                 <div className="mt-8">
                   <h3 className="text-lg font-semibold mb-4">Your Uploaded Content</h3>
+                  {!content?.length && (
+                    <p className="text-muted-foreground">You haven't posted any content yet.</p>
+                  )}
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     {content?.map((item) => (
                       <div key={item.id} className="relative group">
-                        <img
-                          src={item.url}
-                          alt={item.title}
-                          className="w-full h-48 object-cover rounded-lg"
-                        />
+                        {item.contentType === 'video' ? (
+                          <video
+                            src={mediaUrl(item.url)}
+                            poster={item.thumbnailUrl ? mediaUrl(item.thumbnailUrl) : undefined}
+                            className="w-full h-48 object-cover rounded-lg"
+                            muted
+                          />
+                        ) : (
+                          <img
+                            src={mediaUrl(item.url)}
+                            alt={item.title}
+                            className="w-full h-48 object-cover rounded-lg"
+                          />
+                        )}
+                        <div className="absolute top-2 left-2 flex gap-1">
+                          {item.moderationStatus === 'pending' && <Badge variant="secondary">Pending review</Badge>}
+                          {item.moderationStatus === 'rejected' && <Badge variant="destructive">Rejected</Badge>}
+                          {item.hiddenAt && <Badge variant="destructive">Hidden</Badge>}
+                        </div>
+                        {item.isPremium && (
+                          <Badge className="absolute top-2 right-2 bg-yellow-500">
+                            Premium{item.price ? ` · $${item.price.toFixed(2)}` : ''}
+                          </Badge>
+                        )}
                         <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity p-4">
                           <p className="text-white font-medium">{item.title}</p>
                           {item.description && (
                             <p className="text-white/80 text-sm mt-1">{item.description}</p>
                           )}
-                          <div className="absolute bottom-4 right-4">
+                          <div className="absolute bottom-4 right-4 flex space-x-2">
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={() => setEditing({
+                                id: item.id,
+                                title: item.title,
+                                description: item.description || '',
+                                isPremium: !!item.isPremium,
+                                price: item.price != null ? String(item.price) : ''
+                              })}
+                            >
+                              Edit
+                            </Button>
                             <Button
                               variant="destructive"
                               size="sm"
-                              onClick={async () => {
-                                try {
-                                  const response = await fetch(`/api/creator/content/${item.id}`, {
-                                    method: 'DELETE',
-                                    credentials: 'include'
-                                  });
-                                  if (!response.ok) throw new Error('Delete failed');
-                                  toast({ title: 'Success', description: 'Content deleted successfully' });
-                                } catch (error) {
-                                  toast({ 
-                                    title: 'Error', 
-                                    description: 'Failed to delete content',
-                                    variant: 'destructive'
-                                  });
-                                }
-                              }}
+                              onClick={() => handleContentDelete(item.id)}
                             >
                               Delete
                             </Button>
                           </div>
                         </div>
+                        {item.moderationStatus === 'rejected' && item.moderationReason && (
+                          <p className="text-sm text-destructive mt-1">Not approved: {item.moderationReason}</p>
+                        )}
                       </div>
                     ))}
                   </div>
                 </div>
               </CardContent>
             </Card>
+
+            <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Edit Content</DialogTitle>
+                </DialogHeader>
+                {editing && (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-title">Title</Label>
+                      <Input
+                        id="edit-title"
+                        value={editing.title}
+                        onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-description">Description</Label>
+                      <Input
+                        id="edit-description"
+                        value={editing.description}
+                        onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                      />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="edit-premium"
+                        checked={editing.isPremium}
+                        onChange={(e) => setEditing({ ...editing, isPremium: e.target.checked })}
+                      />
+                      <Label htmlFor="edit-premium">Premium Content</Label>
+                    </div>
+                    {editing.isPremium && (
+                      <div className="space-y-2">
+                        <Label htmlFor="edit-price">Unlock Price ($, optional)</Label>
+                        <Input
+                          id="edit-price"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={editing.price}
+                          onChange={(e) => setEditing({ ...editing, price: e.target.value })}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                  <Button onClick={handleContentEdit}>Save</Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
           </TabsContent>
 
           <TabsContent value="analytics">
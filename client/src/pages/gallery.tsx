@@ -6,9 +6,10 @@ import { Layout } from "../components/layout";
 import { InstagramLogoIcon, TwitterLogoIcon, VideoIcon } from "@radix-ui/react-icons";
 import { Button } from "../components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../components/ui/tooltip";
-import { API_BASE_URL } from "../lib/config";
+import { API_BASE_URL, mediaUrl } from "../lib/config";
 import { fetchWithFallback, processApiResponse, safeFetch } from "../lib/api-utils";
 import { GalleryErrorBoundary } from "../components/GalleryErrorBoundary";
+import { ReportMediaDialog } from "../components/ReportMediaDialog";
 import { AuthDiagnostics } from "../components/AuthDiagnostics";
 import { checkApiEndpointAuth } from "../lib/auth-check";
 import { overrideUserExtension } from "../lib/extension-override";
@@ -22,7 +23,7 @@ function GalleryGrid({ images }: { images: GalleryImage[] }) {
         <div key={image.id} className="relative group aspect-square overflow-hidden rounded-lg shadow-lg bg-black/20">
           {image.url.endsWith('.mp4') ? (
             <video 
-              src={image.url.startsWith('http') ? image.url : image.url.startsWith('/') ? `${API_BASE_URL}${image.url}` : `${API_BASE_URL}/${image.url}`}
+              src={mediaUrl(image.url)}
               controls
               className="absolute inset-0 h-full w-full object-cover"
               onError={(e) => {
@@ -32,25 +33,12 @@ function GalleryGrid({ images }: { images: GalleryImage[] }) {
             />
           ) : (
             <img 
-              src={image.url.startsWith('http') ? image.url : image.url.startsWith('/') ? `${API_BASE_URL}${image.url}` : `${API_BASE_URL}/${image.url}`} 
+              src={mediaUrl(image.url)} 
               alt={image.title} 
               className="absolute inset-0 h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
               onError={(e) => {
-                // Handle image loading errors
                 console.error(`Gallery grid failed to load image: ${image.url}`);
-                
-                // Extract the filename from the URL
-                const imagePath = image.url.split('/').pop();
-                if (!imagePath) {
-                  console.error('Could not extract image filename from URL:', image.url);
-                  e.currentTarget.src = 'https://placehold.co/400x300?text=Image+Not+Found';
-                  return;
-                }
-                
-                // Try direct path to uploads
-                const fallbackSrc = `/uploads/${imagePath}`;
-                console.log('Gallery grid trying fallback URL:', fallbackSrc);
-                e.currentTarget.src = fallbackSrc;
+                e.currentTarget.src = 'https://placehold.co/400x300?text=Image+Not+Found';
               }}
             />
           )}
@@ -153,6 +141,12 @@ function GalleryGrid({ images }: { images: GalleryImage[] }) {
                   </Tooltip>
                 )}
               </TooltipProvider>
+              <ReportMediaDialog
+                kind="gallery"
+                id={image.id}
+                title={image.title}
+                triggerClassName="ml-auto h-8 text-white/80 hover:bg-white/20 hover:text-white"
+              />
             </div>
           </div>
         </div>
@@ -9,16 +9,19 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { Menu } from "lucide-react";
 import { apiRequest } from "../lib/queryClient";
 import { API_BASE_URL } from "../lib/config";
+import { ResponsiveImage } from "../components/ResponsiveImage";
+import type { ImageVariant } from "../types/gallery";
 
 interface GalleryImage {
   id: number;
   url: string;
   title: string;
   type: 'gallery' | 'featured';
+  variants?: ImageVariant[];
 }
 
 export default function Home() {
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedImage, setSelectedImage] = useState<GalleryImage | null>(null);
   const { data: featuredImages, isLoading, isError } = useQuery<GalleryImage[]>({
     queryKey: ['featured'],
     queryFn: async () => {
@@ -148,11 +151,13 @@ export default function Home() {
                     <CarouselItem 
                       key={image.id} 
                       className="pl-2 md:pl-4 basis-full md:basis-1/2 lg:basis-1/3 cursor-pointer"
-                      onClick={() => setSelectedImage(image.url)}
+                      onClick={() => setSelectedImage(image)}
                     >
                       <div className="relative aspect-[4/3] rounded-lg overflow-hidden">
-                        <img
+                        <ResponsiveImage
                           src={image.url}
+                          variants={image.variants}
+                          sizes="(min-width: 1152px) 384px, (min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                           alt={image.title}
                           className="absolute inset-0 w-full h-full object-cover"
                         />
@@ -173,9 +178,11 @@ export default function Home() {
                 <DialogTitle className="sr-only">Featured Model Image</DialogTitle>
                 <DialogDescription className="sr-only">View larger version of the featured model image</DialogDescription>
                 <div className="relative">
-                  <img
-                    src={selectedImage}
-                    alt="Featured model"
+                  <ResponsiveImage
+                    src={selectedImage.url}
+                    variants={selectedImage.variants}
+                    sizes="(min-width: 1152px) 1152px, 100vw"
+                    alt={selectedImage.title}
                     className="max-w-full max-h-[85vh] object-contain"
                   />
                   <button
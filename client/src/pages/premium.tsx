@@ -11,6 +11,12 @@ import { Layout } from "../components/layout";
 import { Spinner } from "../components/ui/spinner";
 import { Alert, AlertDescription, AlertTitle } from "../components/ui/alert";
 import { AlertCircle } from "lucide-react";
+import { LockedPreview } from "../components/LockedPreview";
+import { ReportMediaDialog } from "../components/ReportMediaDialog";
+import { ResponsiveImage } from "../components/ResponsiveImage";
+import type { ImageVariant } from "../types/gallery";
+
+const MEMBERSHIP_PRICE = '$19.99';
 
 interface PremiumCardProps {
   image: GalleryImage;
@@ -19,24 +25,32 @@ interface PremiumCardProps {
 
 function PremiumCard({ image, onUnlock }: PremiumCardProps) {
   return (
-    <Card className="bg-black/50 border-white/10 cursor-pointer" onClick={onUnlock}>
+    <Card className="bg-black/50 border-white/10">
       <CardContent className="p-4">
-        <div className="relative aspect-[3/4] mb-4">
-          <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
-            <div className="text-center">
-              <div className="text-lg font-semibold mb-2">Premium Content</div>
+        <div className="relative aspect-[3/4] mb-4 overflow-hidden rounded">
+          {image.locked ? (
+            <LockedPreview teaserUrl={image.teaserUrl} blurHash={image.blurHash} title={image.title} onUnlock={onUnlock}>
+              <div className="text-lg font-semibold">Premium Content</div>
               <Button variant="secondary" size="sm">
-                Sign In to View
+                Subscribe for {MEMBERSHIP_PRICE}/month
               </Button>
-            </div>
-          </div>
-          <img
-            src={image.url}
-            alt={image.title}
-            className="w-full h-full object-cover blur-lg"
-          />
+            </LockedPreview>
+          ) : (
+            <ResponsiveImage
+              src={image.url}
+              variants={image.variants}
+              // The tabs are 400px wide, split into up to three columns
+              sizes="(min-width: 1024px) 130px, (min-width: 768px) 200px, 400px"
+              loading="lazy"
+              alt={image.title}
+              className="w-full h-full object-cover"
+            />
+          )}
+        </div>
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <h3 className="text-xl font-semibold">{image.title}</h3>
+          <ReportMediaDialog kind="gallery" id={image.id} title={image.title} triggerClassName="text-gray-400" />
         </div>
-        <h3 className="text-xl font-semibold mb-2">{image.title}</h3>
         {image.description && (
           <p className="text-gray-400 mb-4">{image.description}</p>
         )}
@@ -45,6 +59,75 @@ function PremiumCard({ image, onUnlock }: PremiumCardProps) {
   );
 }
 
+interface PremiumVideo {
+  id: number;
+  title: string;
+  description?: string | null;
+  url: string;
+  thumbnailUrl: string | null;
+  previewUrl: string | null;
+  hlsUrl: string | null;
+  teaserUrl: string | null;
+  blurHash: string | null;
+  durationSeconds: number | null;
+  price: number | null;
+  locked: boolean;
+}
+
+interface VideoCardProps {
+  video: PremiumVideo;
+  onUnlock: () => void;
+}
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+function VideoCard({ video, onUnlock }: VideoCardProps) {
+  return (
+    <Card className="bg-black/50 border-white/10">
+      <CardContent className="p-4">
+        <div className="relative aspect-video mb-4 bg-black rounded overflow-hidden">
+          {video.locked ? (
+            <LockedPreview teaserUrl={video.teaserUrl} blurHash={video.blurHash} title={video.title} onUnlock={onUnlock}>
+              <div className="text-lg font-semibold">Premium Video</div>
+              <Button variant="secondary" size="sm">
+                {video.price ? `Unlock for $${video.price.toFixed(2)}` : `Subscribe for ${MEMBERSHIP_PRICE}/month`}
+              </Button>
+              {video.price ? <div className="text-xs text-gray-300">or subscribe for {MEMBERSHIP_PRICE}/month</div> : null}
+            </LockedPreview>
+          ) : (
+            // Safari and mobile browsers play the HLS ladder natively; others fall back to the MP4
+            <video
+              controls
+              playsInline
+              preload="none"
+              poster={video.thumbnailUrl ?? undefined}
+              className="w-full h-full object-contain"
+            >
+              {video.hlsUrl && <source src={video.hlsUrl} type="application/vnd.apple.mpegurl" />}
+              <source src={video.url} type="video/mp4" />
+            </video>
+          )}
+          {video.durationSeconds !== null && (
+            <span className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded pointer-events-none">
+              {formatDuration(video.durationSeconds)}
+            </span>
+          )}
+        </div>
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <h3 className="text-xl font-semibold">{video.title}</h3>
+          <ReportMediaDialog kind="content" id={video.id} title={video.title} triggerClassName="text-gray-400" />
+        </div>
+        {video.description && (
+          <p className="text-gray-400 mb-4">{video.description}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 interface GalleryImage {
   id: number;
   url: string;
@@ -54,6 +137,11 @@ interface GalleryImage {
   isPremium: boolean;
   tags: string[];
   description?: string;
+  variants?: ImageVariant[];
+  // Locked items come with only the blurred teaser; url points at a route that refuses them
+  locked?: boolean;
+  teaserUrl?: string | null;
+  blurHash?: string | null;
 }
 
 export default function PremiumContent() {
@@ -63,7 +151,10 @@ export default function PremiumContent() {
     queryKey: ['gallery', 'premium'],
     queryFn: async () => {
       try {
-        const response = await fetch(`${API_BASE_URL}/api/gallery?type=gallery&premium=true`);
+        // Sent with the session so subscribers get the real images rather than teasers
+        const response = await fetch(`${API_BASE_URL}/api/gallery?type=gallery&premium=true`, {
+          credentials: 'include'
+        });
         if (!response.ok) {
           const errorText = await response.text();
           throw new Error(`Failed to fetch premium images: ${response.status} ${errorText}`);
@@ -93,6 +184,21 @@ export default function PremiumContent() {
     }
   });
 
+  // Videos come from creators' content rather than the gallery; only finished transcodes are listed
+  const { data: videos } = useQuery<PremiumVideo[]>({
+    queryKey: ['content', 'premium', 'video'],
+    queryFn: async () => {
+      const response = await fetch(`${API_BASE_URL}/api/content/feed?type=video&premium=true`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch premium videos: ${response.status}`);
+      }
+      return response.json();
+    },
+    retry: 2
+  });
+
   // Loading state
   if (isLoading) {
     return (
@@ -128,7 +234,7 @@ export default function PremiumContent() {
   }
 
   // No content state
-  if (!images || !Array.isArray(images) || images.length === 0) {
+  if ((!images || !Array.isArray(images) || images.length === 0) && !videos?.length) {
     return (
       <Layout>
         <main className="container mx-auto px-4 py-20">
@@ -153,14 +259,14 @@ export default function PremiumContent() {
               </TabsList>
               <TabsContent value="all">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
-                  {images.map((image) => (
+                  {(images ?? []).map((image) => (
                     <PremiumCard key={image.id} image={image} onUnlock={() => setShowPaywall(true)} />
                   ))}
                 </div>
               </TabsContent>
               <TabsContent value="photos">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
-                  {images
+                  {(images ?? [])
                     .filter(image => image.type === 'photo')
                     .map((image) => (
                       <PremiumCard key={image.id} image={image} onUnlock={() => setShowPaywall(true)} />
@@ -169,11 +275,9 @@ export default function PremiumContent() {
               </TabsContent>
               <TabsContent value="videos">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
-                  {images
-                    .filter(image => image.type === 'video')
-                    .map((image) => (
-                      <PremiumCard key={image.id} image={image} onUnlock={() => setShowPaywall(true)} />
-                    ))}
+                  {(videos ?? []).map((video) => (
+                    <VideoCard key={video.id} video={video} onUnlock={() => setShowPaywall(true)} />
+                  ))}
                 </div>
               </TabsContent>
             </Tabs>
@@ -196,7 +300,7 @@ export default function PremiumContent() {
                   <li>✓ Priority access to new content</li>
                 </ul>
                 <div className="mt-4">
-                  <span className="text-2xl font-bold">$19.99</span>
+                  <span className="text-2xl font-bold">{MEMBERSHIP_PRICE}</span>
                   <span className="text-gray-400">/month</span>
                 </div>
               </div>
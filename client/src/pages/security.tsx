@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
+import { useToast } from "../hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+  setupRequired: boolean;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const STATUS_URL = '/api/auth/2fa/status';
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+        access to your authenticator app. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm border rounded-md p-4">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => navigator.clipboard.writeText(codes.join('\n'))}>
+          Copy Codes
+        </Button>
+        <Button onClick={onDone}>I've Saved Them</Button>
+      </div>
+    </div>
+  );
+}
+
+export default function SecurityPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: [STATUS_URL],
+    queryFn: getQueryFn<TwoFactorStatus>({ on401: 'redirect' }),
+  });
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      setCode('');
+      await queryClient.invalidateQueries({ queryKey: [STATUS_URL] });
+    } catch (error) {
+      console.error('Two-factor update error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update two-factor authentication',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startSetup = () => runAction(async () => {
+    setSetup(await apiRequest<TwoFactorSetup>('POST', '/api/auth/2fa/setup'));
+  });
+
+  const confirmSetup = () => runAction(async () => {
+    const data = await apiRequest<{ message: string; recoveryCodes: string[] }>('POST', '/api/auth/2fa/confirm', { code });
+    setSetup(null);
+    setRecoveryCodes(data.recoveryCodes);
+    toast({ title: 'Success', description: data.message });
+  });
+
+  const regenerateCodes = () => runAction(async () => {
+    const data = await apiRequest<{ recoveryCodes: string[] }>('POST', '/api/auth/2fa/recovery-codes', { code });
+    setRecoveryCodes(data.recoveryCodes);
+  });
+
+  const disable = () => runAction(async () => {
+    const data = await apiRequest<{ message: string }>('POST', '/api/auth/2fa/disable', { code, password });
+    setPassword('');
+    toast({ title: 'Success', description: data.message });
+  });
+
+  return (
+    <div className="min-h-screen bg-background py-8 px-4">
+      <Card className="max-w-xl mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Two-Factor Authentication
+            {status && (
+              <Badge variant={status.enabled ? 'default' : 'secondary'}>
+                {status.enabled ? 'Enabled' : 'Disabled'}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Require a code from an authenticator app in addition to your password when signing in.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status?.setupRequired && !recoveryCodes && (
+            <div className="rounded-md border border-destructive p-3 text-sm">
+              Administrators must enable two-factor authentication before using the dashboard.
+            </div>
+          )}
+
+          {isLoading || !status ? (
+            <div className="text-center py-6 text-muted-foreground">Loading...</div>
+          ) : recoveryCodes ? (
+            <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+          ) : setup ? (
+            <div className="space-y-4">
+              <p className="text-sm">
+                Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+              </p>
+              <div className="flex justify-center bg-white p-4 rounded-md">
+                <QRCodeSVG value={setup.otpauthUrl} size={192} />
+              </div>
+              <p className="text-xs text-muted-foreground break-all">
+                Can't scan it? Enter this key manually: <span className="font-mono">{setup.secret}</span>
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="confirmCode">Authentication Code</Label>
+                <Input
+                  id="confirmCode"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setSetup(null)} disabled={isSaving}>Cancel</Button>
+                <Button onClick={confirmSetup} disabled={isSaving || code.length !== 6}>Enable</Button>
+              </div>
+            </div>
+          ) : status.enabled ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Enabled {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : ''} ·{' '}
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="code">Authentication Code</Label>
+                <Input
+                  id="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+              </div>
+              {!status.required && (
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password (to disable)</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={regenerateCodes} disabled={isSaving || code.length !== 6}>
+                  New Recovery Codes
+                </Button>
+                {!status.required && (
+                  <Button variant="destructive" onClick={disable} disabled={isSaving || code.length !== 6 || !password}>
+                    Disable
+                  </Button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <Button onClick={startSetup} disabled={isSaving}>Set Up Two-Factor Authentication</Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
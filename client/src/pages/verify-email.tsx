@@ -0,0 +1,49 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useSearchParams } from "react-router-dom";
+import { apiRequest } from "../lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+
+export default function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const mutation = useMutation({
+    mutationFn: (token: string) =>
+      apiRequest<{ message: string }>("POST", "/api/auth/verify-email", { token }),
+  });
+
+  // Tokens are single-use, so submit once per token rather than on every render
+  useEffect(() => {
+    if (token) {
+      mutation.mutate(token);
+    }
+  }, [token]);
+
+  let message = 'Verifying your email address...';
+  if (!token) {
+    message = 'This verification link is missing its token.';
+  } else if (mutation.isSuccess) {
+    message = mutation.data.message;
+  } else if (mutation.isError) {
+    message = mutation.error instanceof Error ? mutation.error.message : 'Failed to verify email address';
+  }
+
+  return (
+    <div className="min-h-screen bg-background py-8 px-4">
+      <Card className="max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle className="text-center">Email Verification</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          <p>{message}</p>
+          {(mutation.isSuccess || mutation.isError || !token) && (
+            <Link to="/auth" className="font-semibold hover:underline">
+              Continue to Login
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,3 +1,12 @@
+// A resized rendition of an image, listed smallest first per format
+export interface ImageVariant {
+  variant: 'thumbnail' | 'card' | 'full' | 'original';
+  format: 'avif' | 'webp' | 'jpeg';
+  width: number;
+  height: number;
+  url: string;
+}
+
 export interface GalleryImage {
   id: number;
   url: string;
@@ -12,4 +21,9 @@ export interface GalleryImage {
   tiktok?: string;
   onlyfans?: string;
   tags?: string[];
+  variants?: ImageVariant[];
+  // Premium items the viewer hasn't unlocked only carry the blurred teaser
+  locked?: boolean;
+  teaserUrl?: string | null;
+  blurHash?: string | null;
 }
@@ -1,2 +0,0 @@
-ALTER TABLE gallery ADD COLUMN is_premium INTEGER NOT NULL DEFAULT 0;
-ALTER TABLE gallery ADD COLUMN content_rating TEXT NOT NULL DEFAULT 'sfw';
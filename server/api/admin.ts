@@ -0,0 +1,507 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { requireAuth } from '../auth';
+import { storage } from '../storage';
+import { sessionStore, sessionHandle } from '../session-store';
+import { getPlatformSettings, updatePlatformSettings } from '../settings';
+import { isTwoFactorEnabled } from '../two-factor';
+import { listLoginAttempts, listActiveLockouts, unlockAccount } from '../login-throttle';
+import { refundPayment } from '../payments/billing';
+import { traceLeakedImage } from '../media/watermarks';
+import { groupDuplicates } from '../media/duplicates';
+import {
+  deleteQuarantinedMedia,
+  getLatestMediaReconciliation,
+  isMediaReconciliationRunning,
+  listQuarantinedMedia,
+  restoreQuarantinedMedia,
+  runMediaReconciliation
+} from '../media/reconciliation';
+import type { MediaKind } from '../media/private-store';
+import { actOnReport, listReports, type ReportAction } from '../moderation';
+import { decideContent, listPendingContent } from '../content-approval';
+import { exportAuditEvents, listAuditEvents } from '../audit';
+import {
+  contentDecisionSchema,
+  updatePlatformSettingsSchema,
+  refundSchema,
+  reportStatuses,
+  resolveReportSchema
+} from '@shared/schema';
+
+const router = Router();
+
+const loginAttemptsQuerySchema = z.object({
+  email: z.string().trim().min(1).optional(),
+  ipAddress: z.string().trim().min(1).optional(),
+  success: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25)
+});
+
+// Defaults to the platform setting, but the duplicates view lets admins try a looser or stricter match
+const duplicatesQuerySchema = z.object({
+  threshold: z.coerce.number().int().min(0).max(20).optional()
+});
+
+const reconciliationRunSchema = z.object({
+  dryRun: z.boolean().default(false)
+});
+
+const quarantineQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25)
+});
+
+const reportsQuerySchema = z.object({
+  status: z.enum(reportStatuses).default('open'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25)
+});
+
+const pendingContentQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25)
+});
+
+const auditEventFiltersSchema = z.object({
+  actorId: z.coerce.number().int().positive().optional(),
+  action: z.string().trim().min(1).max(100).optional(),
+  targetType: z.string().trim().min(1).max(50).optional(),
+  targetId: z.string().trim().min(1).max(255).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional()
+});
+
+const auditEventsQuerySchema = auditEventFiltersSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+// Leaked copies are only compared against the original, never stored
+const leakUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (!file.mimetype.startsWith('image/')) {
+      cb(new Error('Invalid file type'));
+      return;
+    }
+    cb(null, true);
+  },
+  limits: {
+    fileSize: 20 * 1024 * 1024 // 20MB limit
+  }
+});
+
+router.use(requireAuth(['admin']));
+
+// List a user's active sessions
+router.get('/users/:userId/sessions', async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const user = await storage.getUserById(String(userId));
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const sessions = (await sessionStore.listForUser(userId)).map(session => ({
+      ...session,
+      expiresAt: new Date(session.expiresAt).toISOString(),
+      current: session.handle === sessionHandle(req.sessionID)
+    }));
+
+    res.json(sessions);
+  } catch (error) {
+    console.error('Error fetching user sessions:', error);
+    res.status(500).json({ message: 'Error fetching user sessions' });
+  }
+});
+
+// Revoke a single session
+router.delete('/users/:userId/sessions/:handle', async (req, res) => {
+  try {
+    const revoked = await sessionStore.revoke(parseInt(req.params.userId), req.params.handle);
+    if (!revoked) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ message: 'Error revoking session' });
+  }
+});
+
+// Revoke all of a user's sessions; an admin revoking their own keeps the current one
+router.delete('/users/:userId/sessions', async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const keepSid = userId === req.user!.id ? req.sessionID : undefined;
+    const revokedCount = await sessionStore.revokeAllForUser(userId, keepSid);
+
+    res.json({ message: `Revoked ${revokedCount} sessions`, revokedCount });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ message: 'Error revoking sessions' });
+  }
+});
+
+// Recent login and registration attempts, newest first
+router.get('/login-attempts', async (req, res) => {
+  try {
+    const parsed = loginAttemptsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const { page, pageSize } = parsed.data;
+    const { attempts, total } = await listLoginAttempts(parsed.data);
+
+    res.json({ attempts, total, page, pageSize });
+  } catch (error) {
+    console.error('Error fetching login attempts:', error);
+    res.status(500).json({ message: 'Error fetching login attempts' });
+  }
+});
+
+router.get('/lockouts', async (req, res) => {
+  try {
+    res.json(await listActiveLockouts());
+  } catch (error) {
+    console.error('Error fetching account lockouts:', error);
+    res.status(500).json({ message: 'Error fetching account lockouts' });
+  }
+});
+
+// Lift a lockout early; earlier failures stop counting toward the next one
+router.delete('/lockouts/:email', async (req, res) => {
+  try {
+    if (!await unlockAccount(req.params.email, req.user!.id)) {
+      return res.status(404).json({ message: 'No active lockout for this account' });
+    }
+
+    res.json({ message: 'Account unlocked' });
+  } catch (error) {
+    console.error('Error unlocking account:', error);
+    res.status(500).json({ message: 'Error unlocking account' });
+  }
+});
+
+// Refund all or part of a charge; access is only revoked once the whole charge has been refunded
+router.post('/payments/:id/refund', async (req, res) => {
+  try {
+    const parsed = refundSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid refund',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const outcome = await refundPayment(parseInt(req.params.id), parsed.data.amount);
+    if (outcome.status !== 200) {
+      return res.status(outcome.status).json({ message: outcome.error });
+    }
+
+    console.log('Payment refunded by admin:', { paymentId: outcome.payment.id, adminId: req.user!.id });
+    res.json({ payment: outcome.payment, refund: outcome.refund });
+  } catch (error) {
+    console.error('Error refunding payment:', error);
+    res.status(500).json({ message: 'Error refunding payment' });
+  }
+});
+
+// Identify who a leaked premium image was served to from the invisible viewer mark
+router.post('/media/:kind(gallery|content)/:id/trace', leakUpload.single('image'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'No image uploaded' });
+    }
+
+    const trace = await traceLeakedImage(req.params.kind as MediaKind, parseInt(req.params.id), req.file.buffer);
+    if (trace === undefined) {
+      return res.status(404).json({ message: 'Media not found' });
+    }
+    if (trace === null) {
+      return res.status(404).json({ message: 'No viewer mark found in this image', code: 'NO_VIEWER_MARK' });
+    }
+
+    console.log('Leaked media traced by admin:', { kind: req.params.kind, id: req.params.id, viewerId: trace.viewerId, adminId: req.user!.id });
+    res.json(trace);
+  } catch (error) {
+    console.error('Error tracing leaked media:', error);
+    res.status(500).json({ message: 'Error tracing leaked media' });
+  }
+});
+
+// Near-duplicate images across gallery and creator content, grouped by perceptual hash
+router.get('/media/duplicates', async (req, res) => {
+  try {
+    const parsed = duplicatesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const threshold = parsed.data.threshold ?? (await getPlatformSettings()).duplicateHashThreshold;
+    res.json({ threshold, groups: await groupDuplicates(req.user!.id, threshold) });
+  } catch (error) {
+    console.error('Error finding duplicate media:', error);
+    res.status(500).json({ message: 'Error finding duplicate media' });
+  }
+});
+
+// The latest media store reconciliation report, and whether a run is in progress
+router.get('/media/reconciliation', async (req, res) => {
+  try {
+    res.json({ running: isMediaReconciliationRunning(), run: await getLatestMediaReconciliation() });
+  } catch (error) {
+    console.error('Error fetching media reconciliation:', error);
+    res.status(500).json({ message: 'Error fetching media reconciliation' });
+  }
+});
+
+// Start a reconciliation now rather than waiting for the schedule. It can take a while on a
+// large store, so it runs in the background; a dry run only reports.
+router.post('/media/reconciliation', (req, res) => {
+  try {
+    const parsed = reconciliationRunSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid request',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+    if (isMediaReconciliationRunning()) {
+      return res.status(409).json({ message: 'A reconciliation is already running', code: 'RECONCILIATION_RUNNING' });
+    }
+
+    runMediaReconciliation(parsed.data).catch(error => console.error('Media reconciliation failed:', error));
+    console.log('Media reconciliation started by admin:', { dryRun: parsed.data.dryRun, adminId: req.user!.id });
+    res.status(202).json({ message: 'Reconciliation started' });
+  } catch (error) {
+    console.error('Error starting media reconciliation:', error);
+    res.status(500).json({ message: 'Error starting media reconciliation' });
+  }
+});
+
+router.get('/media/quarantine', async (req, res) => {
+  try {
+    const parsed = quarantineQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const { page, pageSize } = parsed.data;
+    res.json({ ...await listQuarantinedMedia(parsed.data), page, pageSize });
+  } catch (error) {
+    console.error('Error fetching quarantined media:', error);
+    res.status(500).json({ message: 'Error fetching quarantined media' });
+  }
+});
+
+// Put a quarantined file back, e.g. when it turns out something did refer to it
+router.post('/media/quarantine/:id/restore', async (req, res) => {
+  try {
+    const entry = await restoreQuarantinedMedia(parseInt(req.params.id));
+    if (!entry) {
+      return res.status(404).json({ message: 'Quarantined file not found' });
+    }
+
+    console.log('Quarantined media restored by admin:', { key: entry.key, adminId: req.user!.id });
+    res.json({ message: 'File restored', key: entry.key });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return res.status(404).json({ message: 'Quarantined file is missing from the media store' });
+    }
+    console.error('Error restoring quarantined media:', error);
+    res.status(500).json({ message: 'Error restoring quarantined media' });
+  }
+});
+
+router.delete('/media/quarantine/:id', async (req, res) => {
+  try {
+    const entry = await deleteQuarantinedMedia(parseInt(req.params.id));
+    if (!entry) {
+      return res.status(404).json({ message: 'Quarantined file not found' });
+    }
+
+    console.log('Quarantined media deleted by admin:', { key: entry.key, adminId: req.user!.id });
+    res.json({ message: 'File deleted' });
+  } catch (error) {
+    console.error('Error deleting quarantined media:', error);
+    res.status(500).json({ message: 'Error deleting quarantined media' });
+  }
+});
+
+// The moderation queue: reported items, one case each, most recently reported first
+router.get('/reports', async (req, res) => {
+  try {
+    const parsed = reportsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const { page, pageSize } = parsed.data;
+    res.json({ ...await listReports(parsed.data, req.user!.id), page, pageSize });
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    res.status(500).json({ message: 'Error fetching reports' });
+  }
+});
+
+// Close a case: resolve keeps the item hidden, dismiss restores it, remove deletes it
+router.post('/reports/:id/:action(resolve|dismiss|remove)', async (req, res) => {
+  try {
+    const parsed = resolveReportSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid request',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const action = req.params.action as ReportAction;
+    const outcome = await actOnReport(parseInt(req.params.id), action, req.user!.id, parsed.data.note);
+    if (outcome.status !== 200) {
+      return res.status(outcome.status).json({ message: outcome.error, code: outcome.code });
+    }
+
+    console.log('Report closed by admin:', { reportId: outcome.report.id, action, adminId: req.user!.id });
+    res.json(outcome.report);
+  } catch (error) {
+    console.error('Error closing report:', error);
+    res.status(500).json({ message: 'Error closing report' });
+  }
+});
+
+// Creator posts waiting on approval, oldest first
+router.get('/content/pending', async (req, res) => {
+  try {
+    const parsed = pendingContentQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const { page, pageSize } = parsed.data;
+    res.json({ ...await listPendingContent(parsed.data, req.user!), page, pageSize });
+  } catch (error) {
+    console.error('Error fetching pending content:', error);
+    res.status(500).json({ message: 'Error fetching pending content' });
+  }
+});
+
+// Approve or reject pending posts in bulk; items no longer pending are skipped
+router.post('/content/moderation', async (req, res) => {
+  try {
+    const parsed = contentDecisionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid request',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const result = await decideContent(parsed.data, req.user!.id);
+    console.log('Content moderated by admin:', {
+      decision: parsed.data.decision,
+      contentIds: result.decided.map(item => item.id),
+      adminId: req.user!.id
+    });
+    res.json(result);
+  } catch (error) {
+    console.error('Error moderating content:', error);
+    res.status(500).json({ message: 'Error moderating content' });
+  }
+});
+
+// Privileged actions recorded by the audit middleware, newest first
+router.get('/audit-events', async (req, res) => {
+  try {
+    const parsed = auditEventsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const { page, pageSize } = parsed.data;
+    res.json({ ...await listAuditEvents(parsed.data), page, pageSize });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    res.status(500).json({ message: 'Error fetching audit events' });
+  }
+});
+
+// The same filters as the viewer, as a CSV download
+router.get('/audit-events/export', async (req, res) => {
+  try {
+    const parsed = auditEventFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const filename = `audit-events-${new Date().toISOString().slice(0, 10)}.csv`;
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store'
+    });
+    res.send(await exportAuditEvents(parsed.data));
+  } catch (error) {
+    console.error('Error exporting audit events:', error);
+    res.status(500).json({ message: 'Error exporting audit events' });
+  }
+});
+
+router.get('/settings', async (req, res) => {
+  try {
+    res.json(await getPlatformSettings());
+  } catch (error) {
+    console.error('Error fetching platform settings:', error);
+    res.status(500).json({ message: 'Error fetching platform settings' });
+  }
+});
+
+router.patch('/settings', async (req, res) => {
+  try {
+    const parsed = updatePlatformSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid settings',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    // Otherwise the admin flipping the switch would immediately lock themselves out of the dashboard
+    if (parsed.data.requireAdminTwoFactor && !await isTwoFactorEnabled(req.user!.id)) {
+      return res.status(400).json({ message: 'Enable two-factor authentication on your own account first' });
+    }
+
+    res.json(await updatePlatformSettings(parsed.data, req.user!.id));
+  } catch (error) {
+    console.error('Error updating platform settings:', error);
+    res.status(500).json({ message: 'Error updating platform settings' });
+  }
+});
+
+export default router;
@@ -1,18 +1,32 @@
 import { Router } from 'express';
-import { db } from '../db';
-import { content, contentSchema, users, creatorProfiles } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { z } from 'zod';
+import { contentSchema } from '@shared/schema';
+import { storage } from '../storage';
 import { requireAuth } from '../auth';
 import multer from 'multer';
+import fs from 'fs';
+import * as fsPromises from 'fs/promises';
 import path from 'path';
-import { processImage } from '../utils/imageProcessor';
+import { processImage, type ImageVariantFile } from '../utils/imageProcessor';
+import { probeVideo, UnsupportedVideoError, type VideoProbe } from '../utils/videoProcessor';
+import { getMediaEntitlements, presentContent } from '../media/access';
+import { deleteMediaFiles, isMediaPrivate } from '../media/private-store';
+import { deleteMediaVariants, getMediaVariants, recordMediaVariants, storeImageFiles } from '../media/variants';
+import { deleteVideoFiles, queueVideoProcessing, videoStagingKey } from '../media/video-jobs';
+import { MEDIA_SCRATCH_DIR, mediaStore } from '../media/store';
+import { createMediaTeaser, type MediaTeaser } from '../media/teasers';
+import { uploadWatermark } from '../media/watermarks';
+import { resumableUpload } from '../media/upload-sessions';
+import { duplicateWarning, findNearDuplicates, type DuplicateMatch } from '../media/duplicates';
+import { initialModerationStatus } from '../content-approval';
 
 const router = Router();
 
-// Configure multer for content uploads
-const storage = multer.diskStorage({
+// Uploads land in the scratch directory, which nothing serves, and only the processed
+// files go into the media store
+const diskStorage = multer.diskStorage({
   destination: (req, file, cb) => {
-    cb(null, path.join(process.cwd(), 'uploads', 'content'));
+    fs.mkdir(MEDIA_SCRATCH_DIR, { recursive: true, mode: 0o700 }, (err) => cb(err, MEDIA_SCRATCH_DIR));
   },
   filename: (req, file, cb) => {
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
@@ -21,7 +35,7 @@ const storage = multer.diskStorage({
 });
 
 const upload = multer({
-  storage,
+  storage: diskStorage,
   fileFilter: (req, file, cb) => {
     const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'video/mp4'];
     if (!allowedTypes.includes(file.mimetype)) {
@@ -35,31 +49,20 @@ const upload = multer({
   }
 });
 
-// Get content feed (public content)
+// Get content feed. Free content by default; ?premium=true lists premium items,
+// which stay locked unless the viewer is entitled to them.
 router.get('/feed', async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
     const offset = (page - 1) * limit;
+    const contentType = req.query.type === 'image' || req.query.type === 'video' ? req.query.type : undefined;
 
-    const feed = await db.query.content.findMany({
-      where: (content, { eq }) => eq(content.isPremium, 0),
-      limit,
-      offset,
-      orderBy: (content, { desc }) => [desc(content.createdAt)],
-      with: {
-        creator: {
-          columns: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true
-          }
-        }
-      }
-    });
+    const feed = await storage.getContentFeed({ limit, offset, contentType, premium: req.query.premium === 'true' });
 
-    res.json(feed);
+    const entitlements = await getMediaEntitlements(req.user);
+    const variants = await getMediaVariants('content', feed.map(item => item.id));
+    res.json(feed.map(item => ({ ...presentContent(item, entitlements, variants.get(item.id)), creator: item.creator })));
   } catch (error) {
     console.error('Error fetching feed:', error);
     res.status(500).json({ message: 'Error fetching feed' });
@@ -67,38 +70,20 @@ router.get('/feed', async (req, res) => {
 });
 
 // Get creator's content
-router.get('/creator/:creatorId', requireAuth, async (req, res) => {
+router.get('/creator/:creatorId', requireAuth(), async (req, res) => {
   try {
-    const { creatorId } = req.params;
-    const userId = req.user?.id;
+    const creatorId = parseInt(req.params.creatorId);
 
     // Check if user has access to premium content
-    const hasAccess = userId ? await db.query.subscriptions.findFirst({
-      where: (subscriptions, { and, eq }) => and(
-        eq(subscriptions.followerId, userId),
-        eq(subscriptions.creatorId, parseInt(creatorId)),
-        eq(subscriptions.status, 'active')
-      )
-    }) : false;
-
-    const creatorContent = await db.query.content.findMany({
-      where: (content, { and, eq, or }) => and(
-        eq(content.creatorId, parseInt(creatorId)),
-        hasAccess ? undefined : eq(content.isPremium, 0)
-      ),
-      orderBy: (content, { desc }) => [desc(content.createdAt)],
-      with: {
-        creator: {
-          columns: {
-            username: true,
-            displayName: true,
-            avatarUrl: true
-          }
-        }
-      }
+    const hasAccess = Boolean(await storage.getEntitledSubscription(req.user!.id, creatorId));
+    const creatorContent = await storage.getCreatorContent(creatorId, {
+      includePremium: hasAccess,
+      includeHidden: req.user!.id === creatorId || req.user!.role === 'admin'
     });
 
-    res.json(creatorContent);
+    const entitlements = await getMediaEntitlements(req.user);
+    const variants = await getMediaVariants('content', creatorContent.map(item => item.id));
+    res.json(creatorContent.map(item => presentContent(item, entitlements, variants.get(item.id))));
   } catch (error) {
     console.error('Error fetching creator content:', error);
     res.status(500).json({ message: 'Error fetching creator content' });
@@ -106,19 +91,15 @@ router.get('/creator/:creatorId', requireAuth, async (req, res) => {
 });
 
 // Create new content (creators only)
-router.post('/', requireAuth, upload.single('file'), async (req, res) => {
+router.post('/', requireAuth(), upload.single('file'), resumableUpload('file', MEDIA_SCRATCH_DIR), async (req, res) => {
+  let originalPath: string | undefined;
+  let variantFiles: ImageVariantFile[] = [];
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
 
     // Check if user is an approved creator
-    const creator = await db.query.creatorProfiles.findFirst({
-      where: (profiles, { and, eq }) => and(
-        eq(profiles.userId, userId),
-        eq(profiles.approvalStatus, 'approved')
-      )
-    });
-
-    if (!creator) {
+    const creator = await storage.getCreatorProfile(userId);
+    if (creator?.approvalStatus !== 'approved') {
       return res.status(403).json({ message: 'Only approved creators can post content' });
     }
 
@@ -127,58 +108,119 @@ router.post('/', requireAuth, upload.single('file'), async (req, res) => {
       return res.status(400).json({ message: 'No file uploaded' });
     }
 
-    // Validate content data
+    const contentType = file.mimetype.startsWith('image/') ? 'image' : 'video';
+    // Images are re-encoded; the processed copy replaces the original upload
+    const filename = contentType === 'image' ? `processed_${file.filename}` : file.filename;
+
+    // Multipart fields arrive as strings
     const contentData = contentSchema.parse({
-      ...req.body,
-      url: `/uploads/content/${file.filename}`,
-      contentType: file.mimetype.startsWith('image/') ? 'image' : 'video'
+      title: req.body.title,
+      description: req.body.description || undefined,
+      isPremium: req.body.isPremium === true || req.body.isPremium === 'true',
+      price: req.body.price ? Number(req.body.price) : undefined,
+      url: `/uploads/content/${filename}`,
+      contentType
     });
-
-    // Process image if it's an image file
-    if (contentData.contentType === 'image') {
-      await processImage(file.path, {
-        quality: 80,
-        maxWidth: 2000
+    // Posts waiting on approval are only visible to their creator and admins
+    const moderationStatus = await initialModerationStatus(userId);
+
+    originalPath = file.path;
+    let teaser: MediaTeaser | undefined;
+    let perceptualHash: string | undefined;
+    let duplicates: DuplicateMatch[] = [];
+    let probe: VideoProbe | undefined;
+    if (contentType === 'image') {
+      const processed = await processImage(file.path, path.join(MEDIA_SCRATCH_DIR, filename), {
+        watermark: await uploadWatermark(creator)
       });
+      variantFiles = processed.variants;
+      teaser = await createMediaTeaser('content', processed.path, contentData.url);
+      perceptualHash = processed.perceptualHash;
+      // Checked before the insert so the upload doesn't match itself
+      duplicates = await findNearDuplicates(perceptualHash, userId);
+      // Premium and unpublished files go straight to the private side and are never publicly reachable
+      await storeImageFiles(
+        'content',
+        contentData.url,
+        variantFiles,
+        isMediaPrivate({ isPremium: contentData.isPremium, hiddenAt: null, moderationStatus })
+      );
+    } else {
+      probe = await probeVideo(file.path);
+      // Staged privately for the worker, which publishes the transcoded copy
+      await mediaStore.put(videoStagingKey(contentData.url), file.path, file.mimetype);
+      originalPath = undefined;
     }
 
     // Create content record
-    const [newContent] = await db.insert(content).values({
+    const newContent = await storage.createContent({
       ...contentData,
-      creatorId: userId
-    }).returning();
+      ...teaser,
+      perceptualHash,
+      creatorId: userId,
+      moderationStatus,
+      ...(probe && {
+        processingStatus: 'pending' as const,
+        durationSeconds: probe.durationSeconds,
+        width: probe.width,
+        height: probe.height
+      })
+    });
+    const variants = await recordMediaVariants('content', newContent.id, newContent.url, variantFiles);
+    if (probe) {
+      queueVideoProcessing();
+    }
 
-    res.status(201).json(newContent);
+    res.status(201).json({
+      ...presentContent(newContent, await getMediaEntitlements(req.user), variants),
+      duplicateWarning: duplicateWarning(duplicates, req.user!)
+    });
   } catch (error) {
     console.error('Error creating content:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid content data', errors: error.flatten().fieldErrors });
+    }
+    if (error instanceof UnsupportedVideoError) {
+      return res.status(415).json({ message: error.message, code: 'UNSUPPORTED_VIDEO' });
+    }
     res.status(500).json({ message: 'Error creating content' });
+  } finally {
+    if (originalPath) {
+      fsPromises.unlink(originalPath).catch(() => {});
+    }
+    // Processed files are moved into the store; anything still here belongs to a failed upload
+    for (const file of variantFiles) {
+      fsPromises.unlink(file.path).catch(() => {});
+    }
   }
 });
 
 // Delete content
-router.delete('/:contentId', requireAuth, async (req, res) => {
+router.delete('/:contentId', requireAuth(), async (req, res) => {
   try {
-    const { contentId } = req.params;
-    const userId = req.user?.id;
-
-    // Check if user owns the content or is admin
-    const contentItem = await db.query.content.findFirst({
-      where: (content, { eq }) => eq(content.id, parseInt(contentId))
-    });
+    const contentId = parseInt(req.params.contentId);
+    const contentItem = await storage.getContent(contentId);
 
     if (!contentItem) {
       return res.status(404).json({ message: 'Content not found' });
     }
 
-    const user = await db.query.users.findFirst({
-      where: (users, { eq }) => eq(users.id, userId)
-    });
-
-    if (contentItem.creatorId !== userId && user?.role !== 'admin') {
+    // Check if user owns the content or is admin
+    if (contentItem.creatorId !== req.user!.id && req.user!.role !== 'admin') {
       return res.status(403).json({ message: 'Not authorized to delete this content' });
     }
 
-    await db.delete(content).where(eq(content.id, parseInt(contentId)));
+    await storage.deleteContent(contentId);
+
+    try {
+      await deleteMediaFiles('content', contentItem.teaserUrl);
+      await deleteMediaVariants('content', contentId);
+      if (contentItem.contentType === 'video') {
+        await deleteVideoFiles(contentItem);
+      }
+    } catch (error) {
+      console.warn('Failed to delete content variants:', error);
+    }
 
     res.json({ message: 'Content deleted successfully' });
   } catch (error) {
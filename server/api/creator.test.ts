@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Content, User } from '@shared/schema';
+import { routerApp, request } from '../test/http';
+
+vi.mock('../storage', async importOriginal => {
+  const { MemoryStorage } = await import('../memory-storage');
+  return { ...await importOriginal<typeof import('../storage')>(), storage: new MemoryStorage() };
+});
+vi.mock('../media/private-store', async importOriginal => ({
+  ...await importOriginal<typeof import('../media/private-store')>(),
+  setMediaVisibility: vi.fn(),
+  setMediaDirectoryVisibility: vi.fn(),
+  deleteMediaFiles: vi.fn()
+}));
+vi.mock('../media/variants', async importOriginal => ({
+  ...await importOriginal<typeof import('../media/variants')>(),
+  setMediaVariantsVisibility: vi.fn(),
+  deleteMediaVariants: vi.fn()
+}));
+vi.mock('../media/teasers', async importOriginal => ({
+  ...await importOriginal<typeof import('../media/teasers')>(),
+  ensureMediaTeaser: vi.fn(async () => null)
+}));
+
+const { storage } = await import('../storage');
+const { deleteMediaFiles } = await import('../media/private-store');
+const { default: creatorRouter } = await import('./creator');
+
+let userCount = 0;
+
+async function createCreator(): Promise<User> {
+  userCount++;
+  const user = await storage.createUser({ email: `creator${userCount}@example.com`, password: 'hash', role: 'creator' });
+  await storage.createCreatorProfile({ userId: user.id, displayName: `Creator ${userCount}` });
+  return user;
+}
+
+function createPost(creatorId: number, values: { isPremium?: boolean; moderationStatus?: 'pending' | 'approved' } = {}) {
+  return storage.createContent({
+    creatorId,
+    title: 'Post',
+    contentType: 'image',
+    url: `/uploads/content/post-${Date.now()}-${Math.random()}.jpg`,
+    ...values
+  });
+}
+
+describe('creator profile', () => {
+  it("returns and updates the signed-in creator's own profile", async () => {
+    const creator = await createCreator();
+    const app = routerApp('/api/creator', creatorRouter, creator);
+
+    const updated = await request(app, 'PATCH', '/api/creator/profile', { aliasName: 'New Alias', perPostPrice: 5 });
+    const fetched = await request(app, 'GET', '/api/creator/profile');
+
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ userId: creator.id, aliasName: 'New Alias', perPostPrice: 5 });
+    expect(fetched.body).toMatchObject({ userId: creator.id, aliasName: 'New Alias' });
+  });
+
+  it('rejects invalid profile fields', async () => {
+    const app = routerApp('/api/creator', creatorRouter, await createCreator());
+
+    const res = await request(app, 'PATCH', '/api/creator/profile', { perPostPrice: -1 });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('creator content', () => {
+  it('lists every one of their own posts, including premium and pending ones', async () => {
+    const creator = await createCreator();
+    const other = await createCreator();
+    const posts = [
+      await createPost(creator.id),
+      await createPost(creator.id, { isPremium: true }),
+      await createPost(creator.id, { moderationStatus: 'pending' })
+    ];
+    await createPost(other.id);
+
+    const res = await request<Content[]>(routerApp('/api/creator', creatorRouter, creator), 'GET', '/api/creator/content');
+
+    expect(res.status).toBe(200);
+    expect(res.body.map(item => item.id).sort()).toEqual(posts.map(post => post.id).sort());
+  });
+
+  it('edits their own posts but not anyone else’s', async () => {
+    const creator = await createCreator();
+    const other = await createCreator();
+    const own = await createPost(creator.id);
+    const theirs = await createPost(other.id);
+    const app = routerApp('/api/creator', creatorRouter, creator);
+
+    const edited = await request<Content>(app, 'PATCH', `/api/creator/content/${own.id}`, { title: 'Renamed' });
+    const refused = await request(app, 'PATCH', `/api/creator/content/${theirs.id}`, { title: 'Renamed' });
+
+    expect(edited.status).toBe(200);
+    expect(edited.body.title).toBe('Renamed');
+    expect(refused.status).toBe(404);
+    expect((await storage.getContent(theirs.id))?.title).toBe('Post');
+  });
+
+  it('deletes their own posts and the files behind them', async () => {
+    const creator = await createCreator();
+    const other = await createCreator();
+    const own = await createPost(creator.id);
+    const theirs = await createPost(other.id);
+    const app = routerApp('/api/creator', creatorRouter, creator);
+
+    const deleted = await request(app, 'DELETE', `/api/creator/content/${own.id}`);
+    const refused = await request(app, 'DELETE', `/api/creator/content/${theirs.id}`);
+
+    expect(deleted.status).toBe(200);
+    expect(await storage.getContent(own.id)).toBeUndefined();
+    expect(deleteMediaFiles).toHaveBeenCalledWith('content', own.url);
+    expect(refused.status).toBe(404);
+    expect(await storage.getContent(theirs.id)).toBeDefined();
+  });
+
+  it('is closed to anyone who is not a creator', async () => {
+    const follower = await storage.createUser({ email: 'follower@example.com', password: 'hash', role: 'follower' });
+
+    const res = await request(routerApp('/api/creator', creatorRouter, follower), 'GET', '/api/creator/content');
+
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,218 @@
+import { Router } from 'express';
+import multer from 'multer';
+import fs from 'fs';
+import * as fsPromises from 'fs/promises';
+import path from 'path';
+import { updateContentSchema, updateCreatorProfileSchema } from '@shared/schema';
+import { storage } from '../storage';
+import { requireAuth } from '../auth';
+import { processImage, ensureImageQuality } from '../utils/imageProcessor';
+import { getMediaEntitlements, presentContent } from '../media/access';
+import { deleteMediaFiles, isMediaPrivate, setMediaDirectoryVisibility, setMediaVisibility } from '../media/private-store';
+import { ensureMediaTeaser } from '../media/teasers';
+import { deleteMediaVariants, getMediaVariants, setMediaVariantsVisibility } from '../media/variants';
+import { deleteVideoFiles, videoOutputDirUrl } from '../media/video-jobs';
+import { MEDIA_SCRATCH_DIR, mediaStore } from '../media/store';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      fs.mkdir(MEDIA_SCRATCH_DIR, { recursive: true, mode: 0o700 }, (err) => cb(err, MEDIA_SCRATCH_DIR));
+    },
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
+    }
+  }),
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
+    if (!allowedTypes.includes(file.mimetype)) {
+      cb(new Error(`Invalid file type. Allowed types: ${allowedTypes.join(', ')}`));
+      return;
+    }
+    cb(null, true);
+  },
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  }
+});
+
+// Every route here acts on the signed-in creator's own records
+router.use(requireAuth(['creator']));
+
+async function findOwnContent(contentId: number, creatorId: number) {
+  const item = await storage.getContent(contentId);
+  return item?.creatorId === creatorId ? item : undefined;
+}
+
+// Get the creator's profile
+router.get('/profile', async (req, res) => {
+  try {
+    const profile = await storage.getCreatorProfile(req.user!.id);
+
+    if (!profile) {
+      return res.status(404).json({ message: 'Creator profile not found' });
+    }
+
+    res.json(profile);
+  } catch (error) {
+    console.error('Error fetching creator profile:', error);
+    res.status(500).json({ message: 'Error fetching creator profile' });
+  }
+});
+
+// Update the creator's profile
+router.patch('/profile', async (req, res) => {
+  try {
+    const parsed = updateCreatorProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid profile data',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      return res.status(400).json({ message: 'No profile fields to update' });
+    }
+
+    const profile = await storage.updateCreatorProfile(req.user!.id, parsed.data);
+
+    if (!profile) {
+      return res.status(404).json({ message: 'Creator profile not found' });
+    }
+
+    res.json(profile);
+  } catch (error) {
+    console.error('Error updating creator profile:', error);
+    res.status(500).json({ message: 'Error updating creator profile' });
+  }
+});
+
+// Upload a new featured image for the creator's profile
+router.post('/profile/featured-image', upload.single('image'), async (req, res) => {
+  const file = req.file;
+  try {
+    if (!file) {
+      return res.status(400).json({ message: 'No image file provided' });
+    }
+
+    await ensureImageQuality(file.path);
+
+    const processedFilename = `processed_${file.filename}`;
+    const processed = await processImage(file.path, path.join(MEDIA_SCRATCH_DIR, processedFilename), { variants: false });
+    await mediaStore.put(`uploads/${processedFilename}`, processed.path, 'image/jpeg');
+
+    const profile = await storage.updateCreatorProfile(req.user!.id, { featuredImageUrl: `/uploads/${processedFilename}` });
+
+    if (!profile) {
+      return res.status(404).json({ message: 'Creator profile not found' });
+    }
+
+    res.json(profile);
+  } catch (error) {
+    console.error('Error uploading featured image:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    res.status(message.includes('Image dimensions too small') ? 400 : 500).json({
+      message: 'Error uploading featured image',
+      error: message
+    });
+  } finally {
+    if (file) {
+      fsPromises.unlink(file.path).catch(() => {});
+    }
+  }
+});
+
+// List the creator's own content, premium included
+router.get('/content', async (req, res) => {
+  try {
+    const items = await storage.getCreatorContent(req.user!.id, { includePremium: true, includeHidden: true });
+
+    const entitlements = await getMediaEntitlements(req.user);
+    const variants = await getMediaVariants('content', items.map(item => item.id));
+    res.json(items.map(item => presentContent(item, entitlements, variants.get(item.id))));
+  } catch (error) {
+    console.error('Error fetching creator content:', error);
+    res.status(500).json({ message: 'Error fetching creator content' });
+  }
+});
+
+// Edit one of the creator's content items
+router.patch('/content/:contentId', async (req, res) => {
+  try {
+    const parsed = updateContentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid content data',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const contentId = parseInt(req.params.contentId);
+    const existing = await findOwnContent(contentId, req.user!.id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Content not found' });
+    }
+
+    const updated = await storage.updateContent(contentId, parsed.data);
+    if (!updated) {
+      return res.status(404).json({ message: 'Content not found' });
+    }
+
+    if (isMediaPrivate(updated) !== isMediaPrivate(existing)) {
+      await setMediaVisibility('content', updated.url, isMediaPrivate(updated));
+      await setMediaVisibility('content', updated.thumbnailUrl, isMediaPrivate(updated));
+      await setMediaVariantsVisibility('content', updated.id, isMediaPrivate(updated));
+      if (updated.contentType === 'video') {
+        await setMediaDirectoryVisibility('content', videoOutputDirUrl(updated.id), isMediaPrivate(updated));
+      }
+    }
+    if (updated.isPremium && !existing.isPremium) {
+      Object.assign(updated, await ensureMediaTeaser({ kind: 'content', item: updated }));
+    }
+
+    res.json(presentContent(updated, await getMediaEntitlements(req.user), (await getMediaVariants('content', [updated.id])).get(updated.id)));
+  } catch (error) {
+    console.error('Error updating content:', error);
+    res.status(500).json({ message: 'Error updating content' });
+  }
+});
+
+// Delete one of the creator's content items and its files
+router.delete('/content/:contentId', async (req, res) => {
+  try {
+    const contentId = parseInt(req.params.contentId);
+    const existing = await findOwnContent(contentId, req.user!.id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Content not found' });
+    }
+
+    await storage.deleteContent(contentId);
+
+    for (const url of [existing.url, existing.thumbnailUrl, existing.teaserUrl]) {
+      try {
+        await deleteMediaFiles('content', url);
+      } catch (error) {
+        console.warn('Failed to delete content file:', error);
+      }
+    }
+    try {
+      await deleteMediaVariants('content', contentId);
+      if (existing.contentType === 'video') {
+        await deleteVideoFiles(existing);
+      }
+    } catch (error) {
+      console.warn('Failed to delete content variants:', error);
+    }
+
+    res.json({ message: 'Content deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting content:', error);
+    res.status(500).json({ message: 'Error deleting content' });
+  }
+});
+
+export default router;
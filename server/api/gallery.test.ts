@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Gallery, User } from '@shared/schema';
+import { routerApp, request } from '../test/http';
+import type { PresentedGalleryItem } from '../media/access';
+
+vi.mock('../storage', async importOriginal => {
+  const { MemoryStorage } = await import('../memory-storage');
+  return { ...await importOriginal<typeof import('../storage')>(), storage: new MemoryStorage() };
+});
+vi.mock('../media/private-store', async importOriginal => ({
+  ...await importOriginal<typeof import('../media/private-store')>(),
+  setMediaVisibility: vi.fn(),
+  deleteMediaFiles: vi.fn()
+}));
+vi.mock('../media/variants', async importOriginal => ({
+  ...await importOriginal<typeof import('../media/variants')>(),
+  setMediaVariantsVisibility: vi.fn(),
+  deleteMediaVariants: vi.fn()
+}));
+vi.mock('../media/teasers', async importOriginal => ({
+  ...await importOriginal<typeof import('../media/teasers')>(),
+  ensureMediaTeaser: vi.fn(async () => null)
+}));
+
+const { storage } = await import('../storage');
+const { setMediaVisibility } = await import('../media/private-store');
+const { default: galleryRouter } = await import('./gallery');
+
+let userCount = 0;
+
+function createUser(role: string): Promise<User> {
+  userCount++;
+  return storage.createUser({ email: `user${userCount}@example.com`, password: 'hash', role });
+}
+
+function createItem(isPremium: boolean) {
+  return storage.createGalleryItem({
+    url: `/uploads/item-${Date.now()}-${Math.random()}.jpg`,
+    title: 'Item',
+    isPremium,
+    createdAt: new Date().toISOString()
+  });
+}
+
+describe('GET /api/gallery', () => {
+  it('gives anonymous viewers only the teaser of premium items', async () => {
+    const premium = await storage.createGalleryItem({
+      url: `/uploads/premium-${Date.now()}.jpg`,
+      title: 'Premium',
+      isPremium: true,
+      teaserUrl: '/uploads/premium-teaser.jpg',
+      blurHash: 'LEHV6nWB2yk8',
+      createdAt: new Date().toISOString()
+    });
+    const free = await createItem(false);
+
+    const res = await request<PresentedGalleryItem[]>(routerApp('/api/gallery', galleryRouter), 'GET', '/api/gallery');
+    const item = (id: number) => res.body.find(presented => presented.id === id);
+
+    expect(res.status).toBe(200);
+    expect(item(premium.id)).toMatchObject({ locked: true, url: `/api/media/gallery/${premium.id}`, teaserUrl: premium.teaserUrl, blurHash: premium.blurHash });
+    expect(JSON.stringify(item(premium.id))).not.toContain(premium.url);
+    expect(item(free.id)).toMatchObject({ locked: false, url: free.url });
+  });
+
+  it('gives admins a signed URL for premium items', async () => {
+    const admin = await createUser('admin');
+    const premium = await createItem(true);
+
+    const res = await request<PresentedGalleryItem>(routerApp('/api/gallery', galleryRouter, admin), 'GET', `/api/gallery/${premium.id}`);
+
+    expect(res.body.locked).toBe(false);
+    expect(res.body.url).toMatch(new RegExp(`^/api/media/gallery/${premium.id}\\?expires=\\d+&viewer=${admin.id}&sig=`));
+  });
+});
+
+describe('PATCH /api/gallery/:id/premium', () => {
+  it('marks the item premium and moves its files to the private side', async () => {
+    const app = routerApp('/api/gallery', galleryRouter, await createUser('admin'));
+    const item = await createItem(false);
+
+    const res = await request<{ updatedItem: Gallery }>(app, 'PATCH', `/api/gallery/${item.id}/premium`, { isPremium: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.updatedItem).toMatchObject({ id: item.id, isPremium: true });
+    expect((await storage.getGalleryItem(item.id))?.isPremium).toBe(true);
+    expect(setMediaVisibility).toHaveBeenCalledWith('gallery', item.url, true);
+  });
+
+  it('returns 404 for an item that does not exist', async () => {
+    const app = routerApp('/api/gallery', galleryRouter, await createUser('admin'));
+
+    const res = await request(app, 'PATCH', '/api/gallery/9999/premium', { isPremium: true });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('is only open to admins', async () => {
+    const app = routerApp('/api/gallery', galleryRouter, await createUser('creator'));
+    const item = await createItem(false);
+
+    const res = await request(app, 'PATCH', `/api/gallery/${item.id}/premium`, { isPremium: true });
+
+    expect(res.status).toBe(403);
+    expect((await storage.getGalleryItem(item.id))?.isPremium).toBe(false);
+  });
+});
+
+describe('POST /api/gallery/remove-premium', () => {
+  it('clears the premium flag from every premium item', async () => {
+    const app = routerApp('/api/gallery', galleryRouter, await createUser('admin'));
+    const premium = [await createItem(true), await createItem(true)];
+    const free = await createItem(false);
+
+    const res = await request<{ updatedCount: number }>(app, 'POST', '/api/gallery/remove-premium');
+
+    expect(res.status).toBe(200);
+    expect(res.body.updatedCount).toBeGreaterThanOrEqual(2);
+    for (const item of [...premium, free]) {
+      expect((await storage.getGalleryItem(item.id))?.isPremium).toBe(false);
+    }
+  });
+});
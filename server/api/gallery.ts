@@ -0,0 +1,206 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage, decodeGalleryCursor } from '../storage';
+import { requireAuth } from '../auth';
+import { getMediaEntitlements, presentGalleryItem } from '../media/access';
+import { deleteMediaFiles, isMediaPrivate, setMediaVisibility } from '../media/private-store';
+import { deleteMediaVariants, getMediaVariants, setMediaVariantsVisibility } from '../media/variants';
+import { ensureMediaTeaser } from '../media/teasers';
+
+const router = Router();
+
+const MAX_PAGE_SIZE = 100;
+
+const galleryQuerySchema = z.object({
+  type: z.enum(['gallery', 'featured']).optional(),
+  premium: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  contentRating: z.enum(['sfw', 'nsfw']).optional(),
+  // Accept both ?tag=a&tag=b and ?tags=a,b
+  tag: z.union([z.string(), z.array(z.string())]).optional(),
+  tags: z.string().optional(),
+  sort: z.enum(['newest', 'oldest', 'title']).default('newest'),
+  cursor: z.string().refine(value => {
+    try {
+      decodeGalleryCursor(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid cursor').optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional()
+});
+
+// List gallery items. The body stays a plain array for existing clients;
+// the cursor for the next page is returned in the X-Next-Cursor header.
+router.get('/', async (req, res) => {
+  try {
+    const parsed = galleryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid gallery query',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const { tag, tags, ...query } = parsed.data;
+    const tagList = [
+      ...(Array.isArray(tag) ? tag : tag ? [tag] : []),
+      ...(tags ? tags.split(',') : [])
+    ].map(t => t.trim()).filter(t => t.length > 0);
+
+    // A cursor without a page size would return everything after it, so default the limit
+    const limit = query.limit ?? (query.cursor ? 20 : undefined);
+
+    const page = await storage.getGalleryItems({ ...query, tags: tagList, limit, includeHidden: req.user?.role === 'admin' });
+
+    if (page.nextCursor) {
+      res.setHeader('X-Next-Cursor', page.nextCursor);
+    }
+    res.setHeader('Access-Control-Expose-Headers', 'X-Next-Cursor');
+    // Premium files are only reachable through signed URLs issued to entitled viewers
+    const entitlements = await getMediaEntitlements(req.user);
+    const variants = await getMediaVariants('gallery', page.items.map(item => item.id));
+    res.json(page.items.map(item => presentGalleryItem(item, entitlements, variants.get(item.id))));
+  } catch (error) {
+    console.error('Error fetching gallery items:', error);
+    res.status(500).json({
+      message: 'Failed to fetch gallery items',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: 'Invalid gallery item ID' });
+    }
+
+    const item = await storage.getGalleryItem(id);
+    // Hidden items don't exist as far as anyone but admins can tell
+    if (!item || (item.hiddenAt && req.user?.role !== 'admin')) {
+      return res.status(404).json({ message: 'Gallery item not found' });
+    }
+
+    res.json(presentGalleryItem(item, await getMediaEntitlements(req.user), (await getMediaVariants('gallery', [id])).get(id)));
+  } catch (error) {
+    console.error('Error fetching gallery item:', error);
+    res.status(500).json({
+      message: 'Failed to fetch gallery item',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Delete a gallery item and its processed files (admins only)
+router.delete('/:id', requireAuth(['admin']), async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: 'Invalid gallery item ID' });
+    }
+
+    const deletedItem = await storage.deleteGalleryItem(id);
+    if (!deletedItem) {
+      return res.status(404).json({ message: 'Gallery item not found' });
+    }
+
+    // The row is gone at this point, so a file that can't be removed is only worth a warning
+    try {
+      await deleteMediaFiles('gallery', deletedItem.url);
+      await deleteMediaFiles('gallery', deletedItem.teaserUrl);
+      await deleteMediaVariants('gallery', deletedItem.id);
+    } catch (error) {
+      console.warn('Failed to delete gallery file:', error);
+    }
+
+    res.json({
+      message: 'Gallery item deleted',
+      deletedItem
+    });
+  } catch (error) {
+    console.error('Error deleting gallery item:', error);
+    res.status(500).json({
+      message: 'Failed to delete gallery item',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Update gallery item premium status
+router.patch('/:id/premium', requireAuth(['admin']), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { isPremium } = req.body;
+    
+    // Convert isPremium to boolean properly
+    const isPremiumBool = isPremium === true || isPremium === 'true' ? true : false;
+    
+    console.log(`Updating premium status for gallery item ${id} to ${isPremiumBool}`);
+    
+    // Validate the ID
+    if (!id || isNaN(Number(id))) {
+      return res.status(400).json({ 
+        message: "Invalid gallery item ID" 
+      });
+    }
+    
+    // Update the gallery item
+    const updatedItem = await storage.setGalleryItemPremium(Number(id), isPremiumBool);
+    
+    if (!updatedItem) {
+      return res.status(404).json({ 
+        message: "Gallery item not found" 
+      });
+    }
+
+    // A hidden item's files stay private whatever its premium flag
+    await setMediaVisibility('gallery', updatedItem.url, isMediaPrivate(updatedItem));
+    await setMediaVariantsVisibility('gallery', updatedItem.id, isMediaPrivate(updatedItem));
+    if (isPremiumBool) {
+      Object.assign(updatedItem, await ensureMediaTeaser({ kind: 'gallery', item: updatedItem }));
+    }
+    
+    console.log('Successfully updated gallery item:', updatedItem);
+    res.json({ 
+      message: "Gallery item updated", 
+      updatedItem 
+    });
+  } catch (error) {
+    console.error('Failed to update gallery item:', error);
+    res.status(500).json({ 
+      message: "Failed to update gallery item",
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Batch update gallery items to remove premium status
+router.post('/remove-premium', requireAuth(['admin']), async (req, res) => {
+  try {
+    console.log('Removing premium status from all gallery items');
+    
+    // Update all gallery items
+    const result = await storage.clearGalleryPremium();
+
+    for (const item of result) {
+      await setMediaVisibility('gallery', item.url, isMediaPrivate(item));
+      await setMediaVariantsVisibility('gallery', item.id, isMediaPrivate(item));
+    }
+    
+    console.log(`Successfully updated ${result.length} gallery items`);
+    res.json({ 
+      message: `Successfully removed premium status from ${result.length} gallery items`, 
+      updatedCount: result.length 
+    });
+  } catch (error) {
+    console.error('Failed to update gallery items:', error);
+    res.status(500).json({ 
+      message: "Failed to update gallery items",
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+export default router;
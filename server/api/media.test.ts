@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import type { User } from '@shared/schema';
+import { routerApp, request } from '../test/http';
+import { storage } from '../storage';
+import { signMediaUrl, type SignedMediaUrl } from '../media/access';
+import { storeMediaFile } from '../media/private-store';
+import { MEDIA_SCRATCH_DIR } from '../media/store';
+import { recordMediaVariants, storeImageFiles } from '../media/variants';
+import mediaRouter from './media';
+
+let userCount = 0;
+
+function createUser(role: User['role'] = 'follower') {
+  userCount++;
+  return storage.createUser({ email: `user${userCount}@example.com`, password: 'hash', role });
+}
+
+function createItem(isPremium: boolean) {
+  const url = `/uploads/item-${Date.now()}-${Math.random()}.txt`;
+  return storage.createGalleryItem({ url, title: 'Item', isPremium, createdAt: new Date().toISOString() });
+}
+
+// Only premium files go in the store: public ones would land in the project's uploads/
+async function createPremiumItem(contents: string) {
+  const item = await createItem(true);
+  const file = path.join(MEDIA_SCRATCH_DIR, `item-${item.id}.txt`);
+  fs.mkdirSync(MEDIA_SCRATCH_DIR, { recursive: true });
+  fs.writeFileSync(file, contents);
+  await storeMediaFile('gallery', item.url, file, true, 'text/plain');
+  return item;
+}
+
+// A card-sized WebP rendition of a premium item, stored and recorded the way uploads do it
+async function addCardVariant(item: { id: number; url: string }, contents: string) {
+  const file = path.join(MEDIA_SCRATCH_DIR, `item-${item.id}-card.webp`);
+  fs.writeFileSync(file, contents);
+  const variant = { variant: 'card' as const, format: 'webp' as const, path: file, width: 640, height: 480, bytes: contents.length };
+  await storeImageFiles('gallery', item.url, [variant], true);
+  await recordMediaVariants('gallery', item.id, item.url, [variant]);
+}
+
+async function subscribe(follower: User) {
+  const creator = await createUser('creator');
+  await storage.createSubscription({
+    followerId: follower.id,
+    creatorId: creator.id,
+    type: 'monthly',
+    amount: 10,
+    status: 'active',
+    endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+  });
+}
+
+describe('GET /api/media/:kind/:id', () => {
+  // The file route is authorized by its signature alone, so it's requested without a session
+  const anonymous = routerApp('/api/media', mediaRouter);
+
+  it('serves a premium file to the subscriber the URL was signed for', async () => {
+    const subscriber = await createUser();
+    await subscribe(subscriber);
+    const item = await createPremiumItem('premium bytes');
+
+    const res = await request(anonymous, 'GET', signMediaUrl('gallery', item.id, subscriber.id).url);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toBe('premium bytes');
+    expect(res.headers.get('cache-control')).toMatch(/^private, max-age=\d+$/);
+  });
+
+  it('serves the rendition named by size and format with its image type', async () => {
+    const subscriber = await createUser();
+    await subscribe(subscriber);
+    const item = await createPremiumItem('premium bytes');
+    await addCardVariant(item, 'card bytes');
+    const signed = signMediaUrl('gallery', item.id, subscriber.id).url;
+
+    const card = await request(anonymous, 'GET', `${signed}&size=card&format=webp`);
+    const missing = await request(anonymous, 'GET', `${signed}&size=thumbnail&format=avif`);
+
+    expect(card.status).toBe(200);
+    expect(card.body).toBe('card bytes');
+    expect(card.headers.get('content-type')).toBe('image/webp');
+    expect(missing.status).toBe(404);
+  });
+
+  it('refuses unsigned, expired and altered URLs', async () => {
+    const subscriber = await createUser();
+    await subscribe(subscriber);
+    const item = await createPremiumItem('premium bytes');
+    const expired = signMediaUrl('gallery', item.id, subscriber.id, Date.now() - 60 * 60 * 1000);
+    const signed = signMediaUrl('gallery', item.id, subscriber.id);
+
+    for (const url of [`/api/media/gallery/${item.id}`, expired.url, signed.url.replace(`viewer=${subscriber.id}`, `viewer=${subscriber.id + 1}`)]) {
+      const res = await request(anonymous, 'GET', url);
+      expect(res.status, url).toBe(403);
+      expect(res.body, url).toMatchObject({ code: 'MEDIA_URL_INVALID' });
+    }
+  });
+
+  it('refuses a valid URL once the viewer no longer has access', async () => {
+    const follower = await createUser();
+    const item = await createPremiumItem('premium bytes');
+
+    const res = await request(anonymous, 'GET', signMediaUrl('gallery', item.id, follower.id).url);
+
+    expect(res.status).toBe(403);
+    expect(res.body).toMatchObject({ code: 'MEDIA_LOCKED' });
+  });
+
+  it('redirects free items to their public URL', async () => {
+    const item = await createItem(false);
+
+    const res = await request(anonymous, 'GET', `/api/media/gallery/${item.id}`);
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get('location')).toBe(item.url);
+  });
+
+  it('returns 404 for an item that does not exist', async () => {
+    const res = await request(anonymous, 'GET', '/api/media/gallery/9999');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('GET /api/media/:kind/:id/url', () => {
+  it('issues a working URL to a subscriber', async () => {
+    const subscriber = await createUser();
+    await subscribe(subscriber);
+    const item = await createPremiumItem('premium bytes');
+    const app = routerApp('/api/media', mediaRouter, subscriber);
+
+    const issued = await request<SignedMediaUrl>(app, 'GET', `/api/media/gallery/${item.id}/url`);
+    const file = await request(app, 'GET', issued.body.url);
+
+    expect(issued.status).toBe(200);
+    expect(file).toMatchObject({ status: 200, body: 'premium bytes' });
+  });
+
+  it('refuses viewers without access', async () => {
+    const item = await createPremiumItem('premium bytes');
+
+    const res = await request(routerApp('/api/media', mediaRouter, await createUser()), 'GET', `/api/media/gallery/${item.id}/url`);
+
+    expect(res.status).toBe(403);
+    expect(res.body).toMatchObject({ code: 'MEDIA_LOCKED' });
+  });
+});
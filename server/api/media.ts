@@ -0,0 +1,188 @@
+import { Router, type Request, type Response } from 'express';
+import path from 'path';
+import type { MediaVariantFormat, MediaVariantName, User } from '@shared/schema';
+import { requireAuth } from '../auth';
+import { storage } from '../storage';
+import {
+  canViewContent,
+  canViewGalleryItem,
+  getMediaEntitlements,
+  signMediaUrl,
+  verifyMediaUrl
+} from '../media/access';
+import { isMediaPrivate, privateMediaKey, type MediaKind } from '../media/private-store';
+import { publicMediaUrl, readMediaObject, sendMediaObject } from '../media/store';
+import { markImageForViewer } from '../media/watermarks';
+import { findMediaItem, type MediaItem } from '../media/items';
+import { findMediaVariant } from '../media/variants';
+
+const router = Router();
+
+// Playlists and segments as written by the video processor
+const HLS_FILE_PATTERN = /^[\w-]+\.(m3u8|ts)$/;
+
+async function canView(media: MediaItem, viewer: Pick<User, 'id' | 'role'> | undefined) {
+  const entitlements = await getMediaEntitlements(viewer);
+  return media.kind === 'gallery'
+    ? canViewGalleryItem(entitlements, media.item)
+    : canViewContent(entitlements, media.item);
+}
+
+// Checks a signed request for a premium item, returning the reason it's refused if it is
+async function checkSignedAccess(media: MediaItem, params: Request['query']) {
+  const viewerId = verifyMediaUrl(media.kind, media.item.id, params);
+  if (viewerId === null) {
+    return { message: 'Invalid or expired media URL', code: 'MEDIA_URL_INVALID' };
+  }
+  const viewer = await storage.getUserById(String(viewerId));
+  if (!await canView(media, viewer)) {
+    return { message: 'Subscribe or purchase this item to view it', code: 'MEDIA_LOCKED' };
+  }
+  return null;
+}
+
+function setPrivateCacheHeaders(res: Response, expires: unknown) {
+  const secondsLeft = Math.max(0, Number(expires) - Math.floor(Date.now() / 1000));
+  res.setHeader('Cache-Control', `private, max-age=${secondsLeft}`);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+}
+
+// Issue a fresh signed URL, e.g. after the one embedded in a listing has expired
+router.get('/:kind(gallery|content)/:id/url', requireAuth(), async (req, res) => {
+  try {
+    const kind = req.params.kind as MediaKind;
+    const media = await findMediaItem(kind, parseInt(req.params.id));
+    if (!media) {
+      return res.status(404).json({ message: 'Media not found' });
+    }
+
+    const { item } = media;
+    if (!isMediaPrivate(item)) {
+      return res.json({ url: item.url, expiresAt: null });
+    }
+    if (!await canView(media, req.user)) {
+      return res.status(403).json({ message: 'Subscribe or purchase this item to view it', code: 'MEDIA_LOCKED' });
+    }
+
+    res.json(signMediaUrl(kind, item.id, req.user!.id));
+  } catch (error) {
+    console.error('Error signing media URL:', error);
+    res.status(500).json({ message: 'Error signing media URL' });
+  }
+});
+
+// Serve a premium or hidden file. Authorized by the URL's signature rather than the session,
+// so it works in <img> and <video> tags; access is re-checked in case it was revoked.
+router.get('/:kind(gallery|content)/:id', async (req, res) => {
+  try {
+    const kind = req.params.kind as MediaKind;
+    const id = parseInt(req.params.id);
+    const media = await findMediaItem(kind, id);
+    if (!media) {
+      return res.status(404).json({ message: 'Media not found' });
+    }
+
+    const { item } = media;
+    if (!isMediaPrivate(item)) {
+      return res.redirect(publicMediaUrl(item.url));
+    }
+
+    const denied = await checkSignedAccess(media, req.query);
+    if (denied) {
+      return res.status(403).json(denied);
+    }
+
+    let fileUrl: string | null = item.url;
+    if (media.kind === 'content' && req.query.variant === 'thumbnail') {
+      fileUrl = media.item.thumbnailUrl;
+    } else if (media.kind === 'content' && req.query.variant === 'preview') {
+      fileUrl = media.item.previewUrl;
+    }
+    // Responsive renditions are selected with ?size=card&format=webp
+    if (typeof req.query.size === 'string' && typeof req.query.format === 'string') {
+      const rendition = await findMediaVariant(kind, id, req.query.size as MediaVariantName, req.query.format as MediaVariantFormat);
+      fileUrl = rendition?.url ?? null;
+      if (rendition) {
+        // send's MIME table predates AVIF
+        res.setHeader('Content-Type', `image/${rendition.format}`);
+      }
+    }
+    if (!fileUrl) {
+      return res.status(404).json({ message: 'Media not found' });
+    }
+
+    setPrivateCacheHeaders(res, req.query.expires);
+    const key = privateMediaKey(kind, fileUrl);
+    // The signature has been checked, so this is who the URL was issued to
+    const marked = await markImageForViewer(key, Number(req.query.viewer));
+    if (marked) {
+      return res.type(`image/${marked.format}`).send(marked.data);
+    }
+    await sendMediaObject(res, key);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Error sending premium media:', error);
+      return;
+    }
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return res.status(404).json({ message: 'Media not found' });
+    }
+    console.error('Error serving media:', error);
+    res.status(500).json({ message: 'Error serving media' });
+  }
+});
+
+// Serve a premium video's HLS playlists and segments. Playlists refer to each other and to
+// segments by relative URL, which drops the query string, so the signature is appended to
+// every entry as the playlist is sent.
+router.get('/content/:id/hls/:file', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const media = await findMediaItem('content', id);
+    const file = req.params.file;
+    if (!media || media.kind !== 'content' || !media.item.hlsUrl || !HLS_FILE_PATTERN.test(file)) {
+      return res.status(404).json({ message: 'Media not found' });
+    }
+
+    const fileUrl = path.posix.join(path.posix.dirname(media.item.hlsUrl), file);
+    if (!isMediaPrivate(media.item)) {
+      return res.redirect(publicMediaUrl(fileUrl));
+    }
+
+    const denied = await checkSignedAccess(media, req.query);
+    if (denied) {
+      return res.status(403).json(denied);
+    }
+
+    setPrivateCacheHeaders(res, req.query.expires);
+    const key = privateMediaKey('content', fileUrl);
+    if (file.endsWith('.m3u8')) {
+      const signature = new URLSearchParams({
+        expires: String(req.query.expires),
+        viewer: String(req.query.viewer),
+        sig: String(req.query.sig)
+      }).toString();
+      const playlist = (await readMediaObject(key)).toString('utf8');
+      const signed = playlist
+        .split('\n')
+        .map(line => line && !line.startsWith('#') ? `${line}?${signature}` : line)
+        .join('\n');
+      return res.type('application/vnd.apple.mpegurl').send(signed);
+    }
+
+    res.setHeader('Content-Type', 'video/mp2t');
+    await sendMediaObject(res, key);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Error sending HLS segment:', error);
+      return;
+    }
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return res.status(404).json({ message: 'Media not found' });
+    }
+    console.error('Error serving HLS media:', error);
+    res.status(500).json({ message: 'Error serving media' });
+  }
+});
+
+export default router;
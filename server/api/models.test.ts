@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import type { Model, User } from '@shared/schema';
+import { routerApp, request } from '../test/http';
+import { storage } from '../storage';
+import modelsRouter from './models';
+
+let userCount = 0;
+let applicationCount = 0;
+
+function createUser(role: User['role'] = 'follower', email = `user${++userCount}@example.com`) {
+  return storage.createUser({ email, password: 'hash', role });
+}
+
+function createApplication(email = `applicant${++applicationCount}@example.com`) {
+  return storage.createModel({
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email,
+    phone: '555-0100',
+    dateOfBirth: '1990-01-01',
+    aliasName: `Jane ${applicationCount}`,
+    socialPlatforms: ['instagram'],
+    bodyPhotoUrl: 'applications/body.jpg',
+    licensePhotoUrl: 'applications/license.jpg',
+    termsAccepted: [true, true, true]
+  });
+}
+
+async function adminApp() {
+  return routerApp('/api', modelsRouter, await createUser('admin'));
+}
+
+describe('PATCH /api/models/:id', () => {
+  it('moves an application through review and records the reviewer', async () => {
+    const application = await createApplication();
+    const admin = await createUser('admin');
+    const app = routerApp('/api', modelsRouter, admin);
+
+    const reviewing = await request<Model>(app, 'PATCH', `/api/models/${application.id}`, { status: 'under_review' });
+    const declined = await request<Model>(app, 'PATCH', `/api/models/${application.id}`, { status: 'declined', reviewerNotes: 'Incomplete ID' });
+
+    expect(reviewing.status).toBe(200);
+    expect(reviewing.body.status).toBe('under_review');
+    expect(declined.body).toMatchObject({ status: 'declined', reviewerNotes: 'Incomplete ID', reviewedBy: admin.id });
+  });
+
+  it('refuses to set an application to accepted directly', async () => {
+    const application = await createApplication();
+
+    const res = await request(await adminApp(), 'PATCH', `/api/models/${application.id}`, { status: 'accepted' });
+
+    expect(res.status).toBe(400);
+    expect((await storage.getModel(application.id))?.status).toBe('new');
+  });
+
+  it('refuses status changes once accepted but still takes notes', async () => {
+    const application = await createApplication();
+    const app = await adminApp();
+    await request(app, 'POST', `/api/models/${application.id}/accept`);
+
+    const reopened = await request(app, 'PATCH', `/api/models/${application.id}`, { status: 'under_review' });
+    const noted = await request<Model>(app, 'PATCH', `/api/models/${application.id}`, { reviewerNotes: 'Onboarded' });
+
+    expect(reopened.status).toBe(409);
+    expect(noted.body).toMatchObject({ status: 'accepted', reviewerNotes: 'Onboarded' });
+  });
+
+  it('is for admins only', async () => {
+    const application = await createApplication();
+
+    const res = await request(routerApp('/api', modelsRouter, await createUser('creator')), 'PATCH', `/api/models/${application.id}`, { status: 'declined' });
+
+    expect(res.status).toBe(403);
+    expect((await storage.getModel(application.id))?.status).toBe('new');
+  });
+
+  it('returns 404 for an application that does not exist', async () => {
+    const res = await request(await adminApp(), 'PATCH', '/api/models/9999', { status: 'declined' });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('POST /api/models/:id/accept', () => {
+  it('provisions an approved creator account for the applicant', async () => {
+    const application = await createApplication();
+
+    const res = await request<{ user: { id: number; role: string } }>(await adminApp(), 'POST', `/api/models/${application.id}/accept`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.role).toBe('creator');
+    const model = await storage.getModel(application.id);
+    expect(model).toMatchObject({ status: 'accepted', userId: res.body.user.id });
+    expect((await storage.getCreatorProfile(res.body.user.id))?.approvalStatus).toBe('approved');
+  });
+
+  it('promotes a verified follower who applied with their account email', async () => {
+    const follower = await createUser();
+    await storage.markUserVerified(follower.id);
+    const application = await createApplication(follower.email);
+
+    const res = await request<{ user: { id: number } }>(await adminApp(), 'POST', `/api/models/${application.id}/accept`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.id).toBe(follower.id);
+    expect((await storage.getUserById(String(follower.id)))?.role).toBe('creator');
+  });
+
+  it('accepts an application only once', async () => {
+    const application = await createApplication();
+    const app = await adminApp();
+
+    const first = await request(app, 'POST', `/api/models/${application.id}/accept`);
+    const second = await request(app, 'POST', `/api/models/${application.id}/accept`);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(409);
+  });
+
+  it('refuses applicant emails that belong to an admin or an unverified account', async () => {
+    const admin = await createUser('admin');
+    const unverified = await createUser();
+    const app = await adminApp();
+
+    for (const email of [admin.email, unverified.email]) {
+      const application = await createApplication(email);
+      const res = await request(app, 'POST', `/api/models/${application.id}/accept`);
+      expect(res.status, email).toBe(409);
+      expect((await storage.getModel(application.id))?.status, email).toBe('new');
+    }
+    expect((await storage.getUserById(String(admin.id)))?.role).toBe('admin');
+    expect((await storage.getUserById(String(unverified.id)))?.role).toBe('follower');
+  });
+
+  it('returns 404 for an application that does not exist', async () => {
+    const res = await request(await adminApp(), 'POST', '/api/models/9999/accept');
+
+    expect(res.status).toBe(404);
+  });
+});
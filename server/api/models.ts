@@ -0,0 +1,295 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import multer from 'multer';
+import fs from 'fs';
+import * as fsPromises from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { insertModelSchema, modelReviewSchema, modelApplicationStatuses, type Model } from '@shared/schema';
+import { storage, isUniqueViolation, ModelApplicationConflictError } from '../storage';
+import { requireAuth, hashPassword } from '../auth';
+import { applicationPhotoKey } from '../media/private-store';
+import { MEDIA_SCRATCH_DIR, mediaStore, sendMediaObject } from '../media/store';
+
+const router = Router();
+
+// Application photos include government ID, so they only ever go to the private side of the media store
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      fs.mkdir(MEDIA_SCRATCH_DIR, { recursive: true, mode: 0o700 }, (err) => cb(err, MEDIA_SCRATCH_DIR));
+    },
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + '-' + randomBytes(8).toString('hex');
+      cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname).toLowerCase());
+    }
+  }),
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
+    if (!allowedTypes.includes(file.mimetype)) {
+      cb(new Error(`Invalid file type. Allowed types: ${allowedTypes.join(', ')}`));
+      return;
+    }
+    cb(null, true);
+  }
+});
+
+const applicationUpload = upload.fields([
+  { name: 'bodyPhoto', maxCount: 1 },
+  { name: 'licensePhoto', maxCount: 1 }
+]);
+
+const MINIMUM_AGE = 18;
+
+const listQuerySchema = z.object({
+  status: z.enum(modelApplicationStatuses).optional(),
+  search: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+// Multipart forms send arrays as JSON strings
+function parseJsonField(value: unknown) {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function ageOn(date: Date, birthDate: Date) {
+  let age = date.getFullYear() - birthDate.getFullYear();
+  const monthDiff = date.getMonth() - birthDate.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && date.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+// Photos are returned as admin-only URLs rather than file locations
+function toApplicationResponse(model: Model) {
+  return {
+    ...model,
+    bodyPhotoUrl: `/api/models/${model.id}/photos/body`,
+    licensePhotoUrl: `/api/models/${model.id}/photos/license`
+  };
+}
+
+async function removeUploadedFiles(files: Express.Multer.File[]) {
+  await Promise.all(files.map(async file => {
+    try {
+      await fsPromises.unlink(file.path);
+    } catch (error) {
+      // Photos already moved into the media store are left for the reconciliation job
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      console.warn('Failed to clean up application photo:', error);
+    }
+  }));
+}
+
+// Submit a model application (public)
+router.post('/model-application', (req, res) => {
+  applicationUpload(req, res, async (err) => {
+    if (err) {
+      console.error('Model application upload error:', err);
+      const tooLarge = err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE';
+      return res.status(tooLarge ? 413 : 400).json({
+        message: tooLarge ? 'File size too large. Maximum size is 10MB' : err.message
+      });
+    }
+
+    const files = (req.files ?? {}) as { [fieldname: string]: Express.Multer.File[] };
+    const uploaded = Object.values(files).flat();
+
+    try {
+      const bodyPhoto = files.bodyPhoto?.[0];
+      const licensePhoto = files.licensePhoto?.[0];
+      if (!bodyPhoto || !licensePhoto) {
+        await removeUploadedFiles(uploaded);
+        return res.status(400).json({ message: 'Both a body photo and a license photo are required' });
+      }
+
+      const parsed = insertModelSchema.safeParse({
+        ...req.body,
+        socialPlatforms: parseJsonField(req.body.socialPlatforms),
+        termsAccepted: parseJsonField(req.body.termsAccepted),
+        aliasName: req.body.aliasName || null,
+        socialHandles: req.body.socialHandles || null,
+        onlyFansLink: req.body.onlyFansLink || null
+      });
+      if (!parsed.success) {
+        await removeUploadedFiles(uploaded);
+        return res.status(400).json({
+          message: 'Invalid application',
+          errors: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const { bodyPhoto: _body, licensePhoto: _license, dateOfBirth, ...application } = parsed.data;
+
+      if (application.termsAccepted.length === 0 || !application.termsAccepted.every(Boolean)) {
+        await removeUploadedFiles(uploaded);
+        return res.status(400).json({ message: 'All terms must be accepted' });
+      }
+      if (ageOn(new Date(), dateOfBirth) < MINIMUM_AGE) {
+        await removeUploadedFiles(uploaded);
+        return res.status(400).json({ message: `Applicants must be at least ${MINIMUM_AGE} years old` });
+      }
+
+      for (const photo of [bodyPhoto, licensePhoto]) {
+        await mediaStore.put(applicationPhotoKey(photo.filename), photo.path, photo.mimetype);
+      }
+
+      const model = await storage.createModel({
+        ...application,
+        dateOfBirth: dateOfBirth.toISOString().slice(0, 10),
+        bodyPhotoUrl: bodyPhoto.filename,
+        licensePhotoUrl: licensePhoto.filename,
+        status: 'new'
+      });
+
+      console.log('Model application received:', { id: model.id, email: model.email });
+      res.status(201).json({ message: 'Application submitted successfully', id: model.id });
+    } catch (error) {
+      console.error('Error creating model application:', error);
+      await removeUploadedFiles(uploaded);
+      res.status(500).json({ message: 'Error submitting application' });
+    }
+  });
+});
+
+// List model applications (admins only)
+router.get('/models', requireAuth(['admin']), async (req, res) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const { page, pageSize } = parsed.data;
+    const { models, total } = await storage.getModelApplications(parsed.data);
+
+    res.json({ models: models.map(toApplicationResponse), total, page, pageSize });
+  } catch (error) {
+    console.error('Error fetching model applications:', error);
+    res.status(500).json({ message: 'Error fetching model applications' });
+  }
+});
+
+router.get('/models/:id', requireAuth(['admin']), async (req, res) => {
+  try {
+    const model = await storage.getModel(Number(req.params.id));
+    if (!model) {
+      return res.status(404).json({ message: 'Model application not found' });
+    }
+    res.json(toApplicationResponse(model));
+  } catch (error) {
+    console.error('Error fetching model application:', error);
+    res.status(500).json({ message: 'Error fetching model application' });
+  }
+});
+
+router.get('/models/:id/photos/:kind(body|license)', requireAuth(['admin']), async (req, res) => {
+  try {
+    const model = await storage.getModel(Number(req.params.id));
+    if (!model) {
+      return res.status(404).json({ message: 'Model application not found' });
+    }
+
+    const stored = req.params.kind === 'body' ? model.bodyPhotoUrl : model.licensePhotoUrl;
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    await sendMediaObject(res, applicationPhotoKey(stored));
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Error sending application photo:', error);
+      return;
+    }
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return res.status(404).json({ message: 'Photo not found' });
+    }
+    console.error('Error serving application photo:', error);
+    res.status(500).json({ message: 'Error serving application photo' });
+  }
+});
+
+// Update review status and notes (admins only)
+router.patch('/models/:id', requireAuth(['admin']), async (req, res) => {
+  try {
+    const parsed = modelReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid review',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const existing = await storage.getModel(Number(req.params.id));
+    if (!existing) {
+      return res.status(404).json({ message: 'Model application not found' });
+    }
+    if (existing.status === 'accepted' && parsed.data.status) {
+      return res.status(409).json({ message: 'Accepted applications cannot change status' });
+    }
+
+    const updated = await storage.updateModelReview(existing.id, {
+      ...parsed.data,
+      reviewedBy: req.user!.id
+    });
+
+    res.json(toApplicationResponse(updated!));
+  } catch (error) {
+    console.error('Error updating model application:', error);
+    res.status(500).json({ message: 'Error updating model application' });
+  }
+});
+
+// Accept an application and provision the creator account (admins only)
+router.post('/models/:id/accept', requireAuth(['admin']), async (req, res) => {
+  try {
+    const existing = await storage.getModel(Number(req.params.id));
+    if (!existing) {
+      return res.status(404).json({ message: 'Model application not found' });
+    }
+    if (existing.status === 'accepted') {
+      return res.status(409).json({ message: 'Model application has already been accepted' });
+    }
+
+    if (req.body?.reviewerNotes !== undefined) {
+      await storage.updateModelReview(existing.id, {
+        reviewerNotes: req.body.reviewerNotes,
+        reviewedBy: req.user!.id
+      });
+    }
+
+    // The applicant never chose a password; they set one through the password reset flow
+    const passwordHash = await hashPassword(randomBytes(32).toString('hex'));
+    const { model, user, profile } = await storage.acceptModelApplication(existing.id, req.user!.id, passwordHash);
+
+    res.json({
+      message: 'Application accepted',
+      application: toApplicationResponse(model),
+      user: { id: user.id, email: user.email, role: user.role },
+      creatorProfile: profile
+    });
+  } catch (error) {
+    console.error('Error accepting model application:', error);
+    if (error instanceof ModelApplicationConflictError) {
+      return res.status(409).json({ message: error.message });
+    }
+    // Someone registered with the applicant's email while the application was being accepted
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'An account with the applicant email already exists' });
+    }
+    res.status(500).json({ message: 'Error accepting model application' });
+  }
+});
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { paymentProvider, WebhookSignatureError } from '../payments';
+import { findPaymentByChargeId, recordPaymentRefund } from '../payments/billing';
+
+const router = Router();
+
+// Processor callbacks; authenticated by signature rather than session
+router.post('/webhook', async (req, res) => {
+  try {
+    if (!req.rawBody) {
+      return res.status(400).json({ message: 'Missing request body' });
+    }
+
+    const event = paymentProvider.verifyWebhook(req.rawBody, req.get('stripe-signature'));
+    const object = event.data.object;
+
+    switch (event.type) {
+      case 'charge.refunded': {
+        const chargeId = typeof object.payment_intent === 'string' ? object.payment_intent : String(object.id);
+        const payment = await findPaymentByChargeId(chargeId);
+        if (payment && payment.status !== 'refunded') {
+          // amount_refunded is the charge's running total in cents
+          const refundedAmount = object.refunded === true || typeof object.amount_refunded !== 'number'
+            ? undefined
+            : object.amount_refunded / 100;
+          const updated = await recordPaymentRefund(payment.id, refundedAmount);
+          console.log('Payment refunded via webhook:', { paymentId: payment.id, eventId: event.id, status: updated?.status });
+        }
+        break;
+      }
+      default:
+        // Charges are settled synchronously, so other events need no action
+        break;
+    }
+
+    res.json({ received: true });
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      console.warn('Rejected payment webhook:', error.message);
+      return res.status(400).json({ message: 'Invalid signature' });
+    }
+    console.error('Error handling payment webhook:', error);
+    res.status(500).json({ message: 'Error handling payment webhook' });
+  }
+});
+
+export default router;
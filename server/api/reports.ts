@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { requireAuth } from '../auth';
+import { reportMedia } from '../moderation';
+import { createReportSchema } from '@shared/schema';
+
+const router = Router();
+
+// Report a gallery or content item for moderation; enough reports hide it pending review
+router.post('/', requireAuth(), async (req, res) => {
+  try {
+    const parsed = createReportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid report',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const outcome = await reportMedia(req.user!.id, parsed.data);
+    if (outcome.status !== 201) {
+      return res.status(outcome.status).json({ message: outcome.error, code: outcome.code });
+    }
+
+    res.status(201).json({ message: 'Report received', reportId: outcome.report.id });
+  } catch (error) {
+    console.error('Error reporting media:', error);
+    res.status(500).json({ message: 'Error reporting media' });
+  }
+});
+
+export default router;
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { payments, type User } from '@shared/schema';
+import { routerApp, request } from '../test/http';
+
+vi.mock('../payments/billing', async importOriginal => {
+  const original = await importOriginal<typeof import('../payments/billing')>();
+  return { ...original, chargeUser: vi.fn(original.chargeUser) };
+});
+
+const { db } = await import('../db');
+const { storage } = await import('../storage');
+const billing = await import('../payments/billing');
+const { default: subscriptionsRouter } = await import('./subscriptions');
+const { chargeUser } = await vi.importActual<typeof import('../payments/billing')>('../payments/billing');
+
+let userCount = 0;
+
+function createUser(role: User['role'] = 'follower') {
+  userCount++;
+  return storage.createUser({ email: `user${userCount}@example.com`, password: 'hash', role });
+}
+
+async function createApprovedCreator() {
+  const creator = await createUser('creator');
+  await storage.setCreatorApproval(creator.id, { approved: true, reviewedBy: creator.id });
+  await storage.updateCreatorProfile(creator.id, { monthlySubscriptionPrice: 10 });
+  return creator;
+}
+
+// Holds the next charge open long enough for a second request to arrive while it's in flight
+function delayNextCharge() {
+  vi.mocked(billing.chargeUser).mockImplementationOnce(async params => {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    return chargeUser(params);
+  });
+}
+
+function paymentsFor(userId: number) {
+  return db.select().from(payments).where(eq(payments.userId, userId)).all();
+}
+
+describe('POST /api/subscriptions/subscribe/:creatorId', () => {
+  it('charges once when the same subscribe request arrives twice at once', async () => {
+    const follower = await createUser();
+    const creator = await createApprovedCreator();
+    delayNextCharge();
+    const app = routerApp('/api/subscriptions', subscriptionsRouter, follower);
+    const subscribe = () => request(app, 'POST', `/api/subscriptions/subscribe/${creator.id}`, { type: 'monthly', paymentMethodId: 'pm_card_visa' });
+
+    const responses = await Promise.all([subscribe(), subscribe()]);
+
+    expect(responses.map(res => res.status).sort()).toEqual([201, 409]);
+    expect(responses.find(res => res.status === 409)?.body).toMatchObject({ code: 'PAYMENT_IN_PROGRESS' });
+    expect(paymentsFor(follower.id)).toHaveLength(1);
+  });
+
+  it('refuses a retry while the first charge is still pending', async () => {
+    const follower = await createUser();
+    const creator = await createApprovedCreator();
+    await storage.createSubscription({ followerId: follower.id, creatorId: creator.id, type: 'monthly', amount: 10, status: 'pending' });
+    const app = routerApp('/api/subscriptions', subscriptionsRouter, follower);
+
+    const res = await request(app, 'POST', `/api/subscriptions/subscribe/${creator.id}`, { type: 'monthly', paymentMethodId: 'pm_card_visa' });
+
+    expect(res.status).toBe(409);
+    expect(paymentsFor(follower.id)).toHaveLength(0);
+  });
+
+  it('lets the follower try again after a declined charge', async () => {
+    const follower = await createUser();
+    const creator = await createApprovedCreator();
+    const app = routerApp('/api/subscriptions', subscriptionsRouter, follower);
+    const url = `/api/subscriptions/subscribe/${creator.id}`;
+
+    const declined = await request(app, 'POST', url, { type: 'monthly', paymentMethodId: 'pm_card_chargeDeclined' });
+    const retried = await request(app, 'POST', url, { type: 'monthly', paymentMethodId: 'pm_card_visa' });
+
+    expect(declined.status).toBe(402);
+    expect(retried.status).toBe(201);
+    expect(paymentsFor(follower.id).map(payment => payment.status).sort()).toEqual(['failed', 'succeeded']);
+  });
+});
+
+describe('POST /api/subscriptions/purchase/:contentId', () => {
+  it('charges once when the same purchase request arrives twice at once', async () => {
+    const follower = await createUser();
+    const creator = await createApprovedCreator();
+    const post = await storage.createContent({
+      creatorId: creator.id,
+      title: 'Post',
+      contentType: 'image',
+      url: `/uploads/content/post-${Date.now()}.jpg`,
+      isPremium: true,
+      price: 5,
+      moderationStatus: 'approved'
+    });
+    const app = routerApp('/api/subscriptions', subscriptionsRouter, follower);
+    delayNextCharge();
+    const purchase = () => request(app, 'POST', `/api/subscriptions/purchase/${post.id}`, { paymentMethodId: 'pm_card_visa' });
+
+    const responses = await Promise.all([purchase(), purchase()]);
+
+    expect(responses.map(res => res.status).sort()).toEqual([201, 409]);
+    expect(paymentsFor(follower.id)).toHaveLength(1);
+    expect((await storage.getCompletedPurchase(follower.id, post.id))?.amount).toBe(5);
+  });
+});
@@ -1,36 +1,19 @@
 import { Router } from 'express';
-import { db } from '../db';
-import { subscriptions, subscriptionSchema, users, creatorProfiles, contentPurchases } from '@shared/schema';
-import { eq, and, gt } from 'drizzle-orm';
+import { subscriptionSchema, purchaseSchema, paymentMethodSchema } from '@shared/schema';
+import { storage, isUniqueViolation } from '../storage';
 import { requireAuth } from '../auth';
+import { chargeUser, savePaymentMethod, getSavedPaymentMethod, PaymentMethodRequiredError } from '../payments/billing';
+import { SUBSCRIPTION_PERIOD_MS } from '../subscription-lifecycle';
+import { retryPastDueSubscriptions } from '../subscription-renewals';
 
 const router = Router();
 
-// Get user's active subscriptions
-router.get('/my', requireAuth, async (req, res) => {
+// Get user's active subscriptions, including past-due ones still in their grace period
+router.get('/my', requireAuth(), async (req, res) => {
   try {
-    const userId = req.user?.id;
-
-    const activeSubscriptions = await db.query.subscriptions.findMany({
-      where: (subscriptions, { and, eq, or, gt }) => and(
-        eq(subscriptions.followerId, userId),
-        eq(subscriptions.status, 'active'),
-        or(
-          eq(subscriptions.endDate, null),
-          gt(subscriptions.endDate, new Date().toISOString())
-        )
-      ),
-      with: {
-        creator: {
-          columns: {
-            username: true,
-            displayName: true,
-            avatarUrl: true
-          }
-        }
-      }
-    });
+    const userId = req.user!.id;
 
+    const activeSubscriptions = await storage.getCurrentSubscriptions(userId);
     res.json(activeSubscriptions);
   } catch (error) {
     console.error('Error fetching subscriptions:', error);
@@ -38,129 +21,228 @@ router.get('/my', requireAuth, async (req, res) => {
   }
 });
 
-// Subscribe to a creator
-router.post('/subscribe/:creatorId', requireAuth, async (req, res) => {
+// Save a payment method as the user's default
+router.post('/payment-method', requireAuth(), async (req, res) => {
   try {
-    const userId = req.user?.id;
-    const { creatorId } = req.params;
-
-    // Validate subscription data
-    const subscriptionData = subscriptionSchema.parse(req.body);
+    const parsed = paymentMethodSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid payment method',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
 
-    // Check if creator exists and is approved
-    const creator = await db.query.creatorProfiles.findFirst({
-      where: (profiles, { and, eq }) => and(
-        eq(profiles.userId, parseInt(creatorId)),
-        eq(profiles.approvalStatus, 'approved')
-      )
+    await savePaymentMethod(req.user!, parsed.data.paymentMethodId);
+    // Past-due renewals get retried with the new card on the next scheduler run
+    await retryPastDueSubscriptions(req.user!.id);
+    res.json(await getSavedPaymentMethod(req.user!.id));
+  } catch (error) {
+    console.error('Error saving payment method:', error);
+    res.status(400).json({
+      message: 'Error saving payment method',
+      error: error instanceof Error ? error.message : 'Unknown error'
     });
+  }
+});
+
+router.get('/payment-method', requireAuth(), async (req, res) => {
+  try {
+    res.json(await getSavedPaymentMethod(req.user!.id));
+  } catch (error) {
+    console.error('Error fetching payment method:', error);
+    res.status(500).json({ message: 'Error fetching payment method' });
+  }
+});
+
+// Subscribe to a creator; the subscription only becomes active once the first charge succeeds
+router.post('/subscribe/:creatorId', requireAuth(), async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const creatorId = parseInt(req.params.creatorId);
 
-    if (!creator) {
+    const parsed = subscriptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid subscription data',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+    const subscriptionData = parsed.data;
+
+    // Check if creator exists and is approved
+    const creator = await storage.getCreatorProfile(creatorId);
+    if (creator?.approvalStatus !== 'approved') {
       return res.status(404).json({ message: 'Creator not found or not approved' });
     }
 
-    // Check if user already has an active subscription
-    const existingSubscription = await db.query.subscriptions.findFirst({
-      where: (subscriptions, { and, eq }) => and(
-        eq(subscriptions.followerId, userId),
-        eq(subscriptions.creatorId, parseInt(creatorId)),
-        eq(subscriptions.status, 'active')
-      )
-    });
+    // Check if user already has an active subscription; a past-due one still counts
+    const existingSubscription = await storage.getEntitledSubscription(userId, creatorId);
 
     if (existingSubscription) {
       return res.status(400).json({ message: 'Already subscribed to this creator' });
     }
 
-    // Create subscription
-    const [subscription] = await db.insert(subscriptions).values({
+    const amount = subscriptionData.type === 'monthly' ? creator.monthlySubscriptionPrice : creator.perPostPrice;
+    const now = new Date().toISOString();
+
+    // Only one subscription per creator can be awaiting its first charge, so a retried or
+    // concurrent request is refused here rather than charging the card again
+    const subscription = await storage.createSubscription({
       followerId: userId,
-      creatorId: parseInt(creatorId),
+      creatorId,
       type: subscriptionData.type,
-      amount: subscriptionData.type === 'monthly' ? creator.monthlySubscriptionPrice : creator.perPostPrice,
-      startDate: new Date().toISOString(),
+      amount,
+      status: amount > 0 ? 'pending' : 'active',
+      startDate: now,
       endDate: subscriptionData.type === 'monthly' ? 
-        new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString() : // 30 days for monthly
-        null // null for per-post
-    }).returning();
+        new Date(Date.now() + SUBSCRIPTION_PERIOD_MS).toISOString() :
+        null, // null for per-post
+      createdAt: now,
+      updatedAt: now
+    });
+
+    // Free subscriptions don't need a charge
+    if (amount <= 0) {
+      return res.status(201).json(subscription);
+    }
+
+    // A charge that never happened still settles the row, so it isn't left pending forever
+    const { payment, result } = await chargeUser({
+      user: req.user!,
+      amount,
+      description: `${subscriptionData.type === 'monthly' ? 'Monthly subscription' : 'Subscription'} to creator ${creatorId}`,
+      paymentMethodId: subscriptionData.paymentMethodId,
+      idempotencyKey: `subscription-${subscription.id}-initial`,
+      subscriptionId: subscription.id
+    }).catch(async error => {
+      const reason = error instanceof PaymentMethodRequiredError ? 'initial_payment_method_required' : 'initial_payment_error';
+      await storage.transitionSubscription(subscription.id, 'payment_failed', reason);
+      throw error;
+    });
+
+    const updated = result.status === 'succeeded'
+      ? await storage.transitionSubscription(subscription.id, 'active', 'initial_payment_succeeded', { paymentId: payment.id })
+      : await storage.transitionSubscription(subscription.id, 'payment_failed', `initial_payment_failed:${result.failureCode}`, { paymentId: payment.id });
 
-    res.status(201).json(subscription);
+    if (result.status === 'failed') {
+      return res.status(402).json({
+        message: result.failureMessage,
+        code: result.failureCode,
+        subscription: updated,
+        paymentId: payment.id
+      });
+    }
+
+    res.status(201).json(updated);
   } catch (error) {
+    if (error instanceof PaymentMethodRequiredError) {
+      return res.status(402).json({ message: error.message, code: 'PAYMENT_METHOD_REQUIRED' });
+    }
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'A payment for this subscription is already in progress', code: 'PAYMENT_IN_PROGRESS' });
+    }
     console.error('Error creating subscription:', error);
     res.status(500).json({ message: 'Error creating subscription' });
   }
 });
 
-// Purchase individual content
-router.post('/purchase/:contentId', requireAuth, async (req, res) => {
+// Purchase individual content; access is granted only once the charge succeeds
+router.post('/purchase/:contentId', requireAuth(), async (req, res) => {
   try {
-    const userId = req.user?.id;
-    const { contentId } = req.params;
-
-    // Check if content exists and is premium
-    const contentItem = await db.query.content.findFirst({
-      where: (content, { and, eq }) => and(
-        eq(content.id, parseInt(contentId)),
-        eq(content.isPremium, true)
-      )
-    });
+    const userId = req.user!.id;
+    const contentId = parseInt(req.params.contentId);
+
+    const parsed = purchaseSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid purchase data',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
 
-    if (!contentItem) {
+    // Check if content exists, is premium and is published
+    const contentItem = await storage.getContent(contentId);
+    if (!contentItem?.isPremium || contentItem.hiddenAt || contentItem.moderationStatus !== 'approved') {
       return res.status(404).json({ message: 'Premium content not found' });
     }
 
-    // Check if user already purchased this content
-    const existingPurchase = await db.query.contentPurchases.findFirst({
-      where: (purchases, { and, eq }) => and(
-        eq(purchases.contentId, parseInt(contentId)),
-        eq(purchases.followerId, userId)
-      )
-    });
+    // Check if user already purchased this content; earlier failed attempts don't count
+    const existingPurchase = await storage.getCompletedPurchase(userId, contentId);
 
     if (existingPurchase) {
       return res.status(400).json({ message: 'Content already purchased' });
     }
 
-    // Create purchase record
-    const [purchase] = await db.insert(contentPurchases).values({
-      contentId: parseInt(contentId),
+    const amount = contentItem.price || 0;
+    const now = new Date().toISOString();
+
+    // As with subscriptions, a second pending purchase of the same post is refused
+    const purchase = await storage.createContentPurchase({
+      contentId,
       followerId: userId,
-      amount: contentItem.price || 0,
-      purchaseDate: new Date().toISOString()
-    }).returning();
+      amount,
+      status: amount > 0 ? 'pending' : 'completed',
+      purchaseDate: now,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    if (amount <= 0) {
+      return res.status(201).json(purchase);
+    }
+
+    const { payment, result } = await chargeUser({
+      user: req.user!,
+      amount,
+      description: `Purchase of content ${contentId}`,
+      paymentMethodId: parsed.data.paymentMethodId,
+      idempotencyKey: `purchase-${purchase.id}`,
+      contentPurchaseId: purchase.id
+    }).catch(async error => {
+      await storage.updateContentPurchaseStatus(purchase.id, 'failed');
+      throw error;
+    });
+
+    const updated = await storage.updateContentPurchaseStatus(purchase.id, result.status === 'succeeded' ? 'completed' : 'failed');
+
+    if (result.status === 'failed') {
+      return res.status(402).json({
+        message: result.failureMessage,
+        code: result.failureCode,
+        purchase: updated,
+        paymentId: payment.id
+      });
+    }
 
-    res.status(201).json(purchase);
+    res.status(201).json(updated);
   } catch (error) {
+    if (error instanceof PaymentMethodRequiredError) {
+      return res.status(402).json({ message: error.message, code: 'PAYMENT_METHOD_REQUIRED' });
+    }
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'A payment for this content is already in progress', code: 'PAYMENT_IN_PROGRESS' });
+    }
     console.error('Error purchasing content:', error);
     res.status(500).json({ message: 'Error purchasing content' });
   }
 });
 
 // Cancel subscription
-router.post('/cancel/:subscriptionId', requireAuth, async (req, res) => {
+router.post('/cancel/:subscriptionId', requireAuth(), async (req, res) => {
   try {
-    const userId = req.user?.id;
+    const userId = req.user!.id;
     const { subscriptionId } = req.params;
 
     // Check if subscription exists and belongs to user
-    const subscription = await db.query.subscriptions.findFirst({
-      where: (subscriptions, { and, eq }) => and(
-        eq(subscriptions.id, parseInt(subscriptionId)),
-        eq(subscriptions.followerId, userId)
-      )
-    });
+    const subscription = await storage.getFollowerSubscription(parseInt(subscriptionId), userId);
 
     if (!subscription) {
       return res.status(404).json({ message: 'Subscription not found' });
     }
 
-    // Update subscription status
-    await db.update(subscriptions)
-      .set({ 
-        status: 'cancelled',
-        endDate: new Date().toISOString()
-      })
-      .where(eq(subscriptions.id, parseInt(subscriptionId)));
+    await storage.transitionSubscription(subscription.id, 'cancelled', 'cancelled_by_user', {
+      changes: { endDate: new Date().toISOString(), nextRenewalAttemptAt: null }
+    });
 
     res.json({ message: 'Subscription cancelled successfully' });
   } catch (error) {
@@ -169,4 +251,20 @@ router.post('/cancel/:subscriptionId', requireAuth, async (req, res) => {
   }
 });
 
+// Status changes of one of the user's subscriptions, oldest first
+router.get('/:subscriptionId/history', requireAuth(), async (req, res) => {
+  try {
+    const subscription = await storage.getFollowerSubscription(parseInt(req.params.subscriptionId), req.user!.id);
+
+    if (!subscription) {
+      return res.status(404).json({ message: 'Subscription not found' });
+    }
+
+    res.json(await storage.getSubscriptionHistory(subscription.id));
+  } catch (error) {
+    console.error('Error fetching subscription history:', error);
+    res.status(500).json({ message: 'Error fetching subscription history' });
+  }
+});
+
 export default router;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { User } from '@shared/schema';
+import { routerApp, request } from '../test/http';
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+import { beginTwoFactorEnrollment, confirmTwoFactorEnrollment, isTwoFactorEnabled } from '../two-factor';
+import { currentTimeStep, generateTotp } from '../totp';
+import twoFactorRouter from './two-factor';
+
+let userCount = 0;
+
+// A creator with two-factor enabled, enrolled with the previous step's code so the current one is unused
+async function createEnrolledUser(): Promise<{ user: User; secret: string }> {
+  userCount++;
+  const user = await storage.createUser({ email: `creator${userCount}@example.com`, password: await hashPassword('password123'), role: 'creator' });
+  const secret = await beginTwoFactorEnrollment(user.id);
+  await confirmTwoFactorEnrollment(user.id, generateTotp(secret, currentTimeStep() - 1));
+  return { user, secret };
+}
+
+function wrongCode(secret: string) {
+  return generateTotp(secret, currentTimeStep() + 10);
+}
+
+describe('POST /api/two-factor/recovery-codes', () => {
+  it('issues new codes for a current authentication code', async () => {
+    const { user, secret } = await createEnrolledUser();
+
+    const res = await request<{ recoveryCodes: string[] }>(routerApp('/api/two-factor', twoFactorRouter, user), 'POST', '/api/two-factor/recovery-codes', {
+      code: generateTotp(secret)
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.recoveryCodes).toHaveLength(10);
+  });
+
+  it('locks the account after repeated wrong codes, even once the right one is sent', async () => {
+    const { user, secret } = await createEnrolledUser();
+    const app = routerApp('/api/two-factor', twoFactorRouter, user);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await request(app, 'POST', '/api/two-factor/recovery-codes', { code: wrongCode(secret) })).status).toBe(400);
+    }
+    const res = await request(app, 'POST', '/api/two-factor/recovery-codes', { code: generateTotp(secret) });
+
+    expect(res.status).toBe(429);
+    expect(res.body).toMatchObject({ code: 'ACCOUNT_LOCKED' });
+    expect(Number(res.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+});
+
+describe('POST /api/two-factor/disable', () => {
+  it('turns two-factor off with the password and a current code', async () => {
+    const { user, secret } = await createEnrolledUser();
+
+    const res = await request(routerApp('/api/two-factor', twoFactorRouter, user), 'POST', '/api/two-factor/disable', {
+      password: 'password123',
+      code: generateTotp(secret)
+    });
+
+    expect(res.status).toBe(200);
+    expect(await isTwoFactorEnabled(user.id)).toBe(false);
+  });
+
+  it('counts wrong passwords and codes toward the lockout', async () => {
+    const { user, secret } = await createEnrolledUser();
+    const app = routerApp('/api/two-factor', twoFactorRouter, user);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const body = attempt % 2 ? { password: 'wrong-password', code: generateTotp(secret) } : { password: 'password123', code: wrongCode(secret) };
+      expect((await request(app, 'POST', '/api/two-factor/disable', body)).status).toBe(400);
+    }
+    const res = await request(app, 'POST', '/api/two-factor/disable', { password: 'password123', code: generateTotp(secret) });
+
+    expect(res.status).toBe(429);
+    expect(await isTwoFactorEnabled(user.id)).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { Router, type Request, type Response } from 'express';
+import { twoFactorCodeSchema, disableTwoFactorSchema } from '@shared/schema';
+import { requireAuth, comparePasswords, isTwoFactorSetupRequired } from '../auth';
+import { getPlatformSettings } from '../settings';
+import {
+  getTwoFactorCredential,
+  countRemainingRecoveryCodes,
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifyTwoFactorCode,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+} from '../two-factor';
+import { totpProvisioningUri } from '../totp';
+import { checkLoginAllowed, delay, normalizeEmail, recordLoginAttempt } from '../login-throttle';
+
+const router = Router();
+
+const ISSUER = 'Babes Espresso';
+
+// Codes checked here count toward the same lockout as login attempts, so a hijacked session
+// can't be used to guess them. Returns false once the response has been sent.
+async function allowCodeAttempt(req: Request, res: Response) {
+  const throttle = await checkLoginAllowed(normalizeEmail(req.user!.email), req.ip);
+  if (!throttle.allowed) {
+    await recordCodeAttempt(req, false, throttle.code.toLowerCase());
+    res.set('Retry-After', String(Math.ceil(throttle.retryAfterMs / 1000)));
+    res.status(429).json({ message: throttle.message, code: throttle.code });
+    return false;
+  }
+  await delay(throttle.delayMs);
+  return true;
+}
+
+function recordCodeAttempt(req: Request, success: boolean, reason?: string) {
+  return recordLoginAttempt({
+    kind: 'two_factor',
+    email: normalizeEmail(req.user!.email),
+    ipAddress: req.ip,
+    userId: req.user!.id,
+    success,
+    reason
+  });
+}
+
+// Reachable while the admin 2FA policy is blocking everything else, so enrollment is possible
+router.use(requireAuth(['admin', 'creator'], { allowTwoFactorSetup: true }));
+
+router.get('/status', async (req, res) => {
+  try {
+    const credential = await getTwoFactorCredential(req.user!.id);
+    const enabled = Boolean(credential?.enabledAt);
+
+    res.json({
+      enabled,
+      enabledAt: credential?.enabledAt ?? null,
+      recoveryCodesRemaining: enabled ? await countRemainingRecoveryCodes(req.user!.id) : 0,
+      required: req.user!.role === 'admin' && (await getPlatformSettings()).requireAdminTwoFactor,
+      setupRequired: await isTwoFactorSetupRequired(req.user!)
+    });
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    res.status(500).json({ message: 'Error fetching two-factor status' });
+  }
+});
+
+// Generate a new secret; it isn't enforced until confirmed with a code
+router.post('/setup', async (req, res) => {
+  try {
+    if ((await getTwoFactorCredential(req.user!.id))?.enabledAt) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    const secret = await beginTwoFactorEnrollment(req.user!.id);
+    res.json({
+      secret,
+      otpauthUrl: totpProvisioningUri(secret, req.user!.email, ISSUER)
+    });
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error);
+    res.status(500).json({ message: 'Error starting two-factor setup' });
+  }
+});
+
+router.post('/confirm', async (req, res) => {
+  try {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid code',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(req.user!.id, parsed.data.code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ message: 'Invalid code or no setup in progress' });
+    }
+
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error) {
+    console.error('Error confirming two-factor setup:', error);
+    res.status(500).json({ message: 'Error confirming two-factor setup' });
+  }
+});
+
+// Replaces every recovery code; requires a current code so a hijacked session can't harvest them
+router.post('/recovery-codes', async (req, res) => {
+  try {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid code',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    if (!(await allowCodeAttempt(req, res))) {
+      return;
+    }
+    if (!(await verifyTwoFactorCode(req.user!.id, parsed.data.code))) {
+      await recordCodeAttempt(req, false, 'invalid_code');
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+    await recordCodeAttempt(req, true);
+
+    res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!.id) });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    res.status(500).json({ message: 'Error regenerating recovery codes' });
+  }
+});
+
+router.post('/disable', async (req, res) => {
+  try {
+    const parsed = disableTwoFactorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid request',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    if (req.user!.role === 'admin' && (await getPlatformSettings()).requireAdminTwoFactor) {
+      return res.status(403).json({ message: 'Two-factor authentication is required for administrators' });
+    }
+
+    if (!(await allowCodeAttempt(req, res))) {
+      return;
+    }
+    if (!(await comparePasswords(parsed.data.password, req.user!.password))) {
+      await recordCodeAttempt(req, false, 'invalid_password');
+      return res.status(400).json({ message: 'Incorrect password' });
+    }
+    if (!(await verifyTwoFactorCode(req.user!.id, parsed.data.code))) {
+      await recordCodeAttempt(req, false, 'invalid_code');
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+    await recordCodeAttempt(req, true);
+
+    await disableTwoFactor(req.user!.id);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({ message: 'Error disabling two-factor authentication' });
+  }
+});
+
+export default router;
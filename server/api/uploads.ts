@@ -0,0 +1,106 @@
+import express, { Router, type Response } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../auth';
+import type { UploadSession } from '@shared/schema';
+import {
+  MAX_CHUNK_BYTES,
+  UPLOAD_CHUNK_BYTES,
+  UploadSessionError,
+  appendChunk,
+  cancelUploadSession,
+  createUploadSession,
+  getUploadSession
+} from '../media/upload-sessions';
+
+// Resumable uploads: create a session, PATCH the file to it in checksummed chunks (resuming
+// from the offset GET reports after a dropped connection), then submit the usual upload form
+// with `uploadId` in place of the file.
+const router = Router();
+
+router.use(requireAuth(['admin', 'creator']));
+
+const createUploadSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  mimeType: z.string().trim().min(1),
+  size: z.number().int().min(1)
+});
+
+function presentSession(session: UploadSession) {
+  return {
+    id: session.id,
+    filename: session.filename,
+    mimeType: session.mimeType,
+    size: session.size,
+    offset: session.receivedBytes,
+    complete: session.receivedBytes === session.size,
+    chunkSize: UPLOAD_CHUNK_BYTES,
+    expiresAt: session.expiresAt
+  };
+}
+
+function sendUploadError(res: Response, error: unknown, action: string) {
+  if (error instanceof UploadSessionError) {
+    return res.status(error.status).json({ message: error.message, code: error.code, offset: error.offset });
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ message: `Error ${action}` });
+}
+
+router.post('/', async (req, res) => {
+  try {
+    const parsed = createUploadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid upload',
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    res.status(201).json(presentSession(await createUploadSession(req.user!.id, parsed.data)));
+  } catch (error) {
+    sendUploadError(res, error, 'starting upload');
+  }
+});
+
+// Where to resume from
+router.get('/:id', async (req, res) => {
+  try {
+    res.json(presentSession(await getUploadSession(req.params.id, req.user!.id)));
+  } catch (error) {
+    sendUploadError(res, error, 'fetching upload');
+  }
+});
+
+// The chunk is the raw request body; Upload-Offset says where it goes and Upload-Checksum
+// ("sha256 <base64>") lets a chunk corrupted in transit be refused and resent
+router.patch(
+  '/:id',
+  express.raw({ type: 'application/offset+octet-stream', limit: MAX_CHUNK_BYTES }),
+  async (req, res) => {
+    try {
+      const offset = Number(req.header('Upload-Offset'));
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ message: 'Missing or invalid Upload-Offset header' });
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(415).json({ message: 'Chunks must be sent as application/offset+octet-stream' });
+      }
+
+      const session = await appendChunk(req.params.id, req.user!.id, offset, req.body, req.header('Upload-Checksum'));
+      res.json(presentSession(session));
+    } catch (error) {
+      sendUploadError(res, error, 'saving upload chunk');
+    }
+  }
+);
+
+router.delete('/:id', async (req, res) => {
+  try {
+    await cancelUploadSession(req.params.id, req.user!.id);
+    res.json({ message: 'Upload cancelled' });
+  } catch (error) {
+    sendUploadError(res, error, 'cancelling upload');
+  }
+});
+
+export default router;
@@ -0,0 +1,504 @@
+import type { Request, RequestHandler } from "express";
+import { and, count, desc, eq, gte, inArray, like, lte, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { getPostgres, usePostgres } from "./pg";
+import {
+  auditEvents,
+  content,
+  gallery,
+  mediaQuarantine,
+  payments,
+  reports,
+  type AuditChanges,
+  type AuditEvent,
+  type Content,
+  type Gallery,
+  type Payment,
+  type QuarantinedMedia,
+  type Report
+} from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import { storage } from "./storage";
+import { getPlatformSettings } from "./settings";
+import { findMediaItem } from "./media/items";
+
+const AUDITED_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Resumable upload chunks are plumbing; the request that uses the finished upload is audited
+const IGNORED_PATHS = [/^\/api\/uploads(\/|$)/];
+
+// The CSV export is for pulling a period out for review, not for dumping the whole table
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+// Field values of whatever a request targets, compared before and after it runs
+type Snapshot = Record<string, unknown>;
+
+interface AuditTarget {
+  type: string;
+  id: string | null;
+  snapshot?: () => Promise<Snapshot | null>;
+}
+
+interface AuditRule {
+  method: string;
+  pattern: RegExp;
+  action: string | ((params: string[], req: Request) => string);
+  // Targets that exist before the request; params are the pattern's capture groups
+  target?: (params: string[], req: Request) => AuditTarget | Promise<AuditTarget>;
+  // Targets the request creates, found from the id in its JSON response
+  created?: (id: string) => AuditTarget;
+}
+
+export interface AuditEventQuery {
+  actorId?: number;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: string;
+  to?: string;
+}
+
+function auditConditions(table: typeof auditEvents | typeof pg.auditEvents, query: AuditEventQuery) {
+  const conditions: SQL[] = [];
+  if (query.actorId !== undefined) {
+    conditions.push(eq(table.actorId, query.actorId));
+  }
+  if (query.action) {
+    // A prefix such as "gallery" matches every gallery action
+    conditions.push(like(table.action, `${query.action}%`));
+  }
+  if (query.targetType) {
+    conditions.push(eq(table.targetType, query.targetType));
+  }
+  if (query.targetId) {
+    conditions.push(eq(table.targetId, query.targetId));
+  }
+  if (query.from) {
+    conditions.push(gte(table.createdAt, query.from));
+  }
+  if (query.to) {
+    conditions.push(lte(table.createdAt, query.to));
+  }
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+// The rows audit snapshots read that IStorage doesn't cover, and audit_events itself, in
+// whichever database DATABASE_URL selects
+interface AuditStore {
+  getPayment(id: number): Promise<Payment | undefined>;
+  getReport(id: number): Promise<Report | undefined>;
+  getQuarantineEntry(id: number): Promise<QuarantinedMedia | undefined>;
+  premiumGalleryIds(): Promise<number[]>;
+  galleryPremium(ids: number[]): Promise<Pick<Gallery, 'id' | 'isPremium'>[]>;
+  contentModeration(ids: number[]): Promise<Pick<Content, 'id' | 'moderationStatus' | 'moderationReason'>[]>;
+  record(event: Omit<AuditEvent, 'id'>): Promise<void>;
+  // Newest first
+  list(query: AuditEventQuery, limit: number, offset?: number): Promise<AuditEvent[]>;
+  count(query: AuditEventQuery): Promise<number>;
+}
+
+class SqliteAuditStore implements AuditStore {
+  async getPayment(id: number) {
+    return db.select().from(payments).where(eq(payments.id, id)).get();
+  }
+
+  async getReport(id: number) {
+    return db.select().from(reports).where(eq(reports.id, id)).get();
+  }
+
+  async getQuarantineEntry(id: number) {
+    return db.select().from(mediaQuarantine).where(eq(mediaQuarantine.id, id)).get();
+  }
+
+  async premiumGalleryIds() {
+    return db.select({ id: gallery.id }).from(gallery).where(eq(gallery.isPremium, true)).all().map(row => row.id);
+  }
+
+  async galleryPremium(ids: number[]) {
+    return db.select({ id: gallery.id, isPremium: gallery.isPremium }).from(gallery).where(inArray(gallery.id, ids)).all();
+  }
+
+  async contentModeration(ids: number[]) {
+    return db
+      .select({ id: content.id, moderationStatus: content.moderationStatus, moderationReason: content.moderationReason })
+      .from(content)
+      .where(inArray(content.id, ids))
+      .all();
+  }
+
+  async record(event: Omit<AuditEvent, 'id'>) {
+    db.insert(auditEvents).values(event).run();
+  }
+
+  async list(query: AuditEventQuery, limit: number, offset = 0) {
+    return db
+      .select()
+      .from(auditEvents)
+      .where(auditConditions(auditEvents, query))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(limit)
+      .offset(offset)
+      .all();
+  }
+
+  async count(query: AuditEventQuery) {
+    const [{ total }] = db.select({ total: count() }).from(auditEvents).where(auditConditions(auditEvents, query)).all();
+    return total;
+  }
+}
+
+class PostgresAuditStore implements AuditStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async getPayment(id: number) {
+    const [payment] = await this.db.select().from(pg.payments).where(eq(pg.payments.id, id));
+    return payment;
+  }
+
+  async getReport(id: number) {
+    const [report] = await this.db.select().from(pg.reports).where(eq(pg.reports.id, id));
+    return report;
+  }
+
+  async getQuarantineEntry(id: number) {
+    const [entry] = await this.db.select().from(pg.mediaQuarantine).where(eq(pg.mediaQuarantine.id, id));
+    return entry;
+  }
+
+  async premiumGalleryIds() {
+    const rows = await this.db.select({ id: pg.gallery.id }).from(pg.gallery).where(eq(pg.gallery.isPremium, true));
+    return rows.map(row => row.id);
+  }
+
+  async galleryPremium(ids: number[]) {
+    return this.db.select({ id: pg.gallery.id, isPremium: pg.gallery.isPremium }).from(pg.gallery).where(inArray(pg.gallery.id, ids));
+  }
+
+  async contentModeration(ids: number[]) {
+    return this.db
+      .select({ id: pg.content.id, moderationStatus: pg.content.moderationStatus, moderationReason: pg.content.moderationReason })
+      .from(pg.content)
+      .where(inArray(pg.content.id, ids));
+  }
+
+  async record(event: Omit<AuditEvent, 'id'>) {
+    await this.db.insert(pg.auditEvents).values(event);
+  }
+
+  async list(query: AuditEventQuery, limit: number, offset = 0) {
+    return this.db
+      .select()
+      .from(pg.auditEvents)
+      .where(auditConditions(pg.auditEvents, query))
+      .orderBy(desc(pg.auditEvents.createdAt), desc(pg.auditEvents.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async count(query: AuditEventQuery) {
+    const [{ total }] = await this.db.select({ total: count() }).from(pg.auditEvents).where(auditConditions(pg.auditEvents, query));
+    return total;
+  }
+}
+
+const store: AuditStore = usePostgres ? new PostgresAuditStore() : new SqliteAuditStore();
+
+function rowSnapshot<T extends Snapshot>(row: T | undefined, fields?: (keyof T & string)[]): Snapshot | null {
+  if (!row) {
+    return null;
+  }
+  return fields ? Object.fromEntries(fields.map(field => [field, row[field]])) : { ...row };
+}
+
+function galleryTarget(id: string): AuditTarget {
+  return {
+    type: 'gallery',
+    id,
+    snapshot: async () => rowSnapshot((await findMediaItem('gallery', Number(id)))?.item)
+  };
+}
+
+function contentTarget(id: string): AuditTarget {
+  return {
+    type: 'content',
+    id,
+    snapshot: async () => rowSnapshot((await findMediaItem('content', Number(id)))?.item)
+  };
+}
+
+// Applications carry ID documents and contact details, so only the review fields are kept
+function modelTarget(id: string): AuditTarget {
+  return {
+    type: 'model',
+    id,
+    snapshot: async () => rowSnapshot(
+      await storage.getModel(Number(id)),
+      ['status', 'reviewerNotes', 'reviewedBy', 'reviewedAt', 'userId']
+    )
+  };
+}
+
+function quarantineTarget(id: string): AuditTarget {
+  return {
+    type: 'quarantined_media',
+    id,
+    snapshot: async () => rowSnapshot(await store.getQuarantineEntry(Number(id)))
+  };
+}
+
+/**
+ * A bulk change to a set of rows fixed before the request runs, so rows it moves out of
+ * the set are still compared afterwards. Fields are keyed "<id>.<field>".
+ */
+function bulkTarget<T extends { id: number }>(type: string, ids: number[], load: (ids: number[]) => Promise<T[]>): AuditTarget {
+  return {
+    type,
+    id: null,
+    snapshot: async () => {
+      if (ids.length === 0) {
+        return {};
+      }
+      const snapshot: Snapshot = {};
+      for (const { id, ...fields } of await load(ids)) {
+        for (const [field, value] of Object.entries(fields)) {
+          snapshot[`${id}.${field}`] = value;
+        }
+      }
+      return snapshot;
+    }
+  };
+}
+
+function requestedIds(req: Request): number[] {
+  const ids: unknown = req.body?.ids;
+  return Array.isArray(ids) ? ids.filter((id): id is number => Number.isInteger(id)).slice(0, 100) : [];
+}
+
+const RULES: AuditRule[] = [
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/creators\/(\d+)\/approval$/,
+    action: 'creator.approval',
+    target: ([userId]) => ({
+      type: 'creator',
+      id: userId,
+      snapshot: async () => rowSnapshot(
+        await storage.getCreatorProfile(Number(userId)),
+        ['approvalStatus', 'approvalDate', 'approvedBy', 'rejectionReason']
+      )
+    })
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/(gallery|featured)$/,
+    action: ([type]) => `${type}.create`,
+    created: galleryTarget
+  },
+  { method: 'PATCH', pattern: /^\/api\/gallery\/(\d+)\/premium$/, action: 'gallery.premium', target: ([id]) => galleryTarget(id) },
+  {
+    method: 'POST',
+    pattern: /^\/api\/gallery\/remove-premium$/,
+    action: 'gallery.remove_premium',
+    target: async () => bulkTarget('gallery', await store.premiumGalleryIds(), ids => store.galleryPremium(ids))
+  },
+  { method: 'DELETE', pattern: /^\/api\/gallery\/(\d+)$/, action: 'gallery.delete', target: ([id]) => galleryTarget(id) },
+  { method: 'DELETE', pattern: /^\/api\/(?:content|creator\/content)\/(\d+)$/, action: 'content.delete', target: ([id]) => contentTarget(id) },
+  { method: 'PATCH', pattern: /^\/api\/creator\/content\/(\d+)$/, action: 'content.update', target: ([id]) => contentTarget(id) },
+  { method: 'PATCH', pattern: /^\/api\/models\/(\d+)$/, action: 'model.review', target: ([id]) => modelTarget(id) },
+  { method: 'POST', pattern: /^\/api\/models\/(\d+)\/accept$/, action: 'model.accept', target: ([id]) => modelTarget(id) },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/users\/(\d+)\/sessions(\/[^/]+)?$/,
+    action: ([, handle]) => handle ? 'user.sessions.revoke' : 'user.sessions.revoke_all',
+    target: ([userId]) => ({ type: 'user', id: userId })
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/lockouts\/([^/]+)$/,
+    action: 'lockout.clear',
+    target: ([email]) => ({ type: 'lockout', id: decodeURIComponent(email) })
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/payments\/(\d+)\/refund$/,
+    action: 'payment.refund',
+    target: ([id]) => ({
+      type: 'payment',
+      id,
+      snapshot: async () => rowSnapshot(await store.getPayment(Number(id)), ['status', 'updatedAt'])
+    })
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/media\/(gallery|content)\/(\d+)\/trace$/,
+    action: 'media.trace',
+    target: ([kind, id]) => ({ type: kind, id })
+  },
+  { method: 'POST', pattern: /^\/api\/admin\/media\/reconciliation$/, action: 'media.reconcile' },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/media\/quarantine\/(\d+)\/restore$/,
+    action: 'media.quarantine.restore',
+    target: ([id]) => quarantineTarget(id)
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/media\/quarantine\/(\d+)$/,
+    action: 'media.quarantine.delete',
+    target: ([id]) => quarantineTarget(id)
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/reports\/(\d+)\/(resolve|dismiss|remove)$/,
+    action: ([, action]) => `report.${action}`,
+    target: ([id]) => ({
+      type: 'report',
+      id,
+      snapshot: async () => rowSnapshot(
+        await store.getReport(Number(id)),
+        ['status', 'resolvedBy', 'resolvedAt', 'resolutionNote']
+      )
+    })
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/content\/moderation$/,
+    action: (params, req) => req.body?.decision === 'reject' ? 'content.reject' : 'content.approve',
+    target: (params, req) => bulkTarget('content', requestedIds(req), ids => store.contentModeration(ids))
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/admin\/settings$/,
+    action: 'settings.update',
+    target: () => ({ type: 'settings', id: null, snapshot: async () => ({ ...await getPlatformSettings() }) })
+  }
+];
+
+// Requests no rule describes are still recorded, under their method and route
+function fallbackAction(method: string, path: string) {
+  return `${method} ${path.replace(/\/\d+(?=\/|$)/g, '/:id')}`;
+}
+
+export function diffSnapshots(before: Snapshot | null, after: Snapshot | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const field of Array.from(fields)) {
+    const was = before?.[field] ?? null;
+    const now = after?.[field] ?? null;
+    if (JSON.stringify(was) !== JSON.stringify(now)) {
+      changes[field] = { before: was, after: now };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Records every mutating request an admin makes in audit_events once the response has been
+ * sent: who made it, what it targeted and, for the routes RULES knows about, which fields it
+ * changed. Failed requests are recorded too, without changes. Mounted ahead of the API routes.
+ */
+export function auditTrail(): RequestHandler {
+  return (req, res, next) => {
+    const path = req.originalUrl.split('?')[0];
+    const actor = req.user;
+    if (!AUDITED_METHODS.has(req.method) || actor?.role !== 'admin' || IGNORED_PATHS.some(pattern => pattern.test(path))) {
+      return next();
+    }
+
+    let rule: AuditRule | undefined;
+    let params: string[] = [];
+    for (const candidate of RULES) {
+      const match = candidate.method === req.method ? candidate.pattern.exec(path) : null;
+      if (match) {
+        rule = candidate;
+        params = match.slice(1);
+        break;
+      }
+    }
+
+    let target: AuditTarget | undefined;
+    let before: Snapshot | null = null;
+    const captureBefore = async () => {
+      try {
+        target = await rule?.target?.(params, req);
+        before = await target?.snapshot?.() ?? null;
+      } catch (error) {
+        console.error('Failed to capture audit snapshot:', { path, error });
+      }
+    };
+
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('finish', async () => {
+      try {
+        const succeeded = res.statusCode < 400;
+        const createdId = (responseBody as { id?: unknown } | undefined)?.id;
+        if (succeeded && rule?.created && (typeof createdId === 'number' || typeof createdId === 'string')) {
+          target = rule.created(String(createdId));
+        }
+        const after = succeeded ? await target?.snapshot?.() ?? null : null;
+
+        await store.record({
+          actorId: actor.id,
+          actorEmail: actor.email,
+          action: rule
+            ? typeof rule.action === 'string' ? rule.action : rule.action(params, req)
+            : fallbackAction(req.method, path),
+          method: req.method,
+          path,
+          statusCode: res.statusCode,
+          targetType: target?.type ?? null,
+          targetId: target?.id ?? null,
+          changes: succeeded && target?.snapshot ? diffSnapshots(before, after) : null,
+          ipAddress: req.ip ?? null,
+          userAgent: req.get('user-agent') ?? null,
+          createdAt: new Date().toISOString()
+        });
+      } catch (error) {
+        console.error('Failed to record audit event:', { path, error });
+      }
+    });
+
+    void captureBefore().then(() => next());
+  };
+}
+
+// Matching events, newest first
+export async function listAuditEvents(
+  query: AuditEventQuery & { page: number; pageSize: number }
+): Promise<{ items: AuditEvent[]; total: number }> {
+  const items = await store.list(query, query.pageSize, (query.page - 1) * query.pageSize);
+  const total = await store.count(query);
+  return { items, total };
+}
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'id', 'createdAt', 'actorId', 'actorEmail', 'action', 'method', 'path', 'statusCode',
+  'targetType', 'targetId', 'changes', 'ipAddress', 'userAgent'
+];
+
+function csvField(value: unknown) {
+  let text = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from evaluating logged values as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The newest AUDIT_EXPORT_LIMIT matching events as CSV
+export async function exportAuditEvents(query: AuditEventQuery): Promise<string> {
+  const rows = await store.list(query, AUDIT_EXPORT_LIMIT);
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(column => csvField(row[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
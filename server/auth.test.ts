@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { request } from './test/http';
+import { storage } from './storage';
+import { comparePasswords, hashPassword, setupAuth } from './auth';
+
+const app = express();
+app.use(express.json());
+setupAuth(app);
+
+const OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR!;
+const HOUR_MS = 60 * 60 * 1000;
+
+let userCount = 0;
+
+async function createUser() {
+  userCount++;
+  return storage.createUser({ email: `user${userCount}@example.com`, password: await hashPassword('old-password'), role: 'follower' });
+}
+
+function outboxFor(email: string): { subject: string; text: string }[] {
+  if (!fs.existsSync(OUTBOX_DIR)) {
+    return [];
+  }
+  return fs.readdirSync(OUTBOX_DIR)
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(OUTBOX_DIR, file), 'utf8')))
+    .filter(message => message.to === email);
+}
+
+// The token from the link in the latest email to the address
+function emailedToken(email: string) {
+  const messages = outboxFor(email);
+  return messages[messages.length - 1]?.text.match(/token=([\w-]+)/)?.[1];
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('password reset', () => {
+  it('answers the same way for registered and unknown addresses, and only mails the registered one', async () => {
+    const user = await createUser();
+
+    const known = await request(app, 'POST', '/api/auth/forgot-password', { email: user.email });
+    const unknown = await request(app, 'POST', '/api/auth/forgot-password', { email: 'nobody@example.com' });
+
+    expect(unknown).toMatchObject({ status: known.status, body: known.body });
+    expect(outboxFor(user.email)).toHaveLength(1);
+    expect(outboxFor('nobody@example.com')).toHaveLength(0);
+  });
+
+  it('sets the new password once per emailed link', async () => {
+    const user = await createUser();
+    await request(app, 'POST', '/api/auth/forgot-password', { email: user.email });
+    const token = emailedToken(user.email);
+
+    const reset = await request(app, 'POST', '/api/auth/reset-password', { token, password: 'new-password' });
+    const reused = await request(app, 'POST', '/api/auth/reset-password', { token, password: 'another-password' });
+
+    expect(reset.status).toBe(200);
+    expect(reused.status).toBe(400);
+    const updated = await storage.getUserById(String(user.id));
+    expect(await comparePasswords('new-password', updated!.password)).toBe(true);
+    expect(updated!.verified).toBeTruthy();
+  });
+
+  it('refuses a link after it expires', async () => {
+    const user = await createUser();
+    await request(app, 'POST', '/api/auth/forgot-password', { email: user.email });
+    const token = emailedToken(user.email);
+    expect(token).toBeDefined();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + HOUR_MS + 1000);
+
+    const res = await request(app, 'POST', '/api/auth/reset-password', { token, password: 'new-password' });
+
+    expect(res.status).toBe(400);
+    const unchanged = await storage.getUserById(String(user.id));
+    expect(await comparePasswords('old-password', unchanged!.password)).toBe(true);
+  });
+
+  it('refuses a made-up token', async () => {
+    const res = await request(app, 'POST', '/api/auth/reset-password', { token: 'not-a-real-token', password: 'new-password' });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('email verification', () => {
+  it('verifies the address once per emailed link, until it expires', async () => {
+    const register = (email: string) => request(app, 'POST', '/api/auth/register', { email, password: 'password123', role: 'follower' });
+    await register('verify@example.com');
+    await register('expired@example.com');
+    const token = emailedToken('verify@example.com');
+    const expiredToken = emailedToken('expired@example.com');
+    expect(expiredToken).toBeDefined();
+
+    const verified = await request(app, 'POST', '/api/auth/verify-email', { token });
+    const reused = await request(app, 'POST', '/api/auth/verify-email', { token });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 24 * HOUR_MS + 1000);
+    const expired = await request(app, 'POST', '/api/auth/verify-email', { token: expiredToken });
+
+    expect(verified.status).toBe(200);
+    expect(reused.status).toBe(400);
+    expect(expired.status).toBe(400);
+    expect((await storage.getUser('verify@example.com'))?.verified).toBeTruthy();
+    expect((await storage.getUser('expired@example.com'))?.verified).toBeFalsy();
+  });
+});
@@ -1,14 +1,33 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response, type NextFunction } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User } from "@shared/schema";
-import MemoryStore from "memorystore";
+import { User, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, twoFactorLoginSchema, type AuthTokenType } from "@shared/schema";
+import type { User as SelectUser } from "@shared/schema";
+import { sessionStore } from "./session-store";
+import { requireSecret } from "./secrets";
+import { mailer } from "./mailer";
+import { getPlatformSettings } from "./settings";
+import { isTwoFactorEnabled, verifyTwoFactorCode, redeemRecoveryCode } from "./two-factor";
+import {
+  checkLoginAllowed,
+  checkRegistrationAllowed,
+  recordLoginAttempt,
+  normalizeEmail,
+  delay,
+  type ThrottleDecision
+} from "./login-throttle";
+
+declare global {
+  namespace Express {
+    // Passport deserializes the full users row onto req.user
+    interface User extends SelectUser {}
+  }
+}
 
-const MemoryStoreSession = MemoryStore(session);
 const scryptAsync = promisify(scrypt);
 
 export async function hashPassword(password: string) {
@@ -17,7 +36,7 @@ export async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   try {
     if (!stored || !stored.includes(".")) {
       return false;
@@ -32,46 +51,142 @@ async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
-async function createAdminUser() {
-  try {
-    const adminEmail = 'admin@babesespresso.com';
-    const adminUsername = 'admin';
-    
-    // Check if admin exists by email or username
-    const existingAdminByEmail = await storage.getUser(adminEmail);
-    const existingAdminByUsername = await storage.getUserByUsername(adminUsername);
-    
-    if (!existingAdminByEmail && !existingAdminByUsername) {
-      const hashedPassword = await hashPassword('admin123');
-      await storage.createUser({
-        email: adminEmail,
-        password: hashedPassword,
-        role: 'admin',
-        username: adminUsername,
-        displayName: 'Admin'
+const PASSWORD_RESET_TTL = 60 * 60 * 1000;
+const PENDING_TWO_FACTOR_TTL = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+const EMAIL_VERIFICATION_TTL = 24 * 60 * 60 * 1000;
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Only the hash is persisted; the raw token exists solely in the emailed link
+async function issueAuthToken(userId: number, type: AuthTokenType, ttl: number) {
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAuthToken({
+    userId,
+    type,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttl)
+  });
+  return token;
+}
+
+// Links must point at the client app, which may be served from a different origin than the API
+// Emailed links carry live tokens, so they're only ever built from configuration. Origin and Host
+// headers are chosen by whoever sends the request and would let them redirect someone else's token.
+const DEVELOPMENT_APP_URL = "http://localhost:3008";
+
+function appUrl() {
+  const configured = process.env.APP_URL?.replace(/\/+$/, "");
+  if (configured) {
+    return configured;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("APP_URL must be set in production");
+  }
+  return DEVELOPMENT_APP_URL;
+}
+
+async function sendVerificationEmail(user: User) {
+  const token = await issueAuthToken(user.id, "email_verification", EMAIL_VERIFICATION_TTL);
+  const link = `${appUrl()}/verify-email?token=${token}`;
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your Babes Espresso email address",
+    text: `Confirm your email address by opening this link within 24 hours:\n\n${link}`,
+    html: `<p>Confirm your email address by opening this link within 24 hours:</p><p><a href="${link}">${link}</a></p>`
+  });
+}
+
+async function sendPasswordResetEmail(user: User) {
+  const token = await issueAuthToken(user.id, "password_reset", PASSWORD_RESET_TTL);
+  const link = `${appUrl()}/reset-password?token=${token}`;
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your Babes Espresso password",
+    text: `Someone requested a password reset for your account. Open this link within an hour to choose a new password:\n\n${link}\n\nIf this wasn't you, you can ignore this email.`,
+    html: `<p>Someone requested a password reset for your account. Open this link within an hour to choose a new password:</p><p><a href="${link}">${link}</a></p><p>If this wasn't you, you can ignore this email.</p>`
+  });
+}
+
+// Admins must enroll in 2FA before doing anything else when the platform policy demands it
+export async function isTwoFactorSetupRequired(user: User) {
+  return user.role === 'admin' && (await getPlatformSettings()).requireAdminTwoFactor && !(await isTwoFactorEnabled(user.id));
+}
+
+function rejectThrottled(res: Response, decision: Extract<ThrottleDecision, { allowed: false }>) {
+  res.set("Retry-After", String(Math.ceil(decision.retryAfterMs / 1000)));
+  return res.status(429).json({ message: decision.message, code: decision.code });
+}
+
+// Establishes the logged-in session once every required factor has been checked
+function completeLogin(req: Request, res: Response, next: NextFunction, user: User) {
+  req.logIn(user, async (err) => {
+    if (err) {
+      console.error('Login error:', err);
+      return next(err);
+    }
+
+    // Set session data
+    req.session.user = {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      username: user.username
+    };
+    req.session.client = { ipAddress: req.ip, userAgent: req.get('user-agent') };
+
+    try {
+      // Force session save and wait for it
+      await new Promise<void>((resolve, reject) => {
+        req.session.save((err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+
+      console.log('Session saved successfully', { sessionID: req.sessionID, user: req.session.user });
+
+      // Return role-specific data
+      const userData = {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        username: user.username,
+        displayName: user.displayName
+      };
+
+      const twoFactorSetupRequired = await isTwoFactorSetupRequired(user);
+
+      res.json({ 
+        message: "Logged in successfully", 
+        user: userData,
+        twoFactorSetupRequired,
+        // Return the appropriate redirect URL based on role
+        redirectTo: twoFactorSetupRequired ? '/account/security' :
+                   user.role === 'admin' ? '/admin' :
+                   user.role === 'creator' ? '/creator/dashboard' :
+                   '/gallery'
       });
-      console.log('Admin user created successfully');
-    } else {
-      console.log('Admin user already exists');
+    } catch (err) {
+      console.error('Session save error:', err);
+      return next(err);
     }
-  } catch (error) {
-    console.error('Error creating admin user:', error);
-  }
+  });
 }
 
 export function setupAuth(app: Express) {
-  // Create admin user on startup
-  createAdminUser();
+  // Fails before anything else starts when production is missing its session secret or public URL
+  const secret = requireSecret('SESSION_SECRET');
+  appUrl();
   // Set up session middleware first
   const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || randomBytes(32).toString('hex'),
-    resave: true,
-    saveUninitialized: true,
-    store: new MemoryStoreSession({
-      checkPeriod: 86400000,
-      stale: false,
-      ttl: 24 * 60 * 60 * 1000
-    }),
+    secret,
+    // The store supports touch(), and skipping empty sessions keeps anonymous visitors out of the sessions table
+    resave: false,
+    saveUninitialized: false,
+    store: sessionStore,
     cookie: {
       secure: false, // Set to true in production with HTTPS
       maxAge: 24 * 60 * 60 * 1000,
@@ -106,12 +221,12 @@ export function setupAuth(app: Express) {
       try {
         const user = await storage.getUser(email);
         if (!user) {
-          return done(null, false);
+          return done(null, false, { message: "unknown_account" });
         }
 
         const isValid = await comparePasswords(password, user.password);
         if (!isValid) {
-          return done(null, false);
+          return done(null, false, { message: "invalid_password" });
         }
 
         return done(null, user);
@@ -128,6 +243,11 @@ export function setupAuth(app: Express) {
       
       console.log('Registration attempt:', { email, role, username });
 
+      const throttle = await checkRegistrationAllowed(req.ip);
+      if (!throttle.allowed) {
+        return rejectThrottled(res, throttle);
+      }
+
       // Validate input
       if (!email || !password) {
         return res.status(400).json({ message: "Email and password are required" });
@@ -143,6 +263,7 @@ export function setupAuth(app: Express) {
       // Check if user exists
       const existingUser = await storage.getUser(email);
       if (existingUser) {
+        await recordLoginAttempt({ kind: 'register', email: normalizeEmail(email), ipAddress: req.ip, success: false, reason: 'email_taken' });
         return res.status(400).json({ 
           message: "Email already registered" 
         });
@@ -160,6 +281,7 @@ export function setupAuth(app: Express) {
           displayName
         });
         console.log('User created successfully:', { id: user.id, email: user.email });
+        await recordLoginAttempt({ kind: 'register', email: normalizeEmail(email), ipAddress: req.ip, userId: user.id, success: true });
       } catch (error) {
         console.error('Error creating user:', error);
         return res.status(500).json({ message: "Failed to create user account" });
@@ -185,12 +307,20 @@ export function setupAuth(app: Express) {
         // We can fix their profile later
       }
 
+      // A failed email shouldn't block signup; the user can request another from their account
+      try {
+        await sendVerificationEmail(user);
+      } catch (error) {
+        console.error('Error sending verification email:', error);
+      }
+
       // Log the user in
       req.login(user, (err) => {
         if (err) {
           console.error('Error during login after registration:', err);
           return next(err);
         }
+        req.session.client = { ipAddress: req.ip, userAgent: req.get('user-agent') };
         req.session.save((err) => {
           if (err) {
             console.error('Error saving session after registration:', err);
@@ -220,66 +350,114 @@ export function setupAuth(app: Express) {
       return res.status(400).json({ message: "Email and password are required" });
     }
 
-    passport.authenticate("local", async (err: Error, user: User) => {
+    const email = normalizeEmail(String(req.body.email));
+    try {
+      const throttle = await checkLoginAllowed(email, req.ip);
+      if (!throttle.allowed) {
+        await recordLoginAttempt({ kind: 'login', email, ipAddress: req.ip, success: false, reason: throttle.code.toLowerCase() });
+        return rejectThrottled(res, throttle);
+      }
+      await delay(throttle.delayMs);
+    } catch (error) {
+      return next(error);
+    }
+
+    passport.authenticate("local", async (err: Error, user: User, info?: { message?: string }) => {
       if (err) {
         console.error('Authentication error:', err);
         return next(err);
       }
-      if (!user) {
-        console.log('Invalid credentials for:', req.body.email);
-        return res.status(401).json({ message: "Invalid email or password" });
-      }
+      try {
+        if (!user) {
+          console.log('Invalid credentials for:', req.body.email);
+          const locked = await recordLoginAttempt({ kind: 'login', email, ipAddress: req.ip, success: false, reason: info?.message });
+          if (locked) {
+            const decision = await checkLoginAllowed(email, req.ip);
+            if (!decision.allowed) {
+              return rejectThrottled(res, decision);
+            }
+          }
+          return res.status(401).json({ message: "Invalid email or password" });
+        }
 
-      console.log('User authenticated:', { id: user.id, email: user.email, role: user.role });
+        console.log('User authenticated:', { id: user.id, email: user.email, role: user.role });
 
-      req.logIn(user, async (err) => {
-        if (err) {
-          console.error('Login error:', err);
-          return next(err);
+        // With 2FA enabled the password only earns a short-lived pending state; the
+        // session is not logged in until /api/auth/login/2fa accepts a code
+        if (await isTwoFactorEnabled(user.id)) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            expiresAt: Date.now() + PENDING_TWO_FACTOR_TTL,
+            attempts: 0
+          };
+          return req.session.save((err) => {
+            if (err) {
+              console.error('Session save error:', err);
+              return next(err);
+            }
+            res.json({ message: "Enter the code from your authenticator app", twoFactorRequired: true });
+          });
         }
 
-        // Set session data
-        req.session.user = {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-          username: user.username
-        };
-
-        try {
-          // Force session save and wait for it
-          await new Promise<void>((resolve, reject) => {
-            req.session.save((err) => {
-              if (err) reject(err);
-              else resolve();
-            });
-          });
+        await recordLoginAttempt({ kind: 'login', email, ipAddress: req.ip, userId: user.id, success: true });
+        completeLogin(req, res, next, user);
+      } catch (error) {
+        console.error('Login error:', error);
+        next(error);
+      }
+    })(req, res, next);
+  });
 
-          console.log('Session saved successfully', { sessionID: req.sessionID, user: req.session.user });
+  app.post("/api/auth/login/2fa", async (req, res, next) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt <= Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Your login attempt has expired. Please log in again." });
+    }
 
-          // Return role-specific data
-          const userData = {
-            id: user.id,
-            email: user.email,
-            role: user.role,
-            username: user.username,
-            displayName: user.displayName
-          };
+    const parsed = twoFactorLoginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "A 6-digit code or a recovery code is required" });
+    }
 
-          res.json({ 
-            message: "Logged in successfully", 
-            user: userData,
-            // Return the appropriate redirect URL based on role
-            redirectTo: user.role === 'admin' ? '/admin' :
-                       user.role === 'creator' ? '/creator/dashboard' :
-                       '/gallery'
-          });
-        } catch (err) {
-          console.error('Session save error:', err);
-          return next(err);
+    try {
+      const user = await storage.getUserById(String(pending.userId));
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your login attempt has expired. Please log in again." });
+      }
+
+      // Code failures count toward the same account lockout as password failures
+      const email = normalizeEmail(user.email);
+      const throttle = await checkLoginAllowed(email, req.ip);
+      if (!throttle.allowed) {
+        delete req.session.pendingTwoFactor;
+        await recordLoginAttempt({ kind: 'two_factor', email, ipAddress: req.ip, userId: user.id, success: false, reason: throttle.code.toLowerCase() });
+        return rejectThrottled(res, throttle);
+      }
+      await delay(throttle.delayMs);
+
+      const verified = 'code' in parsed.data
+        ? await verifyTwoFactorCode(user.id, parsed.data.code)
+        : await redeemRecoveryCode(user.id, parsed.data.recoveryCode);
+
+      if (!verified) {
+        const locked = await recordLoginAttempt({ kind: 'two_factor', email, ipAddress: req.ip, userId: user.id, success: false, reason: 'invalid_code' });
+        pending.attempts += 1;
+        if (locked || pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many invalid codes. Please log in again." });
         }
-      });
-    })(req, res, next);
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      await recordLoginAttempt({ kind: 'two_factor', email, ipAddress: req.ip, userId: user.id, success: true });
+      delete req.session.pendingTwoFactor;
+      completeLogin(req, res, next, user);
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      next(error);
+    }
   });
 
   app.post("/api/auth/logout", (req, res) => {
@@ -288,11 +466,103 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/auth/session", (req, res) => {
-    res.json({ 
-      authenticated: req.isAuthenticated(),
-      user: req.user
-    });
+  // Always answers the same way so the endpoint can't be used to discover registered emails
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid email address",
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const user = await storage.getUser(parsed.data.email);
+      if (user) {
+        await sendPasswordResetEmail(user);
+      }
+    } catch (error) {
+      console.error('Error sending password reset email:', error);
+    }
+
+    res.json({ message: "If an account exists for that email, a reset link has been sent" });
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid reset request",
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const token = await storage.consumeAuthToken(hashToken(parsed.data.token), "password_reset");
+      if (!token) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.updateUserPassword(token.userId, await hashPassword(parsed.data.password));
+      // Receiving the reset email proves the user owns the address
+      await storage.markUserVerified(token.userId);
+      // Sign out everywhere in case the old password was compromised
+      await sessionStore.revokeAllForUser(token.userId);
+
+      res.json({ message: "Password has been reset. Please log in with your new password." });
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      res.status(500).json({ message: "Error resetting password" });
+    }
+  });
+
+  app.post("/api/auth/verify-email", async (req, res) => {
+    const parsed = verifyEmailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Invalid verification request",
+        errors: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const token = await storage.consumeAuthToken(hashToken(parsed.data.token), "email_verification");
+      if (!token) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      await storage.markUserVerified(token.userId);
+      res.json({ message: "Email address verified" });
+    } catch (error) {
+      console.error('Error verifying email:', error);
+      res.status(500).json({ message: "Error verifying email" });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", requireAuth(), async (req, res) => {
+    try {
+      if (req.user!.verified) {
+        return res.status(400).json({ message: "Email address is already verified" });
+      }
+
+      await sendVerificationEmail(req.user!);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error('Error resending verification email:', error);
+      res.status(500).json({ message: "Error sending verification email" });
+    }
+  });
+
+  app.get("/api/auth/session", async (req, res, next) => {
+    try {
+      res.json({ 
+        authenticated: req.isAuthenticated(),
+        user: req.user,
+        twoFactorSetupRequired: req.user ? await isTwoFactorSetupRequired(req.user) : false
+      });
+    } catch (error) {
+      next(error);
+    }
   });
 }
 
@@ -328,8 +598,8 @@ export function requireRole(...allowedRoles: ('admin' | 'creator' | 'follower')[
   };
 }
 
-export function requireAuth(allowedRoles?: string[]) {
-  return (req: Express.Request, res: Express.Response, next: Express.NextFunction) => {
+export function requireAuth(allowedRoles?: string[], options: { allowTwoFactorSetup?: boolean } = {}) {
+  return async (req: Express.Request, res: Express.Response, next: Express.NextFunction) => {
     // First check if session exists
     if (!req.session) {
       console.error('No session found:', {
@@ -369,6 +639,19 @@ export function requireAuth(allowedRoles?: string[]) {
       });
     }
 
+    // Enrollment routes opt out so an admin caught by the policy can still set up 2FA
+    try {
+      if (!options.allowTwoFactorSetup && await isTwoFactorSetupRequired(req.user)) {
+        return res.status(403).json({
+          message: "Two-factor authentication required",
+          code: "TWO_FACTOR_SETUP_REQUIRED",
+          details: "Set up two-factor authentication to continue"
+        });
+      }
+    } catch (error) {
+      return next(error);
+    }
+
     // Touch the session to keep it alive
     req.session.touch();
     next();
@@ -0,0 +1,36 @@
+import { beforeAll, vi } from 'vitest';
+import { describeBackend } from './test/backend-suite';
+
+// Selects the Postgres backend, on an in-process database in place of DATABASE_URL
+vi.mock('./pg', async importOriginal => {
+  const { pgliteConnection } = await import('./test/pglite');
+  const connection = pgliteConnection();
+  return {
+    ...await importOriginal<typeof import('./pg')>(),
+    usePostgres: true,
+    getPostgres: () => connection,
+    closePostgres: async () => {}
+  };
+});
+// Moving files between the public and private stores isn't what these tests are about
+vi.mock('./media/private-store', async importOriginal => ({
+  ...await importOriginal<typeof import('./media/private-store')>(),
+  setMediaVisibility: vi.fn(),
+  setMediaDirectoryVisibility: vi.fn(),
+  deleteMediaFiles: vi.fn()
+}));
+vi.mock('./media/variants', async importOriginal => ({
+  ...await importOriginal<typeof import('./media/variants')>(),
+  setMediaVariantsVisibility: vi.fn(),
+  deleteMediaVariants: vi.fn()
+}));
+
+const { getPostgres } = await import('./pg');
+const { runPgMigrations } = await import('./migrations/pg-runner');
+const { postgresMigrations } = await import('./migrations/postgres');
+
+beforeAll(async () => {
+  await runPgMigrations(getPostgres().pool, postgresMigrations, { log: () => {} });
+});
+
+describeBackend('postgres');
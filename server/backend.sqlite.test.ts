@@ -0,0 +1,17 @@
+import { vi } from 'vitest';
+import { describeBackend } from './test/backend-suite';
+
+// Moving files between the public and private stores isn't what these tests are about
+vi.mock('./media/private-store', async importOriginal => ({
+  ...await importOriginal<typeof import('./media/private-store')>(),
+  setMediaVisibility: vi.fn(),
+  setMediaDirectoryVisibility: vi.fn(),
+  deleteMediaFiles: vi.fn()
+}));
+vi.mock('./media/variants', async importOriginal => ({
+  ...await importOriginal<typeof import('./media/variants')>(),
+  setMediaVariantsVisibility: vi.fn(),
+  deleteMediaVariants: vi.fn()
+}));
+
+describeBackend('sqlite');
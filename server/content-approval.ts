@@ -0,0 +1,242 @@
+import { and, asc, count, eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import { getPostgres, usePostgres } from "./pg";
+import {
+  content,
+  users,
+  type Content,
+  type ContentDecision,
+  type ContentModerationStatus,
+  type User
+} from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import { getPlatformSettings } from "./settings";
+import { mailer } from "./mailer";
+import { getMediaEntitlements, presentContent, type PresentedContent } from "./media/access";
+import { isMediaPrivate, setMediaDirectoryVisibility, setMediaVisibility } from "./media/private-store";
+import { getMediaVariants, setMediaVariantsVisibility } from "./media/variants";
+import { videoOutputDirUrl } from "./media/video-jobs";
+
+export type PendingContent = PresentedContent & {
+  creator: Pick<User, 'id' | 'email' | 'username' | 'displayName' | 'avatarUrl'> | null;
+  // How many of the creator's posts are already published, to tell newcomers apart
+  creatorApprovedPosts: number;
+};
+
+export interface ContentDecisionResult {
+  decided: Content[];
+  // Ids that weren't pending, e.g. because another admin got to them first
+  skipped: number[];
+}
+
+type PendingCreator = PendingContent['creator'];
+
+interface ContentModeration {
+  moderationStatus: 'approved' | 'rejected';
+  moderationReason: string | null;
+  moderatedBy: number;
+  moderatedAt: string;
+}
+
+// The content table, as moderation sees it, in whichever database DATABASE_URL selects
+interface ApprovalStore {
+  countApproved(creatorId: number): Promise<number>;
+  listPending(page: number, pageSize: number): Promise<{ content: Content; creator: PendingCreator }[]>;
+  countPending(): Promise<number>;
+  // Only posts still pending are changed, and returned
+  decide(ids: number[], moderation: ContentModeration): Promise<Content[]>;
+  creatorEmails(creatorIds: number[]): Promise<Pick<User, 'id' | 'email'>[]>;
+}
+
+type ContentTable = typeof content | typeof pg.content;
+
+function approvedPostConditions(table: ContentTable, creatorId: number) {
+  return and(eq(table.creatorId, creatorId), eq(table.moderationStatus, 'approved'));
+}
+
+function pendingPostConditions(table: ContentTable, ids: number[]) {
+  return and(inArray(table.id, ids), eq(table.moderationStatus, 'pending'));
+}
+
+class SqliteApprovalStore implements ApprovalStore {
+  async countApproved(creatorId: number) {
+    const [{ approved }] = db.select({ approved: count() }).from(content).where(approvedPostConditions(content, creatorId)).all();
+    return approved;
+  }
+
+  async listPending(page: number, pageSize: number) {
+    return db
+      .select({
+        content,
+        creator: { id: users.id, email: users.email, username: users.username, displayName: users.displayName, avatarUrl: users.avatarUrl }
+      })
+      .from(content)
+      .leftJoin(users, eq(users.id, content.creatorId))
+      .where(eq(content.moderationStatus, 'pending'))
+      .orderBy(asc(content.createdAt), asc(content.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+      .all();
+  }
+
+  async countPending() {
+    const [{ total }] = db.select({ total: count() }).from(content).where(eq(content.moderationStatus, 'pending')).all();
+    return total;
+  }
+
+  async decide(ids: number[], moderation: ContentModeration) {
+    return db
+      .update(content)
+      .set({ ...moderation, updatedAt: moderation.moderatedAt })
+      .where(pendingPostConditions(content, ids))
+      .returning()
+      .all();
+  }
+
+  async creatorEmails(creatorIds: number[]) {
+    return db.select({ id: users.id, email: users.email }).from(users).where(inArray(users.id, creatorIds)).all();
+  }
+}
+
+class PostgresApprovalStore implements ApprovalStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async countApproved(creatorId: number) {
+    const [{ approved }] = await this.db.select({ approved: count() }).from(pg.content).where(approvedPostConditions(pg.content, creatorId));
+    return approved;
+  }
+
+  async listPending(page: number, pageSize: number) {
+    return this.db
+      .select({
+        content: pg.content,
+        creator: { id: pg.users.id, email: pg.users.email, username: pg.users.username, displayName: pg.users.displayName, avatarUrl: pg.users.avatarUrl }
+      })
+      .from(pg.content)
+      .leftJoin(pg.users, eq(pg.users.id, pg.content.creatorId))
+      .where(eq(pg.content.moderationStatus, 'pending'))
+      .orderBy(asc(pg.content.createdAt), asc(pg.content.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+  }
+
+  async countPending() {
+    const [{ total }] = await this.db.select({ total: count() }).from(pg.content).where(eq(pg.content.moderationStatus, 'pending'));
+    return total;
+  }
+
+  async decide(ids: number[], moderation: ContentModeration) {
+    return this.db
+      .update(pg.content)
+      .set({ ...moderation, updatedAt: moderation.moderatedAt })
+      .where(pendingPostConditions(pg.content, ids))
+      .returning();
+  }
+
+  async creatorEmails(creatorIds: number[]) {
+    return this.db.select({ id: pg.users.id, email: pg.users.email }).from(pg.users).where(inArray(pg.users.id, creatorIds));
+  }
+}
+
+const store: ApprovalStore = usePostgres ? new PostgresApprovalStore() : new SqliteApprovalStore();
+
+// Whether a creator's next post is published straight away or waits in the approval queue
+export async function initialModerationStatus(creatorId: number): Promise<ContentModerationStatus> {
+  const { contentApprovalMode, newCreatorApprovedPosts } = await getPlatformSettings();
+  if (contentApprovalMode === 'all') {
+    return 'pending';
+  }
+  if (contentApprovalMode === 'new_creators' && await store.countApproved(creatorId) < newCreatorApprovedPosts) {
+    return 'pending';
+  }
+  return 'approved';
+}
+
+// The approval queue, oldest first, with files signed for the reviewing admin
+export async function listPendingContent(
+  { page, pageSize }: { page: number; pageSize: number },
+  viewer: Pick<User, 'id' | 'role'>
+): Promise<{ items: PendingContent[]; total: number }> {
+  const rows = await store.listPending(page, pageSize);
+  const total = await store.countPending();
+
+  const entitlements = await getMediaEntitlements(viewer);
+  const variants = await getMediaVariants('content', rows.map(row => row.content.id));
+  const approvedPosts = new Map<number, number>();
+  for (const creatorId of Array.from(new Set(rows.map(row => row.content.creatorId)))) {
+    approvedPosts.set(creatorId, await store.countApproved(creatorId));
+  }
+  const items = rows.map(row => ({
+    ...presentContent(row.content, entitlements, variants.get(row.content.id)),
+    creator: row.creator,
+    creatorApprovedPosts: approvedPosts.get(row.content.creatorId)!
+  }));
+  return { items, total };
+}
+
+function describeTitles(items: Content[]) {
+  return items.map(item => `- ${item.title}`).join('\n');
+}
+
+// One email per creator per decision, however many of their posts it covered
+async function notifyCreators(decision: ContentDecision, decided: Content[]) {
+  const byCreator = new Map<number, Content[]>();
+  for (const item of decided) {
+    byCreator.set(item.creatorId, [...(byCreator.get(item.creatorId) ?? []), item]);
+  }
+  const creators = await store.creatorEmails(Array.from(byCreator.keys()));
+
+  for (const creator of creators) {
+    const items = byCreator.get(creator.id)!;
+    const plural = items.length > 1;
+    const message = decision.decision === 'approve'
+      ? {
+        subject: plural ? `${items.length} of your posts are now live` : `Your post "${items[0].title}" is now live`,
+        text: `${plural ? 'These posts were' : 'This post was'} approved and published:\n\n${describeTitles(items)}`
+      }
+      : {
+        subject: plural ? `${items.length} of your posts weren't approved` : `Your post "${items[0].title}" wasn't approved`,
+        text: `${plural ? 'These posts were' : 'This post was'} not approved:\n\n${describeTitles(items)}\n\nReason: ${decision.reason}\n\nYou can delete ${plural ? 'them' : 'it'} from your creator dashboard and post again.`
+      };
+    try {
+      await mailer.send({ to: creator.email, ...message });
+    } catch (error) {
+      console.warn('Failed to notify creator of moderation decision:', { creatorId: creator.id, error });
+    }
+  }
+}
+
+/**
+ * Approves or rejects pending posts in bulk. Approved posts are published, which moves the
+ * files of free ones to the public side of the store; rejected ones stay private. Creators
+ * are emailed the outcome.
+ */
+export async function decideContent(decision: ContentDecision, adminId: number): Promise<ContentDecisionResult> {
+  const decided = await store.decide(decision.ids, {
+    moderationStatus: decision.decision === 'approve' ? 'approved' : 'rejected',
+    moderationReason: decision.decision === 'reject' ? decision.reason : null,
+    moderatedBy: adminId,
+    moderatedAt: new Date().toISOString()
+  });
+
+  if (decision.decision === 'approve') {
+    for (const item of decided) {
+      if (isMediaPrivate(item)) {
+        continue;
+      }
+      await setMediaVisibility('content', item.url, false);
+      await setMediaVisibility('content', item.thumbnailUrl, false);
+      await setMediaVariantsVisibility('content', item.id, false);
+      if (item.contentType === 'video') {
+        await setMediaDirectoryVisibility('content', videoOutputDirUrl(item.id), false);
+      }
+    }
+  }
+
+  await notifyCreators(decision, decided);
+
+  const decidedIds = new Set(decided.map(item => item.id));
+  return { decided, skipped: decision.ids.filter(id => !decidedIds.has(id)) };
+}
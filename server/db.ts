@@ -4,9 +4,22 @@ import Database from 'better-sqlite3';
 import * as schema from "@shared/schema";
 import path from 'path';
 import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { migrations } from './migrations';
+import { assertSchemaCurrent, runMigrations } from './migrations/runner';
+import { postgresMigrations } from './migrations/postgres';
+import { assertPgSchemaCurrent, runPgMigrations } from './migrations/pg-runner';
+import { getPostgres, usePostgres } from './pg';
+
+// Resolved from this module rather than the working directory, so `npm start`, the dev server
+// and the migrate scripts all open the same file. server/db.ts and the bundled dist/index.js both
+// sit one level below the project root. SQLITE_PATH points somewhere else, e.g. for tests.
+const dbFilePath = process.env.SQLITE_PATH
+  ? path.resolve(process.env.SQLITE_PATH)
+  : path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'babes_espresso.db');
 
 // Ensure the database directory exists
-const dbDir = path.dirname('babes_espresso.db');
+const dbDir = path.dirname(dbFilePath);
 console.log('Database directory:', dbDir);
 if (!fs.existsSync(dbDir)) {
   fs.mkdirSync(dbDir, { recursive: true });
@@ -14,7 +27,6 @@ if (!fs.existsSync(dbDir)) {
 
 let sqlite: Database.Database;
 try {
-  const dbFilePath = path.join(process.cwd(), 'babes_espresso.db');
   console.log('Database file path:', dbFilePath);
   if (!fs.existsSync(dbFilePath)) {
     fs.writeFileSync(dbFilePath, '');
@@ -59,97 +71,33 @@ process.on('exit', () => {
 
 export const db = drizzle(sqlite, { schema });
 
-// Initialize database tables
-const initDb = async () => {
-  console.log('Initializing database tables...');
-  try {
-    // Create tables if they don't exist
-    await db.run(sql`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        email TEXT NOT NULL UNIQUE,
-        password TEXT NOT NULL,
-        role TEXT NOT NULL DEFAULT 'follower',
-        username TEXT UNIQUE,
-        display_name TEXT,
-        avatar_url TEXT,
-        bio TEXT,
-        verified INTEGER DEFAULT 0,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-    `);
-    
-    await db.run(sql`
-      CREATE TABLE IF NOT EXISTS models (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        first_name TEXT NOT NULL,
-        last_name TEXT NOT NULL,
-        email TEXT NOT NULL,
-        phone TEXT NOT NULL,
-        date_of_birth TEXT NOT NULL,
-        alias_name TEXT,
-        social_platforms TEXT NOT NULL,
-        social_handles TEXT,
-        only_fans_link TEXT,
-        body_photo_url TEXT NOT NULL,
-        license_photo_url TEXT NOT NULL,
-        terms_accepted TEXT NOT NULL
-      );
-    `);
-    
-    await db.run(sql`
-      CREATE TABLE IF NOT EXISTS gallery (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        url TEXT NOT NULL,
-        title TEXT NOT NULL,
-        type TEXT NOT NULL DEFAULT 'gallery',
-        content_rating TEXT NOT NULL DEFAULT 'sfw',
-        is_premium INTEGER NOT NULL DEFAULT 0,
-        created_at TEXT NOT NULL,
-        tags TEXT NOT NULL DEFAULT '[]',
-        instagram TEXT,
-        tiktok TEXT,
-        twitter TEXT,
-        onlyfans TEXT,
-        description TEXT
-      );
-    `);
-    
-    console.log('Database tables initialized successfully');
-  } catch (error) {
-    console.error('Failed to initialize database tables:', error);
-    throw new Error(`Database initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-};
+const DEFAULT_ADMIN_EMAIL = 'admin@babesespresso.com';
 
-// Create default admin user if it doesn't exist
+// Create default admin user if it doesn't exist. Goes through IStorage so the account
+// lands in whichever database DATABASE_URL selects.
 export async function createDefaultAdmin() {
   console.log('Starting admin user creation/verification...');
   try {
-    // Check if admin user exists
-    const [adminUser] = await db.select().from(schema.users).where(eq(schema.users.email, 'admin@babesespresso.com'));
-    
+    const { storage } = await import('./storage');
+    const adminUser = await storage.getUser(DEFAULT_ADMIN_EMAIL);
+
     if (!adminUser) {
       console.log('Creating default admin user...');
       const { hashPassword } = await import('./auth');
       const hashedPassword = await hashPassword('admin123');
-      
-      await db.insert(schema.users).values({
-        email: 'admin@babesespresso.com',
+
+      await storage.createUser({
+        email: DEFAULT_ADMIN_EMAIL,
         password: hashedPassword,
         role: 'admin',
         username: 'admin',
-        display_name: 'Administrator'
+        displayName: 'Administrator'
       });
-      
+
       console.log('Default admin user created successfully');
     } else {
       // Update existing admin to ensure role is set
-      await db
-        .update(schema.users)
-        .set({ role: 'admin' })
-        .where(eq(schema.users.email, 'admin@babesespresso.com'));
+      await storage.updateUserRole(adminUser.id, 'admin');
       console.log('Admin role verified');
     }
   } catch (error) {
@@ -158,9 +106,22 @@ export async function createDefaultAdmin() {
   }
 }
 
-// Initialize the database and create admin user
+// Bring the schema of the database DATABASE_URL selects up to date (or refuse to start if
+// it's behind) and create the admin user. Every module stores its rows in that one database.
 export const initializeDatabase = async () => {
-  await initDb();
+  const autoMigrate = process.env.AUTO_MIGRATE === 'true';
+  if (usePostgres) {
+    const { pool } = getPostgres();
+    if (autoMigrate) {
+      await runPgMigrations(pool, postgresMigrations);
+    }
+    await assertPgSchemaCurrent(pool, postgresMigrations);
+  } else {
+    if (autoMigrate) {
+      runMigrations(sqlite, migrations);
+    }
+    assertSchemaCurrent(sqlite, migrations);
+  }
   await createDefaultAdmin();
 };
 
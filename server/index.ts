@@ -9,9 +9,31 @@ import { users } from "../shared/schema";
 import { eq } from "drizzle-orm";
 import { hashPassword } from "./auth";
 import { createServer } from 'http';
+import { startRenewalScheduler } from "./subscription-renewals";
+import { migrateApplicationPhotosToStore, migratePremiumMediaToPrivateStore } from "./media/private-store";
+import { backfillMediaTeasers } from "./media/teasers";
+import { backfillPerceptualHashes } from "./media/duplicates";
+import { startVideoWorker } from "./media/video-jobs";
+import { startUploadSessionSweeper } from "./media/upload-sessions";
+import { startMediaReconciliation } from "./media/reconciliation";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Unparsed body, kept only where a signature has to be checked against the exact bytes
+      rawBody?: Buffer;
+    }
+  }
+}
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req: Request, _res, buf) => {
+    if (req.originalUrl.startsWith('/api/payments/webhook')) {
+      req.rawBody = buf;
+    }
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Configure CORS with the cors package
@@ -70,37 +92,25 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // The schema check comes before registerRoutes, whose setup already reads and writes the database
+  try {
+    console.log('Initializing database...');
+    await initializeDatabase();
+    console.log('Database initialized successfully');
+  } catch (error) {
+    console.error('Failed to initialize database:', error);
+    process.exit(1);
+  }
+
   const server = await registerRoutes(app);
 
-  // Serve static files
+  // Serve static files. Uploads are served from the media store by registerRoutes.
   if (process.env.NODE_ENV === 'development') {
-    // In development, serve uploads directly
-    app.use('/uploads', express.static(path.join(process.cwd(), 'uploads'), {
-      setHeaders: (res) => {
-        res.setHeader('Cache-Control', 'no-cache');
-      }
-    }));
-    app.use('/uploads', express.static(path.join(process.cwd(), 'client/public/uploads'), {
-      setHeaders: (res) => {
-        res.setHeader('Cache-Control', 'no-cache');
-      }
-    }));
-    
     // Setup Vite for development
     await setupVite(app, server);
   } else {
     // Serve static files in production
     app.use(express.static(path.join(process.cwd(), "../client/dist")));
-    app.use('/uploads', express.static(path.join(process.cwd(), "uploads"), {
-      setHeaders: (res) => {
-        res.setHeader('Cache-Control', 'no-cache');
-      }
-    }));
-    app.use('/uploads', express.static(path.join(process.cwd(), "client/public/uploads"), {
-      setHeaders: (res) => {
-        res.setHeader('Cache-Control', 'no-cache');
-      }
-    }));
   }
 
   // API error handler
@@ -136,10 +146,15 @@ app.use((req, res, next) => {
     // Start the server
     (async () => {
       try {
-        // Initialize the database first
-        console.log('Initializing database...');
-        await initializeDatabase();
-        console.log('Database initialized successfully');
+        await migratePremiumMediaToPrivateStore();
+        await migrateApplicationPhotosToStore();
+        // Not awaited: generating teasers for a large back catalogue shouldn't hold up startup
+        backfillMediaTeasers().catch(error => console.error('Teaser backfill failed:', error));
+        backfillPerceptualHashes().catch(error => console.error('Perceptual hash backfill failed:', error));
+        startRenewalScheduler();
+        startVideoWorker();
+        startUploadSessionSweeper();
+        startMediaReconciliation();
         
         // Create server instance
         const server = createServer(app);
@@ -0,0 +1,384 @@
+import { and, count, desc, eq, gt, lt, inArray, isNull, notInArray, or, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { getPostgres, usePostgres } from "./pg";
+import { loginAttempts, accountLockouts, type AccountLockout, type LoginAttempt } from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+
+// Sliding-window limits, evaluated against the login_attempts log so they hold across restarts
+const WINDOW_MS = 15 * 60 * 1000;
+const MAX_ACCOUNT_FAILURES = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_IP_FAILURES = 30;
+const REGISTER_WINDOW_MS = 60 * 60 * 1000;
+const MAX_IP_REGISTRATIONS = 10;
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 5000;
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Attempts rejected by the throttle itself; they're logged but don't count as failures
+const BLOCKED_REASONS = ['account_locked', 'ip_rate_limited'];
+const CREDENTIAL_KINDS: LoginAttempt['kind'][] = ['login', 'two_factor'];
+
+export type ThrottleDecision =
+  | { allowed: true; delayMs: number }
+  | { allowed: false; code: 'ACCOUNT_LOCKED' | 'IP_RATE_LIMITED'; retryAfterMs: number; message: string };
+
+export interface LoginAttemptQuery {
+  email?: string;
+  ipAddress?: string;
+  success?: boolean;
+  page: number;
+  pageSize: number;
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isoAgo(ms: number) {
+  return new Date(Date.now() - ms).toISOString();
+}
+
+type AttemptsTable = typeof loginAttempts | typeof pg.loginAttempts;
+
+// Whose failures are being counted
+type AttemptSubject = { email: string } | { ipAddress: string };
+
+function failureConditions(table: AttemptsTable, subject: AttemptSubject, since: string) {
+  return and(
+    'email' in subject ? eq(table.email, subject.email) : eq(table.ipAddress, subject.ipAddress),
+    inArray(table.kind, CREDENTIAL_KINDS),
+    eq(table.success, false),
+    gt(table.createdAt, since),
+    or(isNull(table.reason), notInArray(table.reason, BLOCKED_REASONS))
+  );
+}
+
+function lastSuccessConditions(table: AttemptsTable, email: string) {
+  return and(eq(table.email, email), inArray(table.kind, CREDENTIAL_KINDS), eq(table.success, true));
+}
+
+function registrationConditions(table: AttemptsTable, ipAddress: string, since: string) {
+  return and(eq(table.ipAddress, ipAddress), eq(table.kind, 'register'), gt(table.createdAt, since));
+}
+
+function attemptQueryConditions(table: AttemptsTable, query: LoginAttemptQuery) {
+  const conditions: SQL[] = [];
+  if (query.email) conditions.push(eq(table.email, normalizeEmail(query.email)));
+  if (query.ipAddress) conditions.push(eq(table.ipAddress, query.ipAddress));
+  if (query.success !== undefined) conditions.push(eq(table.success, query.success));
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+// The login_attempts log and account_lockouts in whichever database DATABASE_URL selects
+interface LoginAttemptStore {
+  countFailures(subject: AttemptSubject, since: string): Promise<number>;
+  lastSuccessAt(email: string): Promise<string | undefined>;
+  countRegistrations(ipAddress: string, since: string): Promise<number>;
+  record(attempt: Omit<LoginAttempt, 'id'>): Promise<void>;
+  getLockout(email: string): Promise<AccountLockout | undefined>;
+  lock(email: string, lockedUntil: string, lockedAt: string): Promise<void>;
+  // Whether a lockout was still in force
+  unlock(email: string, adminId: number, now: string): Promise<boolean>;
+  listActiveLockouts(now: string): Promise<AccountLockout[]>;
+  list(query: LoginAttemptQuery): Promise<{ attempts: LoginAttempt[]; total: number }>;
+  prune(before: string): Promise<void>;
+}
+
+class SqliteLoginAttemptStore implements LoginAttemptStore {
+  async countFailures(subject: AttemptSubject, since: string) {
+    const [row] = db
+      .select({ failures: count() })
+      .from(loginAttempts)
+      .where(failureConditions(loginAttempts, subject, since))
+      .all();
+    return row?.failures ?? 0;
+  }
+
+  async lastSuccessAt(email: string) {
+    return db
+      .select({ createdAt: loginAttempts.createdAt })
+      .from(loginAttempts)
+      .where(lastSuccessConditions(loginAttempts, email))
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(1)
+      .get()?.createdAt;
+  }
+
+  async countRegistrations(ipAddress: string, since: string) {
+    const [row] = db
+      .select({ attempts: count() })
+      .from(loginAttempts)
+      .where(registrationConditions(loginAttempts, ipAddress, since))
+      .all();
+    return row?.attempts ?? 0;
+  }
+
+  async record(attempt: Omit<LoginAttempt, 'id'>) {
+    db.insert(loginAttempts).values(attempt).run();
+  }
+
+  async getLockout(email: string) {
+    return db.select().from(accountLockouts).where(eq(accountLockouts.email, email)).get();
+  }
+
+  async lock(email: string, lockedUntil: string, lockedAt: string) {
+    db.insert(accountLockouts)
+      .values({ email, lockedUntil, lockedAt })
+      .onConflictDoUpdate({
+        target: accountLockouts.email,
+        set: { lockedUntil, lockedAt, unlockedAt: null, unlockedBy: null }
+      })
+      .run();
+  }
+
+  async unlock(email: string, adminId: number, now: string) {
+    return db
+      .update(accountLockouts)
+      .set({ lockedUntil: null, unlockedAt: now, unlockedBy: adminId })
+      .where(and(eq(accountLockouts.email, email), gt(accountLockouts.lockedUntil, now)))
+      .run().changes > 0;
+  }
+
+  async listActiveLockouts(now: string) {
+    return db
+      .select()
+      .from(accountLockouts)
+      .where(gt(accountLockouts.lockedUntil, now))
+      .orderBy(desc(accountLockouts.lockedAt))
+      .all();
+  }
+
+  async list(query: LoginAttemptQuery) {
+    const where = attemptQueryConditions(loginAttempts, query);
+    const attempts = db
+      .select()
+      .from(loginAttempts)
+      .where(where)
+      .orderBy(desc(loginAttempts.createdAt), desc(loginAttempts.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize)
+      .all();
+    const [{ total }] = db.select({ total: count() }).from(loginAttempts).where(where).all();
+    return { attempts, total };
+  }
+
+  async prune(before: string) {
+    db.delete(loginAttempts).where(lt(loginAttempts.createdAt, before)).run();
+  }
+}
+
+class PostgresLoginAttemptStore implements LoginAttemptStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async countFailures(subject: AttemptSubject, since: string) {
+    const [row] = await this.db
+      .select({ failures: count() })
+      .from(pg.loginAttempts)
+      .where(failureConditions(pg.loginAttempts, subject, since));
+    return row?.failures ?? 0;
+  }
+
+  async lastSuccessAt(email: string) {
+    const [row] = await this.db
+      .select({ createdAt: pg.loginAttempts.createdAt })
+      .from(pg.loginAttempts)
+      .where(lastSuccessConditions(pg.loginAttempts, email))
+      .orderBy(desc(pg.loginAttempts.createdAt))
+      .limit(1);
+    return row?.createdAt;
+  }
+
+  async countRegistrations(ipAddress: string, since: string) {
+    const [row] = await this.db
+      .select({ attempts: count() })
+      .from(pg.loginAttempts)
+      .where(registrationConditions(pg.loginAttempts, ipAddress, since));
+    return row?.attempts ?? 0;
+  }
+
+  async record(attempt: Omit<LoginAttempt, 'id'>) {
+    await this.db.insert(pg.loginAttempts).values(attempt);
+  }
+
+  async getLockout(email: string) {
+    const [lockout] = await this.db.select().from(pg.accountLockouts).where(eq(pg.accountLockouts.email, email));
+    return lockout;
+  }
+
+  async lock(email: string, lockedUntil: string, lockedAt: string) {
+    await this.db.insert(pg.accountLockouts)
+      .values({ email, lockedUntil, lockedAt })
+      .onConflictDoUpdate({
+        target: pg.accountLockouts.email,
+        set: { lockedUntil, lockedAt, unlockedAt: null, unlockedBy: null }
+      });
+  }
+
+  async unlock(email: string, adminId: number, now: string) {
+    const unlocked = await this.db
+      .update(pg.accountLockouts)
+      .set({ lockedUntil: null, unlockedAt: now, unlockedBy: adminId })
+      .where(and(eq(pg.accountLockouts.email, email), gt(pg.accountLockouts.lockedUntil, now)))
+      .returning({ email: pg.accountLockouts.email });
+    return unlocked.length > 0;
+  }
+
+  async listActiveLockouts(now: string) {
+    return this.db
+      .select()
+      .from(pg.accountLockouts)
+      .where(gt(pg.accountLockouts.lockedUntil, now))
+      .orderBy(desc(pg.accountLockouts.lockedAt));
+  }
+
+  async list(query: LoginAttemptQuery) {
+    const where = attemptQueryConditions(pg.loginAttempts, query);
+    const attempts = await this.db
+      .select()
+      .from(pg.loginAttempts)
+      .where(where)
+      .orderBy(desc(pg.loginAttempts.createdAt), desc(pg.loginAttempts.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ total }] = await this.db.select({ total: count() }).from(pg.loginAttempts).where(where);
+    return { attempts, total };
+  }
+
+  async prune(before: string) {
+    await this.db.delete(pg.loginAttempts).where(lt(pg.loginAttempts.createdAt, before));
+  }
+}
+
+const store: LoginAttemptStore = usePostgres ? new PostgresLoginAttemptStore() : new SqliteLoginAttemptStore();
+
+// Failures only count from the latest of: the window start, the last success,
+// the end of the previous lockout, or an admin unlock
+async function accountFailureCount(email: string) {
+  const lastSuccess = await store.lastSuccessAt(email);
+  const lockout = await store.getLockout(email);
+
+  const since = [isoAgo(WINDOW_MS), lastSuccess, lockout?.lockedUntil, lockout?.unlockedAt]
+    .filter((value): value is string => Boolean(value))
+    .sort()
+    .pop()!;
+  return store.countFailures({ email }, since);
+}
+
+function ipFailureCount(ipAddress: string) {
+  return store.countFailures({ ipAddress }, isoAgo(WINDOW_MS));
+}
+
+function minutesUntil(ms: number) {
+  const minutes = Math.max(1, Math.ceil(ms / 60000));
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+export async function checkLoginAllowed(email: string | undefined, ipAddress: string | undefined): Promise<ThrottleDecision> {
+  const now = Date.now();
+
+  if (email) {
+    const lockedUntil = (await store.getLockout(email))?.lockedUntil;
+    if (lockedUntil && new Date(lockedUntil).getTime() > now) {
+      const retryAfterMs = new Date(lockedUntil).getTime() - now;
+      return {
+        allowed: false,
+        code: 'ACCOUNT_LOCKED',
+        retryAfterMs,
+        message: `Too many failed attempts. This account is locked for ${minutesUntil(retryAfterMs)}.`
+      };
+    }
+  }
+
+  const ipFailures = ipAddress ? await ipFailureCount(ipAddress) : 0;
+  if (ipFailures >= MAX_IP_FAILURES) {
+    return {
+      allowed: false,
+      code: 'IP_RATE_LIMITED',
+      retryAfterMs: WINDOW_MS,
+      message: `Too many failed attempts from your network. Try again in ${minutesUntil(WINDOW_MS)}.`
+    };
+  }
+
+  // Each recent failure doubles the wait, so guessing slows down long before the lockout
+  const failures = Math.max(email ? await accountFailureCount(email) : 0, Math.floor(ipFailures / 5));
+  return {
+    allowed: true,
+    delayMs: failures > 0 ? Math.min(BASE_DELAY_MS * 2 ** (failures - 1), MAX_DELAY_MS) : 0
+  };
+}
+
+export async function checkRegistrationAllowed(ipAddress: string | undefined): Promise<ThrottleDecision> {
+  if (!ipAddress) {
+    return { allowed: true, delayMs: 0 };
+  }
+
+  if (await store.countRegistrations(ipAddress, isoAgo(REGISTER_WINDOW_MS)) >= MAX_IP_REGISTRATIONS) {
+    return {
+      allowed: false,
+      code: 'IP_RATE_LIMITED',
+      retryAfterMs: REGISTER_WINDOW_MS,
+      message: `Too many sign-up attempts from your network. Try again in ${minutesUntil(REGISTER_WINDOW_MS)}.`
+    };
+  }
+  return { allowed: true, delayMs: 0 };
+}
+
+// Records an attempt and returns whether it pushed the account into lockout
+export async function recordLoginAttempt(attempt: {
+  kind: LoginAttempt['kind'];
+  email?: string;
+  ipAddress?: string;
+  userId?: number | null;
+  success: boolean;
+  reason?: string;
+}): Promise<boolean> {
+  const now = new Date();
+  await store.record({
+    kind: attempt.kind,
+    email: attempt.email ?? null,
+    ipAddress: attempt.ipAddress ?? null,
+    userId: attempt.userId ?? null,
+    success: attempt.success,
+    reason: attempt.reason ?? null,
+    createdAt: now.toISOString()
+  });
+
+  if (attempt.success || !attempt.email || attempt.kind === 'register' || BLOCKED_REASONS.includes(attempt.reason ?? '')) {
+    return false;
+  }
+
+  if (await accountFailureCount(attempt.email) < MAX_ACCOUNT_FAILURES) {
+    return false;
+  }
+
+  const lockedUntil = new Date(now.getTime() + LOCKOUT_MS).toISOString();
+  await store.lock(attempt.email, lockedUntil, now.toISOString());
+  console.warn('Account locked after repeated failed logins:', { email: attempt.email, lockedUntil });
+  return true;
+}
+
+export function unlockAccount(email: string, adminId: number): Promise<boolean> {
+  return store.unlock(normalizeEmail(email), adminId, new Date().toISOString());
+}
+
+export function listActiveLockouts(): Promise<AccountLockout[]> {
+  return store.listActiveLockouts(new Date().toISOString());
+}
+
+export function listLoginAttempts(query: LoginAttemptQuery): Promise<{ attempts: LoginAttempt[]; total: number }> {
+  return store.list(query);
+}
+
+// The log only needs to cover the rate-limit windows plus some history for admins
+const pruneTimer = setInterval(() => {
+  store.prune(isoAgo(RETENTION_MS)).catch(error => console.error('Failed to prune login attempts:', error));
+}, 60 * 60 * 1000);
+// Don't keep the process alive just to prune
+pruneTimer.unref();
@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import { createMailer, OutboxMailer } from './mailer';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('createMailer', () => {
+  it('refuses to fall back to the outbox in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('SMTP_HOST', '');
+
+    expect(() => createMailer()).toThrow('SMTP_HOST must be set in production');
+  });
+
+  it('writes mail to the outbox in development without logging its body', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const mailer = createMailer();
+
+    await mailer.send({ to: 'someone@example.com', subject: 'Reset', text: 'https://app/reset?token=secret-token' });
+
+    expect(mailer).toBeInstanceOf(OutboxMailer);
+    expect(fs.readdirSync(process.env.MAIL_OUTBOX_DIR!)).toHaveLength(1);
+    expect(log.mock.calls.flat().join(' ')).not.toContain('secret-token');
+  });
+});
@@ -0,0 +1,82 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import * as fsPromises from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Babes Espresso <no-reply@babesespresso.com>';
+
+export class SmtpMailer implements Mailer {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly from: string, options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+/**
+ * Development mailer: writes each message to a JSON file in the outbox directory, so links in
+ * reset and verification emails can be followed locally. Only the recipient and subject are
+ * logged, since the links carry live tokens.
+ */
+export class OutboxMailer implements Mailer {
+  constructor(private readonly from: string, private readonly outboxDir: string) {}
+
+  async send(message: MailMessage) {
+    const entry = { from: this.from, ...message, sentAt: new Date().toISOString() };
+
+    await fsPromises.mkdir(this.outboxDir, { recursive: true });
+    const filename = `${Date.now()}-${Math.round(Math.random() * 1E9)}.json`;
+    await fsPromises.writeFile(path.join(this.outboxDir, filename), JSON.stringify(entry, null, 2));
+
+    console.log(`Mail to ${message.to} written to outbox: ${message.subject}`);
+  }
+}
+
+// SMTP_HOST selects SMTP delivery; without it mail goes to the local outbox, which production
+// refuses, since nobody would receive their reset or verification links
+export function createMailer(): Mailer {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+
+  if (process.env.SMTP_HOST) {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    return new SmtpMailer(from, {
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS
+    });
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SMTP_HOST must be set in production');
+  }
+
+  return new OutboxMailer(from, process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'private', 'outbox'));
+}
+
+export const mailer = createMailer();
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import type { MediaVariant } from '@shared/schema';
+import { storage } from '../storage';
+import { presentContent, presentGalleryItem, signMediaUrl, verifyMediaUrl, type MediaEntitlements } from './access';
+
+const MINUTE_MS = 60 * 1000;
+
+function paramsOf(url: string) {
+  return Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+}
+
+describe('signMediaUrl and verifyMediaUrl', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const signed = signMediaUrl('content', 12, 7, now, 15 * MINUTE_MS);
+  const params = paramsOf(signed.url);
+
+  it('signs a URL for the media route that verifies as the viewer it was issued to', () => {
+    expect(signed.url.startsWith('/api/media/content/12?')).toBe(true);
+    expect(signed.expiresAt).toBe(new Date(now + 15 * MINUTE_MS).toISOString());
+    expect(verifyMediaUrl('content', 12, params, now)).toBe(7);
+  });
+
+  it('stops verifying once the URL expires', () => {
+    expect(verifyMediaUrl('content', 12, params, now + 15 * MINUTE_MS - 1000)).toBe(7);
+    expect(verifyMediaUrl('content', 12, params, now + 15 * MINUTE_MS)).toBeNull();
+  });
+
+  it('rejects a URL presented for another viewer', () => {
+    expect(verifyMediaUrl('content', 12, { ...params, viewer: '8' }, now)).toBeNull();
+  });
+
+  it('rejects a URL whose expiry, signature, item or kind was changed', () => {
+    // The secret is random per run, so the signature may already end in the replacement character
+    const alteredSig = `${params.sig.slice(0, -1)}${params.sig.endsWith('A') ? 'B' : 'A'}`;
+    expect(verifyMediaUrl('content', 12, { ...params, expires: String(Number(params.expires) + 3600) }, now)).toBeNull();
+    expect(verifyMediaUrl('content', 12, { ...params, sig: alteredSig }, now)).toBeNull();
+    expect(verifyMediaUrl('content', 13, params, now)).toBeNull();
+    expect(verifyMediaUrl('gallery', 12, params, now)).toBeNull();
+  });
+
+  it('rejects URLs with missing or malformed parameters', () => {
+    expect(verifyMediaUrl('content', 12, {}, now)).toBeNull();
+    expect(verifyMediaUrl('content', 12, { ...params, sig: undefined }, now)).toBeNull();
+    expect(verifyMediaUrl('content', 12, { ...params, viewer: '7abc' }, now)).toBeNull();
+    expect(verifyMediaUrl('content', 12, { ...params, sig: ['a', 'b'] }, now)).toBeNull();
+  });
+});
+
+describe('presentGalleryItem', () => {
+  const subscriber: MediaEntitlements = { userId: 7, isAdmin: false, subscribedCreatorIds: new Set([3]), purchasedContentIds: new Set() };
+
+  function createItem(isPremium: boolean) {
+    return storage.createGalleryItem({ url: `/uploads/item-${Date.now()}.jpg`, title: 'Item', isPremium, createdAt: new Date().toISOString() });
+  }
+
+  function cardVariant(item: { id: number; url: string }): MediaVariant {
+    return {
+      id: 1,
+      mediaKind: 'gallery',
+      mediaId: item.id,
+      variant: 'card',
+      format: 'webp',
+      width: 640,
+      height: 480,
+      url: item.url.replace('.jpg', '-card.webp'),
+      bytes: 100,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  it('gives viewers without a subscription only the teaser of a premium item', async () => {
+    const item = await storage.createGalleryItem({
+      url: `/uploads/item-${Date.now()}.jpg`,
+      title: 'Item',
+      isPremium: true,
+      teaserUrl: '/uploads/item-teaser.jpg',
+      blurHash: 'LEHV6nWB2yk8',
+      createdAt: new Date().toISOString()
+    });
+    const follower: MediaEntitlements = { ...subscriber, subscribedCreatorIds: new Set() };
+
+    for (const entitlements of [null, follower]) {
+      const presented = presentGalleryItem(item, entitlements, [cardVariant(item)]);
+      expect(presented).toMatchObject({ locked: true, url: `/api/media/gallery/${item.id}`, teaserUrl: item.teaserUrl, blurHash: item.blurHash, variants: [] });
+      expect(presented.urlExpiresAt).toBeUndefined();
+    }
+    expect(presentGalleryItem(item, subscriber)).toMatchObject({ locked: false, teaserUrl: item.teaserUrl });
+  });
+
+  it('lists a free item’s variants at their static URLs', async () => {
+    const item = await createItem(false);
+
+    const presented = presentGalleryItem(item, null, [cardVariant(item)]);
+
+    expect(presented.variants).toEqual([{ variant: 'card', format: 'webp', width: 640, height: 480, url: cardVariant(item).url }]);
+  });
+
+  it('serves a premium item’s variants through its signed URL', async () => {
+    const item = await createItem(true);
+
+    const presented = presentGalleryItem(item, subscriber, [cardVariant(item)]);
+
+    expect(presented.variants).toHaveLength(1);
+    expect(presented.variants[0].url).toBe(`${presented.url}&size=card&format=webp`);
+    expect(verifyMediaUrl('gallery', item.id, paramsOf(presented.variants[0].url))).toBe(7);
+  });
+});
+
+describe('presentContent', () => {
+  const viewer = (values: Partial<MediaEntitlements> = {}): MediaEntitlements =>
+    ({ userId: 7, isAdmin: false, subscribedCreatorIds: new Set(), purchasedContentIds: new Set(), ...values });
+
+  async function createVideo(values: { hiddenAt?: string } = {}) {
+    const creator = await storage.createUser({ email: `creator-${Date.now()}-${Math.random()}@example.com`, password: 'hash', role: 'creator' });
+    const dirUrl = `/uploads/content/video-${creator.id}`;
+    return storage.createContent({
+      creatorId: creator.id,
+      title: 'Video',
+      contentType: 'video',
+      url: `${dirUrl}/720p.mp4`,
+      thumbnailUrl: `${dirUrl}/poster.jpg`,
+      previewUrl: `${dirUrl}/preview.mp4`,
+      hlsUrl: `${dirUrl}/master.m3u8`,
+      teaserUrl: `${dirUrl}-teaser.jpg`,
+      blurHash: 'LEHV6nWB2yk8',
+      isPremium: true,
+      price: 5,
+      moderationStatus: 'approved',
+      ...values
+    });
+  }
+
+  it('gives viewers without access the teaser and nothing that leads to the file', async () => {
+    const video = await createVideo();
+
+    for (const entitlements of [null, viewer(), viewer({ purchasedContentIds: new Set([video.id + 1]) })]) {
+      expect(presentContent(video, entitlements)).toMatchObject({
+        locked: true,
+        url: `/api/media/content/${video.id}`,
+        thumbnailUrl: null,
+        previewUrl: null,
+        hlsUrl: null,
+        teaserUrl: video.teaserUrl,
+        blurHash: video.blurHash,
+        price: 5,
+        variants: []
+      });
+    }
+  });
+
+  it('signs every URL for subscribers, buyers, the creator and admins', async () => {
+    const video = await createVideo();
+    const entitled = [
+      viewer({ subscribedCreatorIds: new Set([video.creatorId]) }),
+      viewer({ purchasedContentIds: new Set([video.id]) }),
+      viewer({ userId: video.creatorId }),
+      viewer({ isAdmin: true })
+    ];
+
+    for (const entitlements of entitled) {
+      const presented = presentContent(video, entitlements);
+      expect(presented.locked).toBe(false);
+      expect(verifyMediaUrl('content', video.id, paramsOf(presented.url))).toBe(entitlements.userId);
+      expect(presented.thumbnailUrl).toBe(`${presented.url}&variant=thumbnail`);
+      expect(presented.hlsUrl).toMatch(new RegExp(`^/api/media/content/${video.id}/hls/master\\.m3u8\\?expires=`));
+    }
+  });
+
+  it('locks hidden content for everyone but its creator and admins, subscribers included', async () => {
+    const video = await createVideo({ hiddenAt: new Date().toISOString() });
+
+    expect(presentContent(video, viewer({ subscribedCreatorIds: new Set([video.creatorId]) })).locked).toBe(true);
+    expect(presentContent(video, viewer({ userId: video.creatorId })).locked).toBe(false);
+    expect(presentContent(video, viewer({ isAdmin: true })).locked).toBe(false);
+  });
+});
@@ -0,0 +1,281 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import path from "path";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { getPostgres, usePostgres } from "../pg";
+import {
+  contentPurchases,
+  subscriptions,
+  type Content,
+  type Gallery,
+  type MediaVariant,
+  type User
+} from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import { ENTITLED_SUBSCRIPTION_STATUSES } from "../subscription-lifecycle";
+import { isMediaPrivate, type MediaKind } from "./private-store";
+import { MEDIA_URL_SECRET, publicMediaUrl } from "./store";
+
+const MEDIA_URL_TTL_MS = Number(process.env.MEDIA_URL_TTL_MINUTES || 15) * 60 * 1000;
+
+export interface SignedMediaUrl {
+  url: string;
+  expiresAt: string;
+}
+
+export interface MediaSignatureParams {
+  expires?: unknown;
+  viewer?: unknown;
+  sig?: unknown;
+}
+
+// What a viewer has paid for, loaded once per request rather than per item
+export interface MediaEntitlements {
+  userId: number;
+  isAdmin: boolean;
+  subscribedCreatorIds: Set<number>;
+  purchasedContentIds: Set<number>;
+}
+
+export type PresentedVariant = Pick<MediaVariant, 'variant' | 'format' | 'width' | 'height' | 'url'>;
+
+export type PresentedGalleryItem = Gallery & { locked: boolean; urlExpiresAt?: string; variants: PresentedVariant[] };
+export type PresentedContent = Content & { locked: boolean; urlExpiresAt?: string; variants: PresentedVariant[] };
+
+export function mediaRoute(kind: MediaKind, id: number) {
+  return `/api/media/${kind}/${id}`;
+}
+
+function computeSignature(kind: MediaKind, id: number, viewerId: number, expires: number) {
+  return createHmac('sha256', MEDIA_URL_SECRET)
+    .update(`${kind}:${id}:${viewerId}:${expires}`)
+    .digest('base64url');
+}
+
+// The viewer id is part of the signature, so a leaked URL can be traced back to whoever it was issued to
+export function signMediaUrl(kind: MediaKind, id: number, viewerId: number, now = Date.now(), ttlMs = MEDIA_URL_TTL_MS): SignedMediaUrl {
+  const expires = Math.floor((now + ttlMs) / 1000);
+  const params = new URLSearchParams({
+    expires: String(expires),
+    viewer: String(viewerId),
+    sig: computeSignature(kind, id, viewerId, expires)
+  });
+  return { url: `${mediaRoute(kind, id)}?${params.toString()}`, expiresAt: new Date(expires * 1000).toISOString() };
+}
+
+// Returns the viewer the URL was issued to, or null if it's forged, altered or expired
+export function verifyMediaUrl(kind: MediaKind, id: number, params: MediaSignatureParams, now = Date.now()): number | null {
+  const expires = Number(params.expires);
+  const viewerId = Number(params.viewer);
+  if (!Number.isInteger(expires) || !Number.isInteger(viewerId) || typeof params.sig !== 'string') {
+    return null;
+  }
+  if (expires * 1000 <= now) {
+    return null;
+  }
+
+  const expected = Buffer.from(computeSignature(kind, id, viewerId, expires));
+  const actual = Buffer.from(params.sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return viewerId;
+}
+
+type SubscriptionsTable = typeof subscriptions | typeof pg.subscriptions;
+type PurchasesTable = typeof contentPurchases | typeof pg.contentPurchases;
+
+function entitledSubscriptionConditions(table: SubscriptionsTable, followerId: number) {
+  return and(eq(table.followerId, followerId), inArray(table.status, ENTITLED_SUBSCRIPTION_STATUSES));
+}
+
+function completedPurchaseConditions(table: PurchasesTable, followerId: number) {
+  return and(eq(table.followerId, followerId), eq(table.status, 'completed'));
+}
+
+// The subscriptions and purchases a viewer's entitlements come from, in whichever database DATABASE_URL selects
+interface EntitlementStore {
+  subscribedCreatorIds(followerId: number): Promise<number[]>;
+  purchasedContentIds(followerId: number): Promise<number[]>;
+}
+
+class SqliteEntitlementStore implements EntitlementStore {
+  async subscribedCreatorIds(followerId: number) {
+    return db
+      .select({ creatorId: subscriptions.creatorId })
+      .from(subscriptions)
+      .where(entitledSubscriptionConditions(subscriptions, followerId))
+      .all()
+      .map(row => row.creatorId);
+  }
+
+  async purchasedContentIds(followerId: number) {
+    return db
+      .select({ contentId: contentPurchases.contentId })
+      .from(contentPurchases)
+      .where(completedPurchaseConditions(contentPurchases, followerId))
+      .all()
+      .map(row => row.contentId);
+  }
+}
+
+class PostgresEntitlementStore implements EntitlementStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async subscribedCreatorIds(followerId: number) {
+    const rows = await this.db
+      .select({ creatorId: pg.subscriptions.creatorId })
+      .from(pg.subscriptions)
+      .where(entitledSubscriptionConditions(pg.subscriptions, followerId));
+    return rows.map(row => row.creatorId);
+  }
+
+  async purchasedContentIds(followerId: number) {
+    const rows = await this.db
+      .select({ contentId: pg.contentPurchases.contentId })
+      .from(pg.contentPurchases)
+      .where(completedPurchaseConditions(pg.contentPurchases, followerId));
+    return rows.map(row => row.contentId);
+  }
+}
+
+const entitlementStore: EntitlementStore = usePostgres ? new PostgresEntitlementStore() : new SqliteEntitlementStore();
+
+export async function getMediaEntitlements(user: Pick<User, 'id' | 'role'> | undefined): Promise<MediaEntitlements | null> {
+  if (!user) {
+    return null;
+  }
+
+  const [subscribed, purchased] = await Promise.all([
+    entitlementStore.subscribedCreatorIds(user.id),
+    entitlementStore.purchasedContentIds(user.id)
+  ]);
+  return {
+    userId: user.id,
+    isAdmin: user.role === 'admin',
+    subscribedCreatorIds: new Set(subscribed),
+    purchasedContentIds: new Set(purchased)
+  };
+}
+
+// Gallery items belong to the platform rather than a creator, so any paid subscription unlocks
+// them. Items hidden by moderation are for admins only.
+export function canViewGalleryItem(entitlements: MediaEntitlements | null, item: Pick<Gallery, 'isPremium' | 'hiddenAt'>) {
+  if (item.hiddenAt) {
+    return Boolean(entitlements?.isAdmin);
+  }
+  if (!item.isPremium) {
+    return true;
+  }
+  return Boolean(entitlements && (entitlements.isAdmin || entitlements.subscribedCreatorIds.size > 0));
+}
+
+// Hidden and unpublished content stays visible to its creator, so they can see what was
+// reported or is waiting on review
+export function canViewContent(
+  entitlements: MediaEntitlements | null,
+  item: Pick<Content, 'id' | 'creatorId' | 'isPremium' | 'hiddenAt' | 'moderationStatus'>
+) {
+  if (item.hiddenAt || item.moderationStatus !== 'approved') {
+    return Boolean(entitlements && (entitlements.isAdmin || entitlements.userId === item.creatorId));
+  }
+  if (!item.isPremium) {
+    return true;
+  }
+  if (!entitlements) {
+    return false;
+  }
+  return entitlements.isAdmin
+    || entitlements.userId === item.creatorId
+    || entitlements.subscribedCreatorIds.has(item.creatorId)
+    || entitlements.purchasedContentIds.has(item.id);
+}
+
+// Public variants keep their static URL; premium ones are served through the signed media URL
+function presentVariants(variants: MediaVariant[], signedUrl?: string): PresentedVariant[] {
+  return variants.map(({ variant, format, width, height, url }) => ({
+    variant,
+    format,
+    width,
+    height,
+    url: signedUrl ? `${signedUrl}&size=${variant}&format=${format}` : publicMediaUrl(url)
+  }));
+}
+
+/**
+ * Replaces a premium or hidden item's file URL with a signed one when the viewer may see it.
+ * Otherwise the URL points at the bare media route, which answers 403, and the item is marked
+ * locked: its public teaserUrl and blurHash are all the viewer gets.
+ */
+export function presentGalleryItem(
+  item: Gallery,
+  entitlements: MediaEntitlements | null,
+  variants: MediaVariant[] = []
+): PresentedGalleryItem {
+  const teaserUrl = publicMediaUrl(item.teaserUrl);
+  if (!isMediaPrivate(item)) {
+    return { ...item, url: publicMediaUrl(item.url), teaserUrl, locked: false, variants: presentVariants(variants) };
+  }
+  if (!canViewGalleryItem(entitlements, item)) {
+    return { ...item, url: mediaRoute('gallery', item.id), teaserUrl, locked: true, variants: [] };
+  }
+  const signed = signMediaUrl('gallery', item.id, entitlements!.userId);
+  return {
+    ...item,
+    url: signed.url,
+    teaserUrl,
+    urlExpiresAt: signed.expiresAt,
+    locked: false,
+    variants: presentVariants(variants, signed.url)
+  };
+}
+
+export function presentContent(
+  item: Content,
+  entitlements: MediaEntitlements | null,
+  variants: MediaVariant[] = []
+): PresentedContent {
+  const teaserUrl = publicMediaUrl(item.teaserUrl);
+  if (!isMediaPrivate(item)) {
+    return {
+      ...item,
+      url: publicMediaUrl(item.url),
+      thumbnailUrl: publicMediaUrl(item.thumbnailUrl),
+      previewUrl: publicMediaUrl(item.previewUrl),
+      hlsUrl: publicMediaUrl(item.hlsUrl),
+      teaserUrl,
+      locked: false,
+      variants: presentVariants(variants)
+    };
+  }
+  if (!canViewContent(entitlements, item)) {
+    return {
+      ...item,
+      url: mediaRoute('content', item.id),
+      teaserUrl,
+      thumbnailUrl: null,
+      previewUrl: null,
+      hlsUrl: null,
+      locked: true,
+      variants: []
+    };
+  }
+  // HLS players keep fetching segments for the whole video, so its URLs must outlive it
+  const ttlMs = MEDIA_URL_TTL_MS + (item.durationSeconds ?? 0) * 2000;
+  const signed = signMediaUrl('content', item.id, entitlements!.userId, Date.now(), ttlMs);
+  const signature = signed.url.slice(signed.url.indexOf('?') + 1);
+  return {
+    ...item,
+    url: signed.url,
+    teaserUrl,
+    // Thumbnails, previews and playlists are private too and are served from the same route
+    thumbnailUrl: item.thumbnailUrl ? `${signed.url}&variant=thumbnail` : null,
+    previewUrl: item.previewUrl ? `${signed.url}&variant=preview` : null,
+    hlsUrl: item.hlsUrl ? `${mediaRoute('content', item.id)}/hls/${path.posix.basename(item.hlsUrl)}?${signature}` : null,
+    urlExpiresAt: signed.expiresAt,
+    locked: false,
+    variants: presentVariants(variants, signed.url)
+  };
+}
@@ -0,0 +1,142 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'url';
+import sharp from 'sharp';
+import type { Content, Gallery, User } from '@shared/schema';
+import { storage } from '../storage';
+import { updatePlatformSettings } from '../settings';
+import { computePerceptualHash } from '../utils/imageProcessor';
+import { duplicateWarning, findNearDuplicates, groupDuplicates, hammingDistance, type DuplicateMatch } from './duplicates';
+
+const FIXTURE = fileURLToPath(new URL('../test/fixtures/gps-xmp-iptc.jpg', import.meta.url));
+
+const BASE_HASH = '0f0f0f0f0f0f0f0f';
+
+// The base hash with its lowest `bits` bits flipped, so exactly that many bits away from it
+function hashAt(bits: number) {
+  const mask = (1n << BigInt(bits)) - 1n;
+  return (BigInt(`0x${BASE_HASH}`) ^ mask).toString(16).padStart(16, '0');
+}
+
+describe('hammingDistance', () => {
+  it('counts differing bits across both halves of the hash', () => {
+    expect(hammingDistance(BASE_HASH, BASE_HASH)).toBe(0);
+    expect(hammingDistance(BASE_HASH, hashAt(5))).toBe(5);
+    expect(hammingDistance('8000000000000000', '0000000000000001')).toBe(2);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
+
+describe('computePerceptualHash', () => {
+  it('puts a resized, re-encoded copy within the default threshold and a mirrored image outside it', async () => {
+    const original = await computePerceptualHash(FIXTURE);
+    const copy = await computePerceptualHash(await sharp(FIXTURE).resize(400).webp({ quality: 40 }).toBuffer());
+    const mirrored = await computePerceptualHash(await sharp(FIXTURE).flop().toBuffer());
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(original, copy)).toBeLessThanOrEqual(8);
+    expect(hammingDistance(original, mirrored)).toBeGreaterThan(8);
+  });
+});
+
+describe('findNearDuplicates and groupDuplicates', () => {
+  let admin: User;
+  let creator: User;
+  let exact: Gallery;
+  let atThreshold: Gallery;
+  let beyondThreshold: Gallery;
+  let premiumPost: Content;
+
+  function galleryItem(title: string, perceptualHash: string, createdAt: string) {
+    return storage.createGalleryItem({ url: `/uploads/${title}.jpg`, title, isPremium: false, perceptualHash, createdAt });
+  }
+
+  beforeAll(async () => {
+    admin = await storage.createUser({ email: 'admin@example.com', password: 'hash', role: 'admin' });
+    creator = await storage.createUser({ email: 'creator@example.com', password: 'hash', role: 'creator' });
+    exact = await galleryItem('exact', BASE_HASH, '2026-01-01T00:00:00.000Z');
+    premiumPost = await storage.createContent({
+      creatorId: creator.id,
+      title: 'premium',
+      contentType: 'image',
+      url: '/uploads/content/premium.jpg',
+      isPremium: true,
+      moderationStatus: 'approved',
+      perceptualHash: hashAt(3),
+      createdAt: '2026-01-02T00:00:00.000Z'
+    });
+    atThreshold = await galleryItem('at-threshold', hashAt(8), '2026-01-03T00:00:00.000Z');
+    beyondThreshold = await galleryItem('beyond-threshold', hashAt(9), '2026-01-04T00:00:00.000Z');
+    // Unrelated to the rest: every bit differs from the base hash
+    await galleryItem('unrelated', 'f0f0f0f0f0f0f0f0', '2026-01-05T00:00:00.000Z');
+  });
+
+  it('matches items up to the configured threshold, closest first', async () => {
+    const matches = await findNearDuplicates(BASE_HASH, admin.id);
+
+    expect(matches.map(match => [match.title, match.distance])).toEqual([['exact', 0], ['premium', 3], ['at-threshold', 8]]);
+  });
+
+  it('follows the threshold in the platform settings, or the one passed in', async () => {
+    await updatePlatformSettings({ duplicateHashThreshold: 9 }, admin.id);
+
+    expect((await findNearDuplicates(BASE_HASH, admin.id)).map(match => match.id)).toContain(beyondThreshold.id);
+    expect((await findNearDuplicates(BASE_HASH, admin.id, undefined, 2)).map(match => match.id)).toEqual([exact.id]);
+    await updatePlatformSettings({ duplicateHashThreshold: 8 }, admin.id);
+  });
+
+  it('leaves out the item being checked and signs previews of private matches', async () => {
+    const matches = await findNearDuplicates(BASE_HASH, admin.id, { kind: 'gallery', id: exact.id });
+
+    expect(matches.map(match => match.id)).toEqual([premiumPost.id, atThreshold.id]);
+    expect(matches[0].previewUrl).toMatch(new RegExp(`^/api/media/content/${premiumPost.id}\\?expires=\\d+&viewer=${admin.id}&`));
+    expect(matches[1].previewUrl).toBe(atThreshold.url);
+  });
+
+  it('groups near-duplicates transitively, oldest first, with distances from the oldest', async () => {
+    const groups = await groupDuplicates(admin.id);
+
+    // beyond-threshold is 9 bits from the oldest item but only 1 from at-threshold
+    expect(groups).toHaveLength(1);
+    expect(groups[0].items.map(item => [item.title, item.distance])).toEqual([
+      ['exact', 0],
+      ['premium', 3],
+      ['at-threshold', 8],
+      ['beyond-threshold', 9]
+    ]);
+  });
+});
+
+describe('duplicateWarning', () => {
+  const match = (values: Partial<DuplicateMatch>): DuplicateMatch => ({
+    kind: 'content',
+    id: 1,
+    title: 'Post',
+    type: 'image',
+    creatorId: 7,
+    isPremium: true,
+    previewUrl: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    distance: 2,
+    ...values
+  });
+
+  it('says nothing when there are no matches', () => {
+    expect(duplicateWarning([], { id: 7, role: 'creator' })).toBeUndefined();
+  });
+
+  it('shows admins every match', () => {
+    const matches = [match({ id: 1 }), match({ id: 2, creatorId: 8 }), match({ kind: 'gallery', id: 3, creatorId: null })];
+
+    expect(duplicateWarning(matches, { id: 1, role: 'admin' })).toEqual({ message: 'This image looks like 3 existing items.', matches });
+  });
+
+  it("shows creators only their own items, even when others' match too", () => {
+    const own = match({ id: 1 });
+
+    expect(duplicateWarning([own], { id: 7, role: 'creator' })).toEqual({ message: "This looks like something you've already posted.", matches: [own] });
+    expect(duplicateWarning([own, match({ id: 2, creatorId: 8 })], { id: 7, role: 'creator' })).toMatchObject({
+      message: expect.stringContaining('flagged for an admin to review'),
+      matches: [own]
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import type { ContentModerationStatus, User } from "@shared/schema";
+import { getPlatformSettings } from "../settings";
+import { computePerceptualHash } from "../utils/imageProcessor";
+import { signMediaUrl } from "./access";
+import { publicMediaUrl } from "./store";
+import { isMediaPrivate, localMediaCopy, type MediaKind } from "./private-store";
+import { listContentMedia, listGalleryMedia, updateMediaItem } from "./items";
+
+export interface DuplicateMatch {
+  kind: MediaKind;
+  id: number;
+  title: string;
+  // 'gallery' or 'featured' for gallery items, 'image' or 'video' for creator content
+  type: string;
+  creatorId: number | null;
+  isPremium: boolean;
+  // The image, or a video's poster frame, signed for the viewer when it's private
+  previewUrl: string | null;
+  createdAt: string;
+  // Bits that differ from the hash being compared against
+  distance: number;
+}
+
+export interface DuplicateGroup {
+  // Oldest first, so the first item is the likely original; distances are measured from it
+  items: DuplicateMatch[];
+}
+
+export interface DuplicateWarning {
+  message: string;
+  matches: DuplicateMatch[];
+}
+
+interface HashedItem {
+  kind: MediaKind;
+  id: number;
+  title: string;
+  type: string;
+  creatorId: number | null;
+  isPremium: boolean;
+  hiddenAt: string | null;
+  moderationStatus?: ContentModerationStatus;
+  previewSource: string | null;
+  createdAt: string;
+  perceptualHash: string;
+}
+
+// Hashes are 16 hex digits; compared as two 32-bit halves to stay within bitwise range
+export function hammingDistance(a: string, b: string) {
+  let distance = 0;
+  for (let half = 0; half < 16; half += 8) {
+    let bits = (parseInt(a.slice(half, half + 8), 16) ^ parseInt(b.slice(half, half + 8), 16)) >>> 0;
+    while (bits) {
+      bits &= bits - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+async function loadHashedItems(): Promise<HashedItem[]> {
+  const galleryItems = (await listGalleryMedia()).filter(item => item.perceptualHash);
+  const contentItems = (await listContentMedia()).filter(item => item.perceptualHash);
+
+  return [
+    ...galleryItems.map(item => ({
+      kind: 'gallery' as const,
+      id: item.id,
+      title: item.title,
+      type: item.type,
+      creatorId: null,
+      isPremium: item.isPremium,
+      hiddenAt: item.hiddenAt,
+      previewSource: item.url,
+      createdAt: item.createdAt,
+      perceptualHash: item.perceptualHash!
+    })),
+    ...contentItems.map(item => ({
+      kind: 'content' as const,
+      id: item.id,
+      title: item.title,
+      type: item.contentType,
+      creatorId: item.creatorId,
+      isPremium: item.isPremium ?? false,
+      hiddenAt: item.hiddenAt,
+      moderationStatus: item.moderationStatus,
+      previewSource: item.contentType === 'video' ? item.thumbnailUrl : item.url,
+      createdAt: item.createdAt,
+      perceptualHash: item.perceptualHash!
+    }))
+  ];
+}
+
+function toMatch(item: HashedItem, distance: number, viewerId: number): DuplicateMatch {
+  let previewUrl = publicMediaUrl(item.previewSource);
+  if (isMediaPrivate(item) && previewUrl) {
+    const signed = signMediaUrl(item.kind, item.id, viewerId).url;
+    previewUrl = item.type === 'video' ? `${signed}&variant=thumbnail` : signed;
+  }
+  return {
+    kind: item.kind,
+    id: item.id,
+    title: item.title,
+    type: item.type,
+    creatorId: item.creatorId,
+    isPremium: item.isPremium,
+    previewUrl,
+    createdAt: item.createdAt,
+    distance
+  };
+}
+
+/**
+ * Finds stored gallery and content items whose perceptual hash is within the threshold of the
+ * given one, closest first. `exclude` leaves out the item the hash belongs to.
+ */
+export async function findNearDuplicates(
+  hash: string,
+  viewerId: number,
+  exclude?: { kind: MediaKind; id: number },
+  threshold?: number
+): Promise<DuplicateMatch[]> {
+  const limit = threshold ?? (await getPlatformSettings()).duplicateHashThreshold;
+  return (await loadHashedItems())
+    .filter(item => !(exclude && item.kind === exclude.kind && item.id === exclude.id))
+    .map(item => ({ item, distance: hammingDistance(hash, item.perceptualHash) }))
+    .filter(({ distance }) => distance <= limit)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ item, distance }) => toMatch(item, distance, viewerId));
+}
+
+/**
+ * Groups every hashed item with its near-duplicates across gallery and content. Matching is
+ * transitive, so a group can hold two items further apart than the threshold if something
+ * in between is close to both.
+ */
+export async function groupDuplicates(viewerId: number, threshold?: number): Promise<DuplicateGroup[]> {
+  const limit = threshold ?? (await getPlatformSettings()).duplicateHashThreshold;
+  const items = await loadHashedItems();
+  const parent = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (hammingDistance(items[i].perceptualHash, items[j].perceptualHash) <= limit) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const members = new Map<number, HashedItem[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    const group = members.get(root);
+    if (group) {
+      group.push(item);
+    } else {
+      members.set(root, [item]);
+    }
+  });
+
+  const groups: DuplicateGroup[] = [];
+  members.forEach(group => {
+    if (group.length < 2) {
+      return;
+    }
+    group.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const original = group[0];
+    groups.push({
+      items: group.map(item => toMatch(item, hammingDistance(original.perceptualHash, item.perceptualHash), viewerId))
+    });
+  });
+  // Newest duplicates first, since those are the ones still worth acting on
+  return groups.sort((a, b) => b.items[b.items.length - 1].createdAt.localeCompare(a.items[a.items.length - 1].createdAt));
+}
+
+/**
+ * What to tell the uploader about near-duplicates of their upload. Admins see every match;
+ * creators only see their own items, so the warning can't be used to browse other creators'
+ * premium content. The admin duplicates view lists everything regardless.
+ */
+export function duplicateWarning(matches: DuplicateMatch[], uploader: Pick<User, 'id' | 'role'>): DuplicateWarning | undefined {
+  if (matches.length === 0) {
+    return undefined;
+  }
+  if (uploader.role === 'admin') {
+    return {
+      message: `This image looks like ${matches.length === 1 ? 'an existing item' : `${matches.length} existing items`}.`,
+      matches
+    };
+  }
+  const own = matches.filter(match => match.kind === 'content' && match.creatorId === uploader.id);
+  if (own.length === matches.length) {
+    return { message: "This looks like something you've already posted.", matches: own };
+  }
+  return {
+    message: 'This image closely matches one already on the site, so it has been flagged for an admin to review.',
+    matches: own
+  };
+}
+
+// Items uploaded before hashing existed get one on startup, so uploads can be checked against them
+export async function backfillPerceptualHashes() {
+  const sources = [
+    ...(await listGalleryMedia())
+      .filter(item => !item.perceptualHash)
+      .map(item => ({ kind: 'gallery' as const, id: item.id, url: item.url })),
+    ...(await listContentMedia())
+      .filter(item => !item.perceptualHash && (item.contentType === 'image' || (item.processingStatus === 'ready' && item.thumbnailUrl)))
+      .map(item => ({ kind: 'content' as const, id: item.id, url: item.contentType === 'video' ? item.thumbnailUrl! : item.url }))
+  ];
+
+  let hashed = 0;
+  let failures = 0;
+  for (const source of sources) {
+    try {
+      const file = await localMediaCopy(source.kind, source.url);
+      if (!file) {
+        continue;
+      }
+      let perceptualHash: string;
+      try {
+        perceptualHash = await computePerceptualHash(file.path);
+      } finally {
+        await file.release();
+      }
+      await updateMediaItem(source.kind, source.id, { perceptualHash });
+      hashed++;
+    } catch (error) {
+      failures++;
+      console.error('Failed to compute perceptual hash:', { kind: source.kind, id: source.id, error });
+    }
+  }
+
+  if (hashed > 0 || failures > 0) {
+    console.log(`Hashed ${hashed} existing media item(s)${failures > 0 ? `, ${failures} failed` : ''}`);
+  }
+}
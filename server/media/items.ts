@@ -0,0 +1,212 @@
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { getPostgres, usePostgres } from "../pg";
+import { content, gallery, type Content, type Gallery } from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import type { MediaKind } from "./private-store";
+
+// Gallery items and creator content as the media pipeline sees them: raw rows, whatever their
+// moderation or processing state. Listings for users go through IStorage instead.
+
+export type MediaItem =
+  | { kind: 'gallery'; item: Gallery }
+  | { kind: 'content'; item: Content };
+
+// Columns filled in or changed after upload, which both kinds have
+export type MediaItemChanges = Partial<Pick<Gallery, 'teaserUrl' | 'blurHash' | 'perceptualHash' | 'hiddenAt'>>;
+
+export type ContentChanges = Partial<Omit<Content, 'id'>>;
+
+// The gallery and content tables in whichever database DATABASE_URL selects
+interface MediaItemStore {
+  getGalleryItem(id: number): Promise<Gallery | undefined>;
+  getContent(id: number): Promise<Content | undefined>;
+  listGalleryItems(): Promise<Gallery[]>;
+  listContent(): Promise<Content[]>;
+  updateGalleryItem(id: number, changes: MediaItemChanges): Promise<Gallery | undefined>;
+  updateContent(id: number, changes: ContentChanges): Promise<Content | undefined>;
+  deleteGalleryItem(id: number): Promise<void>;
+  deleteContent(id: number): Promise<void>;
+  claimPendingVideo(): Promise<Content | undefined>;
+  requeueProcessingVideos(): Promise<void>;
+}
+
+class SqliteMediaItemStore implements MediaItemStore {
+  async getGalleryItem(id: number) {
+    return db.select().from(gallery).where(eq(gallery.id, id)).get();
+  }
+
+  async getContent(id: number) {
+    return db.select().from(content).where(eq(content.id, id)).get();
+  }
+
+  async listGalleryItems() {
+    return db.select().from(gallery).all();
+  }
+
+  async listContent() {
+    return db.select().from(content).all();
+  }
+
+  async updateGalleryItem(id: number, changes: MediaItemChanges) {
+    return db.update(gallery).set(changes).where(eq(gallery.id, id)).returning().get();
+  }
+
+  async updateContent(id: number, changes: ContentChanges) {
+    return db.update(content).set(changes).where(eq(content.id, id)).returning().get();
+  }
+
+  async deleteGalleryItem(id: number) {
+    db.delete(gallery).where(eq(gallery.id, id)).run();
+  }
+
+  async deleteContent(id: number) {
+    db.delete(content).where(eq(content.id, id)).run();
+  }
+
+  async claimPendingVideo() {
+    return db.transaction(tx => {
+      const next = tx
+        .select({ id: content.id })
+        .from(content)
+        .where(eq(content.processingStatus, 'pending'))
+        .orderBy(asc(content.id))
+        .limit(1)
+        .get();
+      if (!next) {
+        return undefined;
+      }
+      return tx
+        .update(content)
+        .set({ processingStatus: 'processing', updatedAt: new Date().toISOString() })
+        .where(and(eq(content.id, next.id), eq(content.processingStatus, 'pending')))
+        .returning()
+        .get();
+    });
+  }
+
+  async requeueProcessingVideos() {
+    db.update(content)
+      .set({ processingStatus: 'pending', updatedAt: new Date().toISOString() })
+      .where(eq(content.processingStatus, 'processing'))
+      .run();
+  }
+}
+
+class PostgresMediaItemStore implements MediaItemStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async getGalleryItem(id: number) {
+    const [item] = await this.db.select().from(pg.gallery).where(eq(pg.gallery.id, id));
+    return item;
+  }
+
+  async getContent(id: number) {
+    const [item] = await this.db.select().from(pg.content).where(eq(pg.content.id, id));
+    return item;
+  }
+
+  async listGalleryItems() {
+    return this.db.select().from(pg.gallery);
+  }
+
+  async listContent() {
+    return this.db.select().from(pg.content);
+  }
+
+  async updateGalleryItem(id: number, changes: MediaItemChanges) {
+    const [updated] = await this.db.update(pg.gallery).set(changes).where(eq(pg.gallery.id, id)).returning();
+    return updated;
+  }
+
+  async updateContent(id: number, changes: ContentChanges) {
+    const [updated] = await this.db.update(pg.content).set(changes).where(eq(pg.content.id, id)).returning();
+    return updated;
+  }
+
+  async deleteGalleryItem(id: number) {
+    await this.db.delete(pg.gallery).where(eq(pg.gallery.id, id));
+  }
+
+  async deleteContent(id: number) {
+    await this.db.delete(pg.content).where(eq(pg.content.id, id));
+  }
+
+  // Several servers can run video workers against one database, so the row is claimed under SKIP LOCKED
+  async claimPendingVideo() {
+    return this.db.transaction(async tx => {
+      const [next] = await tx
+        .select({ id: pg.content.id })
+        .from(pg.content)
+        .where(eq(pg.content.processingStatus, 'pending'))
+        .orderBy(asc(pg.content.id))
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!next) {
+        return undefined;
+      }
+      const [claimed] = await tx
+        .update(pg.content)
+        .set({ processingStatus: 'processing', updatedAt: new Date().toISOString() })
+        .where(eq(pg.content.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async requeueProcessingVideos() {
+    await this.db.update(pg.content)
+      .set({ processingStatus: 'pending', updatedAt: new Date().toISOString() })
+      .where(eq(pg.content.processingStatus, 'processing'));
+  }
+}
+
+const store: MediaItemStore = usePostgres ? new PostgresMediaItemStore() : new SqliteMediaItemStore();
+
+export async function findMediaItem(kind: MediaKind, id: number): Promise<MediaItem | undefined> {
+  if (kind === 'gallery') {
+    const item = await store.getGalleryItem(id);
+    return item && { kind, item };
+  }
+  const item = await store.getContent(id);
+  return item && { kind, item };
+}
+
+export function listGalleryMedia(): Promise<Gallery[]> {
+  return store.listGalleryItems();
+}
+
+export function listContentMedia(): Promise<Content[]> {
+  return store.listContent();
+}
+
+// Returns the updated item, or undefined if it has been deleted
+export async function updateMediaItem(kind: MediaKind, id: number, changes: MediaItemChanges): Promise<MediaItem | undefined> {
+  if (kind === 'gallery') {
+    const item = await store.updateGalleryItem(id, changes);
+    return item && { kind, item };
+  }
+  const item = await store.updateContent(id, changes);
+  return item && { kind, item };
+}
+
+// Content changes also bump updatedAt
+export function updateContentMedia(id: number, changes: ContentChanges): Promise<Content | undefined> {
+  return store.updateContent(id, { ...changes, updatedAt: new Date().toISOString() });
+}
+
+export function deleteMediaItem(kind: MediaKind, id: number): Promise<void> {
+  return kind === 'gallery' ? store.deleteGalleryItem(id) : store.deleteContent(id);
+}
+
+// Takes the oldest pending video, marking it as processing so no other cycle picks it up
+export function claimPendingVideo(): Promise<Content | undefined> {
+  return store.claimPendingVideo();
+}
+
+// Anything still marked processing was interrupted by a restart
+export function requeueProcessingVideos(): Promise<void> {
+  return store.requeueProcessingVideos();
+}
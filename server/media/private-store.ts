@@ -0,0 +1,208 @@
+import type { Dirent } from "fs";
+import * as fsPromises from "fs/promises";
+import path from "path";
+import { mediaKinds, type ContentModerationStatus } from "@shared/schema";
+import { storage } from "../storage";
+import { mediaStore, type LocalCopy } from "./store";
+import { listContentMedia, listGalleryMedia } from "./items";
+
+export { PRIVATE_MEDIA_DIR } from "./store";
+
+export type MediaKind = typeof mediaKinds[number];
+
+// The URL each kind is served under while public, which is also its key prefix in the store
+const PUBLIC_URL_PREFIXES: Record<MediaKind, string> = {
+  gallery: '/uploads/',
+  content: '/uploads/content/'
+};
+
+// A file's path relative to its kind's prefix. Most files sit at the top level, but
+// processed videos keep their renditions in a directory of their own.
+function mediaRelativePath(kind: MediaKind, url: string) {
+  const prefix = PUBLIC_URL_PREFIXES[kind];
+  if (url.startsWith(prefix)) {
+    const relative = path.posix.normalize(url.slice(prefix.length));
+    if (relative !== '.' && !relative.startsWith('..') && !path.posix.isAbsolute(relative)) {
+      return relative;
+    }
+  }
+  return path.basename(url);
+}
+
+// Premium files are kept under private/, which nothing serves statically
+export function privateMediaKey(kind: MediaKind, url: string) {
+  return path.posix.join('private', kind, mediaRelativePath(kind, url));
+}
+
+// Public files are kept under their URL path, so /uploads can be served straight from the store
+export function publicMediaKey(kind: MediaKind, url: string) {
+  return PUBLIC_URL_PREFIXES[kind].slice(1) + mediaRelativePath(kind, url);
+}
+
+// Model application photos, stored under the filename the application records
+export function applicationPhotoKey(filename: string) {
+  return path.posix.join('private', 'applications', path.basename(filename));
+}
+
+// Hidden items, and content still awaiting approval or rejected, are kept private like premium
+// ones, so their files aren't served statically. Gallery items have no approval state.
+export function isMediaPrivate(item: {
+  isPremium: boolean | null;
+  hiddenAt: string | null;
+  moderationStatus?: ContentModerationStatus;
+}) {
+  return Boolean(item.isPremium || item.hiddenAt || (item.moderationStatus && item.moderationStatus !== 'approved'));
+}
+
+/**
+ * Puts a newly processed file into the store under its URL, on the private side if the item
+ * is premium. The local file is moved, not copied.
+ */
+export async function storeMediaFile(kind: MediaKind, url: string, filePath: string, premium = false, contentType?: string) {
+  await mediaStore.put(premium ? privateMediaKey(kind, url) : publicMediaKey(kind, url), filePath, contentType);
+}
+
+/**
+ * Moves a file into or out of the private store to match the item's premium flag.
+ * Safe to call repeatedly: a file already in the right place is left alone.
+ */
+export async function setMediaVisibility(kind: MediaKind, url: string | null | undefined, premium: boolean) {
+  if (!url || url.startsWith('http')) {
+    return;
+  }
+
+  const privateKey = privateMediaKey(kind, url);
+  const publicKey = publicMediaKey(kind, url);
+
+  if (premium) {
+    if (await mediaStore.stat(publicKey)) {
+      if (await mediaStore.stat(privateKey)) {
+        await mediaStore.delete(publicKey);
+      } else {
+        await mediaStore.move(publicKey, privateKey);
+      }
+    }
+  } else if (await mediaStore.stat(privateKey)) {
+    await mediaStore.move(privateKey, publicKey);
+  }
+}
+
+// Deletes every copy of a file, public or private
+export async function deleteMediaFiles(kind: MediaKind, url: string | null | undefined) {
+  if (!url || url.startsWith('http')) {
+    return;
+  }
+  await Promise.all([privateMediaKey(kind, url), publicMediaKey(kind, url)].map(key => mediaStore.delete(key)));
+}
+
+/**
+ * The file as a local path for sharp and friends, wherever it currently is, public or
+ * private. Release the copy when done with it; undefined if the file is missing.
+ */
+export async function localMediaCopy(kind: MediaKind, url: string): Promise<LocalCopy | undefined> {
+  for (const key of [privateMediaKey(kind, url), publicMediaKey(kind, url)]) {
+    if (await mediaStore.stat(key)) {
+      return mediaStore.localCopy(key);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * setMediaVisibility for every file under a directory URL, such as a video's renditions.
+ * Files are moved one at a time so a directory split by an interrupted move is merged.
+ */
+export async function setMediaDirectoryVisibility(kind: MediaKind, dirUrl: string | null | undefined, premium: boolean) {
+  if (!dirUrl || dirUrl.startsWith('http')) {
+    return;
+  }
+  const sourcePrefix = `${premium ? publicMediaKey(kind, dirUrl) : privateMediaKey(kind, dirUrl)}/`;
+  for (const object of await mediaStore.list(sourcePrefix)) {
+    await setMediaVisibility(kind, path.posix.join(dirUrl, object.key.slice(sourcePrefix.length)), premium);
+  }
+}
+
+export async function deleteMediaDirectory(kind: MediaKind, dirUrl: string | null | undefined) {
+  if (!dirUrl || dirUrl.startsWith('http')) {
+    return;
+  }
+  for (const prefix of [privateMediaKey(kind, dirUrl), publicMediaKey(kind, dirUrl)]) {
+    const objects = await mediaStore.list(`${prefix}/`);
+    await Promise.all(objects.map(object => mediaStore.delete(object.key)));
+  }
+}
+
+// Files uploaded before the private store existed are still public; move them on startup
+export async function migratePremiumMediaToPrivateStore() {
+  const premiumGallery = (await listGalleryMedia()).filter(item => item.isPremium);
+  const premiumContent = (await listContentMedia()).filter(item => item.isPremium);
+
+  let failures = 0;
+  const tasks: Array<[MediaKind, string | null]> = [
+    ...premiumGallery.map(item => ['gallery', item.url] as [MediaKind, string]),
+    ...premiumContent.flatMap(item => [['content', item.url], ['content', item.thumbnailUrl]] as Array<[MediaKind, string | null]>)
+  ];
+  for (const [kind, url] of tasks) {
+    try {
+      await setMediaVisibility(kind, url, true);
+    } catch (error) {
+      failures++;
+      console.error('Failed to move premium media to the private store:', { kind, url, error });
+    }
+  }
+
+  if (failures > 0) {
+    console.warn(`${failures} premium file(s) could not be moved and may still be publicly reachable`);
+  }
+}
+
+// Where model application photos were kept before they moved into the media store
+const LEGACY_APPLICATION_PHOTO_DIR = path.join(process.cwd(), 'private', 'model-applications');
+
+/**
+ * Moves model application photos into the store: those from the directory they used to be
+ * kept in, and those from early applications that were saved to the public uploads.
+ */
+export async function migrateApplicationPhotosToStore() {
+  let moved = await moveLegacyApplicationPhotos();
+  const photos = (await storage.getAllModels()).flatMap(model => [model.bodyPhotoUrl, model.licensePhotoUrl]);
+  for (const photo of photos) {
+    const key = applicationPhotoKey(photo);
+    const publicKey = path.posix.join('uploads', path.basename(photo));
+    try {
+      if (!(await mediaStore.stat(key)) && await mediaStore.stat(publicKey)) {
+        await mediaStore.move(publicKey, key);
+        moved++;
+      }
+    } catch (error) {
+      console.error('Failed to move public application photo to the media store:', { photo, error });
+    }
+  }
+
+  if (moved > 0) {
+    console.log(`Moved ${moved} model application photo(s) to the media store`);
+  }
+}
+
+async function moveLegacyApplicationPhotos() {
+  let entries: Dirent[];
+  try {
+    entries = await fsPromises.readdir(LEGACY_APPLICATION_PHOTO_DIR, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+
+  let moved = 0;
+  for (const entry of entries.filter(entry => entry.isFile())) {
+    try {
+      await mediaStore.put(applicationPhotoKey(entry.name), path.join(LEGACY_APPLICATION_PHOTO_DIR, entry.name));
+      moved++;
+    } catch (error) {
+      console.error('Failed to move application photo to the media store:', { file: entry.name, error });
+    }
+  }
+  return moved;
+}
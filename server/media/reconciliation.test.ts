@@ -0,0 +1,192 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Gallery } from '@shared/schema';
+
+// The reconciler walks uploads/, which the real local store keeps in the project directory
+vi.mock('./store', async importOriginal => {
+  const original = await importOriginal<typeof import('./store')>();
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  return {
+    ...original,
+    mediaStore: new original.LocalMediaStore({
+      rootDir: fs.mkdtempSync(path.join(os.tmpdir(), 'reconciliation-test-')),
+      privateDir: original.PRIVATE_MEDIA_DIR,
+      signingSecret: original.MEDIA_URL_SECRET
+    })
+  };
+});
+
+const { storage } = await import('../storage');
+const { mediaStore } = await import('./store');
+const { privateMediaKey, publicMediaKey } = await import('./private-store');
+const { CHUNK_KEY_PREFIX } = await import('./upload-sessions');
+const { recordMediaVariants } = await import('./variants');
+const { updateContentMedia } = await import('./items');
+const {
+  deleteQuarantinedMedia,
+  getLatestMediaReconciliation,
+  listQuarantinedMedia,
+  restoreQuarantinedMedia,
+  runMediaReconciliation
+} = await import('./reconciliation');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function galleryItem(name: string, isPremium: boolean) {
+  return storage.createGalleryItem({ url: `/uploads/${name}.jpg`, title: name, isPremium, createdAt: new Date().toISOString() });
+}
+
+async function put(key: string) {
+  await mediaStore.put(key, Buffer.from(key));
+  return key;
+}
+
+async function exists(key: string) {
+  return (await mediaStore.stat(key)) !== null;
+}
+
+// Keys the fixtures below expect each run to sort, by what they should come out as
+const keys = {
+  referenced: [] as string[],
+  orphan: [] as string[],
+  duplicate: [] as string[],
+  ignored: [] as string[]
+};
+let premiumItem: Gallery;
+let misplacedItem: Gallery;
+let missingItem: Gallery;
+
+beforeAll(async () => {
+  const creator = await storage.createUser({ email: 'creator@example.com', password: 'hash', role: 'creator' });
+
+  const free = await galleryItem('free', false);
+  keys.referenced.push(await put(publicMediaKey('gallery', free.url)));
+
+  // Made premium, with the public copy left behind
+  premiumItem = await galleryItem('premium', true);
+  keys.referenced.push(await put(privateMediaKey('gallery', premiumItem.url)));
+  keys.duplicate.push(await put(publicMediaKey('gallery', premiumItem.url)));
+
+  // Made premium, but its only copy is still public
+  misplacedItem = await galleryItem('misplaced', true);
+  keys.referenced.push(await put(publicMediaKey('gallery', misplacedItem.url)));
+
+  missingItem = await galleryItem('missing', false);
+
+  // A premium video's renditions are private; one segment also has a stale public copy, and
+  // another exists only on the public side, so it's the only copy and is kept. The rendition
+  // directory is named after the row, so the URLs are filled in once it exists.
+  const video = await storage.createContent({
+    creatorId: creator.id,
+    title: 'Video',
+    contentType: 'video',
+    url: '/uploads/content/upload.mp4',
+    isPremium: true,
+    moderationStatus: 'approved',
+    processingStatus: 'ready'
+  });
+  const videoDir = `/uploads/content/video-${video.id}`;
+  await updateContentMedia(video.id, { url: `${videoDir}/720p.mp4`, hlsUrl: `${videoDir}/master.m3u8` });
+  for (const file of ['720p.mp4', 'master.m3u8', '720p_000.ts']) {
+    keys.referenced.push(await put(privateMediaKey('content', `${videoDir}/${file}`)));
+  }
+  keys.duplicate.push(await put(publicMediaKey('content', `${videoDir}/720p_000.ts`)));
+  keys.referenced.push(await put(publicMediaKey('content', `${videoDir}/720p_001.ts`)));
+
+  // Renditions of an item that no longer exists
+  await recordMediaVariants('gallery', 9999, '/uploads/deleted.jpg', [
+    { variant: 'card', format: 'webp', path: '/tmp/deleted-card.webp', width: 640, height: 480, bytes: 10 }
+  ]);
+  keys.orphan.push(await put(publicMediaKey('gallery', '/uploads/deleted-card.webp')));
+  keys.orphan.push(await put('uploads/stray.jpg'));
+  keys.orphan.push(await put('private/content/stray.mp4'));
+
+  keys.ignored.push(await put(`${CHUNK_KEY_PREFIX}some-upload/000000000000000`));
+  keys.ignored.push(await put('uploads/.gitkeep'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('runMediaReconciliation', () => {
+  it('reports orphans, duplicates and dangling references without touching anything on a dry run', async () => {
+    const run = await runMediaReconciliation({ dryRun: true });
+    const { report } = run!;
+
+    const reasons = Object.fromEntries(report.orphans.items.map(item => [item.key, item.reason]));
+    expect(reasons).toEqual({
+      ...Object.fromEntries(keys.orphan.map(key => [key, 'orphan'])),
+      ...Object.fromEntries(keys.duplicate.map(key => [key, 'duplicate']))
+    });
+    expect(report.orphans.items.every(item => !item.quarantined)).toBe(true);
+    expect(report.dangling.items).toEqual(expect.arrayContaining([
+      expect.objectContaining({ table: 'gallery', id: misplacedItem.id, field: 'url', problem: 'misplaced' }),
+      expect.objectContaining({ table: 'gallery', id: missingItem.id, field: 'url', problem: 'missing', key: publicMediaKey('gallery', missingItem.url) })
+    ]));
+    expect(report.dangling.count).toBe(2);
+    expect(report.quarantined.count).toBe(0);
+    for (const key of [...keys.referenced, ...keys.orphan, ...keys.duplicate, ...keys.ignored]) {
+      expect(await exists(key), key).toBe(true);
+    }
+    expect((await getLatestMediaReconciliation())?.id).toBe(run!.id);
+  });
+
+  it('leaves orphans alone for a day after they were written', async () => {
+    const { report } = (await runMediaReconciliation())!;
+
+    expect(report.orphans.count).toBe(keys.orphan.length + keys.duplicate.length);
+    expect(report.quarantined.count).toBe(0);
+    for (const key of [...keys.orphan, ...keys.duplicate]) {
+      expect(await exists(key), key).toBe(true);
+    }
+  });
+
+  it('quarantines old orphans and duplicates, and nothing that is referenced or managed elsewhere', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + DAY_MS + 60 * 1000);
+
+    const { report } = (await runMediaReconciliation())!;
+
+    expect(report.quarantined.count).toBe(keys.orphan.length + keys.duplicate.length);
+    expect(report.orphans.items.every(item => item.quarantined)).toBe(true);
+    for (const key of [...keys.orphan, ...keys.duplicate]) {
+      expect(await exists(key), key).toBe(false);
+    }
+    for (const key of [...keys.referenced, ...keys.ignored]) {
+      expect(await exists(key), key).toBe(true);
+    }
+    const quarantine = await listQuarantinedMedia({ page: 1, pageSize: 50 });
+    expect(quarantine.items.map(entry => entry.key).sort()).toEqual([...keys.orphan, ...keys.duplicate].sort());
+    expect(quarantine.total).toBe(keys.orphan.length + keys.duplicate.length);
+  });
+
+  it('restores or deletes a quarantined file on request', async () => {
+    const { items } = await listQuarantinedMedia({ page: 1, pageSize: 50 });
+    const stray = items.find(entry => entry.key === 'uploads/stray.jpg')!;
+    const other = items.find(entry => entry.key === 'private/content/stray.mp4')!;
+
+    expect(await restoreQuarantinedMedia(stray.id)).toMatchObject({ key: stray.key });
+    expect(await deleteQuarantinedMedia(other.id)).toMatchObject({ key: other.key });
+
+    expect(await exists(stray.key)).toBe(true);
+    expect(await exists(other.quarantineKey)).toBe(false);
+    expect((await listQuarantinedMedia({ page: 1, pageSize: 50 })).items.map(entry => entry.id)).not.toContain(stray.id);
+    expect(await restoreQuarantinedMedia(stray.id)).toBeUndefined();
+  });
+
+  it('deletes quarantined files for good once their retention window has passed', async () => {
+    const { items } = await listQuarantinedMedia({ page: 1, pageSize: 50 });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(items[items.length - 1].deleteAfter).getTime() + 60 * 1000);
+
+    const { report } = (await runMediaReconciliation())!;
+
+    expect(report.purged.count).toBe(items.length);
+    expect((await listQuarantinedMedia({ page: 1, pageSize: 50 })).total).toBe(report.quarantined.count);
+    for (const entry of items) {
+      expect(await exists(entry.quarantineKey), entry.quarantineKey).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,621 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { asc, desc, eq, lt, sql } from "drizzle-orm";
+import { db } from "../db";
+import { getPostgres, usePostgres } from "../pg";
+import {
+  content,
+  creatorProfiles,
+  gallery,
+  mediaQuarantine,
+  mediaReconciliationRuns,
+  mediaVariants,
+  models,
+  users,
+  type Content,
+  type CreatorProfile,
+  type Gallery,
+  type MediaQuarantineReason,
+  type MediaVariant,
+  type Model,
+  type QuarantinedMedia,
+  type User
+} from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import { applicationPhotoKey, isMediaPrivate, privateMediaKey, publicMediaKey, type MediaKind } from "./private-store";
+import { LocalMediaStore, mediaStore, type MediaStore, type StoredObject } from "./store";
+import { CHUNK_KEY_PREFIX } from "./upload-sessions";
+import { videoOutputDirUrl, videoStagingKey } from "./video-jobs";
+
+const RUN_INTERVAL_MS = Number(process.env.MEDIA_RECONCILE_INTERVAL_HOURS || 24) * 60 * 60 * 1000;
+// Runs are due by the time since the last one, so restarts don't keep putting them off
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+// How long a quarantined file can be restored before it's deleted for good
+const QUARANTINE_RETENTION_MS = Number(process.env.MEDIA_QUARANTINE_DAYS || 14) * 24 * 60 * 60 * 1000;
+// Upload routes store files before writing the row that refers to them, and a video's
+// renditions are stored before its row is updated, so newer orphans are only reported
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+// Quarantined files are private whatever they were before, so nothing can still be serving them
+const QUARANTINE_PREFIX = 'private/quarantine/';
+// Reports list this many orphans and dangling references at most; the totals cover the rest
+const REPORT_ITEM_LIMIT = 500;
+const RUNS_KEPT = 30;
+
+export interface OrphanedMedia {
+  key: string;
+  size: number;
+  lastModified: string;
+  reason: MediaQuarantineReason;
+  // False for a dry run, or for files still inside the grace period
+  quarantined: boolean;
+}
+
+export interface DanglingReference {
+  table: string;
+  id: number;
+  field: string;
+  url: string;
+  key: string;
+  // misplaced: the file is on the wrong side of the store, e.g. a premium item's file is public
+  problem: 'missing' | 'misplaced';
+}
+
+export interface MediaReconciliationReport {
+  store: MediaStore['name'];
+  dryRun: boolean;
+  objects: { count: number; bytes: number };
+  orphans: { count: number; bytes: number; items: OrphanedMedia[] };
+  dangling: { count: number; items: DanglingReference[] };
+  quarantined: { count: number; bytes: number };
+  purged: { count: number; bytes: number };
+  // Local store only: copies in client/public/uploads identical to the one in uploads/
+  legacyCopiesRemoved: { count: number; bytes: number };
+  failures: number;
+}
+
+export type MediaReconciliationRun = typeof mediaReconciliationRuns.$inferSelect & { report: MediaReconciliationReport };
+
+// A database field naming a file: where the file should be, and where a stale copy of it may still sit
+interface MediaReference {
+  table: string;
+  id: number;
+  field: string;
+  url: string;
+  key: string;
+  otherKey?: string;
+}
+
+// Every file under a directory belongs to one row, e.g. a video's HLS segments
+interface DirectoryReference {
+  prefix: string;
+  otherPrefix?: string;
+}
+
+type NewQuarantineEntry = Omit<QuarantinedMedia, 'id'>;
+type NewReconciliationRun = Omit<typeof mediaReconciliationRuns.$inferInsert, 'id'>;
+
+// The rows whose columns name files in the store
+interface ReferenceRows {
+  gallery: Pick<Gallery, 'id' | 'url' | 'teaserUrl' | 'isPremium' | 'hiddenAt'>[];
+  content: Content[];
+  variants: MediaVariant[];
+  models: Pick<Model, 'id' | 'bodyPhotoUrl' | 'licensePhotoUrl'>[];
+  users: Pick<User, 'id' | 'avatarUrl'>[];
+  creatorProfiles: Pick<CreatorProfile, 'id' | 'featuredImageUrl'>[];
+}
+
+// The quarantine and run history tables, and every table that refers to media, in whichever
+// database DATABASE_URL selects
+interface ReconciliationStore {
+  loadReferenceRows(): Promise<ReferenceRows>;
+  addQuarantineEntry(entry: NewQuarantineEntry): Promise<QuarantinedMedia>;
+  getQuarantineEntry(id: number): Promise<QuarantinedMedia | undefined>;
+  deleteQuarantineEntry(id: number): Promise<void>;
+  listExpiredQuarantine(now: string): Promise<QuarantinedMedia[]>;
+  listQuarantine(page: number, pageSize: number): Promise<QuarantinedMedia[]>;
+  quarantineTotals(): Promise<{ total: number; bytes: number }>;
+  // Also drops all but the latest RUNS_KEPT runs
+  recordRun(run: NewReconciliationRun): Promise<MediaReconciliationRun>;
+  latestRun(): Promise<MediaReconciliationRun | undefined>;
+  lastAppliedRunFinishedAt(): Promise<string | undefined>;
+}
+
+class SqliteReconciliationStore implements ReconciliationStore {
+  async loadReferenceRows() {
+    return {
+      gallery: db
+        .select({ id: gallery.id, url: gallery.url, teaserUrl: gallery.teaserUrl, isPremium: gallery.isPremium, hiddenAt: gallery.hiddenAt })
+        .from(gallery)
+        .all(),
+      content: db.select().from(content).all(),
+      variants: db.select().from(mediaVariants).all(),
+      models: db.select({ id: models.id, bodyPhotoUrl: models.bodyPhotoUrl, licensePhotoUrl: models.licensePhotoUrl }).from(models).all(),
+      users: db.select({ id: users.id, avatarUrl: users.avatarUrl }).from(users).all(),
+      creatorProfiles: db.select({ id: creatorProfiles.id, featuredImageUrl: creatorProfiles.featuredImageUrl }).from(creatorProfiles).all()
+    };
+  }
+
+  async addQuarantineEntry(entry: NewQuarantineEntry) {
+    return db.insert(mediaQuarantine).values(entry).returning().get();
+  }
+
+  async getQuarantineEntry(id: number) {
+    return db.select().from(mediaQuarantine).where(eq(mediaQuarantine.id, id)).get();
+  }
+
+  async deleteQuarantineEntry(id: number) {
+    db.delete(mediaQuarantine).where(eq(mediaQuarantine.id, id)).run();
+  }
+
+  async listExpiredQuarantine(now: string) {
+    return db.select().from(mediaQuarantine).where(lt(mediaQuarantine.deleteAfter, now)).all();
+  }
+
+  async listQuarantine(page: number, pageSize: number) {
+    return db
+      .select()
+      .from(mediaQuarantine)
+      .orderBy(asc(mediaQuarantine.deleteAfter), asc(mediaQuarantine.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+      .all();
+  }
+
+  async quarantineTotals() {
+    const totals = db
+      .select({ total: sql<number>`count(*)`, bytes: sql<number>`coalesce(sum(${mediaQuarantine.size}), 0)` })
+      .from(mediaQuarantine)
+      .get();
+    return { total: Number(totals?.total ?? 0), bytes: Number(totals?.bytes ?? 0) };
+  }
+
+  async recordRun(values: NewReconciliationRun) {
+    const run = db.insert(mediaReconciliationRuns).values(values).returning().get();
+    db.delete(mediaReconciliationRuns)
+      .where(sql`${mediaReconciliationRuns.id} NOT IN (SELECT id FROM media_reconciliation_runs ORDER BY id DESC LIMIT ${RUNS_KEPT})`)
+      .run();
+    return run as MediaReconciliationRun;
+  }
+
+  async latestRun() {
+    const run = db.select().from(mediaReconciliationRuns).orderBy(desc(mediaReconciliationRuns.id)).limit(1).get();
+    return run as MediaReconciliationRun | undefined;
+  }
+
+  async lastAppliedRunFinishedAt() {
+    return db
+      .select({ finishedAt: mediaReconciliationRuns.finishedAt })
+      .from(mediaReconciliationRuns)
+      .where(eq(mediaReconciliationRuns.dryRun, false))
+      .orderBy(desc(mediaReconciliationRuns.id))
+      .limit(1)
+      .get()?.finishedAt;
+  }
+}
+
+class PostgresReconciliationStore implements ReconciliationStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async loadReferenceRows() {
+    return {
+      gallery: await this.db
+        .select({ id: pg.gallery.id, url: pg.gallery.url, teaserUrl: pg.gallery.teaserUrl, isPremium: pg.gallery.isPremium, hiddenAt: pg.gallery.hiddenAt })
+        .from(pg.gallery),
+      content: await this.db.select().from(pg.content),
+      variants: await this.db.select().from(pg.mediaVariants),
+      models: await this.db.select({ id: pg.models.id, bodyPhotoUrl: pg.models.bodyPhotoUrl, licensePhotoUrl: pg.models.licensePhotoUrl }).from(pg.models),
+      users: await this.db.select({ id: pg.users.id, avatarUrl: pg.users.avatarUrl }).from(pg.users),
+      creatorProfiles: await this.db.select({ id: pg.creatorProfiles.id, featuredImageUrl: pg.creatorProfiles.featuredImageUrl }).from(pg.creatorProfiles)
+    };
+  }
+
+  async addQuarantineEntry(entry: NewQuarantineEntry) {
+    const [created] = await this.db.insert(pg.mediaQuarantine).values(entry).returning();
+    return created;
+  }
+
+  async getQuarantineEntry(id: number) {
+    const [entry] = await this.db.select().from(pg.mediaQuarantine).where(eq(pg.mediaQuarantine.id, id));
+    return entry;
+  }
+
+  async deleteQuarantineEntry(id: number) {
+    await this.db.delete(pg.mediaQuarantine).where(eq(pg.mediaQuarantine.id, id));
+  }
+
+  async listExpiredQuarantine(now: string) {
+    return this.db.select().from(pg.mediaQuarantine).where(lt(pg.mediaQuarantine.deleteAfter, now));
+  }
+
+  async listQuarantine(page: number, pageSize: number) {
+    return this.db
+      .select()
+      .from(pg.mediaQuarantine)
+      .orderBy(asc(pg.mediaQuarantine.deleteAfter), asc(pg.mediaQuarantine.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+  }
+
+  async quarantineTotals() {
+    const [totals] = await this.db
+      .select({ total: sql<number>`count(*)`, bytes: sql<number>`coalesce(sum(${pg.mediaQuarantine.size}), 0)` })
+      .from(pg.mediaQuarantine);
+    return { total: Number(totals?.total ?? 0), bytes: Number(totals?.bytes ?? 0) };
+  }
+
+  async recordRun(values: NewReconciliationRun) {
+    const [run] = await this.db.insert(pg.mediaReconciliationRuns).values(values).returning();
+    await this.db.delete(pg.mediaReconciliationRuns)
+      .where(sql`${pg.mediaReconciliationRuns.id} NOT IN (SELECT id FROM media_reconciliation_runs ORDER BY id DESC LIMIT ${RUNS_KEPT})`);
+    return run as MediaReconciliationRun;
+  }
+
+  async latestRun() {
+    const [run] = await this.db.select().from(pg.mediaReconciliationRuns).orderBy(desc(pg.mediaReconciliationRuns.id)).limit(1);
+    return run as MediaReconciliationRun | undefined;
+  }
+
+  async lastAppliedRunFinishedAt() {
+    const [last] = await this.db
+      .select({ finishedAt: pg.mediaReconciliationRuns.finishedAt })
+      .from(pg.mediaReconciliationRuns)
+      .where(eq(pg.mediaReconciliationRuns.dryRun, false))
+      .orderBy(desc(pg.mediaReconciliationRuns.id))
+      .limit(1);
+    return last?.finishedAt;
+  }
+}
+
+const store: ReconciliationStore = usePostgres ? new PostgresReconciliationStore() : new SqliteReconciliationStore();
+
+class ReferenceSet {
+  readonly files: MediaReference[] = [];
+  readonly directories = new Map<string, DirectoryReference>();
+
+  addMedia(kind: MediaKind, url: string | null | undefined, premium: boolean, table: string, id: number, field: string) {
+    if (!url || url.startsWith('http')) {
+      return;
+    }
+    const [key, otherKey] = premium
+      ? [privateMediaKey(kind, url), publicMediaKey(kind, url)]
+      : [publicMediaKey(kind, url), privateMediaKey(kind, url)];
+    this.files.push({ table, id, field, url, key, otherKey });
+  }
+
+  // Avatars and creator featured images: always public, and sometimes hosted elsewhere
+  addPublicUpload(url: string | null | undefined, table: string, id: number, field: string) {
+    if (url?.startsWith('/uploads/')) {
+      this.files.push({ table, id, field, url, key: publicMediaKey('gallery', url) });
+    }
+  }
+
+  addFile(key: string, table: string, id: number, field: string, url: string) {
+    this.files.push({ table, id, field, url, key });
+  }
+
+  addDirectory(kind: MediaKind, dirUrl: string, premium: boolean | null) {
+    const privatePrefix = `${privateMediaKey(kind, dirUrl)}/`;
+    const publicPrefix = `${publicMediaKey(kind, dirUrl)}/`;
+    if (premium === null) {
+      // Still being written, so either side is fine
+      this.directories.set(privatePrefix, { prefix: privatePrefix });
+      this.directories.set(publicPrefix, { prefix: publicPrefix });
+    } else {
+      const [prefix, otherPrefix] = premium ? [privatePrefix, publicPrefix] : [publicPrefix, privatePrefix];
+      this.directories.set(prefix, { prefix });
+      this.directories.set(otherPrefix, { prefix, otherPrefix });
+    }
+  }
+
+  // The directory reference covering a key, if any of its parent directories has one
+  directoryFor(key: string) {
+    const parts = key.split('/');
+    for (let depth = parts.length - 1; depth > 0; depth--) {
+      const reference = this.directories.get(`${parts.slice(0, depth).join('/')}/`);
+      if (reference) {
+        return reference;
+      }
+    }
+    return undefined;
+  }
+}
+
+// Everything in the database that names a file in the media store
+async function collectReferences() {
+  const references = new ReferenceSet();
+  const rows = await store.loadReferenceRows();
+
+  const galleryPremium = new Map<number, boolean>();
+  for (const item of rows.gallery) {
+    galleryPremium.set(item.id, isMediaPrivate(item));
+    references.addMedia('gallery', item.url, isMediaPrivate(item), 'gallery', item.id, 'url');
+    // Teasers are what locked viewers see, so they're always public
+    references.addMedia('gallery', item.teaserUrl, false, 'gallery', item.id, 'teaserUrl');
+  }
+
+  const contentPremium = new Map<number, boolean>();
+  for (const item of rows.content) {
+    const premium = isMediaPrivate(item);
+    contentPremium.set(item.id, premium);
+    references.addMedia('content', item.teaserUrl, false, 'content', item.id, 'teaserUrl');
+    if (item.contentType === 'image') {
+      references.addMedia('content', item.url, premium, 'content', item.id, 'url');
+      references.addMedia('content', item.thumbnailUrl, premium, 'content', item.id, 'thumbnailUrl');
+    } else if (item.processingStatus === 'ready') {
+      references.addDirectory('content', videoOutputDirUrl(item.id), premium);
+      for (const field of ['url', 'thumbnailUrl', 'previewUrl', 'hlsUrl'] as const) {
+        references.addMedia('content', item[field], premium, 'content', item.id, field);
+      }
+    } else if (item.processingStatus !== 'failed') {
+      // Until it's transcoded, the url names the staged original
+      references.addFile(videoStagingKey(item.url), 'content', item.id, 'url', item.url);
+      references.addDirectory('content', videoOutputDirUrl(item.id), null);
+    }
+  }
+
+  // Renditions follow their item; those whose item is gone are orphans like any other file
+  for (const variant of rows.variants) {
+    const premium = variant.mediaKind === 'gallery'
+      ? galleryPremium.get(variant.mediaId)
+      : contentPremium.get(variant.mediaId);
+    if (premium !== undefined) {
+      references.addMedia(variant.mediaKind, variant.url, premium, 'media_variants', variant.id, 'url');
+    }
+  }
+
+  for (const model of rows.models) {
+    references.addFile(applicationPhotoKey(model.bodyPhotoUrl), 'models', model.id, 'bodyPhotoUrl', model.bodyPhotoUrl);
+    references.addFile(applicationPhotoKey(model.licensePhotoUrl), 'models', model.id, 'licensePhotoUrl', model.licensePhotoUrl);
+  }
+  for (const user of rows.users) {
+    references.addPublicUpload(user.avatarUrl, 'users', user.id, 'avatarUrl');
+  }
+  for (const profile of rows.creatorProfiles) {
+    references.addPublicUpload(profile.featuredImageUrl, 'creator_profiles', profile.id, 'featuredImageUrl');
+  }
+
+  return references;
+}
+
+// Partial uploads belong to the upload session sweeper, and dotfiles such as .gitkeep aren't media
+function isManagedElsewhere(key: string) {
+  return key.startsWith(CHUNK_KEY_PREFIX) || key.startsWith(QUARANTINE_PREFIX) || path.posix.basename(key).startsWith('.');
+}
+
+/**
+ * Sorts every stored file into referenced and orphaned, and every reference into present or
+ * dangling. A file is a duplicate rather than in use when it's the public copy of a premium
+ * item's file (or the other way round) and the copy on the right side exists too.
+ */
+function classify(objects: StoredObject[], references: ReferenceSet) {
+  const present = new Set(objects.map(object => object.key));
+  const referenced = new Set<string>();
+  const staleKeys = new Set(references.files.map(reference => reference.otherKey));
+  const dangling: DanglingReference[] = [];
+
+  for (const reference of references.files) {
+    if (present.has(reference.key)) {
+      referenced.add(reference.key);
+    } else if (reference.otherKey && present.has(reference.otherKey)) {
+      // The only copy, so it stays until someone moves it
+      referenced.add(reference.otherKey);
+      dangling.push({ ...withoutOtherKey(reference), problem: 'misplaced' });
+    } else {
+      dangling.push({ ...withoutOtherKey(reference), problem: 'missing' });
+    }
+  }
+
+  const orphans: Array<StoredObject & { reason: MediaQuarantineReason }> = [];
+  for (const object of objects) {
+    if (referenced.has(object.key) || isManagedElsewhere(object.key)) {
+      continue;
+    }
+    const directory = references.directoryFor(object.key);
+    if (directory && !directory.otherPrefix) {
+      continue;
+    }
+    if (directory?.otherPrefix) {
+      const counterpart = directory.prefix + object.key.slice(directory.otherPrefix.length);
+      if (!present.has(counterpart)) {
+        continue;
+      }
+    }
+    orphans.push({ ...object, reason: directory || staleKeys.has(object.key) ? 'duplicate' : 'orphan' });
+  }
+
+  return { orphans, dangling };
+}
+
+function withoutOtherKey({ otherKey: _otherKey, ...reference }: MediaReference) {
+  return reference;
+}
+
+async function quarantineObject(object: StoredObject, reason: MediaQuarantineReason, now: Date) {
+  const quarantineKey = `${QUARANTINE_PREFIX}${randomUUID()}/${object.key}`;
+  // Recorded first, so a file is never sitting in quarantine without a row to restore it from
+  const entry = await store.addQuarantineEntry({
+    key: object.key,
+    quarantineKey,
+    size: object.size,
+    reason,
+    quarantinedAt: now.toISOString(),
+    deleteAfter: new Date(now.getTime() + QUARANTINE_RETENTION_MS).toISOString()
+  });
+  try {
+    await mediaStore.move(object.key, quarantineKey);
+  } catch (error) {
+    await store.deleteQuarantineEntry(entry.id);
+    throw error;
+  }
+}
+
+// Deletes quarantined files whose retention window has passed
+async function purgeExpiredQuarantine(now: Date) {
+  const expired = await store.listExpiredQuarantine(now.toISOString());
+  const purged = { count: 0, bytes: 0 };
+  let failures = 0;
+  for (const entry of expired) {
+    try {
+      await mediaStore.delete(entry.quarantineKey);
+      await store.deleteQuarantineEntry(entry.id);
+      purged.count++;
+      purged.bytes += entry.size;
+    } catch (error) {
+      failures++;
+      console.error('Failed to delete quarantined media:', { key: entry.quarantineKey, error });
+    }
+  }
+  return { purged, failures };
+}
+
+let running = false;
+
+export function isMediaReconciliationRunning() {
+  return running;
+}
+
+/**
+ * Cross-references every file in the media store with the database. Orphans past the grace
+ * period are moved into quarantine and quarantined files past retention are deleted, unless
+ * dryRun is set, in which case nothing is changed and the report says what would have been.
+ * Returns null if a run is already in progress in this process.
+ */
+export async function runMediaReconciliation({ dryRun = false } = {}): Promise<MediaReconciliationRun | null> {
+  if (running) {
+    return null;
+  }
+  running = true;
+  try {
+    const startedAt = new Date();
+    // Listed before the references are read, so a file stored in between is at worst missed
+    const objects = [...await mediaStore.list('uploads/'), ...await mediaStore.list('private/')];
+    const { orphans, dangling } = classify(objects, await collectReferences());
+
+    let failures = 0;
+    const quarantined = { count: 0, bytes: 0 };
+    const orphanItems: OrphanedMedia[] = [];
+    for (const orphan of orphans) {
+      let isQuarantined = false;
+      if (!dryRun && startedAt.getTime() - orphan.lastModified.getTime() >= ORPHAN_GRACE_MS) {
+        try {
+          await quarantineObject(orphan, orphan.reason, startedAt);
+          isQuarantined = true;
+          quarantined.count++;
+          quarantined.bytes += orphan.size;
+        } catch (error) {
+          failures++;
+          console.error('Failed to quarantine orphaned media:', { key: orphan.key, error });
+        }
+      }
+      if (orphanItems.length < REPORT_ITEM_LIMIT) {
+        orphanItems.push({
+          key: orphan.key,
+          size: orphan.size,
+          lastModified: orphan.lastModified.toISOString(),
+          reason: orphan.reason,
+          quarantined: isQuarantined
+        });
+      }
+    }
+
+    const purge = dryRun ? { purged: { count: 0, bytes: 0 }, failures: 0 } : await purgeExpiredQuarantine(startedAt);
+    failures += purge.failures;
+    const legacyCopiesRemoved = !dryRun && mediaStore instanceof LocalMediaStore
+      ? await mediaStore.removeLegacyCopies()
+      : { count: 0, bytes: 0 };
+
+    const report: MediaReconciliationReport = {
+      store: mediaStore.name,
+      dryRun,
+      objects: {
+        count: objects.length,
+        bytes: objects.reduce((total, object) => total + object.size, 0)
+      },
+      orphans: {
+        count: orphans.length,
+        bytes: orphans.reduce((total, orphan) => total + orphan.size, 0),
+        items: orphanItems
+      },
+      dangling: { count: dangling.length, items: dangling.slice(0, REPORT_ITEM_LIMIT) },
+      quarantined,
+      purged: purge.purged,
+      legacyCopiesRemoved,
+      failures
+    };
+
+    const run = await store.recordRun({
+      report,
+      dryRun,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString()
+    });
+
+    console.log('Media reconciliation finished:', {
+      dryRun,
+      objects: report.objects.count,
+      orphans: report.orphans.count,
+      dangling: report.dangling.count,
+      quarantined: quarantined.count,
+      purged: purge.purged.count,
+      failures
+    });
+    return run;
+  } finally {
+    running = false;
+  }
+}
+
+export async function getLatestMediaReconciliation(): Promise<MediaReconciliationRun | null> {
+  return (await store.latestRun()) ?? null;
+}
+
+// Soonest to be deleted first
+export async function listQuarantinedMedia({ page, pageSize }: { page: number; pageSize: number }) {
+  const items = await store.listQuarantine(page, pageSize);
+  return { items, ...await store.quarantineTotals() };
+}
+
+// Puts a quarantined file back where it was. Undefined if there's no such entry.
+export async function restoreQuarantinedMedia(id: number): Promise<QuarantinedMedia | undefined> {
+  const entry = await store.getQuarantineEntry(id);
+  if (!entry) {
+    return undefined;
+  }
+  await mediaStore.move(entry.quarantineKey, entry.key);
+  await store.deleteQuarantineEntry(id);
+  return entry;
+}
+
+// Deletes a quarantined file without waiting for its retention window
+export async function deleteQuarantinedMedia(id: number): Promise<QuarantinedMedia | undefined> {
+  const entry = await store.getQuarantineEntry(id);
+  if (!entry) {
+    return undefined;
+  }
+  await mediaStore.delete(entry.quarantineKey);
+  await store.deleteQuarantineEntry(id);
+  return entry;
+}
+
+// Whether the last run that changed anything finished more than RUN_INTERVAL_MS ago
+async function isReconciliationDue() {
+  const finishedAt = await store.lastAppliedRunFinishedAt();
+  return !finishedAt || Date.now() - new Date(finishedAt).getTime() >= RUN_INTERVAL_MS;
+}
+
+export function startMediaReconciliation() {
+  const run = async () => {
+    try {
+      if (await isReconciliationDue()) {
+        await runMediaReconciliation();
+      }
+    } catch (error) {
+      console.error('Media reconciliation failed:', error);
+    }
+  };
+  const timer = setInterval(run, CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
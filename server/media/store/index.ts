@@ -0,0 +1,157 @@
+import express, { Router, type RequestHandler, type Response } from "express";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { MediaObjectNotFoundError, type MediaStore } from "./types";
+import { LOCAL_PRESIGN_ROUTE, LocalMediaStore } from "./local";
+import { S3MediaStore } from "./s3";
+import { requireSecret } from "../../secrets";
+
+export * from "./types";
+export { LocalMediaStore, LOCAL_PRESIGN_ROUTE } from "./local";
+export { S3MediaStore } from "./s3";
+
+// Premium files live outside every statically served directory and are only
+// reachable through the signed /api/media route
+export const PRIVATE_MEDIA_DIR = process.env.PRIVATE_MEDIA_DIR || path.join(process.cwd(), 'private', 'media');
+
+// Working files (raw uploads, encoder output) before they go into the store. Always local to
+// the machine doing the work, whichever driver is in use.
+export const MEDIA_SCRATCH_DIR = process.env.MEDIA_SCRATCH_DIR || path.join(path.dirname(PRIVATE_MEDIA_DIR), 'tmp');
+
+// Signs media URLs: the local driver's presigned ones and the /api/media links in access.ts
+export const MEDIA_URL_SECRET = requireSecret('MEDIA_URL_SECRET');
+
+// Where public objects can be fetched directly, e.g. a CDN in front of the bucket
+const MEDIA_PUBLIC_BASE_URL = process.env.MEDIA_PUBLIC_BASE_URL?.replace(/\/+$/, '');
+
+// How long redirects to a presigned URL stay valid; browsers follow them straight away
+const REDIRECT_TTL_SECONDS = 300;
+
+// MEDIA_STORE picks explicitly; otherwise a configured bucket wins over the local filesystem
+export function createMediaStore(): MediaStore {
+  const selected = process.env.MEDIA_STORE || (process.env.S3_BUCKET ? 's3' : 'local');
+
+  if (selected === 's3') {
+    const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('MEDIA_STORE=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    return new S3MediaStore({
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT
+    });
+  }
+
+  return new LocalMediaStore({
+    rootDir: process.cwd(),
+    privateDir: PRIVATE_MEDIA_DIR,
+    // Gallery uploads used to be written here as well as to uploads/
+    legacyUploadDirs: [path.join(process.cwd(), 'client', 'public', 'uploads')],
+    signingSecret: MEDIA_URL_SECRET
+  });
+}
+
+export const mediaStore = createMediaStore();
+
+export async function readMediaObject(key: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await mediaStore.getStream(key)) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+// The URL a public object is fetched from: its own path, or the CDN's copy when one is configured
+export function publicMediaUrl<T extends string | null | undefined>(url: T): T {
+  if (!MEDIA_PUBLIC_BASE_URL || !url || !url.startsWith('/uploads/')) {
+    return url;
+  }
+  return `${MEDIA_PUBLIC_BASE_URL}${url}` as T;
+}
+
+/**
+ * Sends an object as the response. Files on local disk are sent directly, with range and
+ * caching support from sendFile; anything else is a redirect to a short-lived presigned URL,
+ * so the bytes never pass through the app server.
+ */
+export async function sendMediaObject(res: Response, key: string) {
+  if (mediaStore.filePath) {
+    const filePath = await mediaStore.filePath(key);
+    if (!filePath) {
+      throw new MediaObjectNotFoundError(key);
+    }
+    await new Promise<void>((resolve, reject) => {
+      res.sendFile(filePath, error => (error ? reject(error) : resolve()));
+    });
+    return;
+  }
+  if (!(await mediaStore.stat(key))) {
+    throw new MediaObjectNotFoundError(key);
+  }
+  res.redirect(await mediaStore.presign(key, REDIRECT_TTL_SECONDS));
+}
+
+/**
+ * Serves /uploads. The local driver's files are served statically, from uploads/ and the
+ * legacy client/public/uploads; with S3 each request is redirected to the object's public or
+ * presigned URL. Only public keys are reachable, since everything here sits under uploads/.
+ */
+export function serveUploads(options: Parameters<typeof express.static>[1] = {}): RequestHandler {
+  if (mediaStore.name === 'local') {
+    const router = Router();
+    router.use(express.static(path.join(process.cwd(), 'uploads'), options));
+    router.use(express.static(path.join(process.cwd(), 'client', 'public', 'uploads'), options));
+    return router;
+  }
+
+  return async (req, res, next) => {
+    const key = `uploads${decodeURIComponent(req.path)}`;
+    if (key.endsWith('/') || path.posix.normalize(key) !== key) {
+      return next();
+    }
+    try {
+      if (MEDIA_PUBLIC_BASE_URL) {
+        return res.redirect(301, `${MEDIA_PUBLIC_BASE_URL}/${key}`);
+      }
+      if (!(await mediaStore.stat(key))) {
+        return next();
+      }
+      res.redirect(await mediaStore.presign(key, REDIRECT_TTL_SECONDS));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Serves URLs presigned by the local driver, so presign() works the same whichever driver is
+ * configured. Mounted at LOCAL_PRESIGN_ROUTE; a no-op for other drivers.
+ */
+export function serveLocalPresigned(): RequestHandler {
+  return async (req, res, next) => {
+    if (!(mediaStore instanceof LocalMediaStore)) {
+      return next();
+    }
+    const key = req.path.slice(1).split('/').map(decodeURIComponent).join('/');
+    if (!mediaStore.verifyPresigned(key, req.query.expires, req.query.sig)) {
+      return res.status(403).json({ message: 'Invalid or expired media URL', code: 'MEDIA_URL_INVALID' });
+    }
+    try {
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.type(path.extname(key) || 'application/octet-stream');
+      await pipeline(await mediaStore.getStream(key), res);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !res.headersSent) {
+        return res.status(404).json({ message: 'Media not found' });
+      }
+      console.error('Error serving stored media:', { key, error });
+      if (!res.headersSent) {
+        res.status(500).json({ message: 'Error serving media' });
+      }
+    }
+  };
+}
@@ -0,0 +1,233 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Dirent } from "fs";
+import * as fs from "fs";
+import * as fsPromises from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { MediaObjectNotFoundError, type ByteRange, type LocalCopy, type MediaStore, type StoredObject } from "./types";
+
+// Where the local store's presigned URLs are served; see serveLocalPresigned in ./index.ts
+export const LOCAL_PRESIGN_ROUTE = '/media-store';
+
+export interface LocalMediaStoreOptions {
+  rootDir: string;
+  // private/ keys live here rather than under rootDir, so PRIVATE_MEDIA_DIR keeps working
+  privateDir: string;
+  // Read-only fallbacks for uploads/ keys written before the store existed
+  legacyUploadDirs?: string[];
+  signingSecret: string;
+}
+
+async function statFile(filePath: string) {
+  try {
+    const stats = await fsPromises.stat(filePath);
+    return stats.isFile() ? stats : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function listFiles(dir: string, prefix: string): Promise<Array<{ relative: string; filePath: string }>> {
+  let entries: Dirent[];
+  try {
+    entries = await fsPromises.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || (error as NodeJS.ErrnoException).code === 'ENOTDIR') {
+      return [];
+    }
+    throw error;
+  }
+  const nested = await Promise.all(entries.map(entry => {
+    const relative = path.posix.join(prefix, entry.name);
+    const filePath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(filePath, relative) : Promise.resolve([{ relative, filePath }]);
+  }));
+  return ([] as Array<{ relative: string; filePath: string }>).concat(...nested);
+}
+
+async function moveLocalFile(from: string, to: string) {
+  await fsPromises.mkdir(path.dirname(to), { recursive: true, mode: 0o755 });
+  try {
+    await fsPromises.rename(from, to);
+  } catch (error) {
+    // rename can't cross filesystems, e.g. when PRIVATE_MEDIA_DIR is a separate volume
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await fsPromises.copyFile(from, to);
+    await fsPromises.unlink(from);
+  }
+}
+
+/**
+ * Keeps objects as plain files, laid out as the app always has: uploads/... under the root
+ * directory and private/... under the private media directory. Fine for a single machine;
+ * use the S3 driver when more than one serves the app.
+ */
+export class LocalMediaStore implements MediaStore {
+  readonly name = 'local' as const;
+
+  constructor(private readonly options: LocalMediaStoreOptions) {}
+
+  // Keys are validated here, so nothing outside the store's directories can be reached
+  private resolve(key: string) {
+    const normalized = path.posix.normalize(key);
+    if (normalized.startsWith('..') || path.posix.isAbsolute(normalized) || normalized === '.') {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    // `private` on its own is the private directory itself, e.g. when listing everything in it
+    return normalized === 'private' || normalized.startsWith('private/')
+      ? path.join(this.options.privateDir, path.posix.relative('private', normalized))
+      : path.join(this.options.rootDir, normalized);
+  }
+
+  private legacyPaths(key: string) {
+    const normalized = path.posix.normalize(key);
+    if (!normalized.startsWith('uploads/')) {
+      return [];
+    }
+    return (this.options.legacyUploadDirs ?? []).map(dir => path.join(dir, normalized.slice('uploads/'.length)));
+  }
+
+  // The file holding a key: the store's own copy, or one in a legacy directory
+  private async locate(key: string) {
+    for (const candidate of [this.resolve(key), ...this.legacyPaths(key)]) {
+      const stats = await statFile(candidate);
+      if (stats) {
+        return { filePath: candidate, stats };
+      }
+    }
+    return null;
+  }
+
+  async put(key: string, source: string | Buffer) {
+    const target = this.resolve(key);
+    if (typeof source === 'string') {
+      if (path.resolve(source) !== path.resolve(target)) {
+        await moveLocalFile(source, target);
+      }
+      return;
+    }
+    await fsPromises.mkdir(path.dirname(target), { recursive: true, mode: 0o755 });
+    await fsPromises.writeFile(target, source);
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const found = await this.locate(key);
+    if (!found) {
+      throw new MediaObjectNotFoundError(key);
+    }
+    return fs.createReadStream(found.filePath, range);
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    const found = await this.locate(key);
+    return found && { key, size: found.stats.size, lastModified: found.stats.mtime };
+  }
+
+  async delete(key: string) {
+    await Promise.all([this.resolve(key), ...this.legacyPaths(key)].map(filePath => fsPromises.unlink(filePath).catch(error => {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    })));
+  }
+
+  async move(from: string, to: string) {
+    const found = await this.locate(from);
+    if (!found) {
+      throw new MediaObjectNotFoundError(from);
+    }
+    await moveLocalFile(found.filePath, this.resolve(to));
+    // Drop any other copies, e.g. a legacy duplicate of a gallery upload
+    await this.delete(from);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    // Walk the deepest directory the prefix names, then filter on the rest of it
+    const dirKey = prefix.endsWith('/') ? prefix.slice(0, -1) : path.posix.dirname(prefix);
+    const roots = dirKey === '.' || dirKey === ''
+      ? [{ dir: this.options.rootDir, key: '' }, { dir: this.options.privateDir, key: 'private' }]
+      : [{ dir: this.resolve(dirKey), key: dirKey }];
+    if (dirKey === 'uploads') {
+      roots.push(...(this.options.legacyUploadDirs ?? []).map(dir => ({ dir, key: dirKey })));
+    } else {
+      roots.push(...this.legacyPaths(dirKey).map(dir => ({ dir, key: dirKey })));
+    }
+
+    const objects = new Map<string, StoredObject>();
+    for (const root of roots) {
+      for (const file of await listFiles(root.dir, root.key)) {
+        if (!file.relative.startsWith(prefix) || objects.has(file.relative)) {
+          continue;
+        }
+        const stats = await statFile(file.filePath);
+        if (stats) {
+          objects.set(file.relative, { key: file.relative, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+    }
+    return Array.from(objects.values()).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  private sign(key: string, expires: number) {
+    return createHmac('sha256', this.options.signingSecret).update(`${key}:${expires}`).digest('base64url');
+  }
+
+  async presign(key: string, expiresInSeconds: number) {
+    const expires = Math.floor(Date.now() / 1000) + Math.floor(expiresInSeconds);
+    const params = new URLSearchParams({ expires: String(expires), sig: this.sign(key, expires) });
+    return `${LOCAL_PRESIGN_ROUTE}/${key.split('/').map(encodeURIComponent).join('/')}?${params.toString()}`;
+  }
+
+  // Checks a presigned URL's query against its key
+  verifyPresigned(key: string, expires: unknown, sig: unknown) {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000 || typeof sig !== 'string') {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(key, expiresAt));
+    const candidate = Buffer.from(sig);
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  }
+
+  async localCopy(key: string): Promise<LocalCopy> {
+    const found = await this.locate(key);
+    if (!found) {
+      throw new MediaObjectNotFoundError(key);
+    }
+    // The stored file itself; callers only read it
+    return { path: found.filePath, release: async () => {} };
+  }
+
+  /**
+   * Deletes files in the legacy upload directories that are byte-for-byte copies of the one
+   * in uploads/. Gallery uploads used to be written to both; reads only ever see the first.
+   */
+  async removeLegacyCopies() {
+    const removed = { count: 0, bytes: 0 };
+    for (const dir of this.options.legacyUploadDirs ?? []) {
+      for (const file of await listFiles(dir, 'uploads')) {
+        const primary = this.resolve(file.relative);
+        const [primaryStats, legacyStats] = await Promise.all([statFile(primary), statFile(file.filePath)]);
+        if (!primaryStats || !legacyStats || primaryStats.size !== legacyStats.size) {
+          continue;
+        }
+        const [primaryData, legacyData] = await Promise.all([fsPromises.readFile(primary), fsPromises.readFile(file.filePath)]);
+        if (primaryData.equals(legacyData)) {
+          await fsPromises.unlink(file.filePath);
+          removed.count++;
+          removed.bytes += legacyStats.size;
+        }
+      }
+    }
+    return removed;
+  }
+
+  async filePath(key: string) {
+    return (await this.locate(key))?.filePath ?? null;
+  }
+}
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Readable } from 'stream';
+import { S3MediaStore } from './s3';
+import { sha256Hex, signRequest } from './sigv4';
+import { MediaObjectNotFoundError } from './types';
+
+// Runs against a real S3-compatible server when one is configured, e.g.
+//   docker run -p 9000:9000 minio/minio server /data
+//   S3_TEST_ENDPOINT=http://localhost:9000 npm test
+const endpoint = process.env.S3_TEST_ENDPOINT;
+const options = {
+  endpoint: endpoint ?? '',
+  bucket: process.env.S3_TEST_BUCKET || 'media-store-test',
+  accessKeyId: process.env.S3_TEST_ACCESS_KEY_ID || 'minioadmin',
+  secretAccessKey: process.env.S3_TEST_SECRET_ACCESS_KEY || 'minioadmin',
+  region: process.env.S3_TEST_REGION || 'us-east-1'
+};
+
+async function readAll(stream: Readable) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe.skipIf(!endpoint)('S3MediaStore against S3_TEST_ENDPOINT', () => {
+  const store = new S3MediaStore(options);
+  // Each run works under its own prefix, so reruns and a shared bucket don't collide
+  const prefix = `test-${randomUUID()}`;
+  const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 's3-store-test-'));
+
+  beforeAll(async () => {
+    const url = new URL(`${options.endpoint.replace(/\/+$/, '')}/${options.bucket}`);
+    const headers = signRequest({ method: 'PUT', url, headers: {}, payloadHash: sha256Hex('') }, options);
+    const response = await fetch(url, { method: 'PUT', headers });
+    // 409 when the bucket is already there
+    if (!response.ok && response.status !== 409) {
+      throw new Error(`Could not create bucket ${options.bucket}: ${response.status}`);
+    }
+  });
+
+  afterAll(async () => {
+    for (const object of await store.list(prefix)) {
+      await store.delete(object.key);
+    }
+    fs.rmSync(scratchDir, { recursive: true, force: true });
+  });
+
+  it('stores, reads, lists and deletes objects', async () => {
+    const key = `${prefix}/uploads/photo one.txt`;
+    await store.put(key, Buffer.from('0123456789'), 'text/plain');
+
+    expect(await store.stat(key)).toMatchObject({ key, size: 10 });
+    expect(await readAll(await store.getStream(key))).toBe('0123456789');
+    expect(await readAll(await store.getStream(key, { start: 2, end: 4 }))).toBe('234');
+    expect((await store.list(`${prefix}/uploads/`)).map(object => object.key)).toEqual([key]);
+
+    await store.delete(key);
+    await store.delete(key);
+
+    expect(await store.stat(key)).toBeNull();
+    await expect(store.getStream(key)).rejects.toBeInstanceOf(MediaObjectNotFoundError);
+  });
+
+  it('moves a local file into the store and back out', async () => {
+    const source = path.join(scratchDir, 'upload.txt');
+    fs.writeFileSync(source, 'streamed upload');
+    const key = `${prefix}/private/content/upload.txt`;
+
+    await store.put(key, source);
+
+    expect(fs.existsSync(source)).toBe(false);
+    const copy = await store.localCopy(key);
+    expect(fs.readFileSync(copy.path, 'utf8')).toBe('streamed upload');
+    await copy.release();
+    expect(fs.existsSync(copy.path)).toBe(false);
+  });
+
+  it('renames objects', async () => {
+    const from = `${prefix}/pending/clip.txt`;
+    const to = `${prefix}/published/clip.txt`;
+    await store.put(from, Buffer.from('clip'));
+
+    await store.move(from, to);
+
+    expect(await store.stat(from)).toBeNull();
+    expect(await readAll(await store.getStream(to))).toBe('clip');
+    await expect(store.move(from, to)).rejects.toBeInstanceOf(MediaObjectNotFoundError);
+  });
+
+  it('presigns URLs a client can fetch without credentials', async () => {
+    const key = `${prefix}/uploads/presigned (1).txt`;
+    await store.put(key, Buffer.from('presigned'), 'text/plain');
+
+    const response = await fetch(await store.presign(key, 60));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('presigned');
+  });
+});
@@ -0,0 +1,196 @@
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as fsPromises from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { encodeRfc3986, presignUrl, sha256Hex, signRequest, UNSIGNED_PAYLOAD, type SigningCredentials } from "./sigv4";
+import { MediaObjectNotFoundError, type ByteRange, type LocalCopy, type MediaStore, type StoredObject } from "./types";
+
+export interface S3MediaStoreOptions extends SigningCredentials {
+  bucket: string;
+  // Set for MinIO and other S3-compatible services; implies path-style addressing
+  endpoint?: string;
+}
+
+const EMPTY_PAYLOAD_HASH = sha256Hex('');
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function xmlValue(xml: string, tag: string) {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Keeps objects in an S3 bucket, or anything speaking the S3 API such as MinIO, using plain
+ * fetch and our own SigV4 signing. Every app server sees the same objects, so uploads made
+ * on one machine can be served and processed from another.
+ */
+export class S3MediaStore implements MediaStore {
+  readonly name = 's3' as const;
+
+  constructor(private readonly options: S3MediaStoreOptions) {}
+
+  private bucketUrl() {
+    return this.options.endpoint
+      ? `${this.options.endpoint.replace(/\/+$/, '')}/${encodeRfc3986(this.options.bucket)}`
+      : `https://${this.options.bucket}.s3.${this.options.region}.amazonaws.com`;
+  }
+
+  private objectUrl(key: string) {
+    return new URL(`${this.bucketUrl()}/${key.split('/').map(encodeRfc3986).join('/')}`);
+  }
+
+  private async request(method: string, url: URL, init: {
+    headers?: Record<string, string>;
+    body?: BodyInit;
+    payloadHash?: string;
+  } = {}) {
+    const headers = signRequest({
+      method,
+      url,
+      headers: init.headers ?? {},
+      payloadHash: init.payloadHash ?? EMPTY_PAYLOAD_HASH
+    }, this.options);
+    // duplex is required by Node's fetch for streamed bodies but missing from the DOM types
+    return fetch(url, { method, headers, body: init.body, duplex: 'half' } as RequestInit);
+  }
+
+  private async fail(response: Response, action: string, key: string): Promise<never> {
+    const body = await response.text().catch(() => '');
+    const code = xmlValue(body, 'Code');
+    throw Object.assign(new Error(`S3 ${action} ${key} failed: ${response.status}${code ? ` ${code}` : ''}`), {
+      status: response.status,
+      s3Code: code
+    });
+  }
+
+  async put(key: string, source: string | Buffer, contentType?: string) {
+    const headers: Record<string, string> = contentType ? { 'content-type': contentType } : {};
+    let response: Response;
+    if (typeof source === 'string') {
+      // Streamed rather than buffered, since videos can run to gigabytes
+      const { size } = await fsPromises.stat(source);
+      response = await this.request('PUT', this.objectUrl(key), {
+        headers: { ...headers, 'content-length': String(size) },
+        body: Readable.toWeb(fs.createReadStream(source)) as unknown as BodyInit,
+        payloadHash: UNSIGNED_PAYLOAD
+      });
+    } else {
+      response = await this.request('PUT', this.objectUrl(key), {
+        headers,
+        body: source,
+        payloadHash: sha256Hex(source)
+      });
+    }
+    if (!response.ok) {
+      await this.fail(response, 'PUT', key);
+    }
+    if (typeof source === 'string') {
+      await fsPromises.unlink(source).catch(() => {});
+    }
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.request('GET', this.objectUrl(key), {
+      headers: range ? { range: `bytes=${range.start}-${range.end}` } : {}
+    });
+    if (response.status === 404) {
+      throw new MediaObjectNotFoundError(key);
+    }
+    if (!response.ok || !response.body) {
+      await this.fail(response, 'GET', key);
+    }
+    return Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]);
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    const response = await this.request('HEAD', this.objectUrl(key));
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      await this.fail(response, 'HEAD', key);
+    }
+    return {
+      key,
+      size: Number(response.headers.get('content-length') ?? 0),
+      lastModified: new Date(response.headers.get('last-modified') ?? Date.now())
+    };
+  }
+
+  async delete(key: string) {
+    const response = await this.request('DELETE', this.objectUrl(key));
+    // S3 answers 204 whether or not the key existed
+    if (!response.ok && response.status !== 404) {
+      await this.fail(response, 'DELETE', key);
+    }
+  }
+
+  async move(from: string, to: string) {
+    const source = `/${this.options.bucket}/${from.split('/').map(encodeRfc3986).join('/')}`;
+    const response = await this.request('PUT', this.objectUrl(to), {
+      headers: { 'x-amz-copy-source': source }
+    });
+    if (response.status === 404) {
+      throw new MediaObjectNotFoundError(from);
+    }
+    // A copy can fail after the 200 has been sent, in which case the body is an <Error>
+    const body = await response.text();
+    if (!response.ok || body.includes('<Error>')) {
+      throw new Error(`S3 copy ${from} to ${to} failed: ${response.status} ${xmlValue(body, 'Code') ?? ''}`.trim());
+    }
+    await this.delete(from);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      // Encoded as SigV4 expects, which URLSearchParams doesn't do for spaces
+      const query = [
+        ...(continuationToken ? [`continuation-token=${encodeRfc3986(continuationToken)}`] : []),
+        'list-type=2',
+        `prefix=${encodeRfc3986(prefix)}`
+      ].join('&');
+      const response = await this.request('GET', new URL(`${this.bucketUrl()}/?${query}`));
+      if (!response.ok) {
+        await this.fail(response, 'LIST', prefix);
+      }
+      const body = await response.text();
+      for (const match of body.match(/<Contents>[\s\S]*?<\/Contents>/g) ?? []) {
+        objects.push({
+          key: xmlValue(match, 'Key') ?? '',
+          size: Number(xmlValue(match, 'Size') ?? 0),
+          lastModified: new Date(xmlValue(match, 'LastModified') ?? 0)
+        });
+      }
+      continuationToken = xmlValue(body, 'IsTruncated') === 'true' ? xmlValue(body, 'NextContinuationToken') : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  async presign(key: string, expiresInSeconds: number) {
+    return presignUrl(this.objectUrl(key), this.options, expiresInSeconds);
+  }
+
+  async localCopy(key: string): Promise<LocalCopy> {
+    const copyPath = path.join(os.tmpdir(), `media-${randomUUID()}${path.extname(key)}`);
+    try {
+      await pipeline(await this.getStream(key), fs.createWriteStream(copyPath));
+    } catch (error) {
+      await fsPromises.unlink(copyPath).catch(() => {});
+      throw error;
+    }
+    return { path: copyPath, release: () => fsPromises.unlink(copyPath).catch(() => {}) };
+  }
+}
@@ -0,0 +1,116 @@
+import { createHash, createHmac } from "crypto";
+
+// AWS Signature Version 4, as far as S3 needs it: signed request headers and presigned URLs.
+// Small enough to implement here rather than pull in the AWS SDK.
+
+export interface SigningCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  // Header names in any case; host is taken from the URL
+  headers: Record<string, string>;
+  // Hex SHA-256 of the body, or UNSIGNED-PAYLOAD
+  payloadHash: string;
+}
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+export function sha256Hex(data: string | Buffer) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// encodeURIComponent leaves !'()* alone; SigV4 wants them escaped
+export function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// 20130524T000000Z and 20130524
+function timestamps(now: Date) {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  return { amzDate, date: amzDate.slice(0, 8) };
+}
+
+function canonicalQuery(url: URL) {
+  return Array.from(url.searchParams.keys())
+    .filter((key, index, keys) => keys.indexOf(key) === index)
+    .sort()
+    .flatMap(key => url.searchParams.getAll(key).sort().map(value => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`))
+    .join('&');
+}
+
+function signature(credentials: SigningCredentials, date: string, amzDate: string, canonicalRequest: string) {
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region), 's3'), 'aws4_request');
+  return { scope, value: createHmac('sha256', signingKey).update(stringToSign).digest('hex') };
+}
+
+// The URL's path must already be encoded the way S3 expects (see S3MediaStore.objectUrl)
+function canonicalRequest(method: string, url: URL, headers: Record<string, string>, payloadHash: string) {
+  const names = Object.keys(headers).sort();
+  return {
+    signedHeaders: names.join(';'),
+    request: [
+      method,
+      url.pathname,
+      canonicalQuery(url),
+      names.map(name => `${name}:${headers[name].trim().replace(/\s+/g, ' ')}\n`).join(''),
+      names.join(';'),
+      payloadHash
+    ].join('\n')
+  };
+}
+
+/**
+ * Returns the request's headers with x-amz-date, x-amz-content-sha256 and Authorization added.
+ * Host and every x-amz-* header are signed, along with range and content-type when present.
+ */
+export function signRequest(request: SignableRequest, credentials: SigningCredentials, now = new Date()): Record<string, string> {
+  const { amzDate, date } = timestamps(now);
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash
+  };
+
+  const signed: Record<string, string> = { host: request.url.host };
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase();
+    if (lower.startsWith('x-amz-') || lower === 'range' || lower === 'content-type') {
+      signed[lower] = value;
+    }
+  }
+
+  const canonical = canonicalRequest(request.method, request.url, signed, request.payloadHash);
+  const { scope, value } = signature(credentials, date, amzDate, canonical.request);
+  return {
+    ...headers,
+    Authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${canonical.signedHeaders}, Signature=${value}`
+  };
+}
+
+// A GET URL carrying its signature in the query string, valid for expiresInSeconds (at most 7 days)
+export function presignUrl(url: URL, credentials: SigningCredentials, expiresInSeconds: number, now = new Date()): string {
+  const { amzDate, date } = timestamps(now);
+  const presigned = new URL(url.toString());
+  presigned.searchParams.set('X-Amz-Algorithm', ALGORITHM);
+  presigned.searchParams.set('X-Amz-Credential', `${credentials.accessKeyId}/${date}/${credentials.region}/s3/aws4_request`);
+  presigned.searchParams.set('X-Amz-Date', amzDate);
+  presigned.searchParams.set('X-Amz-Expires', String(Math.min(Math.max(1, Math.floor(expiresInSeconds)), 604800)));
+  presigned.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+  const canonical = canonicalRequest('GET', presigned, { host: presigned.host }, UNSIGNED_PAYLOAD);
+  const { value } = signature(credentials, date, amzDate, canonical.request);
+  // URLSearchParams encodes differently from SigV4, so the query is rebuilt in canonical form
+  return `${presigned.origin}${presigned.pathname}?${canonicalQuery(presigned)}&X-Amz-Signature=${value}`;
+}
@@ -0,0 +1,54 @@
+import type { Readable } from "stream";
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+// Inclusive, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface LocalCopy {
+  path: string;
+  // Removes the copy, if one had to be made
+  release(): Promise<void>;
+}
+
+/**
+ * Where media files live. Keys are slash-separated paths: public files sit under their URL
+ * path (uploads/..., uploads/content/...) and premium files under private/<kind>/..., so
+ * the stored URLs double as keys. See ../private-store.ts for the mapping.
+ */
+export interface MediaStore {
+  readonly name: 'local' | 's3';
+  // A string source is a local file, which is moved into the store
+  put(key: string, source: string | Buffer, contentType?: string): Promise<void>;
+  // Throws MediaObjectNotFoundError for a missing key
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+  stat(key: string): Promise<StoredObject | null>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+  move(from: string, to: string): Promise<void>;
+  // Every object whose key starts with the prefix
+  list(prefix: string): Promise<StoredObject[]>;
+  // A URL a browser can fetch the object from until it expires
+  presign(key: string, expiresInSeconds: number): Promise<string>;
+  // The object as a local file, for tools such as sharp and ffmpeg that need a path
+  localCopy(key: string): Promise<LocalCopy>;
+  // Set by drivers whose objects are plain files, so they can be sent without a redirect
+  filePath?(key: string): Promise<string | null>;
+}
+
+// Carries ENOENT so callers can treat it like a missing file
+export class MediaObjectNotFoundError extends Error {
+  readonly code = 'ENOENT';
+
+  constructor(key: string) {
+    super(`Media object not found: ${key}`);
+    this.name = 'MediaObjectNotFoundError';
+  }
+}
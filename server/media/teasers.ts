@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto";
+import * as fsPromises from "fs/promises";
+import path from "path";
+import type { Content, Gallery } from "@shared/schema";
+import { createTeaser } from "../utils/imageProcessor";
+import { localMediaCopy, storeMediaFile, type MediaKind } from "./private-store";
+import { listContentMedia, listGalleryMedia, updateMediaItem } from "./items";
+import { MEDIA_SCRATCH_DIR } from "./store";
+
+export interface MediaTeaser {
+  teaserUrl: string;
+  blurHash: string;
+}
+
+// Sits next to the item's file (or, for videos, its rendition directory): photo.jpg -> photo-teaser.jpg
+export function teaserUrlFor(mediaUrl: string) {
+  const { dir, name } = path.posix.parse(mediaUrl);
+  return path.posix.join(dir, `${name}-teaser.jpg`);
+}
+
+/**
+ * Writes the blurred teaser for an item from sourcePath (the image, or a video's poster frame).
+ * Teasers are what locked viewers see, so they are always stored public and aren't moved when
+ * the item's premium flag changes.
+ */
+export async function createMediaTeaser(kind: MediaKind, sourcePath: string, mediaUrl: string): Promise<MediaTeaser> {
+  const teaserUrl = teaserUrlFor(mediaUrl);
+  const outputPath = path.join(MEDIA_SCRATCH_DIR, `${randomUUID()}-teaser.jpg`);
+  await fsPromises.mkdir(MEDIA_SCRATCH_DIR, { recursive: true, mode: 0o700 });
+  try {
+    const teaser = await createTeaser(sourcePath, outputPath);
+    await storeMediaFile(kind, teaserUrl, outputPath, false, 'image/jpeg');
+    return { teaserUrl, blurHash: teaser.blurHash };
+  } finally {
+    await fsPromises.unlink(outputPath).catch(() => {});
+  }
+}
+
+type TeaserSource =
+  | { kind: 'gallery'; item: Pick<Gallery, 'id' | 'url' | 'teaserUrl'> }
+  | { kind: 'content'; item: Pick<Content, 'id' | 'url' | 'teaserUrl' | 'contentType' | 'thumbnailUrl'> };
+
+/**
+ * Creates and records a teaser for an item that doesn't have one yet, e.g. one uploaded before
+ * teasers existed and only now made premium. Returns the new teaser, or null if the item already
+ * had one or its file is missing (or, for a video, it hasn't been transcoded yet).
+ */
+export async function ensureMediaTeaser({ kind, item }: TeaserSource): Promise<MediaTeaser | null> {
+  if (item.teaserUrl) {
+    return null;
+  }
+
+  // Videos are blurred from their poster frame, and their teaser sits next to the rendition directory
+  const isVideo = kind === 'content' && item.contentType === 'video';
+  const sourceUrl = isVideo ? item.thumbnailUrl : item.url;
+  const source = sourceUrl && await localMediaCopy(kind, sourceUrl);
+  if (!source) {
+    return null;
+  }
+
+  let teaser: MediaTeaser;
+  try {
+    teaser = await createMediaTeaser(kind, source.path, isVideo ? path.posix.dirname(sourceUrl!) : item.url);
+  } finally {
+    await source.release();
+  }
+  await updateMediaItem(kind, item.id, teaser);
+  return teaser;
+}
+
+// Premium items uploaded before teasers existed get one on startup; without it they'd show as a blank lock
+export async function backfillMediaTeasers() {
+  const sources: TeaserSource[] = [
+    ...(await listGalleryMedia())
+      .filter(item => item.isPremium && !item.teaserUrl)
+      .map(item => ({ kind: 'gallery' as const, item })),
+    ...(await listContentMedia())
+      .filter(item => item.isPremium && item.processingStatus === 'ready' && !item.teaserUrl)
+      .map(item => ({ kind: 'content' as const, item }))
+  ];
+
+  let created = 0;
+  let failures = 0;
+  for (const source of sources) {
+    try {
+      if (await ensureMediaTeaser(source)) {
+        created++;
+      }
+    } catch (error) {
+      failures++;
+      console.error('Failed to create teaser:', { kind: source.kind, id: source.item.id, error });
+    }
+  }
+
+  if (created > 0 || failures > 0) {
+    console.log(`Created ${created} teaser(s) for existing premium media${failures > 0 ? `, ${failures} failed` : ''}`);
+  }
+}
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { User } from '@shared/schema';
+import { storage } from '../storage';
+import { MEDIA_SCRATCH_DIR, mediaStore } from './store';
+import {
+  CHUNK_KEY_PREFIX,
+  appendChunk,
+  claimUploadSession,
+  createUploadSession,
+  getUploadSession,
+  sweepExpiredUploadSessions
+} from './upload-sessions';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let userCount = 0;
+
+function createCreator(): Promise<User> {
+  userCount++;
+  return storage.createUser({ email: `creator${userCount}@example.com`, password: 'hash', role: 'creator' });
+}
+
+function checksum(chunk: Buffer) {
+  return `sha256 ${createHash('sha256').update(chunk).digest('base64')}`;
+}
+
+async function startUpload(contents: Buffer) {
+  const creator = await createCreator();
+  const session = await createUploadSession(creator.id, { filename: 'photo.jpg', mimeType: 'image/jpeg', size: contents.length });
+  return { creator, session };
+}
+
+async function chunkKeys(id: string) {
+  return (await mediaStore.list(`${CHUNK_KEY_PREFIX}${id}/`)).map(chunk => chunk.key);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createUploadSession', () => {
+  it('refuses types the upload routes do not take, and files over the size limit', async () => {
+    const creator = await createCreator();
+
+    await expect(createUploadSession(creator.id, { filename: 'a.gif', mimeType: 'image/gif', size: 10 }))
+      .rejects.toMatchObject({ status: 415, code: 'INVALID_FILE_TYPE' });
+    await expect(createUploadSession(creator.id, { filename: 'a.jpg', mimeType: 'image/jpeg', size: 51 * 1024 * 1024 }))
+      .rejects.toMatchObject({ status: 413, code: 'FILE_TOO_LARGE' });
+  });
+});
+
+describe('appendChunk', () => {
+  const contents = Buffer.from('0123456789abcdefghij');
+  const first = contents.subarray(0, 10);
+  const second = contents.subarray(10);
+
+  it('takes chunks in order and hands back the joined file', async () => {
+    const { creator, session } = await startUpload(contents);
+
+    expect((await appendChunk(session.id, creator.id, 0, first, checksum(first))).receivedBytes).toBe(10);
+    expect((await appendChunk(session.id, creator.id, 10, second, checksum(second))).receivedBytes).toBe(20);
+    const file = await claimUploadSession(session.id, creator.id, MEDIA_SCRATCH_DIR, 'image');
+
+    expect(file).toMatchObject({ fieldname: 'image', originalname: 'photo.jpg', mimetype: 'image/jpeg', size: 20 });
+    expect(path.extname(file.path)).toBe('.jpg');
+    expect(fs.readFileSync(file.path).equals(contents)).toBe(true);
+    await expect(getUploadSession(session.id, creator.id)).rejects.toMatchObject({ status: 404 });
+    expect(await chunkKeys(session.id)).toEqual([]);
+  });
+
+  it('refuses a chunk at the wrong offset and reports where to resume', async () => {
+    const { creator, session } = await startUpload(contents);
+    await appendChunk(session.id, creator.id, 0, first, checksum(first));
+
+    for (const offset of [0, 15]) {
+      await expect(appendChunk(session.id, creator.id, offset, second, checksum(second)))
+        .rejects.toMatchObject({ status: 409, code: 'OFFSET_MISMATCH', offset: 10 });
+    }
+    expect((await getUploadSession(session.id, creator.id)).receivedBytes).toBe(10);
+  });
+
+  it('refuses chunks that are missing a checksum, fail it or run past the end', async () => {
+    const { creator, session } = await startUpload(contents);
+    const corrupted = Buffer.from(first);
+    corrupted[0] ^= 0xff;
+
+    await expect(appendChunk(session.id, creator.id, 0, first, undefined)).rejects.toMatchObject({ status: 400, code: 'CHECKSUM_REQUIRED' });
+    await expect(appendChunk(session.id, creator.id, 0, first, `md5 ${checksum(first).split(' ')[1]}`)).rejects.toMatchObject({ code: 'CHECKSUM_REQUIRED' });
+    await expect(appendChunk(session.id, creator.id, 0, corrupted, checksum(first))).rejects.toMatchObject({ status: 400, code: 'CHECKSUM_MISMATCH', offset: 0 });
+    const tooLong = Buffer.concat([contents, Buffer.from('!')]);
+    await expect(appendChunk(session.id, creator.id, 0, tooLong, checksum(tooLong))).rejects.toMatchObject({ status: 400, code: 'INVALID_CHUNK' });
+
+    expect((await getUploadSession(session.id, creator.id)).receivedBytes).toBe(0);
+    expect(await chunkKeys(session.id)).toEqual([]);
+  });
+
+  it('writes one of two chunks sent for the same offset at once', async () => {
+    const { creator, session } = await startUpload(contents);
+
+    const results = await Promise.allSettled([
+      appendChunk(session.id, creator.id, 0, first, checksum(first)),
+      appendChunk(session.id, creator.id, 0, first, checksum(first))
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { status: 409, code: 'UPLOAD_BUSY' } });
+    expect((await getUploadSession(session.id, creator.id)).receivedBytes).toBe(10);
+  });
+
+  it('keeps sessions to the user who started them', async () => {
+    const { session } = await startUpload(contents);
+    const other = await createCreator();
+
+    await expect(appendChunk(session.id, other.id, 0, first, checksum(first))).rejects.toMatchObject({ status: 404, code: 'UPLOAD_NOT_FOUND' });
+    await expect(claimUploadSession(session.id, other.id, MEDIA_SCRATCH_DIR, 'image')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('will not hand over an upload that is still missing chunks', async () => {
+    const { creator, session } = await startUpload(contents);
+    await appendChunk(session.id, creator.id, 0, first, checksum(first));
+
+    await expect(claimUploadSession(session.id, creator.id, MEDIA_SCRATCH_DIR, 'image'))
+      .rejects.toMatchObject({ status: 409, code: 'UPLOAD_INCOMPLETE', offset: 10 });
+  });
+});
+
+describe('upload session expiry', () => {
+  const chunk = Buffer.from('0123456789');
+
+  it('expires a day after the last chunk, which pushes the expiry back', async () => {
+    const { creator, session } = await startUpload(Buffer.alloc(20));
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 20 * HOUR_MS);
+    await appendChunk(session.id, creator.id, 0, chunk, checksum(chunk));
+
+    vi.setSystemTime(Date.now() + 20 * HOUR_MS);
+    expect((await getUploadSession(session.id, creator.id)).receivedBytes).toBe(10);
+
+    vi.setSystemTime(Date.now() + 5 * HOUR_MS);
+    await expect(getUploadSession(session.id, creator.id)).rejects.toMatchObject({ status: 410, code: 'UPLOAD_EXPIRED' });
+    await expect(appendChunk(session.id, creator.id, 10, chunk, checksum(chunk))).rejects.toMatchObject({ status: 410 });
+  });
+
+  it('sweeps expired sessions with their chunks, and chunks left without a session', async () => {
+    const { creator, session } = await startUpload(Buffer.alloc(20));
+    await appendChunk(session.id, creator.id, 0, chunk, checksum(chunk));
+    const active = await startUpload(Buffer.alloc(20));
+    await appendChunk(active.session.id, active.creator.id, 0, chunk, checksum(chunk));
+    const orphanKey = `${CHUNK_KEY_PREFIX}no-such-session/${'0'.repeat(15)}`;
+    await mediaStore.put(orphanKey, chunk);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 20 * HOUR_MS);
+    await appendChunk(active.session.id, active.creator.id, 10, chunk, checksum(chunk));
+    vi.setSystemTime(Date.now() + 5 * HOUR_MS);
+    await sweepExpiredUploadSessions();
+
+    await expect(getUploadSession(session.id, creator.id)).rejects.toMatchObject({ status: 404 });
+    expect(await chunkKeys(session.id)).toEqual([]);
+    expect(await mediaStore.stat(orphanKey)).toBeNull();
+    expect((await getUploadSession(active.session.id, active.creator.id)).receivedBytes).toBe(20);
+    expect(await chunkKeys(active.session.id)).toHaveLength(2);
+  });
+});
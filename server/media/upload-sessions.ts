@@ -0,0 +1,385 @@
+import { createHash, randomUUID } from "crypto";
+import * as fs from "fs";
+import * as fsPromises from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { NextFunction, Request, Response } from "express";
+import { and, eq, lt } from "drizzle-orm";
+import { db } from "../db";
+import { getPostgres, usePostgres } from "../pg";
+import { uploadSessions, type UploadSession } from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import { mediaStore } from "./store";
+
+// Each chunk is its own object on the private side of the media store until the upload is
+// claimed by a form submission, so consecutive chunks can be handled by different servers
+export const CHUNK_KEY_PREFIX = 'private/partial/';
+// Abandoned uploads are swept this long after their last chunk
+const SESSION_TTL_MS = Number(process.env.UPLOAD_SESSION_TTL_HOURS || 24) * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// The client sends chunks of UPLOAD_CHUNK_BYTES; the route accepts up to MAX_CHUNK_BYTES per request
+export const UPLOAD_CHUNK_BYTES = 5 * 1024 * 1024;
+export const MAX_CHUNK_BYTES = 16 * 1024 * 1024;
+
+const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+const MAX_VIDEO_BYTES = Number(process.env.MAX_VIDEO_UPLOAD_MB || 2048) * 1024 * 1024;
+
+// Same types the single-request upload routes accept. The stored file's extension comes from
+// here rather than from the client's filename.
+const UPLOAD_TYPES: Record<string, { extension: string; maxBytes: number }> = {
+  'image/jpeg': { extension: '.jpg', maxBytes: MAX_IMAGE_BYTES },
+  'image/png': { extension: '.png', maxBytes: MAX_IMAGE_BYTES },
+  'image/webp': { extension: '.webp', maxBytes: MAX_IMAGE_BYTES },
+  'video/mp4': { extension: '.mp4', maxBytes: MAX_VIDEO_BYTES }
+};
+
+export class UploadSessionError extends Error {
+  constructor(message: string, public status: number, public code: string, public offset?: number) {
+    super(message);
+    this.name = 'UploadSessionError';
+  }
+}
+
+export interface NewUploadSession {
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+// Chunks for one session are written strictly one at a time. This only covers this process;
+// across servers, the offset check in the session update does the same job.
+const busySessions = new Set<string>();
+
+// Offsets are zero-padded so listing a session's chunks returns them in order
+function chunkKey(id: string, offset: number) {
+  return `${CHUNK_KEY_PREFIX}${id}/${String(offset).padStart(15, '0')}`;
+}
+
+function chunkOffset(key: string) {
+  return Number(path.posix.basename(key));
+}
+
+function formatMegabytes(bytes: number) {
+  return `${Math.round(bytes / (1024 * 1024))}MB`;
+}
+
+function nextExpiry(now: Date) {
+  return new Date(now.getTime() + SESSION_TTL_MS).toISOString();
+}
+
+type UploadProgress = Pick<UploadSession, 'receivedBytes' | 'expiresAt' | 'updatedAt'>;
+
+// The upload_sessions table in whichever database DATABASE_URL selects
+interface UploadSessionStore {
+  create(session: UploadSession): Promise<UploadSession>;
+  get(id: string, userId?: number): Promise<UploadSession | undefined>;
+  // Only applies if nothing else has moved the session past `offset`
+  advance(id: string, offset: number, progress: UploadProgress): Promise<UploadSession | undefined>;
+  delete(id: string): Promise<void>;
+  listExpired(now: string): Promise<string[]>;
+}
+
+type UploadSessionsTable = typeof uploadSessions | typeof pg.uploadSessions;
+
+function sessionConditions(table: UploadSessionsTable, id: string, userId?: number) {
+  return userId === undefined ? eq(table.id, id) : and(eq(table.id, id), eq(table.userId, userId));
+}
+
+class SqliteUploadSessionStore implements UploadSessionStore {
+  async create(session: UploadSession) {
+    return db.insert(uploadSessions).values(session).returning().get();
+  }
+
+  async get(id: string, userId?: number) {
+    return db.select().from(uploadSessions).where(sessionConditions(uploadSessions, id, userId)).get();
+  }
+
+  async advance(id: string, offset: number, progress: UploadProgress) {
+    return db.update(uploadSessions)
+      .set(progress)
+      .where(and(eq(uploadSessions.id, id), eq(uploadSessions.receivedBytes, offset)))
+      .returning()
+      .get();
+  }
+
+  async delete(id: string) {
+    db.delete(uploadSessions).where(eq(uploadSessions.id, id)).run();
+  }
+
+  async listExpired(now: string) {
+    return db.select({ id: uploadSessions.id }).from(uploadSessions).where(lt(uploadSessions.expiresAt, now)).all().map(row => row.id);
+  }
+}
+
+class PostgresUploadSessionStore implements UploadSessionStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async create(session: UploadSession) {
+    const [created] = await this.db.insert(pg.uploadSessions).values(session).returning();
+    return created;
+  }
+
+  async get(id: string, userId?: number) {
+    const [session] = await this.db.select().from(pg.uploadSessions).where(sessionConditions(pg.uploadSessions, id, userId));
+    return session;
+  }
+
+  async advance(id: string, offset: number, progress: UploadProgress) {
+    const [updated] = await this.db.update(pg.uploadSessions)
+      .set(progress)
+      .where(and(eq(pg.uploadSessions.id, id), eq(pg.uploadSessions.receivedBytes, offset)))
+      .returning();
+    return updated;
+  }
+
+  async delete(id: string) {
+    await this.db.delete(pg.uploadSessions).where(eq(pg.uploadSessions.id, id));
+  }
+
+  async listExpired(now: string) {
+    const rows = await this.db.select({ id: pg.uploadSessions.id }).from(pg.uploadSessions).where(lt(pg.uploadSessions.expiresAt, now));
+    return rows.map(row => row.id);
+  }
+}
+
+const store: UploadSessionStore = usePostgres ? new PostgresUploadSessionStore() : new SqliteUploadSessionStore();
+
+export async function createUploadSession(userId: number, upload: NewUploadSession): Promise<UploadSession> {
+  const type = UPLOAD_TYPES[upload.mimeType];
+  if (!type) {
+    throw new UploadSessionError(
+      `Invalid file type. Allowed types: ${Object.keys(UPLOAD_TYPES).join(', ')}`,
+      415,
+      'INVALID_FILE_TYPE'
+    );
+  }
+  if (upload.size > type.maxBytes) {
+    throw new UploadSessionError(
+      `File size too large. Maximum size is ${formatMegabytes(type.maxBytes)}`,
+      413,
+      'FILE_TOO_LARGE'
+    );
+  }
+
+  const now = new Date();
+  return store.create({
+    id: randomUUID(),
+    userId,
+    filename: upload.filename,
+    mimeType: upload.mimeType,
+    size: upload.size,
+    receivedBytes: 0,
+    expiresAt: nextExpiry(now),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  });
+}
+
+// Other users' sessions look the same as missing ones
+export async function getUploadSession(id: string, userId: number): Promise<UploadSession> {
+  const session = await store.get(id, userId);
+  if (!session) {
+    throw new UploadSessionError('Upload not found', 404, 'UPLOAD_NOT_FOUND');
+  }
+  if (session.expiresAt < new Date().toISOString()) {
+    throw new UploadSessionError('Upload expired; start it again', 410, 'UPLOAD_EXPIRED');
+  }
+  return session;
+}
+
+// Parses a tus-style "sha256 <base64 digest>" header
+function parseChecksum(header: string | undefined) {
+  const [algorithm, digest] = (header ?? '').trim().split(/\s+/);
+  if (algorithm?.toLowerCase() !== 'sha256' || !digest) {
+    throw new UploadSessionError('Each chunk needs an Upload-Checksum header of the form "sha256 <base64 digest>"', 400, 'CHECKSUM_REQUIRED');
+  }
+  return digest;
+}
+
+/**
+ * Appends a chunk at the given offset, after checking it against its SHA-256 checksum. A chunk
+ * at the wrong offset is refused with the current one, which is where the client resumes from.
+ */
+export async function appendChunk(
+  id: string,
+  userId: number,
+  offset: number,
+  chunk: Buffer,
+  checksumHeader: string | undefined
+): Promise<UploadSession> {
+  const session = await getUploadSession(id, userId);
+  if (busySessions.has(id)) {
+    throw new UploadSessionError('Another chunk for this upload is still being written', 409, 'UPLOAD_BUSY', session.receivedBytes);
+  }
+  if (offset !== session.receivedBytes) {
+    throw new UploadSessionError('Chunk offset does not match the upload', 409, 'OFFSET_MISMATCH', session.receivedBytes);
+  }
+  if (chunk.length === 0 || offset + chunk.length > session.size) {
+    throw new UploadSessionError('Chunk runs past the end of the upload', 400, 'INVALID_CHUNK', session.receivedBytes);
+  }
+  const expected = parseChecksum(checksumHeader);
+  if (createHash('sha256').update(chunk).digest('base64') !== expected) {
+    throw new UploadSessionError('Chunk checksum mismatch; send it again', 400, 'CHECKSUM_MISMATCH', session.receivedBytes);
+  }
+
+  busySessions.add(id);
+  try {
+    // A chunk resent after a cut-off request simply replaces the earlier attempt
+    await mediaStore.put(chunkKey(id, offset), chunk);
+
+    const now = new Date();
+    const updated = await store.advance(id, offset, {
+      receivedBytes: offset + chunk.length,
+      expiresAt: nextExpiry(now),
+      updatedAt: now.toISOString()
+    });
+    if (!updated) {
+      // Another server took a chunk at this offset first
+      throw new UploadSessionError('Another chunk for this upload was written first', 409, 'UPLOAD_BUSY', (await getUploadSession(id, userId)).receivedBytes);
+    }
+    return updated;
+  } finally {
+    busySessions.delete(id);
+  }
+}
+
+async function deleteChunks(id: string) {
+  const chunks = await mediaStore.list(`${CHUNK_KEY_PREFIX}${id}/`);
+  await Promise.all(chunks.map(chunk => mediaStore.delete(chunk.key)));
+}
+
+async function removeSession(id: string) {
+  await store.delete(id);
+  await deleteChunks(id);
+}
+
+// Joins a session's chunks into one local file. Leftovers from retried requests are skipped by
+// following the offsets from zero.
+async function assembleChunks(session: UploadSession, filePath: string) {
+  const chunks = await mediaStore.list(`${CHUNK_KEY_PREFIX}${session.id}/`);
+  let position = 0;
+  await fsPromises.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  await fsPromises.writeFile(filePath, Buffer.alloc(0), { mode: 0o600 });
+  try {
+    for (const chunk of chunks) {
+      if (chunkOffset(chunk.key) !== position || position + chunk.size > session.size) {
+        continue;
+      }
+      await pipeline(await mediaStore.getStream(chunk.key), fs.createWriteStream(filePath, { flags: 'a' }));
+      position += chunk.size;
+    }
+    if (position !== session.size) {
+      throw new UploadSessionError('Upload is missing chunks; start it again', 409, 'UPLOAD_CORRUPT');
+    }
+  } catch (error) {
+    await fsPromises.unlink(filePath).catch(() => {});
+    throw error;
+  }
+}
+
+export async function cancelUploadSession(id: string, userId: number) {
+  await getUploadSession(id, userId);
+  if (busySessions.has(id)) {
+    throw new UploadSessionError('A chunk for this upload is still being written', 409, 'UPLOAD_BUSY');
+  }
+  await removeSession(id);
+}
+
+/**
+ * Hands a finished upload over to an upload route: the chunks are joined into a file in
+ * `destination` under a fresh name, described the way multer describes a file, and the
+ * session is gone.
+ */
+export async function claimUploadSession(
+  id: string,
+  userId: number,
+  destination: string,
+  fieldname: string
+): Promise<Express.Multer.File> {
+  const session = await getUploadSession(id, userId);
+  if (busySessions.has(id) || session.receivedBytes < session.size) {
+    throw new UploadSessionError('Upload is not complete yet', 409, 'UPLOAD_INCOMPLETE', session.receivedBytes);
+  }
+
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  const filename = `${fieldname}-${uniqueSuffix}${UPLOAD_TYPES[session.mimeType].extension}`;
+  const filePath = path.join(destination, filename);
+  busySessions.add(id);
+  try {
+    await assembleChunks(session, filePath);
+    await removeSession(id);
+  } finally {
+    busySessions.delete(id);
+  }
+
+  return {
+    fieldname,
+    originalname: session.filename,
+    encoding: '7bit',
+    mimetype: session.mimeType,
+    size: session.size,
+    destination,
+    filename,
+    path: filePath,
+    // Disk-stored multer files don't carry their contents either
+    buffer: Buffer.alloc(0),
+    stream: Readable.from([])
+  };
+}
+
+/**
+ * Runs after multer on an upload route: when the form carries an `uploadId` instead of a
+ * file, the finished resumable upload becomes req.file, so the handler needn't care which
+ * way the file arrived.
+ */
+export function resumableUpload(fieldname: string, destination: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const uploadId = req.body?.uploadId;
+    if (req.file || typeof uploadId !== 'string' || !req.user) {
+      return next();
+    }
+    try {
+      req.file = await claimUploadSession(uploadId, req.user.id, destination, fieldname);
+      next();
+    } catch (error) {
+      if (error instanceof UploadSessionError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      console.error('Error claiming resumable upload:', error);
+      res.status(500).json({ message: 'Error claiming upload' });
+    }
+  };
+}
+
+// Deletes expired sessions, and chunks whose session no longer exists
+export async function sweepExpiredUploadSessions() {
+  const expired = (await store.listExpired(new Date().toISOString())).filter(id => !busySessions.has(id));
+  for (const id of expired) {
+    await removeSession(id);
+  }
+
+  let orphans = 0;
+  const sessionIds = new Set((await mediaStore.list(CHUNK_KEY_PREFIX)).map(chunk => chunk.key.slice(CHUNK_KEY_PREFIX.length).split('/')[0]));
+  for (const id of Array.from(sessionIds)) {
+    if (!busySessions.has(id) && !await store.get(id)) {
+      await deleteChunks(id);
+      orphans++;
+    }
+  }
+
+  if (expired.length > 0 || orphans > 0) {
+    console.log(`Removed ${expired.length} expired upload session(s) and ${orphans} orphaned partial upload(s)`);
+  }
+}
+
+export function startUploadSessionSweeper() {
+  const sweep = () => sweepExpiredUploadSessions().catch(error => console.error('Upload session sweep failed:', error));
+  void sweep();
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
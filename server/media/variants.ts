@@ -0,0 +1,136 @@
+import path from "path";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { getPostgres, usePostgres } from "../pg";
+import {
+  mediaVariants,
+  type InsertMediaVariant,
+  type MediaVariant,
+  type MediaVariantFormat,
+  type MediaVariantName
+} from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import type { ImageVariantFile } from "../utils/imageProcessor";
+import { deleteMediaFiles, setMediaVisibility, storeMediaFile, type MediaKind } from "./private-store";
+
+// Variant files are written next to the main file, so they share its URL directory
+export function variantUrl(mediaUrl: string, filePath: string) {
+  return path.posix.join(path.posix.dirname(mediaUrl), path.basename(filePath));
+}
+
+type VariantsTable = typeof mediaVariants | typeof pg.mediaVariants;
+
+function itemConditions(table: VariantsTable, kind: MediaKind, mediaIds: number[]) {
+  return and(eq(table.mediaKind, kind), inArray(table.mediaId, mediaIds));
+}
+
+function renditionConditions(table: VariantsTable, kind: MediaKind, mediaId: number, variant: MediaVariantName, format: MediaVariantFormat) {
+  return and(eq(table.mediaKind, kind), eq(table.mediaId, mediaId), eq(table.variant, variant), eq(table.format, format));
+}
+
+// The media_variants table in whichever database DATABASE_URL selects
+interface VariantStore {
+  insert(variants: Omit<InsertMediaVariant, 'id'>[]): Promise<MediaVariant[]>;
+  list(kind: MediaKind, mediaIds: number[]): Promise<MediaVariant[]>;
+  find(kind: MediaKind, mediaId: number, variant: MediaVariantName, format: MediaVariantFormat): Promise<MediaVariant | undefined>;
+  // Returns the deleted rows, so their files can be removed too
+  deleteFor(kind: MediaKind, mediaId: number): Promise<MediaVariant[]>;
+}
+
+class SqliteVariantStore implements VariantStore {
+  async insert(variants: Omit<InsertMediaVariant, 'id'>[]) {
+    return db.insert(mediaVariants).values(variants).returning().all();
+  }
+
+  async list(kind: MediaKind, mediaIds: number[]) {
+    return db.select().from(mediaVariants).where(itemConditions(mediaVariants, kind, mediaIds)).all();
+  }
+
+  async find(kind: MediaKind, mediaId: number, variant: MediaVariantName, format: MediaVariantFormat) {
+    return db.select().from(mediaVariants).where(renditionConditions(mediaVariants, kind, mediaId, variant, format)).get();
+  }
+
+  async deleteFor(kind: MediaKind, mediaId: number) {
+    return db.delete(mediaVariants).where(itemConditions(mediaVariants, kind, [mediaId])).returning().all();
+  }
+}
+
+class PostgresVariantStore implements VariantStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async insert(variants: Omit<InsertMediaVariant, 'id'>[]) {
+    return this.db.insert(pg.mediaVariants).values(variants).returning();
+  }
+
+  async list(kind: MediaKind, mediaIds: number[]) {
+    return this.db.select().from(pg.mediaVariants).where(itemConditions(pg.mediaVariants, kind, mediaIds));
+  }
+
+  async find(kind: MediaKind, mediaId: number, variant: MediaVariantName, format: MediaVariantFormat) {
+    const [row] = await this.db.select().from(pg.mediaVariants).where(renditionConditions(pg.mediaVariants, kind, mediaId, variant, format));
+    return row;
+  }
+
+  async deleteFor(kind: MediaKind, mediaId: number) {
+    return this.db.delete(pg.mediaVariants).where(itemConditions(pg.mediaVariants, kind, [mediaId])).returning();
+  }
+}
+
+const store: VariantStore = usePostgres ? new PostgresVariantStore() : new SqliteVariantStore();
+
+// Puts every file processImage wrote, the main file included, into the store next to mediaUrl
+export async function storeImageFiles(kind: MediaKind, mediaUrl: string, files: ImageVariantFile[], premium = false) {
+  for (const file of files) {
+    await storeMediaFile(kind, variantUrl(mediaUrl, file.path), file.path, premium, `image/${file.format}`);
+  }
+}
+
+export async function recordMediaVariants(kind: MediaKind, mediaId: number, mediaUrl: string, files: ImageVariantFile[]): Promise<MediaVariant[]> {
+  if (files.length === 0) {
+    return [];
+  }
+  const createdAt = new Date().toISOString();
+  return store.insert(files.map(file => ({
+    mediaKind: kind,
+    mediaId,
+    variant: file.variant,
+    format: file.format,
+    width: file.width,
+    height: file.height,
+    url: variantUrl(mediaUrl, file.path),
+    bytes: file.bytes,
+    createdAt
+  })));
+}
+
+// Loads the variants for a page of items in one query, keyed by item id
+export async function getMediaVariants(kind: MediaKind, mediaIds: number[]): Promise<Map<number, MediaVariant[]>> {
+  const byId = new Map<number, MediaVariant[]>();
+  if (mediaIds.length === 0) {
+    return byId;
+  }
+  for (const row of await store.list(kind, mediaIds)) {
+    byId.set(row.mediaId, [...(byId.get(row.mediaId) ?? []), row]);
+  }
+  return byId;
+}
+
+// A single rendition, e.g. the card-sized WebP
+export function findMediaVariant(kind: MediaKind, mediaId: number, variant: MediaVariantName, format: MediaVariantFormat) {
+  return store.find(kind, mediaId, variant, format);
+}
+
+// Moves an item's variant files along with its main file when the premium flag changes
+export async function setMediaVariantsVisibility(kind: MediaKind, mediaId: number, premium: boolean) {
+  const variants = (await getMediaVariants(kind, [mediaId])).get(mediaId) ?? [];
+  for (const variant of variants) {
+    await setMediaVisibility(kind, variant.url, premium);
+  }
+}
+
+export async function deleteMediaVariants(kind: MediaKind, mediaId: number) {
+  const variants = await store.deleteFor(kind, mediaId);
+  await Promise.all(variants.map(variant => deleteMediaFiles(kind, variant.url)));
+}
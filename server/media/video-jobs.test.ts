@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import type { VideoProbe } from '../utils/videoProcessor';
+
+// ffmpeg isn't needed to test the job around it: the encoder writes a poster and a playlist
+vi.mock('../utils/videoProcessor', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/videoProcessor')>(),
+  probeVideo: vi.fn(async (): Promise<VideoProbe> => ({ durationSeconds: 12, width: 1280, height: 720, videoCodec: 'h264', hasAudio: true })),
+  processVideo: vi.fn(async (_inputPath: string, outputDir: string) => {
+    fs.mkdirSync(outputDir, { recursive: true });
+    const file = (name: string) => path.join(outputDir, name);
+    await sharp({ create: { width: 64, height: 36, channels: 3, background: '#336699' } }).jpeg().toFile(file('poster.jpg'));
+    for (const name of ['preview.mp4', '720p.mp4', '720p.m3u8', '720p_000.ts', 'master.m3u8']) {
+      fs.writeFileSync(file(name), name);
+    }
+    return {
+      posterPath: file('poster.jpg'),
+      previewPath: file('preview.mp4'),
+      masterPlaylistPath: file('master.m3u8'),
+      playbackPath: file('720p.mp4'),
+      renditions: [{ name: '720p', width: 1280, height: 720, playlist: '720p.m3u8' }]
+    };
+  })
+}));
+// Teasers are public, and public files would land in the project's uploads/
+vi.mock('./teasers', async importOriginal => ({
+  ...await importOriginal<typeof import('./teasers')>(),
+  createMediaTeaser: vi.fn(async (_kind: string, _sourcePath: string, mediaUrl: string) => ({ teaserUrl: `${mediaUrl}-teaser.jpg`, blurHash: 'LEHV6nWB2yk8' }))
+}));
+
+const { storage } = await import('../storage');
+const { processVideo } = await import('../utils/videoProcessor');
+const { privateMediaKey } = await import('./private-store');
+const { MEDIA_SCRATCH_DIR, mediaStore } = await import('./store');
+const { claimPendingVideo, requeueProcessingVideos } = await import('./items');
+const { runVideoJobs, videoStagingKey } = await import('./video-jobs');
+
+let creatorId: number | undefined;
+
+// A premium video as the upload route leaves it: a pending row and the original staged privately
+async function uploadVideo() {
+  creatorId ??= (await storage.createUser({ email: 'creator@example.com', password: 'hash', role: 'creator' })).id;
+  const url = `/uploads/content/upload-${Date.now()}-${Math.random()}.mp4`;
+  const file = path.join(MEDIA_SCRATCH_DIR, path.basename(url));
+  fs.mkdirSync(MEDIA_SCRATCH_DIR, { recursive: true });
+  fs.writeFileSync(file, 'raw video');
+  await mediaStore.put(videoStagingKey(url), file, 'video/mp4');
+  return storage.createContent({
+    creatorId,
+    title: 'Video',
+    contentType: 'video',
+    url,
+    isPremium: true,
+    moderationStatus: 'approved',
+    processingStatus: 'pending'
+  });
+}
+
+describe('runVideoJobs', () => {
+  it('transcodes a pending video into the private store and marks it ready', async () => {
+    const video = await uploadVideo();
+
+    expect(await runVideoJobs()).toBe(1);
+
+    const dirUrl = `/uploads/content/video-${video.id}`;
+    const processed = await storage.getContent(video.id);
+    expect(processed).toMatchObject({
+      processingStatus: 'ready',
+      processingError: null,
+      url: `${dirUrl}/720p.mp4`,
+      thumbnailUrl: `${dirUrl}/poster.jpg`,
+      previewUrl: `${dirUrl}/preview.mp4`,
+      hlsUrl: `${dirUrl}/master.m3u8`,
+      durationSeconds: 12,
+      width: 1280,
+      height: 720
+    });
+    expect(processed?.perceptualHash).toBeTruthy();
+    for (const file of ['master.m3u8', '720p.m3u8', '720p_000.ts', 'poster.jpg']) {
+      expect(await mediaStore.stat(privateMediaKey('content', `${dirUrl}/${file}`)), file).toBeTruthy();
+    }
+    expect(await mediaStore.stat(videoStagingKey(video.url))).toBeFalsy();
+  });
+
+  it('marks a video failed when transcoding fails and does not pick it up again', async () => {
+    const video = await uploadVideo();
+    vi.mocked(processVideo).mockRejectedValueOnce(new Error('Invalid data found when processing input'));
+
+    expect(await runVideoJobs()).toBe(1);
+    expect(await runVideoJobs()).toBe(0);
+
+    expect(await storage.getContent(video.id)).toMatchObject({
+      processingStatus: 'failed',
+      processingError: 'Invalid data found when processing input'
+    });
+    expect(await mediaStore.stat(videoStagingKey(video.url))).toBeFalsy();
+  });
+});
+
+describe('claimPendingVideo and requeueProcessingVideos', () => {
+  it('hands each pending video to one worker and requeues the ones a restart interrupted', async () => {
+    const first = await uploadVideo();
+    const second = await uploadVideo();
+
+    const claimed = await Promise.all([claimPendingVideo(), claimPendingVideo(), claimPendingVideo()]);
+
+    expect(claimed.map(item => item?.id)).toEqual([first.id, second.id, undefined]);
+    expect((await storage.getContent(first.id))?.processingStatus).toBe('processing');
+
+    await requeueProcessingVideos();
+
+    expect((await storage.getContent(first.id))?.processingStatus).toBe('pending');
+    expect((await storage.getContent(second.id))?.processingStatus).toBe('pending');
+    expect((await claimPendingVideo())?.id).toBe(first.id);
+  });
+});
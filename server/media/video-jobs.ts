@@ -0,0 +1,146 @@
+import { randomUUID } from "crypto";
+import * as fsPromises from "fs/promises";
+import path from "path";
+import type { Content } from "@shared/schema";
+import { probeVideo, processVideo } from "../utils/videoProcessor";
+import { computePerceptualHash } from "../utils/imageProcessor";
+import {
+  deleteMediaDirectory,
+  deleteMediaFiles,
+  isMediaPrivate,
+  setMediaDirectoryVisibility,
+  storeMediaFile
+} from "./private-store";
+import { MEDIA_SCRATCH_DIR, mediaStore, type LocalCopy } from "./store";
+import { createMediaTeaser, teaserUrlFor } from "./teasers";
+import { claimPendingVideo, requeueProcessingVideos, updateContentMedia } from "./items";
+
+const RUN_INTERVAL_MS = Number(process.env.VIDEO_JOB_INTERVAL_SECONDS || 30) * 1000;
+
+// Raw uploads wait here, on the private side of the store, until they've been transcoded by
+// whichever server picks them up. The originals can carry the recording location, so they're
+// never published.
+export function videoStagingKey(url: string) {
+  return path.posix.join('private', 'incoming', path.basename(url));
+}
+
+const VIDEO_CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.mp4': 'video/mp4',
+  '.jpg': 'image/jpeg'
+};
+
+// Every rendition of a video lives in one directory, which moves as a unit when the
+// item's premium flag changes
+export function videoOutputDirUrl(contentId: number) {
+  return `/uploads/content/video-${contentId}`;
+}
+
+async function processVideoContent(item: Content) {
+  const dirUrl = videoOutputDirUrl(item.id);
+  // Encoded locally, then put into the store file by file
+  const outputDir = path.join(MEDIA_SCRATCH_DIR, `video-${item.id}-${randomUUID()}`);
+  let source: LocalCopy | undefined;
+
+  try {
+    source = await mediaStore.localCopy(videoStagingKey(item.url));
+    const probe = await probeVideo(source.path);
+    const processed = await processVideo(source.path, outputDir, probe);
+    const urlFor = (filePath: string) => `${dirUrl}/${path.basename(filePath)}`;
+    const teaser = await createMediaTeaser('content', processed.posterPath, dirUrl);
+    const perceptualHash = await computePerceptualHash(processed.posterPath);
+    for (const file of await fsPromises.readdir(outputDir)) {
+      const filePath = path.join(outputDir, file);
+      await storeMediaFile('content', urlFor(filePath), filePath, isMediaPrivate(item), VIDEO_CONTENT_TYPES[path.extname(file)]);
+    }
+
+    const updated = await updateContentMedia(item.id, {
+      url: urlFor(processed.playbackPath),
+      thumbnailUrl: urlFor(processed.posterPath),
+      previewUrl: urlFor(processed.previewPath),
+      hlsUrl: urlFor(processed.masterPlaylistPath),
+      ...teaser,
+      perceptualHash,
+      durationSeconds: probe.durationSeconds,
+      width: probe.width,
+      height: probe.height,
+      processingStatus: 'ready',
+      processingError: null
+    });
+
+    if (!updated) {
+      // Deleted while it was being transcoded
+      await deleteMediaDirectory('content', dirUrl);
+      await deleteMediaFiles('content', teaser.teaserUrl);
+    } else if (isMediaPrivate(updated) !== isMediaPrivate(item)) {
+      // It was made premium or hidden, or the reverse, while it was being transcoded
+      await setMediaDirectoryVisibility('content', dirUrl, isMediaPrivate(updated));
+    }
+    console.log('Video processing finished:', { contentId: item.id, renditions: processed.renditions.map(r => r.name) });
+  } catch (error) {
+    console.error('Video processing failed:', { contentId: item.id, error });
+    await deleteMediaDirectory('content', dirUrl).catch(() => {});
+    await deleteMediaFiles('content', teaserUrlFor(dirUrl)).catch(() => {});
+    await updateContentMedia(item.id, {
+      processingStatus: 'failed',
+      processingError: error instanceof Error ? error.message : 'Unknown error'
+    });
+  } finally {
+    await source?.release();
+    await fsPromises.rm(outputDir, { recursive: true, force: true }).catch(() => {});
+    // The creator has to upload again after a failure, so the original is never needed twice
+    await mediaStore.delete(videoStagingKey(item.url)).catch(() => {});
+  }
+}
+
+export async function runVideoJobs() {
+  let processed = 0;
+  for (let item = await claimPendingVideo(); item; item = await claimPendingVideo()) {
+    await processVideoContent(item);
+    processed++;
+  }
+  return processed;
+}
+
+let running = false;
+
+async function runScheduledCycle() {
+  // Transcoding is CPU bound; one video at a time
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    await runVideoJobs();
+  } catch (error) {
+    console.error('Video job cycle failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+// Starts work on a newly uploaded video now rather than at the next interval
+export function queueVideoProcessing() {
+  void runScheduledCycle();
+}
+
+export async function deleteVideoFiles(item: Pick<Content, 'id' | 'url' | 'processingStatus'>) {
+  await deleteMediaDirectory('content', videoOutputDirUrl(item.id));
+  await deleteMediaFiles('content', teaserUrlFor(videoOutputDirUrl(item.id)));
+  // Until it's processed, the url names the staged original
+  if (item.processingStatus !== 'ready') {
+    await mediaStore.delete(videoStagingKey(item.url)).catch(() => {});
+  }
+}
+
+export function startVideoWorker() {
+  // Anything still marked processing was interrupted by a restart
+  requeueProcessingVideos()
+    .catch(error => console.error('Failed to requeue interrupted videos:', error))
+    .finally(() => void runScheduledCycle());
+  const timer = setInterval(runScheduledCycle, RUN_INTERVAL_MS);
+  // Don't keep the process alive just for transcoding
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../utils/forensicWatermark', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/forensicWatermark')>(),
+  embedViewerMark: vi.fn(async (original: Buffer, _format: string, viewerId: number) => Buffer.concat([original, Buffer.from(`:${viewerId}`)]))
+}));
+vi.mock('./store', async importOriginal => ({
+  ...await importOriginal<typeof import('./store')>(),
+  readMediaObject: vi.fn(async (key: string) => {
+    if (key.includes('missing')) {
+      throw Object.assign(new Error('not found'), { code: 'ENOENT' });
+    }
+    return Buffer.from(key);
+  })
+}));
+
+const { storage } = await import('../storage');
+const { embedViewerMark } = await import('../utils/forensicWatermark');
+const { updatePlatformSettings } = await import('../settings');
+const { markImageForViewer } = await import('./watermarks');
+
+describe('markImageForViewer', () => {
+  let adminId: number;
+
+  beforeAll(async () => {
+    adminId = (await storage.createUser({ email: 'admin@example.com', password: 'hash', role: 'admin' })).id;
+    await updatePlatformSettings({ traceablePremiumMedia: true }, adminId);
+  });
+
+  it('renders each viewer’s copy of a file once', async () => {
+    const first = await markImageForViewer('content/a-card.webp', 7);
+    const again = await markImageForViewer('content/a-card.webp', 7);
+    const otherViewer = await markImageForViewer('content/a-card.webp', 8);
+    const otherVariant = await markImageForViewer('content/a-full.webp', 7);
+
+    expect(first).toEqual({ data: Buffer.from('content/a-card.webp:7'), format: 'webp' });
+    expect(again).toEqual(first);
+    expect(otherViewer?.data.toString()).toBe('content/a-card.webp:8');
+    expect(otherVariant?.data.toString()).toBe('content/a-full.webp:7');
+    expect(embedViewerMark).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares one render between concurrent requests and does not keep failures', async () => {
+    vi.mocked(embedViewerMark).mockClear();
+
+    await Promise.all([markImageForViewer('content/b.jpg', 7), markImageForViewer('content/b.jpg', 7)]);
+    await expect(markImageForViewer('content/missing.jpg', 7)).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(markImageForViewer('content/missing.jpg', 7)).rejects.toMatchObject({ code: 'ENOENT' });
+
+    expect(embedViewerMark).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends files as stored when traceable media is off', async () => {
+    await updatePlatformSettings({ traceablePremiumMedia: false }, adminId);
+
+    expect(await markImageForViewer('content/a-card.webp', 7)).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import path from "path";
+import type { CreatorProfile, MediaVariantFormat, User } from "@shared/schema";
+import { getPlatformSettings } from "../settings";
+import { storage } from "../storage";
+import type { WatermarkOptions } from "../utils/imageProcessor";
+import { embedViewerMark, MAX_TRACEABLE_VIEWER_ID, readViewerMark, type TraceResult } from "../utils/forensicWatermark";
+import { localMediaCopy, type MediaKind } from "./private-store";
+import { readMediaObject } from "./store";
+import { findMediaItem } from "./items";
+
+const WATERMARK_LOGO_PATH = process.env.WATERMARK_LOGO_PATH || path.join(process.cwd(), 'client', 'public', 'logo.png');
+
+const IMAGE_FORMATS: Record<string, MediaVariantFormat> = {
+  '.avif': 'avif',
+  '.webp': 'webp',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg'
+};
+
+// Marked copies kept in memory, so a viewer paging back and forth doesn't re-encode each image
+const MARKED_CACHE_BYTES = Number(process.env.WATERMARK_CACHE_MB || 64) * 1024 * 1024;
+
+export interface LeakTrace {
+  viewer: Pick<User, 'id' | 'username' | 'email' | 'role'> | null;
+  viewerId: number;
+  confidence: number;
+}
+
+type CreatorBranding = Pick<CreatorProfile, 'aliasName' | 'instagram' | 'twitter' | 'tiktok'>;
+
+// The alias plus whichever handle fans are most likely to search for
+function brandingText(creator: CreatorBranding) {
+  const handle = [creator.instagram, creator.twitter, creator.tiktok]
+    .map(value => value?.trim().replace(/^@/, ''))
+    .find(Boolean);
+  const alias = creator.aliasName?.trim();
+  if (alias && handle) {
+    return `${alias} (@${handle})`;
+  }
+  return alias || (handle ? `@${handle}` : undefined);
+}
+
+/**
+ * The visible watermark for new uploads under the current platform settings, or undefined if
+ * watermarking is off. Creator uploads carry their alias and handle; platform uploads (gallery,
+ * featured) only the logo.
+ */
+export async function uploadWatermark(creator?: CreatorBranding | null): Promise<WatermarkOptions | undefined> {
+  const settings = await getPlatformSettings();
+  if (!settings.watermarkPreviews) {
+    return undefined;
+  }
+  return {
+    text: creator ? brandingText(creator) : undefined,
+    logoPath: WATERMARK_LOGO_PATH,
+    position: settings.watermarkPosition,
+    opacity: settings.watermarkOpacity
+  };
+}
+
+/**
+ * Least recently used renders up to a total size. Concurrent requests for the same entry share
+ * one render, and failed renders aren't kept.
+ */
+class MarkedImageCache {
+  // Map order is use order: hits are moved to the end, eviction starts from the front
+  private readonly entries = new Map<string, Promise<Buffer>>();
+  private readonly sizes = new Map<string, number>();
+  private bytes = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  get(key: string, render: () => Promise<Buffer>): Promise<Buffer> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+
+    const pending = render();
+    this.entries.set(key, pending);
+    pending.then(
+      data => {
+        if (this.entries.get(key) === pending) {
+          this.sizes.set(key, data.length);
+          this.bytes += data.length;
+          this.evict();
+        }
+      },
+      () => this.entries.delete(key)
+    );
+    return pending;
+  }
+
+  private evict() {
+    for (const key of Array.from(this.entries.keys())) {
+      if (this.bytes <= this.maxBytes) {
+        return;
+      }
+      const size = this.sizes.get(key);
+      // Still rendering; its size isn't counted yet
+      if (size === undefined) {
+        continue;
+      }
+      this.entries.delete(key);
+      this.sizes.delete(key);
+      this.bytes -= size;
+    }
+  }
+}
+
+const markedImages = new MarkedImageCache(MARKED_CACHE_BYTES);
+
+/**
+ * With traceable media switched on, premium images are re-encoded with the viewer's id hidden
+ * in them. Each viewer's copy of each file is rendered once and then served from memory while
+ * it stays in the cache. Returns null for files that should be sent as stored.
+ */
+export async function markImageForViewer(key: string, viewerId: number): Promise<{ data: Buffer; format: MediaVariantFormat } | null> {
+  const format = IMAGE_FORMATS[path.extname(key).toLowerCase()];
+  if (!format || viewerId > MAX_TRACEABLE_VIEWER_ID || !(await getPlatformSettings()).traceablePremiumMedia) {
+    return null;
+  }
+  const data = await markedImages.get(`${viewerId}:${key}`, async () => {
+    // Read here rather than by sharp so a missing file surfaces as ENOENT
+    const original = await readMediaObject(key);
+    return embedViewerMark(original, format, viewerId);
+  });
+  return { data, format };
+}
+
+/**
+ * Looks for a viewer mark in a leaked copy of a gallery or content image. Returns undefined if
+ * the item or its original file can't be found, and null if the copy carries no readable mark.
+ */
+export async function traceLeakedImage(kind: MediaKind, id: number, leaked: Buffer): Promise<LeakTrace | null | undefined> {
+  const media = await findMediaItem(kind, id);
+  const original = media && await localMediaCopy(kind, media.item.url);
+  if (!original) {
+    return undefined;
+  }
+
+  let mark: TraceResult | null;
+  try {
+    mark = await readViewerMark(leaked, original.path);
+  } finally {
+    await original.release();
+  }
+  if (!mark) {
+    return null;
+  }
+  const viewer = await storage.getUserById(String(mark.viewerId));
+  return {
+    viewer: viewer ? { id: viewer.id, username: viewer.username, email: viewer.email, role: viewer.role } : null,
+    viewerId: mark.viewerId,
+    confidence: mark.confidence
+  };
+}
@@ -0,0 +1,581 @@
+import type {
+  AuthToken,
+  AuthTokenType,
+  Model,
+  InsertModel,
+  User,
+  Gallery,
+  InsertGallery,
+  FollowerProfile,
+  CreatorProfile,
+  Content,
+  InsertContent,
+  Subscription,
+  InsertSubscription,
+  SubscriptionHistoryEntry,
+  SubscriptionStatus,
+  ContentPurchase,
+  InsertContentPurchase,
+  UpdateContent,
+  UpdateCreatorProfile
+} from "@shared/schema";
+import { entitledSubscriptionStatuses } from "@shared/schema";
+import type { TransitionOptions } from "./subscription-lifecycle";
+import {
+  checkApplicantAccount,
+  decodeGalleryCursor,
+  encodeGalleryCursor,
+  ModelApplicationConflictError,
+  normalizeGalleryItem,
+  type AcceptedModelApplication,
+  type ContentFeedQuery,
+  type ContentPurchaseStatus,
+  type ContentWithCreator,
+  type CreatorAccount,
+  type CreatorApprovalDecision,
+  type CreatorContentOptions,
+  type CreatorListing,
+  type CreatorSummary,
+  type FollowerListing,
+  type GalleryPage,
+  type GalleryQuery,
+  type IStorage,
+  type ModelApplicationQuery,
+  type ModelReview,
+  type SubscriptionWithCreator
+} from "./storage-interface";
+
+// Rows live in arrays in insertion order, so ids double as their creation order
+class Table<T extends { id: number }> {
+  readonly rows: T[] = [];
+  private nextId = 1;
+
+  insert(row: Omit<T, 'id'>): T {
+    const created = { ...row, id: this.nextId++ } as T;
+    this.rows.push(created);
+    return { ...created };
+  }
+
+  find(predicate: (row: T) => boolean): T | undefined {
+    const row = this.rows.find(predicate);
+    return row && { ...row };
+  }
+
+  filter(predicate: (row: T) => boolean): T[] {
+    return this.rows.filter(predicate).map(row => ({ ...row }));
+  }
+
+  update(id: number, changes: Partial<T>): T | undefined {
+    const row = this.rows.find(r => r.id === id);
+    if (!row) {
+      return undefined;
+    }
+    Object.assign(row, changes);
+    return { ...row };
+  }
+
+  delete(id: number): T | undefined {
+    const index = this.rows.findIndex(r => r.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+    return this.rows.splice(index, 1)[0];
+  }
+}
+
+const matches = (value: string | null | undefined, search: string) =>
+  Boolean(value && value.toLowerCase().includes(search.toLowerCase()));
+
+const byNewest = <T extends { id: number; createdAt: string }>(a: T, b: T) =>
+  b.createdAt.localeCompare(a.createdAt) || b.id - a.id;
+
+/**
+ * IStorage kept entirely in memory, for exercising route handlers without a database file.
+ * Each instance starts empty; rows are copied in and out so callers can't mutate stored state.
+ */
+export class MemoryStorage implements IStorage {
+  readonly users = new Table<User>();
+  readonly models = new Table<Model>();
+  readonly authTokens = new Table<AuthToken>();
+  readonly gallery = new Table<Gallery>();
+  readonly creatorProfiles = new Table<CreatorProfile>();
+  readonly followerProfiles = new Table<FollowerProfile>();
+  readonly content = new Table<Content>();
+  readonly subscriptions = new Table<Subscription>();
+  readonly subscriptionHistory = new Table<SubscriptionHistoryEntry>();
+  readonly contentPurchases = new Table<ContentPurchase>();
+
+  private creatorSummary(userId: number): CreatorSummary | null {
+    const user = this.users.find(u => u.id === userId);
+    return user ? { id: user.id, username: user.username, displayName: user.displayName, avatarUrl: user.avatarUrl } : null;
+  }
+
+  private insertUser(values: Partial<User> & Pick<User, 'email' | 'password'>): User {
+    if (this.users.find(u => u.email === values.email || (values.username != null && u.username === values.username))) {
+      throw new Error('UNIQUE constraint failed: users');
+    }
+    return this.users.insert({
+      role: 'follower',
+      username: null,
+      displayName: null,
+      avatarUrl: null,
+      bio: null,
+      verified: 0,
+      isApproved: 0,
+      createdAt: new Date().toISOString(),
+      profileId: null,
+      ...values
+    });
+  }
+
+  async createUser(user: { email: string; password: string; role: string; username?: string; displayName?: string }): Promise<User> {
+    try {
+      return this.insertUser({
+        email: user.email,
+        password: user.password,
+        role: user.role,
+        username: user.username ?? null,
+        displayName: user.displayName ?? null
+      });
+    } catch (error) {
+      throw new Error('Failed to create user');
+    }
+  }
+
+  async createModel(model: Omit<InsertModel, "id">): Promise<Model> {
+    return this.models.insert({
+      aliasName: null,
+      socialHandles: null,
+      onlyFansLink: null,
+      status: 'new',
+      reviewerNotes: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      userId: null,
+      ...model,
+      createdAt: model.createdAt ?? new Date().toISOString()
+    });
+  }
+
+  async getModel(id: number): Promise<Model | undefined> {
+    return this.models.find(m => m.id === id);
+  }
+
+  async getAllModels(): Promise<Model[]> {
+    return this.models.filter(() => true);
+  }
+
+  async getModelApplications(query: ModelApplicationQuery): Promise<{ models: Model[]; total: number }> {
+    const search = query.search;
+    const rows = this.models
+      .filter(m => (!query.status || m.status === query.status) && (!search || [m.firstName, m.lastName, m.email, m.aliasName].some(v => matches(v, search))))
+      .sort((a, b) => b.id - a.id);
+    const start = (query.page - 1) * query.pageSize;
+    return { models: rows.slice(start, start + query.pageSize), total: rows.length };
+  }
+
+  async updateModelReview(id: number, review: ModelReview): Promise<Model | undefined> {
+    return this.models.update(id, {
+      ...(review.status ? { status: review.status } : {}),
+      ...(review.reviewerNotes !== undefined ? { reviewerNotes: review.reviewerNotes } : {}),
+      reviewedBy: review.reviewedBy,
+      reviewedAt: new Date().toISOString()
+    });
+  }
+
+  async acceptModelApplication(id: number, reviewerId: number, passwordHash: string): Promise<AcceptedModelApplication> {
+    const application = this.models.find(m => m.id === id);
+    if (!application) {
+      throw new Error('Model application not found');
+    }
+    if (application.status === 'accepted') {
+      throw new ModelApplicationConflictError('Model application has already been accepted');
+    }
+
+    const now = new Date().toISOString();
+    let user = this.users.find(u => u.email === application.email);
+    checkApplicantAccount(user);
+    user = user
+      ? this.users.update(user.id, { role: 'creator', isApproved: 1 })!
+      : this.insertUser({
+          email: application.email,
+          password: passwordHash,
+          role: 'creator',
+          displayName: application.aliasName || `${application.firstName} ${application.lastName}`,
+          isApproved: 1,
+          createdAt: now
+        });
+
+    const profileValues = {
+      aliasName: application.aliasName || application.firstName,
+      onlyfans: application.onlyFansLink || null,
+      approvalStatus: 'approved' as const,
+      approvalDate: now,
+      approvedBy: reviewerId,
+      rejectionReason: null
+    };
+    const userId = user.id;
+    const existingProfile = this.creatorProfiles.find(p => p.userId === userId);
+    const profile = existingProfile
+      ? this.creatorProfiles.update(existingProfile.id, profileValues)!
+      : this.insertCreatorProfile({ ...profileValues, userId, createdAt: now });
+
+    const model = this.models.update(id, { status: 'accepted', reviewedBy: reviewerId, reviewedAt: now, userId })!;
+    return { model, user, profile };
+  }
+
+  async getUserById(id: string): Promise<User | undefined> {
+    return this.users.find(u => u.id === parseInt(id));
+  }
+
+  async getUser(email: string): Promise<User | undefined> {
+    return this.users.find(u => u.email === email);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.users.find(u => u.username === username);
+  }
+
+  async updateUserRole(userId: number, role: string): Promise<void> {
+    this.users.update(userId, { role });
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string): Promise<void> {
+    this.users.update(userId, { password: passwordHash });
+  }
+
+  async markUserVerified(userId: number): Promise<void> {
+    this.users.update(userId, { verified: 1 });
+  }
+
+  async createAuthToken(token: { userId: number; type: AuthTokenType; tokenHash: string; expiresAt: Date }): Promise<AuthToken> {
+    for (const stale of this.authTokens.filter(t => t.userId === token.userId && t.type === token.type && t.usedAt === null)) {
+      this.authTokens.delete(stale.id);
+    }
+    return this.authTokens.insert({
+      userId: token.userId,
+      type: token.type,
+      tokenHash: token.tokenHash,
+      expiresAt: token.expiresAt.toISOString(),
+      usedAt: null,
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  async consumeAuthToken(tokenHash: string, type: AuthTokenType): Promise<AuthToken | undefined> {
+    const now = new Date().toISOString();
+    const token = this.authTokens.find(t => t.tokenHash === tokenHash && t.type === type && t.usedAt === null && t.expiresAt > now);
+    return token && this.authTokens.update(token.id, { usedAt: now });
+  }
+
+  async getGalleryItems(query: GalleryQuery = {}): Promise<GalleryPage> {
+    const sort = query.sort ?? 'newest';
+    const sortKey = (item: Gallery) => sort === 'title' ? item.title : item.createdAt;
+    const direction = sort === 'newest' ? -1 : 1;
+    const compare = (a: Gallery, b: Gallery) =>
+      direction * (sortKey(a) < sortKey(b) ? -1 : sortKey(a) > sortKey(b) ? 1 : a.id - b.id);
+    const cursor = query.cursor ? decodeGalleryCursor(query.cursor) : undefined;
+
+    const rows = this.gallery
+      .filter(item =>
+        (!query.type || item.type === query.type) &&
+        (query.premium === undefined || item.isPremium === query.premium) &&
+        (!query.contentRating || item.contentRating === query.contentRating) &&
+        (query.includeHidden || !item.hiddenAt) &&
+        (query.tags ?? []).every(tag => Array.isArray(item.tags) && item.tags.includes(tag)) &&
+        (!cursor || compare(item, { ...item, title: cursor.value, createdAt: cursor.value, id: cursor.id }) > 0)
+      )
+      .sort(compare);
+
+    const hasMore = query.limit !== undefined && rows.length > query.limit;
+    const items = hasMore ? rows.slice(0, query.limit) : rows;
+    const last = items[items.length - 1];
+    const nextCursor = hasMore && last ? encodeGalleryCursor({ value: sortKey(last), id: last.id }) : null;
+    return { items: items.map(normalizeGalleryItem), nextCursor };
+  }
+
+  async getGalleryItem(id: number): Promise<Gallery | undefined> {
+    const item = this.gallery.find(g => g.id === id);
+    return item ? normalizeGalleryItem(item) : undefined;
+  }
+
+  async createGalleryItem(item: Omit<InsertGallery, "id">): Promise<Gallery> {
+    return this.gallery.insert({
+      type: 'gallery',
+      contentRating: 'sfw',
+      isPremium: false,
+      tags: [],
+      instagram: null,
+      tiktok: null,
+      twitter: null,
+      onlyfans: null,
+      description: null,
+      teaserUrl: null,
+      blurHash: null,
+      perceptualHash: null,
+      hiddenAt: null,
+      ...item
+    });
+  }
+
+  async setGalleryItemPremium(id: number, isPremium: boolean): Promise<Gallery | undefined> {
+    return this.gallery.update(id, { isPremium });
+  }
+
+  async clearGalleryPremium(): Promise<Gallery[]> {
+    return this.gallery
+      .filter(item => item.isPremium)
+      .map(item => this.gallery.update(item.id, { isPremium: false })!);
+  }
+
+  async deleteGalleryItem(id: number): Promise<Gallery | undefined> {
+    return this.gallery.delete(id);
+  }
+
+  async createFollowerProfile(profile: { userId: number }): Promise<FollowerProfile> {
+    if (this.followerProfiles.find(p => p.userId === profile.userId)) {
+      throw new Error('Failed to create follower profile');
+    }
+    return this.followerProfiles.insert({ userId: profile.userId, preferences: {}, createdAt: new Date().toISOString() });
+  }
+
+  private insertCreatorProfile(values: Partial<CreatorProfile> & Pick<CreatorProfile, 'userId'>): CreatorProfile {
+    if (this.creatorProfiles.find(p => p.userId === values.userId)) {
+      throw new Error('Failed to create creator profile');
+    }
+    return this.creatorProfiles.insert({
+      aliasName: null,
+      instagram: null,
+      twitter: null,
+      tiktok: null,
+      onlyfans: null,
+      featuredImageUrl: null,
+      monthlySubscriptionPrice: 0,
+      perPostPrice: 0,
+      approvalStatus: 'pending',
+      approvalDate: null,
+      approvedBy: null,
+      rejectionReason: null,
+      createdAt: new Date().toISOString(),
+      ...values
+    });
+  }
+
+  async createCreatorProfile(profile: { userId: number, displayName: string }): Promise<CreatorProfile> {
+    return this.insertCreatorProfile({ userId: profile.userId, aliasName: profile.displayName });
+  }
+
+  async hasUsers(): Promise<boolean> {
+    return this.users.rows.length > 0;
+  }
+
+  async listCreators(): Promise<CreatorListing[]> {
+    return this.creatorProfiles.filter(() => true).map(profile => {
+      const user = this.users.find(u => u.id === profile.userId);
+      return {
+        ...profile,
+        user: user
+          ? { id: user.id, email: user.email, username: user.username, displayName: user.displayName, avatarUrl: user.avatarUrl, bio: user.bio, createdAt: user.createdAt }
+          : null
+      };
+    });
+  }
+
+  async getCreator(userId: number): Promise<CreatorAccount | undefined> {
+    const user = this.users.find(u => u.id === userId && u.role === 'creator');
+    return user && { user, profile: this.creatorProfiles.find(p => p.userId === userId) };
+  }
+
+  async getCreatorProfile(userId: number): Promise<CreatorProfile | undefined> {
+    return this.creatorProfiles.find(p => p.userId === userId);
+  }
+
+  async updateCreatorProfile(userId: number, changes: UpdateCreatorProfile): Promise<CreatorProfile | undefined> {
+    const profile = this.creatorProfiles.find(p => p.userId === userId);
+    return profile && this.creatorProfiles.update(profile.id, changes);
+  }
+
+  async setCreatorApproval(userId: number, decision: CreatorApprovalDecision): Promise<CreatorProfile> {
+    const values = {
+      approvalStatus: decision.approved ? 'approved' as const : 'rejected' as const,
+      approvalDate: decision.approved ? new Date().toISOString() : null,
+      approvedBy: decision.approved ? decision.reviewedBy : null,
+      rejectionReason: decision.approved ? null : decision.rejectionReason ?? null
+    };
+    const existing = this.creatorProfiles.find(p => p.userId === userId);
+    return existing
+      ? this.creatorProfiles.update(existing.id, values)!
+      : this.insertCreatorProfile({ ...values, userId });
+  }
+
+  async listFollowers(): Promise<FollowerListing[]> {
+    return this.followerProfiles.filter(() => true).map(profile => {
+      const user = this.users.find(u => u.id === profile.userId);
+      return {
+        ...profile,
+        user: user ? { id: user.id, username: user.username, email: user.email, createdAt: user.createdAt, role: user.role } : null
+      };
+    });
+  }
+
+  async getContentFeed(query: ContentFeedQuery): Promise<ContentWithCreator[]> {
+    return this.content
+      .filter(item => Boolean(item.isPremium) === (query.premium ?? false)
+        && item.processingStatus === 'ready'
+        && !item.hiddenAt
+        && item.moderationStatus === 'approved'
+        && (!query.contentType || item.contentType === query.contentType))
+      .sort(byNewest)
+      .slice(query.offset, query.offset + query.limit)
+      .map(item => ({ ...item, creator: this.creatorSummary(item.creatorId) }));
+  }
+
+  async getCreatorContent(creatorId: number, options: CreatorContentOptions): Promise<ContentWithCreator[]> {
+    return this.content
+      .filter(item => item.creatorId === creatorId
+        && (options.includePremium || !item.isPremium)
+        && (options.includeHidden || (!item.hiddenAt && item.moderationStatus === 'approved')))
+      .sort(byNewest)
+      .map(item => ({ ...item, creator: this.creatorSummary(item.creatorId) }));
+  }
+
+  async getContent(id: number): Promise<Content | undefined> {
+    return this.content.find(item => item.id === id);
+  }
+
+  async createContent(item: Omit<InsertContent, "id">): Promise<Content> {
+    const now = new Date().toISOString();
+    return this.content.insert({
+      description: null,
+      thumbnailUrl: null,
+      isPremium: false,
+      price: null,
+      processingStatus: 'ready',
+      processingError: null,
+      durationSeconds: null,
+      width: null,
+      height: null,
+      previewUrl: null,
+      hlsUrl: null,
+      teaserUrl: null,
+      blurHash: null,
+      perceptualHash: null,
+      hiddenAt: null,
+      moderationStatus: 'approved',
+      moderationReason: null,
+      moderatedBy: null,
+      moderatedAt: null,
+      ...item,
+      createdAt: item.createdAt ?? now,
+      updatedAt: item.updatedAt ?? now
+    });
+  }
+
+  async updateContent(id: number, changes: UpdateContent): Promise<Content | undefined> {
+    return this.content.update(id, { ...changes, updatedAt: new Date().toISOString() });
+  }
+
+  async deleteContent(id: number): Promise<Content | undefined> {
+    return this.content.delete(id);
+  }
+
+  async getCurrentSubscriptions(followerId: number): Promise<SubscriptionWithCreator[]> {
+    const now = new Date().toISOString();
+    return this.subscriptions
+      .filter(s => s.followerId === followerId && (
+        s.status === 'past_due' || (s.status === 'active' && (s.endDate === null || s.endDate > now))
+      ))
+      .map(s => ({ ...s, creator: this.creatorSummary(s.creatorId) }));
+  }
+
+  async getEntitledSubscription(followerId: number, creatorId: number): Promise<Subscription | undefined> {
+    return this.subscriptions.find(s =>
+      s.followerId === followerId && s.creatorId === creatorId && entitledSubscriptionStatuses.includes(s.status)
+    );
+  }
+
+  async getFollowerSubscription(subscriptionId: number, followerId: number): Promise<Subscription | undefined> {
+    return this.subscriptions.find(s => s.id === subscriptionId && s.followerId === followerId);
+  }
+
+  private appendHistory(subscription: Subscription, fromStatus: SubscriptionStatus | null, reason: string, paymentId: number | null) {
+    this.subscriptionHistory.insert({
+      subscriptionId: subscription.id,
+      fromStatus,
+      toStatus: subscription.status,
+      reason,
+      paymentId,
+      endDate: subscription.endDate,
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  async createSubscription(subscription: Omit<InsertSubscription, "id">): Promise<Subscription> {
+    if (subscription.status === 'pending' && this.subscriptions.find(s =>
+      s.followerId === subscription.followerId && s.creatorId === subscription.creatorId && s.status === 'pending'
+    )) {
+      throw new Error('UNIQUE constraint failed: subscriptions');
+    }
+    const now = new Date().toISOString();
+    const created = this.subscriptions.insert({
+      startDate: now,
+      endDate: null,
+      status: 'active',
+      renewalAttempts: 0,
+      nextRenewalAttemptAt: null,
+      pastDueSince: null,
+      ...subscription,
+      createdAt: subscription.createdAt ?? now,
+      updatedAt: subscription.updatedAt ?? now
+    });
+    this.appendHistory(created, null, 'created', null);
+    return created;
+  }
+
+  async transitionSubscription(
+    subscriptionId: number,
+    toStatus: SubscriptionStatus,
+    reason: string,
+    options: Omit<TransitionOptions, 'executor'> = {}
+  ): Promise<Subscription | undefined> {
+    const current = this.subscriptions.find(s => s.id === subscriptionId);
+    if (!current) {
+      return undefined;
+    }
+    const updated = this.subscriptions.update(subscriptionId, {
+      ...options.changes,
+      status: toStatus,
+      updatedAt: new Date().toISOString()
+    })!;
+    this.appendHistory(updated, current.status, reason, options.paymentId ?? null);
+    return updated;
+  }
+
+  async getSubscriptionHistory(subscriptionId: number): Promise<SubscriptionHistoryEntry[]> {
+    return this.subscriptionHistory.filter(entry => entry.subscriptionId === subscriptionId);
+  }
+
+  async getCompletedPurchase(followerId: number, contentId: number): Promise<ContentPurchase | undefined> {
+    return this.contentPurchases.find(p => p.followerId === followerId && p.contentId === contentId && p.status === 'completed');
+  }
+
+  async createContentPurchase(purchase: Omit<InsertContentPurchase, "id">): Promise<ContentPurchase> {
+    if (purchase.status === 'pending' && this.contentPurchases.find(p =>
+      p.followerId === purchase.followerId && p.contentId === purchase.contentId && p.status === 'pending'
+    )) {
+      throw new Error('UNIQUE constraint failed: content_purchases');
+    }
+    const now = new Date().toISOString();
+    return this.contentPurchases.insert({
+      status: 'completed',
+      ...purchase,
+      purchaseDate: purchase.purchaseDate ?? now,
+      createdAt: purchase.createdAt ?? now,
+      updatedAt: purchase.updatedAt ?? now
+    });
+  }
+
+  async updateContentPurchaseStatus(id: number, status: ContentPurchaseStatus): Promise<ContentPurchase | undefined> {
+    return this.contentPurchases.update(id, { status, updatedAt: new Date().toISOString() });
+  }
+}
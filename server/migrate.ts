@@ -0,0 +1,46 @@
+import 'dotenv/config';
+import { db } from './db';
+import { closePostgres, getPostgres, usePostgres } from './pg';
+import { migrations } from './migrations';
+import { postgresMigrations } from './migrations/postgres';
+import { getMigrationStatus, runMigrations, MigrationError, type MigrationStatus } from './migrations/runner';
+import { getPgMigrationStatus, runPgMigrations } from './migrations/pg-runner';
+
+// Usage: tsx server/migrate.ts [up|status] [--dry-run], from the project root like `npm start`
+// Migrates the database DATABASE_URL selects: Postgres for a postgres:// URL, otherwise the SQLite file.
+const args = process.argv.slice(2);
+const command = args.find(arg => !arg.startsWith('--')) ?? 'up';
+const dryRun = args.includes('--dry-run');
+
+function printStatus(label: string, status: MigrationStatus[]) {
+  console.log(label);
+  for (const entry of status) {
+    console.log(`  ${String(entry.version).padStart(4, '0')}_${entry.name.padEnd(32)} ${entry.state.padEnd(18)} ${entry.appliedAt ?? ''}`);
+  }
+  return status.every(entry => entry.state === 'applied');
+}
+
+async function main() {
+  if (command === 'status') {
+    const current = usePostgres
+      ? printStatus('Postgres:', await getPgMigrationStatus(getPostgres().pool, postgresMigrations))
+      : printStatus('SQLite:', getMigrationStatus(db.$client, migrations));
+    process.exitCode = current ? 0 : 1;
+  } else if (command === 'up') {
+    if (usePostgres) {
+      await runPgMigrations(getPostgres().pool, postgresMigrations, { dryRun });
+    } else {
+      runMigrations(db.$client, migrations, { dryRun });
+    }
+  } else {
+    console.error(`Unknown command "${command}". Use "up" or "status".`);
+    process.exitCode = 2;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof MigrationError ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(closePostgres);
@@ -0,0 +1,20 @@
+import type { Migration } from './runner';
+
+// Processing state and renditions for uploaded videos. No database can have these
+// columns before this migration, so they're plain ALTERs rather than addColumns.
+const migration: Migration = {
+  version: 3,
+  name: 'content_video_processing',
+  sql: `
+    ALTER TABLE content ADD COLUMN processing_status TEXT NOT NULL DEFAULT 'ready';
+    ALTER TABLE content ADD COLUMN processing_error TEXT;
+    ALTER TABLE content ADD COLUMN duration_seconds REAL;
+    ALTER TABLE content ADD COLUMN width INTEGER;
+    ALTER TABLE content ADD COLUMN height INTEGER;
+    ALTER TABLE content ADD COLUMN preview_url TEXT;
+    ALTER TABLE content ADD COLUMN hls_url TEXT;
+    CREATE INDEX IF NOT EXISTS content_processing_status_idx ON content (processing_status);
+  `
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import type { Migration } from './runner';
+
+// Blurred teaser image and BlurHash placeholder for locked premium items
+const migration: Migration = {
+  version: 4,
+  name: 'media_teasers',
+  sql: `
+    ALTER TABLE gallery ADD COLUMN teaser_url TEXT;
+    ALTER TABLE gallery ADD COLUMN blur_hash TEXT;
+    ALTER TABLE content ADD COLUMN teaser_url TEXT;
+    ALTER TABLE content ADD COLUMN blur_hash TEXT;
+  `
+};
+
+export default migration;
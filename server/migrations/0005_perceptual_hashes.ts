@@ -0,0 +1,13 @@
+import type { Migration } from './runner';
+
+// Perceptual hash per item, for near-duplicate detection
+const migration: Migration = {
+  version: 5,
+  name: 'perceptual_hashes',
+  sql: `
+    ALTER TABLE gallery ADD COLUMN perceptual_hash TEXT;
+    ALTER TABLE content ADD COLUMN perceptual_hash TEXT;
+  `
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import type { Migration } from './runner';
+
+// Quarantined orphan files and reports from the media reconciliation job
+const migration: Migration = {
+  version: 7,
+  name: 'media_reconciliation',
+  sql: `
+    CREATE TABLE IF NOT EXISTS media_quarantine (
+      id INTEGER PRIMARY KEY,
+      key TEXT NOT NULL,
+      quarantine_key TEXT NOT NULL UNIQUE,
+      size INTEGER NOT NULL,
+      reason TEXT NOT NULL,
+      quarantined_at TEXT NOT NULL,
+      delete_after TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS media_quarantine_delete_after_idx ON media_quarantine (delete_after);
+    CREATE TABLE IF NOT EXISTS media_reconciliation_runs (
+      id INTEGER PRIMARY KEY,
+      report TEXT NOT NULL,
+      dry_run INTEGER NOT NULL DEFAULT 0,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL
+    );
+  `
+};
+
+export default migration;
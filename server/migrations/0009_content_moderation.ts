@@ -0,0 +1,16 @@
+import type { Migration } from './runner';
+
+// Approval state for creator posts; existing posts stay published
+const migration: Migration = {
+  version: 9,
+  name: 'content_moderation',
+  sql: `
+    ALTER TABLE content ADD COLUMN moderation_status TEXT NOT NULL DEFAULT 'approved';
+    ALTER TABLE content ADD COLUMN moderation_reason TEXT;
+    ALTER TABLE content ADD COLUMN moderated_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+    ALTER TABLE content ADD COLUMN moderated_at TEXT;
+    CREATE INDEX IF NOT EXISTS content_moderation_status_idx ON content (moderation_status, created_at);
+  `
+};
+
+export default migration;
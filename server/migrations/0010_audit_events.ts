@@ -0,0 +1,37 @@
+import type { Migration } from './runner';
+
+// Append-only log of privileged mutations; the triggers keep it that way
+const migration: Migration = {
+  version: 10,
+  name: 'audit_events',
+  sql: `
+    CREATE TABLE IF NOT EXISTS audit_events (
+      id INTEGER PRIMARY KEY,
+      actor_id INTEGER,
+      actor_email TEXT,
+      action TEXT NOT NULL,
+      method TEXT NOT NULL,
+      path TEXT NOT NULL,
+      status_code INTEGER NOT NULL,
+      target_type TEXT,
+      target_id TEXT,
+      changes TEXT,
+      ip_address TEXT,
+      user_agent TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS audit_events_created_at_idx ON audit_events (created_at);
+    CREATE INDEX IF NOT EXISTS audit_events_actor_idx ON audit_events (actor_id, created_at);
+    CREATE INDEX IF NOT EXISTS audit_events_target_idx ON audit_events (target_type, target_id);
+    CREATE TRIGGER IF NOT EXISTS audit_events_no_update BEFORE UPDATE ON audit_events
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_events is append-only');
+    END;
+    CREATE TRIGGER IF NOT EXISTS audit_events_no_delete BEFORE DELETE ON audit_events
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_events is append-only');
+    END;
+  `
+};
+
+export default migration;
@@ -0,0 +1,13 @@
+import type { Migration } from './runner';
+
+// Running total of what's been refunded, so a partial refund doesn't count as a full one
+const migration: Migration = {
+  version: 11,
+  name: 'partial_refunds',
+  sql: `
+    ALTER TABLE payments ADD COLUMN refunded_amount REAL NOT NULL DEFAULT 0;
+    UPDATE payments SET refunded_amount = amount WHERE status = 'refunded';
+  `
+};
+
+export default migration;
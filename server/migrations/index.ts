@@ -1,17 +1,30 @@
-import createModelsTable from './create-models-table';
+import type { Migration } from './runner';
+import baseline from './0001_baseline';
+import mediaVariants from './0002_media_variants';
+import contentVideoProcessing from './0003_content_video_processing';
+import mediaTeasers from './0004_media_teasers';
+import perceptualHashes from './0005_perceptual_hashes';
+import uploadSessions from './0006_upload_sessions';
+import mediaReconciliation from './0007_media_reconciliation';
+import contentReports from './0008_content_reports';
+import contentModeration from './0009_content_moderation';
+import auditEvents from './0010_audit_events';
+import partialRefunds from './0011_partial_refunds';
+import pendingPaymentUniqueness from './0012_pending_payment_uniqueness';
 
-async function runMigrations() {
-  console.log('Running database migrations...');
-  
-  try {
-    // Run migrations in sequence
-    await createModelsTable();
-    
-    console.log('All migrations completed successfully');
-  } catch (error) {
-    console.error('Error running migrations:', error);
-    process.exit(1);
-  }
-}
-
-export default runMigrations;
+// Every schema change goes here as a new, higher-numbered migration, with the
+// Postgres version of it under the same number in ./postgres
+export const migrations: Migration[] = [
+  baseline,
+  mediaVariants,
+  contentVideoProcessing,
+  mediaTeasers,
+  perceptualHashes,
+  uploadSessions,
+  mediaReconciliation,
+  contentReports,
+  contentModeration,
+  auditEvents,
+  partialRefunds,
+  pendingPaymentUniqueness
+];
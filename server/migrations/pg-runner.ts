@@ -0,0 +1,103 @@
+import type { Pool } from '@neondatabase/serverless';
+import {
+  LEDGER_TABLE_SQL,
+  MigrationError,
+  assertLedgerConsistent,
+  assertStatusCurrent,
+  computeMigrationStatus,
+  migrationChecksum,
+  sortMigrations,
+  type LedgerRow,
+  type Migration,
+  type MigrationStatus
+} from './runner';
+
+// Postgres counterpart of runner.ts. Postgres DDL is transactional too, so each migration
+// commits together with its ledger row exactly as it does on SQLite.
+
+// Arbitrary key for pg_advisory_xact_lock, so two instances starting at once don't both migrate
+const MIGRATION_LOCK_KEY = 72_616_269;
+
+async function readLedger(pool: Pool) {
+  await pool.query(LEDGER_TABLE_SQL);
+  const { rows } = await pool.query<LedgerRow>('SELECT version, name, checksum, applied_at FROM schema_migrations');
+  return rows;
+}
+
+export async function getPgMigrationStatus(pool: Pool, migrations: Migration[]): Promise<MigrationStatus[]> {
+  return computeMigrationStatus(await readLedger(pool), migrations);
+}
+
+export async function runPgMigrations(
+  pool: Pool,
+  migrations: Migration[],
+  options: { dryRun?: boolean; log?: (message: string) => void } = {}
+): Promise<Migration[]> {
+  const log = options.log ?? console.log;
+  const status = await getPgMigrationStatus(pool, migrations);
+  assertLedgerConsistent(status);
+
+  const pendingVersions = new Set(status.filter(entry => entry.state === 'pending').map(entry => entry.version));
+  const pending = sortMigrations(migrations).filter(migration => pendingVersions.has(migration.version));
+  if (pending.length === 0) {
+    log('Database schema is up to date');
+    return [];
+  }
+
+  const client = await pool.connect();
+  const apply = async (migration: Migration) => {
+    const startedAt = Date.now();
+    await client.query(migration.sql);
+    // Postgres supports ADD COLUMN IF NOT EXISTS, so no table inspection is needed
+    for (const { table, column, definition } of migration.addColumns ?? []) {
+      await client.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${column} ${definition}`);
+    }
+    await client.query(
+      'INSERT INTO schema_migrations (version, name, checksum, applied_at, duration_ms) VALUES ($1, $2, $3, $4, $5)',
+      [migration.version, migration.name, migrationChecksum(migration), new Date().toISOString(), Date.now() - startedAt]
+    );
+  };
+
+  try {
+    if (options.dryRun) {
+      await client.query('BEGIN');
+      try {
+        for (const migration of pending) {
+          await apply(migration);
+          log(`[dry run] ${migration.version}_${migration.name} would be applied`);
+        }
+      } finally {
+        await client.query('ROLLBACK');
+      }
+      return pending;
+    }
+
+    for (const migration of pending) {
+      await client.query('BEGIN');
+      try {
+        await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+        // Another instance may have applied it while we waited for the lock
+        const applied = await client.query('SELECT 1 FROM schema_migrations WHERE version = $1', [migration.version]);
+        if (applied.rows.length > 0) {
+          await client.query('COMMIT');
+          continue;
+        }
+        await apply(migration);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new MigrationError(
+          `Migration ${migration.version}_${migration.name} failed and was rolled back: ${error instanceof Error ? error.message : error}`
+        );
+      }
+      log(`Applied migration ${migration.version}_${migration.name}`);
+    }
+    return pending;
+  } finally {
+    client.release();
+  }
+}
+
+export async function assertPgSchemaCurrent(pool: Pool, migrations: Migration[]) {
+  assertStatusCurrent(await getPgMigrationStatus(pool, migrations));
+}
@@ -0,0 +1,250 @@
+import type { Migration } from '../runner';
+
+// Timestamps are stored as ISO-8601 text, matching the SQLite schema
+const ISO_NOW = `to_char(now() AT TIME ZONE 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')`;
+
+// Postgres version of ../0001_baseline.ts. There are no legacy Postgres databases to adopt,
+// so it creates the schema outright.
+const migration: Migration = {
+  version: 1,
+  name: 'baseline',
+  sql: `
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      password TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'follower',
+      username TEXT UNIQUE,
+      display_name TEXT,
+      avatar_url TEXT,
+      bio TEXT,
+      verified INTEGER DEFAULT 0,
+      is_approved INTEGER DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT ${ISO_NOW},
+      profile_id INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS models (
+      id SERIAL PRIMARY KEY,
+      first_name TEXT NOT NULL,
+      last_name TEXT NOT NULL,
+      email TEXT NOT NULL,
+      phone TEXT NOT NULL,
+      date_of_birth TEXT NOT NULL,
+      alias_name TEXT,
+      social_platforms JSONB NOT NULL,
+      social_handles TEXT,
+      only_fans_link TEXT,
+      body_photo_url TEXT NOT NULL,
+      license_photo_url TEXT NOT NULL,
+      terms_accepted JSONB NOT NULL,
+      status TEXT NOT NULL DEFAULT 'new',
+      reviewer_notes TEXT,
+      reviewed_by INTEGER,
+      reviewed_at TEXT,
+      user_id INTEGER,
+      created_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS gallery (
+      id SERIAL PRIMARY KEY,
+      url TEXT NOT NULL,
+      title TEXT NOT NULL,
+      type TEXT NOT NULL DEFAULT 'gallery',
+      content_rating TEXT NOT NULL DEFAULT 'sfw',
+      is_premium BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TEXT NOT NULL,
+      tags JSONB NOT NULL DEFAULT '[]',
+      instagram TEXT,
+      tiktok TEXT,
+      twitter TEXT,
+      onlyfans TEXT,
+      description TEXT
+    );
+    CREATE INDEX IF NOT EXISTS gallery_tags_idx ON gallery USING GIN (tags);
+
+    CREATE TABLE IF NOT EXISTS creator_profiles (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL UNIQUE REFERENCES users(id),
+      alias_name TEXT,
+      instagram TEXT,
+      twitter TEXT,
+      tiktok TEXT,
+      onlyfans TEXT,
+      featured_image_url TEXT,
+      monthly_subscription_price DOUBLE PRECISION NOT NULL DEFAULT 0,
+      per_post_price DOUBLE PRECISION NOT NULL DEFAULT 0,
+      approval_status TEXT NOT NULL DEFAULT 'pending',
+      approval_date TEXT,
+      approved_by INTEGER REFERENCES users(id),
+      rejection_reason TEXT,
+      created_at TEXT NOT NULL DEFAULT ${ISO_NOW}
+    );
+
+    CREATE TABLE IF NOT EXISTS follower_profiles (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL UNIQUE REFERENCES users(id),
+      preferences JSONB,
+      created_at TEXT NOT NULL DEFAULT ${ISO_NOW}
+    );
+
+    CREATE TABLE IF NOT EXISTS content (
+      id SERIAL PRIMARY KEY,
+      creator_id INTEGER NOT NULL REFERENCES users(id),
+      title TEXT NOT NULL,
+      description TEXT,
+      content_type TEXT NOT NULL,
+      url TEXT NOT NULL,
+      thumbnail_url TEXT,
+      is_premium BOOLEAN DEFAULT FALSE,
+      price DOUBLE PRECISION,
+      created_at TEXT NOT NULL DEFAULT ${ISO_NOW},
+      updated_at TEXT NOT NULL DEFAULT ${ISO_NOW}
+    );
+    CREATE INDEX IF NOT EXISTS content_creator_id_idx ON content (creator_id, created_at);
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      sid TEXT PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      sess JSONB NOT NULL,
+      expires_at BIGINT NOT NULL,
+      ip_address TEXT,
+      user_agent TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions (user_id);
+    CREATE INDEX IF NOT EXISTS sessions_expires_at_idx ON sessions (expires_at);
+
+    CREATE TABLE IF NOT EXISTS auth_tokens (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      type TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at TEXT NOT NULL,
+      used_at TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS auth_tokens_user_id_idx ON auth_tokens (user_id, type);
+
+    CREATE TABLE IF NOT EXISTS two_factor_credentials (
+      user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      secret TEXT NOT NULL,
+      enabled_at TEXT,
+      last_used_step INTEGER,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      code_hash TEXT NOT NULL,
+      used_at TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS two_factor_recovery_codes_user_id_idx ON two_factor_recovery_codes (user_id);
+
+    CREATE TABLE IF NOT EXISTS login_attempts (
+      id SERIAL PRIMARY KEY,
+      kind TEXT NOT NULL,
+      email TEXT,
+      ip_address TEXT,
+      user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      success BOOLEAN NOT NULL,
+      reason TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS login_attempts_email_idx ON login_attempts (email, created_at);
+    CREATE INDEX IF NOT EXISTS login_attempts_ip_idx ON login_attempts (ip_address, created_at);
+
+    CREATE TABLE IF NOT EXISTS account_lockouts (
+      email TEXT PRIMARY KEY,
+      locked_until TEXT,
+      locked_at TEXT NOT NULL,
+      unlocked_at TEXT,
+      unlocked_by INTEGER REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS platform_settings (
+      key TEXT PRIMARY KEY,
+      value JSONB NOT NULL,
+      updated_by INTEGER REFERENCES users(id),
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS subscriptions (
+      id SERIAL PRIMARY KEY,
+      follower_id INTEGER NOT NULL REFERENCES users(id),
+      creator_id INTEGER NOT NULL REFERENCES users(id),
+      type TEXT NOT NULL,
+      start_date TEXT NOT NULL,
+      end_date TEXT,
+      amount DOUBLE PRECISION NOT NULL,
+      status TEXT NOT NULL DEFAULT 'active',
+      renewal_attempts INTEGER NOT NULL DEFAULT 0,
+      next_renewal_attempt_at TEXT,
+      past_due_since TEXT,
+      created_at TEXT NOT NULL DEFAULT ${ISO_NOW},
+      updated_at TEXT NOT NULL DEFAULT ${ISO_NOW}
+    );
+    CREATE INDEX IF NOT EXISTS subscriptions_follower_id_idx ON subscriptions (follower_id);
+    CREATE INDEX IF NOT EXISTS subscriptions_creator_id_idx ON subscriptions (creator_id);
+    CREATE INDEX IF NOT EXISTS subscriptions_status_end_date_idx ON subscriptions (status, end_date);
+
+    CREATE TABLE IF NOT EXISTS subscription_history (
+      id SERIAL PRIMARY KEY,
+      subscription_id INTEGER NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      payment_id INTEGER,
+      end_date TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS subscription_history_subscription_id_idx ON subscription_history (subscription_id, created_at);
+
+    CREATE TABLE IF NOT EXISTS content_purchases (
+      id SERIAL PRIMARY KEY,
+      content_id INTEGER NOT NULL REFERENCES content(id),
+      follower_id INTEGER NOT NULL REFERENCES users(id),
+      amount DOUBLE PRECISION NOT NULL,
+      status TEXT NOT NULL DEFAULT 'completed',
+      purchase_date TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT ${ISO_NOW},
+      updated_at TEXT NOT NULL DEFAULT ${ISO_NOW}
+    );
+    CREATE INDEX IF NOT EXISTS content_purchases_follower_id_idx ON content_purchases (follower_id, content_id);
+
+    CREATE TABLE IF NOT EXISTS payment_customers (
+      user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      provider TEXT NOT NULL,
+      customer_id TEXT NOT NULL,
+      default_payment_method_id TEXT,
+      card_brand TEXT,
+      card_last4 TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS payments (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      provider TEXT NOT NULL,
+      provider_charge_id TEXT,
+      amount DOUBLE PRECISION NOT NULL,
+      currency TEXT NOT NULL,
+      status TEXT NOT NULL,
+      failure_code TEXT,
+      failure_message TEXT,
+      description TEXT NOT NULL,
+      subscription_id INTEGER REFERENCES subscriptions(id),
+      content_purchase_id INTEGER REFERENCES content_purchases(id),
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS payments_user_id_idx ON payments (user_id);
+    CREATE INDEX IF NOT EXISTS payments_provider_charge_id_idx ON payments (provider_charge_id);
+  `
+};
+
+export default migration;
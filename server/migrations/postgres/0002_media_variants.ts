@@ -0,0 +1,24 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0002_media_variants.ts
+const migration: Migration = {
+  version: 2,
+  name: 'media_variants',
+  sql: `
+    CREATE TABLE IF NOT EXISTS media_variants (
+      id SERIAL PRIMARY KEY,
+      media_kind TEXT NOT NULL,
+      media_id INTEGER NOT NULL,
+      variant TEXT NOT NULL,
+      format TEXT NOT NULL,
+      width INTEGER NOT NULL,
+      height INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      bytes INTEGER NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS media_variants_media_idx ON media_variants (media_kind, media_id);
+  `
+};
+
+export default migration;
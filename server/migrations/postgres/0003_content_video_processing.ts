@@ -0,0 +1,19 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0003_content_video_processing.ts
+const migration: Migration = {
+  version: 3,
+  name: 'content_video_processing',
+  sql: `
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS processing_status TEXT NOT NULL DEFAULT 'ready';
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS processing_error TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS duration_seconds DOUBLE PRECISION;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS width INTEGER;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS height INTEGER;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS preview_url TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS hls_url TEXT;
+    CREATE INDEX IF NOT EXISTS content_processing_status_idx ON content (processing_status);
+  `
+};
+
+export default migration;
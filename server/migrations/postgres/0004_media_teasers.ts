@@ -0,0 +1,15 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0004_media_teasers.ts
+const migration: Migration = {
+  version: 4,
+  name: 'media_teasers',
+  sql: `
+    ALTER TABLE gallery ADD COLUMN IF NOT EXISTS teaser_url TEXT;
+    ALTER TABLE gallery ADD COLUMN IF NOT EXISTS blur_hash TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS teaser_url TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS blur_hash TEXT;
+  `
+};
+
+export default migration;
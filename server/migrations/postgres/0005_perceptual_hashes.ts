@@ -0,0 +1,13 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0005_perceptual_hashes.ts
+const migration: Migration = {
+  version: 5,
+  name: 'perceptual_hashes',
+  sql: `
+    ALTER TABLE gallery ADD COLUMN IF NOT EXISTS perceptual_hash TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS perceptual_hash TEXT;
+  `
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0006_upload_sessions.ts
+const migration: Migration = {
+  version: 6,
+  name: 'upload_sessions',
+  sql: `
+    CREATE TABLE IF NOT EXISTS upload_sessions (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      filename TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size BIGINT NOT NULL,
+      received_bytes BIGINT NOT NULL DEFAULT 0,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS upload_sessions_expires_at_idx ON upload_sessions (expires_at);
+  `
+};
+
+export default migration;
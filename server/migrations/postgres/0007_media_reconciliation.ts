@@ -0,0 +1,28 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0007_media_reconciliation.ts
+const migration: Migration = {
+  version: 7,
+  name: 'media_reconciliation',
+  sql: `
+    CREATE TABLE IF NOT EXISTS media_quarantine (
+      id SERIAL PRIMARY KEY,
+      key TEXT NOT NULL,
+      quarantine_key TEXT NOT NULL UNIQUE,
+      size BIGINT NOT NULL,
+      reason TEXT NOT NULL,
+      quarantined_at TEXT NOT NULL,
+      delete_after TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS media_quarantine_delete_after_idx ON media_quarantine (delete_after);
+    CREATE TABLE IF NOT EXISTS media_reconciliation_runs (
+      id SERIAL PRIMARY KEY,
+      report JSONB NOT NULL,
+      dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL
+    );
+  `
+};
+
+export default migration;
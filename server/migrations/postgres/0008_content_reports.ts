@@ -0,0 +1,37 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0008_content_reports.ts
+const migration: Migration = {
+  version: 8,
+  name: 'content_reports',
+  sql: `
+    ALTER TABLE gallery ADD COLUMN IF NOT EXISTS hidden_at TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS hidden_at TEXT;
+    CREATE TABLE IF NOT EXISTS reports (
+      id SERIAL PRIMARY KEY,
+      media_kind TEXT NOT NULL,
+      media_id INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open',
+      report_count INTEGER NOT NULL DEFAULT 0,
+      auto_hidden BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TEXT NOT NULL,
+      last_reported_at TEXT NOT NULL,
+      resolved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      resolved_at TEXT,
+      resolution_note TEXT
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS reports_open_media_idx ON reports (media_kind, media_id) WHERE status = 'open';
+    CREATE INDEX IF NOT EXISTS reports_status_idx ON reports (status, last_reported_at);
+    CREATE TABLE IF NOT EXISTS report_entries (
+      id SERIAL PRIMARY KEY,
+      report_id INTEGER NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+      reporter_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      reason TEXT NOT NULL,
+      details TEXT,
+      created_at TEXT NOT NULL,
+      UNIQUE (report_id, reporter_id)
+    );
+  `
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0009_content_moderation.ts
+const migration: Migration = {
+  version: 9,
+  name: 'content_moderation',
+  sql: `
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved';
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS moderation_reason TEXT;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS moderated_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+    ALTER TABLE content ADD COLUMN IF NOT EXISTS moderated_at TEXT;
+    CREATE INDEX IF NOT EXISTS content_moderation_status_idx ON content (moderation_status, created_at);
+  `
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0010_audit_events.ts
+const migration: Migration = {
+  version: 10,
+  name: 'audit_events',
+  sql: `
+    CREATE TABLE IF NOT EXISTS audit_events (
+      id SERIAL PRIMARY KEY,
+      actor_id INTEGER,
+      actor_email TEXT,
+      action TEXT NOT NULL,
+      method TEXT NOT NULL,
+      path TEXT NOT NULL,
+      status_code INTEGER NOT NULL,
+      target_type TEXT,
+      target_id TEXT,
+      changes JSONB,
+      ip_address TEXT,
+      user_agent TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS audit_events_created_at_idx ON audit_events (created_at);
+    CREATE INDEX IF NOT EXISTS audit_events_actor_idx ON audit_events (actor_id, created_at);
+    CREATE INDEX IF NOT EXISTS audit_events_target_idx ON audit_events (target_type, target_id);
+    CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_events is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+    DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+    CREATE TRIGGER audit_events_append_only BEFORE UPDATE OR DELETE ON audit_events
+      FOR EACH ROW EXECUTE FUNCTION audit_events_append_only();
+  `
+};
+
+export default migration;
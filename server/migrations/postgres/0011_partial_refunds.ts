@@ -0,0 +1,13 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0011_partial_refunds.ts
+const migration: Migration = {
+  version: 11,
+  name: 'partial_refunds',
+  sql: `
+    ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount DOUBLE PRECISION NOT NULL DEFAULT 0;
+    UPDATE payments SET refunded_amount = amount WHERE status = 'refunded';
+  `
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import type { Migration } from '../runner';
+
+// Postgres version of ../0012_pending_payment_uniqueness.ts
+const migration: Migration = {
+  version: 12,
+  name: 'pending_payment_uniqueness',
+  sql: `
+    UPDATE subscriptions SET status = 'payment_failed'
+      WHERE status = 'pending'
+        AND id NOT IN (SELECT MAX(id) FROM subscriptions WHERE status = 'pending' GROUP BY follower_id, creator_id);
+    UPDATE content_purchases SET status = 'failed'
+      WHERE status = 'pending'
+        AND id NOT IN (SELECT MAX(id) FROM content_purchases WHERE status = 'pending' GROUP BY follower_id, content_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS subscriptions_pending_idx ON subscriptions (follower_id, creator_id) WHERE status = 'pending';
+    CREATE UNIQUE INDEX IF NOT EXISTS content_purchases_pending_idx ON content_purchases (follower_id, content_id) WHERE status = 'pending';
+  `
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+import type { Migration } from '../runner';
+import baseline from './0001_baseline';
+import mediaVariants from './0002_media_variants';
+import contentVideoProcessing from './0003_content_video_processing';
+import mediaTeasers from './0004_media_teasers';
+import perceptualHashes from './0005_perceptual_hashes';
+import uploadSessions from './0006_upload_sessions';
+import mediaReconciliation from './0007_media_reconciliation';
+import contentReports from './0008_content_reports';
+import contentModeration from './0009_content_moderation';
+import auditEvents from './0010_audit_events';
+import partialRefunds from './0011_partial_refunds';
+import pendingPaymentUniqueness from './0012_pending_payment_uniqueness';
+
+// Mirrors ../index.ts: every SQLite migration gets a Postgres counterpart with the same version
+export const postgresMigrations: Migration[] = [
+  baseline,
+  mediaVariants,
+  contentVideoProcessing,
+  mediaTeasers,
+  perceptualHashes,
+  uploadSessions,
+  mediaReconciliation,
+  contentReports,
+  contentModeration,
+  auditEvents,
+  partialRefunds,
+  pendingPaymentUniqueness
+];
@@ -0,0 +1,211 @@
+import { createHash } from 'crypto';
+import type { db } from '../db';
+
+export interface ColumnAddition {
+  table: string;
+  column: string;
+  definition: string;
+}
+
+export interface Migration {
+  // Applied in ascending order; never renumber or edit a migration once it has shipped
+  version: number;
+  name: string;
+  // One or more SQL statements
+  sql: string;
+  // Columns that tables created before this migration may be missing. SQLite has no
+  // ADD COLUMN IF NOT EXISTS, so these are checked against the table definition.
+  addColumns?: ColumnAddition[];
+}
+
+export type MigrationState = 'applied' | 'pending' | 'checksum_mismatch' | 'unknown';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt: string | null;
+}
+
+export interface LedgerRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+// The better-sqlite3 connection underneath drizzle
+type SqliteConnection = typeof db.$client;
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// Rolls back a dry run once every pending migration has executed
+class DryRunRollback extends Error {}
+
+export function migrationChecksum(migration: Migration) {
+  return createHash('sha256')
+    .update(JSON.stringify({ sql: migration.sql, addColumns: migration.addColumns ?? [] }))
+    .digest('hex');
+}
+
+// Valid in both SQLite and Postgres
+export const LEDGER_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TEXT NOT NULL,
+    duration_ms INTEGER NOT NULL
+  );
+`;
+
+function readLedger(sqlite: SqliteConnection) {
+  sqlite.exec(LEDGER_TABLE_SQL);
+  return sqlite.prepare('SELECT version, name, checksum, applied_at FROM schema_migrations').all() as LedgerRow[];
+}
+
+export function sortMigrations(migrations: Migration[]) {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  sorted.forEach((migration, index) => {
+    if (index > 0 && sorted[index - 1].version === migration.version) {
+      throw new MigrationError(`Duplicate migration version ${migration.version}`);
+    }
+  });
+  return sorted;
+}
+
+// Compares the ledger rows with the migrations this build ships
+export function computeMigrationStatus(rows: LedgerRow[], migrations: Migration[]): MigrationStatus[] {
+  const ledger = new Map(rows.map(row => [row.version, row]));
+  const known = sortMigrations(migrations).map((migration): MigrationStatus => {
+    const row = ledger.get(migration.version);
+    if (!row) {
+      return { version: migration.version, name: migration.name, state: 'pending', appliedAt: null };
+    }
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: row.checksum === migrationChecksum(migration) ? 'applied' : 'checksum_mismatch',
+      appliedAt: row.applied_at
+    };
+  });
+
+  // Applied by a newer build than this one
+  const unknown = Array.from(ledger.values())
+    .filter(row => !migrations.some(migration => migration.version === row.version))
+    .map((row): MigrationStatus => ({ version: row.version, name: row.name, state: 'unknown', appliedAt: row.applied_at }));
+
+  return [...known, ...unknown].sort((a, b) => a.version - b.version);
+}
+
+export function getMigrationStatus(sqlite: SqliteConnection, migrations: Migration[]): MigrationStatus[] {
+  return computeMigrationStatus(readLedger(sqlite), migrations);
+}
+
+export function assertLedgerConsistent(status: MigrationStatus[]) {
+  const mismatched = status.filter(entry => entry.state === 'checksum_mismatch');
+  if (mismatched.length > 0) {
+    throw new MigrationError(
+      `Applied migrations have been modified: ${mismatched.map(entry => `${entry.version}_${entry.name}`).join(', ')}. ` +
+      'Add a new migration instead of editing one that has shipped.'
+    );
+  }
+  const unknown = status.filter(entry => entry.state === 'unknown');
+  if (unknown.length > 0) {
+    throw new MigrationError(
+      `Database has migrations this build doesn't know about: ${unknown.map(entry => `${entry.version}_${entry.name}`).join(', ')}`
+    );
+  }
+}
+
+function addColumnIfMissing(sqlite: SqliteConnection, { table, column, definition }: ColumnAddition) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Applies pending migrations in version order, each in its own transaction together with its
+ * ledger row. A dry run executes them all in one transaction and rolls it back, so the SQL is
+ * checked against the real database without changing it. Returns the migrations that ran.
+ */
+export function runMigrations(
+  sqlite: SqliteConnection,
+  migrations: Migration[],
+  options: { dryRun?: boolean; log?: (message: string) => void } = {}
+): Migration[] {
+  const log = options.log ?? console.log;
+  const status = getMigrationStatus(sqlite, migrations);
+  assertLedgerConsistent(status);
+
+  const pendingVersions = new Set(status.filter(entry => entry.state === 'pending').map(entry => entry.version));
+  const pending = sortMigrations(migrations).filter(migration => pendingVersions.has(migration.version));
+  if (pending.length === 0) {
+    log('Database schema is up to date');
+    return [];
+  }
+
+  const insertLedgerRow = sqlite.prepare(
+    'INSERT INTO schema_migrations (version, name, checksum, applied_at, duration_ms) VALUES (?, ?, ?, ?, ?)'
+  );
+  const apply = (migration: Migration) => {
+    const startedAt = Date.now();
+    sqlite.exec(migration.sql);
+    for (const addition of migration.addColumns ?? []) {
+      addColumnIfMissing(sqlite, addition);
+    }
+    insertLedgerRow.run(migration.version, migration.name, migrationChecksum(migration), new Date().toISOString(), Date.now() - startedAt);
+  };
+
+  if (options.dryRun) {
+    try {
+      sqlite.transaction(() => {
+        for (const migration of pending) {
+          apply(migration);
+          log(`[dry run] ${migration.version}_${migration.name} would be applied`);
+        }
+        throw new DryRunRollback();
+      })();
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) {
+        throw error;
+      }
+    }
+    return pending;
+  }
+
+  for (const migration of pending) {
+    try {
+      sqlite.transaction(() => apply(migration))();
+    } catch (error) {
+      throw new MigrationError(
+        `Migration ${migration.version}_${migration.name} failed and was rolled back: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    log(`Applied migration ${migration.version}_${migration.name}`);
+  }
+  return pending;
+}
+
+// Startup guard: serving requests against an older schema fails in confusing ways later
+export function assertSchemaCurrent(sqlite: SqliteConnection, migrations: Migration[]) {
+  assertStatusCurrent(getMigrationStatus(sqlite, migrations));
+}
+
+export function assertStatusCurrent(status: MigrationStatus[]) {
+  assertLedgerConsistent(status);
+
+  const pending = status.filter(entry => entry.state === 'pending');
+  if (pending.length > 0) {
+    throw new MigrationError(
+      `Database schema is behind by ${pending.length} migration(s) (${pending.map(entry => `${entry.version}_${entry.name}`).join(', ')}). ` +
+      'Run `npm run migrate` before starting the server, or set AUTO_MIGRATE=true.'
+    );
+  }
+}
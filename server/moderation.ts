@@ -0,0 +1,474 @@
+import { and, count, desc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import { getPostgres, usePostgres } from "./pg";
+import {
+  reportEntries,
+  reports,
+  users,
+  type Report,
+  type ReportReason,
+  type ReportStatus,
+  type User
+} from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import { getPlatformSettings } from "./settings";
+import { signMediaUrl } from "./media/access";
+import {
+  deleteMediaFiles,
+  isMediaPrivate,
+  setMediaDirectoryVisibility,
+  setMediaVisibility,
+  type MediaKind
+} from "./media/private-store";
+import { publicMediaUrl } from "./media/store";
+import { deleteMediaVariants, setMediaVariantsVisibility } from "./media/variants";
+import { deleteVideoFiles, videoOutputDirUrl } from "./media/video-jobs";
+import {
+  deleteMediaItem,
+  findMediaItem,
+  updateContentMedia,
+  updateMediaItem,
+  type MediaItem as ReportedMedia
+} from "./media/items";
+
+// Reports shown with each case in the queue; the reason counts cover all of them
+const RECENT_ENTRIES_SHOWN = 5;
+
+export type ReportAction = 'resolve' | 'dismiss' | 'remove';
+
+const ACTION_STATUSES: Record<ReportAction, ReportStatus> = {
+  resolve: 'resolved',
+  dismiss: 'dismissed',
+  remove: 'removed'
+};
+
+export interface ReportQueueQuery {
+  status: ReportStatus;
+  page: number;
+  pageSize: number;
+}
+
+// What the moderation queue shows of a reported item; null once it has been deleted
+export interface ReportedMediaSummary {
+  kind: MediaKind;
+  id: number;
+  title: string;
+  // 'gallery' or 'featured' for gallery items, 'image' or 'video' for creator content
+  type: string;
+  creatorId: number | null;
+  isPremium: boolean;
+  hiddenAt: string | null;
+  // The image, or a video's poster frame, signed for the admin when it's private
+  previewUrl: string | null;
+}
+
+export type ReportQueueItem = Report & {
+  media: ReportedMediaSummary | null;
+  reasons: { reason: ReportReason; count: number }[];
+  recentEntries: {
+    reason: ReportReason;
+    details: string | null;
+    createdAt: string;
+    reporter: Pick<User, 'id' | 'username' | 'displayName'> | null;
+  }[];
+};
+
+export type ReportOutcome =
+  | { status: 201; report: Report; hidden: boolean }
+  | { status: 400 | 404 | 409; error: string; code?: string };
+
+export type ReportActionOutcome =
+  | { status: 200; report: Report }
+  | { status: 404 | 409; error: string; code?: string };
+
+interface NewReport {
+  mediaKind: MediaKind;
+  mediaId: number;
+  reporterId: number;
+  reason: ReportReason;
+  details: string | null;
+  createdAt: string;
+}
+
+interface ReportReasonCount {
+  reportId: number;
+  reason: ReportReason;
+  count: number;
+}
+
+type ReportEntryWithReporter = ReportQueueItem['recentEntries'][number] & { reportId: number };
+
+type ReportClosure = Pick<Report, 'status' | 'resolvedBy' | 'resolvedAt' | 'resolutionNote'>;
+
+// The reports and report_entries tables in whichever database DATABASE_URL selects
+interface ReportStore {
+  // Adds an entry to the item's open case, opening one if needed. Null if the reporter already reported it.
+  file(report: NewReport): Promise<Report | null>;
+  markAutoHidden(id: number): Promise<Report>;
+  get(id: number): Promise<Report | undefined>;
+  list(query: ReportQueueQuery): Promise<Report[]>;
+  count(status: ReportStatus): Promise<number>;
+  reasonCounts(reportIds: number[]): Promise<ReportReasonCount[]>;
+  // Newest first
+  entries(reportIds: number[]): Promise<ReportEntryWithReporter[]>;
+  close(id: number, closure: ReportClosure): Promise<Report>;
+}
+
+type ReportsTable = typeof reports | typeof pg.reports;
+type ReportEntriesTable = typeof reportEntries | typeof pg.reportEntries;
+
+function openReportConditions(table: ReportsTable, mediaKind: MediaKind, mediaId: number) {
+  return and(eq(table.mediaKind, mediaKind), eq(table.mediaId, mediaId), eq(table.status, 'open'));
+}
+
+function reporterEntryConditions(table: ReportEntriesTable, reportId: number, reporterId: number) {
+  return and(eq(table.reportId, reportId), eq(table.reporterId, reporterId));
+}
+
+class SqliteReportStore implements ReportStore {
+  async file({ mediaKind, mediaId, reporterId, reason, details, createdAt }: NewReport) {
+    return db.transaction(tx => {
+      const existing = tx.select().from(reports).where(openReportConditions(reports, mediaKind, mediaId)).get();
+      const open = existing ?? tx
+        .insert(reports)
+        .values({ mediaKind, mediaId, createdAt, lastReportedAt: createdAt })
+        .returning()
+        .get();
+
+      const duplicate = tx
+        .select({ id: reportEntries.id })
+        .from(reportEntries)
+        .where(reporterEntryConditions(reportEntries, open.id, reporterId))
+        .get();
+      if (duplicate) {
+        return null;
+      }
+
+      tx.insert(reportEntries)
+        .values({ reportId: open.id, reporterId, reason, details, createdAt })
+        .run();
+      return tx
+        .update(reports)
+        .set({ reportCount: sql`${reports.reportCount} + 1`, lastReportedAt: createdAt })
+        .where(eq(reports.id, open.id))
+        .returning()
+        .get();
+    });
+  }
+
+  async markAutoHidden(id: number) {
+    return db.update(reports).set({ autoHidden: true }).where(eq(reports.id, id)).returning().get();
+  }
+
+  async get(id: number) {
+    return db.select().from(reports).where(eq(reports.id, id)).get();
+  }
+
+  async list(query: ReportQueueQuery) {
+    return db
+      .select()
+      .from(reports)
+      .where(eq(reports.status, query.status))
+      .orderBy(desc(reports.lastReportedAt), desc(reports.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize)
+      .all();
+  }
+
+  async count(status: ReportStatus) {
+    const [{ total }] = db.select({ total: count() }).from(reports).where(eq(reports.status, status)).all();
+    return total;
+  }
+
+  async reasonCounts(reportIds: number[]) {
+    return db
+      .select({ reportId: reportEntries.reportId, reason: reportEntries.reason, count: count() })
+      .from(reportEntries)
+      .where(inArray(reportEntries.reportId, reportIds))
+      .groupBy(reportEntries.reportId, reportEntries.reason)
+      .all();
+  }
+
+  async entries(reportIds: number[]) {
+    return db
+      .select({
+        reportId: reportEntries.reportId,
+        reason: reportEntries.reason,
+        details: reportEntries.details,
+        createdAt: reportEntries.createdAt,
+        reporter: { id: users.id, username: users.username, displayName: users.displayName }
+      })
+      .from(reportEntries)
+      .leftJoin(users, eq(users.id, reportEntries.reporterId))
+      .where(inArray(reportEntries.reportId, reportIds))
+      .orderBy(desc(reportEntries.createdAt), desc(reportEntries.id))
+      .all();
+  }
+
+  async close(id: number, closure: ReportClosure) {
+    return db.update(reports).set(closure).where(eq(reports.id, id)).returning().get();
+  }
+}
+
+class PostgresReportStore implements ReportStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async file({ mediaKind, mediaId, reporterId, reason, details, createdAt }: NewReport) {
+    return this.db.transaction(async tx => {
+      // Opens a case unless one is already open. When two first reports arrive together, the
+      // second insert waits for the first to commit and then does nothing, rather than failing
+      // on reports_open_media_idx; both go on to lock and add to the same case.
+      await tx
+        .insert(pg.reports)
+        .values({ mediaKind, mediaId, createdAt, lastReportedAt: createdAt })
+        .onConflictDoNothing();
+      const [open] = await tx.select().from(pg.reports).where(openReportConditions(pg.reports, mediaKind, mediaId)).for('update');
+
+      const [duplicate] = await tx
+        .select({ id: pg.reportEntries.id })
+        .from(pg.reportEntries)
+        .where(reporterEntryConditions(pg.reportEntries, open.id, reporterId));
+      if (duplicate) {
+        return null;
+      }
+
+      await tx.insert(pg.reportEntries).values({ reportId: open.id, reporterId, reason, details, createdAt });
+      const [filed] = await tx
+        .update(pg.reports)
+        .set({ reportCount: sql`${pg.reports.reportCount} + 1`, lastReportedAt: createdAt })
+        .where(eq(pg.reports.id, open.id))
+        .returning();
+      return filed;
+    });
+  }
+
+  async markAutoHidden(id: number) {
+    const [report] = await this.db.update(pg.reports).set({ autoHidden: true }).where(eq(pg.reports.id, id)).returning();
+    return report;
+  }
+
+  async get(id: number) {
+    const [report] = await this.db.select().from(pg.reports).where(eq(pg.reports.id, id));
+    return report;
+  }
+
+  async list(query: ReportQueueQuery) {
+    return this.db
+      .select()
+      .from(pg.reports)
+      .where(eq(pg.reports.status, query.status))
+      .orderBy(desc(pg.reports.lastReportedAt), desc(pg.reports.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+  }
+
+  async count(status: ReportStatus) {
+    const [{ total }] = await this.db.select({ total: count() }).from(pg.reports).where(eq(pg.reports.status, status));
+    return total;
+  }
+
+  async reasonCounts(reportIds: number[]) {
+    return this.db
+      .select({ reportId: pg.reportEntries.reportId, reason: pg.reportEntries.reason, count: count() })
+      .from(pg.reportEntries)
+      .where(inArray(pg.reportEntries.reportId, reportIds))
+      .groupBy(pg.reportEntries.reportId, pg.reportEntries.reason);
+  }
+
+  async entries(reportIds: number[]) {
+    return this.db
+      .select({
+        reportId: pg.reportEntries.reportId,
+        reason: pg.reportEntries.reason,
+        details: pg.reportEntries.details,
+        createdAt: pg.reportEntries.createdAt,
+        reporter: { id: pg.users.id, username: pg.users.username, displayName: pg.users.displayName }
+      })
+      .from(pg.reportEntries)
+      .leftJoin(pg.users, eq(pg.users.id, pg.reportEntries.reporterId))
+      .where(inArray(pg.reportEntries.reportId, reportIds))
+      .orderBy(desc(pg.reportEntries.createdAt), desc(pg.reportEntries.id));
+  }
+
+  async close(id: number, closure: ReportClosure) {
+    const [report] = await this.db.update(pg.reports).set(closure).where(eq(pg.reports.id, id)).returning();
+    return report;
+  }
+}
+
+const store: ReportStore = usePostgres ? new PostgresReportStore() : new SqliteReportStore();
+
+/**
+ * Hides an item from every listing and moves its files to the private side of the store,
+ * or reverses that. Files follow the premium flag again once the item is unhidden.
+ */
+async function setMediaHidden(media: ReportedMedia, hidden: boolean) {
+  const hiddenAt = hidden ? new Date().toISOString() : null;
+  if (media.kind === 'gallery') {
+    const updated = (await updateMediaItem('gallery', media.item.id, { hiddenAt }))?.item;
+    if (updated) {
+      await setMediaVisibility('gallery', updated.url, isMediaPrivate(updated));
+      await setMediaVariantsVisibility('gallery', updated.id, isMediaPrivate(updated));
+    }
+    return;
+  }
+
+  const updated = await updateContentMedia(media.item.id, { hiddenAt });
+  if (updated) {
+    await setMediaVisibility('content', updated.url, isMediaPrivate(updated));
+    await setMediaVisibility('content', updated.thumbnailUrl, isMediaPrivate(updated));
+    await setMediaVariantsVisibility('content', updated.id, isMediaPrivate(updated));
+    if (updated.contentType === 'video') {
+      await setMediaDirectoryVisibility('content', videoOutputDirUrl(updated.id), isMediaPrivate(updated));
+    }
+  }
+}
+
+// Deletes the item and its files the way the gallery and creator delete routes do
+async function deleteReportedMedia(media: ReportedMedia) {
+  await deleteMediaItem(media.kind, media.item.id);
+
+  // The row is gone at this point, so a file that can't be removed is only worth a warning
+  try {
+    const { item } = media;
+    await deleteMediaFiles(media.kind, item.url);
+    await deleteMediaFiles(media.kind, item.teaserUrl);
+    if (media.kind === 'content') {
+      await deleteMediaFiles('content', media.item.thumbnailUrl);
+      if (media.item.contentType === 'video') {
+        await deleteVideoFiles(media.item);
+      }
+    }
+    await deleteMediaVariants(media.kind, item.id);
+  } catch (error) {
+    console.warn('Failed to delete reported media files:', error);
+  }
+}
+
+/**
+ * Files a user's report against an item, opening a case for it if there isn't one already.
+ * Once reports from reportHideThreshold users have come in, the item is hidden until an
+ * admin reviews the case.
+ */
+export async function reportMedia(
+  reporterId: number,
+  report: { mediaKind: MediaKind; mediaId: number; reason: ReportReason; details?: string }
+): Promise<ReportOutcome> {
+  const media = await findMediaItem(report.mediaKind, report.mediaId);
+  // Hidden and unpublished items are already waiting on an admin, and can't be seen to be reported anyway
+  if (!media || media.item.hiddenAt || (media.kind === 'content' && media.item.moderationStatus !== 'approved')) {
+    return { status: 404, error: 'Media not found' };
+  }
+  if (media.kind === 'content' && media.item.creatorId === reporterId) {
+    return { status: 400, error: "You can't report your own content" };
+  }
+
+  const filed = await store.file({
+    mediaKind: media.kind,
+    mediaId: media.item.id,
+    reporterId,
+    reason: report.reason,
+    details: report.details || null,
+    createdAt: new Date().toISOString()
+  });
+
+  if (!filed) {
+    return { status: 409, error: 'You have already reported this item', code: 'ALREADY_REPORTED' };
+  }
+
+  const threshold = (await getPlatformSettings()).reportHideThreshold;
+  if (threshold > 0 && filed.reportCount >= threshold && !filed.autoHidden) {
+    const hidden = await store.markAutoHidden(filed.id);
+    await setMediaHidden(media, true);
+    console.log('Reported media hidden pending review:', { kind: media.kind, id: media.item.id, reports: filed.reportCount });
+    return { status: 201, report: hidden, hidden: true };
+  }
+  return { status: 201, report: filed, hidden: false };
+}
+
+function summarizeMedia(media: ReportedMedia, viewerId: number): ReportedMediaSummary {
+  const { item } = media;
+  const type = media.kind === 'gallery' ? media.item.type : media.item.contentType;
+  const previewSource = media.kind === 'content' && media.item.contentType === 'video' ? media.item.thumbnailUrl : item.url;
+
+  let previewUrl = publicMediaUrl(previewSource);
+  if (isMediaPrivate(item) && previewUrl) {
+    const signed = signMediaUrl(media.kind, item.id, viewerId).url;
+    previewUrl = type === 'video' ? `${signed}&variant=thumbnail` : signed;
+  }
+  return {
+    kind: media.kind,
+    id: item.id,
+    title: item.title,
+    type,
+    creatorId: media.kind === 'content' ? media.item.creatorId : null,
+    isPremium: Boolean(item.isPremium),
+    hiddenAt: item.hiddenAt,
+    previewUrl
+  };
+}
+
+// Cases with the given status, most recently reported first
+export async function listReports(query: ReportQueueQuery, viewerId: number): Promise<{ items: ReportQueueItem[]; total: number }> {
+  const rows = await store.list(query);
+  const total = await store.count(query.status);
+  if (rows.length === 0) {
+    return { items: [], total };
+  }
+
+  const reportIds = rows.map(row => row.id);
+  const reasonCounts = await store.reasonCounts(reportIds);
+  const entries = await store.entries(reportIds);
+
+  const items = await Promise.all(rows.map(async row => {
+    const media = await findMediaItem(row.mediaKind, row.mediaId);
+    return {
+      ...row,
+      media: media ? summarizeMedia(media, viewerId) : null,
+      reasons: reasonCounts
+        .filter(reason => reason.reportId === row.id)
+        .map(({ reason, count }) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count),
+      recentEntries: entries
+        .filter(entry => entry.reportId === row.id)
+        .slice(0, RECENT_ENTRIES_SHOWN)
+        .map(({ reportId: _reportId, ...entry }) => entry)
+    };
+  }));
+  return { items, total };
+}
+
+/**
+ * Closes an open case. resolve upholds the reports and keeps the item hidden, dismiss
+ * restores an item the reports hid, and remove deletes the item and its files.
+ */
+export async function actOnReport(id: number, action: ReportAction, adminId: number, note?: string): Promise<ReportActionOutcome> {
+  const report = await store.get(id);
+  if (!report) {
+    return { status: 404, error: 'Report not found' };
+  }
+  if (report.status !== 'open') {
+    return { status: 409, error: `This report has already been ${report.status}`, code: 'REPORT_CLOSED' };
+  }
+
+  const media = await findMediaItem(report.mediaKind, report.mediaId);
+  if (media) {
+    if (action === 'resolve' && !media.item.hiddenAt) {
+      await setMediaHidden(media, true);
+    } else if (action === 'dismiss' && report.autoHidden && media.item.hiddenAt) {
+      await setMediaHidden(media, false);
+    } else if (action === 'remove') {
+      await deleteReportedMedia(media);
+    }
+  }
+
+  const closed = await store.close(id, {
+    status: ACTION_STATUSES[action],
+    resolvedBy: adminId,
+    resolvedAt: new Date().toISOString(),
+    resolutionNote: note || null
+  });
+  return { status: 200, report: closed };
+}
@@ -0,0 +1,336 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { getPostgres, usePostgres } from "../pg";
+import {
+  paymentCustomers,
+  payments,
+  contentPurchases,
+  type InsertPayment,
+  type Payment,
+  type PaymentCustomerRecord,
+  type User
+} from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import { paymentProvider, PAYMENT_CURRENCY, toCents } from "./index";
+import type { ChargeResult, RefundResult } from "./types";
+import { transitionPgSubscription, transitionSubscription } from "../subscription-lifecycle";
+
+export class PaymentMethodRequiredError extends Error {
+  constructor() {
+    super('A payment method is required');
+    this.name = 'PaymentMethodRequiredError';
+  }
+}
+
+export interface ChargeUserParams {
+  user: Pick<User, 'id' | 'email'>;
+  amount: number;
+  description: string;
+  paymentMethodId?: string;
+  // Stable per logical purchase so a retried request can't charge twice
+  idempotencyKey: string;
+  subscriptionId?: number;
+  contentPurchaseId?: number;
+}
+
+type CustomerValues = Omit<PaymentCustomerRecord, 'userId' | 'createdAt'>;
+type CardDetails = Pick<PaymentCustomerRecord, 'defaultPaymentMethodId' | 'cardBrand' | 'cardLast4' | 'updatedAt'>;
+
+// The running refund total after a refund of `refundedAmount` (everything, when left out)
+function refundTotals(existing: Payment, refundedAmount?: number) {
+  const total = Math.min(existing.amount, Math.max(existing.refundedAmount, refundedAmount ?? existing.amount));
+  return { total, fullyRefunded: toCents(total) >= toCents(existing.amount) };
+}
+
+// The payment_customers and payments tables in whichever database DATABASE_URL selects
+interface BillingStore {
+  getCustomer(userId: number): Promise<PaymentCustomerRecord | undefined>;
+  saveCustomer(userId: number, createdAt: string, values: CustomerValues): Promise<PaymentCustomerRecord>;
+  updateCard(userId: number, card: CardDetails): Promise<PaymentCustomerRecord>;
+  createPayment(payment: Omit<InsertPayment, 'id'>): Promise<Payment>;
+  getPayment(id: number): Promise<Payment | undefined>;
+  findPaymentByChargeId(providerChargeId: string): Promise<Payment | undefined>;
+  recordRefund(paymentId: number, refundedAmount?: number): Promise<Payment | undefined>;
+}
+
+class SqliteBillingStore implements BillingStore {
+  async getCustomer(userId: number) {
+    return db.select().from(paymentCustomers).where(eq(paymentCustomers.userId, userId)).get();
+  }
+
+  async saveCustomer(userId: number, createdAt: string, values: CustomerValues) {
+    return db.insert(paymentCustomers)
+      .values({ userId, createdAt, ...values })
+      .onConflictDoUpdate({ target: paymentCustomers.userId, set: values })
+      .returning()
+      .get();
+  }
+
+  async updateCard(userId: number, card: CardDetails) {
+    return db.update(paymentCustomers)
+      .set(card)
+      .where(eq(paymentCustomers.userId, userId))
+      .returning()
+      .get();
+  }
+
+  async createPayment(payment: Omit<InsertPayment, 'id'>) {
+    return db.insert(payments).values(payment).returning().get();
+  }
+
+  async getPayment(id: number) {
+    return db.select().from(payments).where(eq(payments.id, id)).get();
+  }
+
+  async findPaymentByChargeId(providerChargeId: string) {
+    return db.select().from(payments).where(eq(payments.providerChargeId, providerChargeId)).get();
+  }
+
+  async recordRefund(paymentId: number, refundedAmount?: number) {
+    return db.transaction(tx => {
+      const existing = tx.select().from(payments).where(eq(payments.id, paymentId)).get();
+      if (!existing) {
+        return undefined;
+      }
+
+      const { total, fullyRefunded } = refundTotals(existing, refundedAmount);
+      const now = new Date().toISOString();
+      const payment = tx.update(payments)
+        .set({ refundedAmount: total, status: fullyRefunded ? 'refunded' : existing.status, updatedAt: now })
+        .where(eq(payments.id, paymentId))
+        .returning()
+        .get();
+      if (!fullyRefunded || existing.status === 'refunded') {
+        return payment;
+      }
+
+      if (payment.contentPurchaseId) {
+        tx.update(contentPurchases)
+          .set({ status: 'refunded', updatedAt: now })
+          .where(eq(contentPurchases.id, payment.contentPurchaseId))
+          .run();
+      }
+      if (payment.subscriptionId) {
+        transitionSubscription(payment.subscriptionId, 'cancelled', 'payment_refunded', {
+          paymentId: payment.id,
+          changes: { endDate: now, nextRenewalAttemptAt: null },
+          executor: tx
+        });
+      }
+      return payment;
+    });
+  }
+}
+
+class PostgresBillingStore implements BillingStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async getCustomer(userId: number) {
+    const [customer] = await this.db.select().from(pg.paymentCustomers).where(eq(pg.paymentCustomers.userId, userId));
+    return customer;
+  }
+
+  async saveCustomer(userId: number, createdAt: string, values: CustomerValues) {
+    const [customer] = await this.db.insert(pg.paymentCustomers)
+      .values({ userId, createdAt, ...values })
+      .onConflictDoUpdate({ target: pg.paymentCustomers.userId, set: values })
+      .returning();
+    return customer;
+  }
+
+  async updateCard(userId: number, card: CardDetails) {
+    const [customer] = await this.db.update(pg.paymentCustomers)
+      .set(card)
+      .where(eq(pg.paymentCustomers.userId, userId))
+      .returning();
+    return customer;
+  }
+
+  async createPayment(payment: Omit<InsertPayment, 'id'>) {
+    const [created] = await this.db.insert(pg.payments).values(payment).returning();
+    return created;
+  }
+
+  async getPayment(id: number) {
+    const [payment] = await this.db.select().from(pg.payments).where(eq(pg.payments.id, id));
+    return payment;
+  }
+
+  async findPaymentByChargeId(providerChargeId: string) {
+    const [payment] = await this.db.select().from(pg.payments).where(eq(pg.payments.providerChargeId, providerChargeId));
+    return payment;
+  }
+
+  async recordRefund(paymentId: number, refundedAmount?: number) {
+    return this.db.transaction(async tx => {
+      const [existing] = await tx.select().from(pg.payments).where(eq(pg.payments.id, paymentId)).for('update');
+      if (!existing) {
+        return undefined;
+      }
+
+      const { total, fullyRefunded } = refundTotals(existing, refundedAmount);
+      const now = new Date().toISOString();
+      const [payment] = await tx.update(pg.payments)
+        .set({ refundedAmount: total, status: fullyRefunded ? 'refunded' : existing.status, updatedAt: now })
+        .where(eq(pg.payments.id, paymentId))
+        .returning();
+      if (!fullyRefunded || existing.status === 'refunded') {
+        return payment;
+      }
+
+      if (payment.contentPurchaseId) {
+        await tx.update(pg.contentPurchases)
+          .set({ status: 'refunded', updatedAt: now })
+          .where(eq(pg.contentPurchases.id, payment.contentPurchaseId));
+      }
+      if (payment.subscriptionId) {
+        await transitionPgSubscription(tx, payment.subscriptionId, 'cancelled', 'payment_refunded', {
+          paymentId: payment.id,
+          changes: { endDate: now, nextRenewalAttemptAt: null }
+        });
+      }
+      return payment;
+    });
+  }
+}
+
+const store: BillingStore = usePostgres ? new PostgresBillingStore() : new SqliteBillingStore();
+
+export async function ensurePaymentCustomer(user: Pick<User, 'id' | 'email'>): Promise<PaymentCustomerRecord> {
+  const existing = await store.getCustomer(user.id);
+  if (existing?.provider === paymentProvider.name) {
+    return existing;
+  }
+
+  const customer = await paymentProvider.createCustomer({ userId: user.id, email: user.email });
+  const now = new Date().toISOString();
+  const values = {
+    provider: paymentProvider.name,
+    customerId: customer.id,
+    defaultPaymentMethodId: null,
+    cardBrand: null,
+    cardLast4: null,
+    updatedAt: now
+  };
+  return store.saveCustomer(user.id, now, values);
+}
+
+export async function savePaymentMethod(user: Pick<User, 'id' | 'email'>, paymentMethodId: string): Promise<PaymentCustomerRecord> {
+  const customer = await ensurePaymentCustomer(user);
+  const method = await paymentProvider.attachPaymentMethod(customer.customerId, paymentMethodId);
+  return store.updateCard(user.id, {
+    defaultPaymentMethodId: method.id,
+    cardBrand: method.brand,
+    cardLast4: method.last4,
+    updatedAt: new Date().toISOString()
+  });
+}
+
+export async function getSavedPaymentMethod(userId: number) {
+  const customer = await store.getCustomer(userId);
+  if (!customer?.defaultPaymentMethodId || customer.provider !== paymentProvider.name) {
+    return null;
+  }
+  return { id: customer.defaultPaymentMethodId, brand: customer.cardBrand, last4: customer.cardLast4 };
+}
+
+/**
+ * Charges a user and records the attempt in `payments` whatever the outcome. A newly supplied
+ * payment method is saved as the user's default so renewals can reuse it.
+ */
+export async function chargeUser(params: ChargeUserParams): Promise<{ payment: Payment; result: ChargeResult }> {
+  const customer = params.paymentMethodId
+    ? await savePaymentMethod(params.user, params.paymentMethodId)
+    : await ensurePaymentCustomer(params.user);
+  if (!customer.defaultPaymentMethodId) {
+    throw new PaymentMethodRequiredError();
+  }
+
+  const result = await paymentProvider.charge({
+    customerId: customer.customerId,
+    paymentMethodId: customer.defaultPaymentMethodId,
+    amountCents: toCents(params.amount),
+    currency: PAYMENT_CURRENCY,
+    description: params.description,
+    idempotencyKey: params.idempotencyKey,
+    metadata: {
+      userId: String(params.user.id),
+      ...(params.subscriptionId ? { subscriptionId: String(params.subscriptionId) } : {}),
+      ...(params.contentPurchaseId ? { contentPurchaseId: String(params.contentPurchaseId) } : {})
+    }
+  });
+
+  const now = new Date().toISOString();
+  const payment = await store.createPayment({
+    userId: params.user.id,
+    provider: paymentProvider.name,
+    providerChargeId: result.chargeId,
+    amount: params.amount,
+    currency: PAYMENT_CURRENCY,
+    status: result.status,
+    failureCode: result.status === 'failed' ? result.failureCode : null,
+    failureMessage: result.status === 'failed' ? result.failureMessage : null,
+    description: params.description,
+    subscriptionId: params.subscriptionId ?? null,
+    contentPurchaseId: params.contentPurchaseId ?? null,
+    createdAt: now,
+    updatedAt: now
+  });
+
+  if (result.status === 'failed') {
+    console.warn('Payment failed:', { paymentId: payment.id, userId: params.user.id, failureCode: result.failureCode });
+  }
+  return { payment, result };
+}
+
+/**
+ * Records the running total refunded on a payment, given by the processor or left out for a
+ * full refund. Only a full refund takes back what the payment bought: purchases are revoked and
+ * subscriptions cancelled. Totals never go down, so replayed webhooks are harmless.
+ */
+export function recordPaymentRefund(paymentId: number, refundedAmount?: number): Promise<Payment | undefined> {
+  return store.recordRefund(paymentId, refundedAmount);
+}
+
+export type RefundOutcome =
+  | { status: 200; refund: RefundResult; payment: Payment }
+  | { status: 404 | 409 | 502; error: string };
+
+// Refunds the given amount, or whatever hasn't been refunded yet when no amount is given
+export async function refundPayment(paymentId: number, amount?: number): Promise<RefundOutcome> {
+  const payment = await store.getPayment(paymentId);
+  if (!payment) {
+    return { status: 404, error: 'Payment not found' };
+  }
+  if (payment.status !== 'succeeded' || !payment.providerChargeId) {
+    return { status: 409, error: 'Only successful payments can be refunded' };
+  }
+  if (payment.provider !== paymentProvider.name) {
+    return { status: 409, error: `Payment was made with the ${payment.provider} provider, which is no longer configured` };
+  }
+  const remainingCents = toCents(payment.amount) - toCents(payment.refundedAmount);
+  const refundCents = amount === undefined ? remainingCents : toCents(amount);
+  if (refundCents > remainingCents) {
+    return { status: 409, error: `Only ${(remainingCents / 100).toFixed(2)} of this payment is left to refund` };
+  }
+
+  const refund = await paymentProvider.refund(payment.providerChargeId, refundCents);
+  if (refund.status === 'failed') {
+    return { status: 502, error: 'The payment processor rejected the refund' };
+  }
+
+  // Pending refunds are finalized when the processor's webhook arrives
+  return {
+    status: 200,
+    refund,
+    payment: refund.status === 'succeeded'
+      ? (await recordPaymentRefund(payment.id, (toCents(payment.refundedAmount) + refundCents) / 100))!
+      : payment
+  };
+}
+
+export function findPaymentByChargeId(providerChargeId: string): Promise<Payment | undefined> {
+  return store.findPaymentByChargeId(providerChargeId);
+}
@@ -0,0 +1,42 @@
+import type { PaymentProvider } from "./types";
+import { StripePaymentProvider } from "./stripe";
+import { MockPaymentProvider } from "./mock";
+import { requireSecret } from "../secrets";
+
+export * from "./types";
+export { signWebhookPayload } from "./signature";
+export { StripePaymentProvider } from "./stripe";
+export { MockPaymentProvider } from "./mock";
+
+export const PAYMENT_CURRENCY = (process.env.PAYMENT_CURRENCY || 'usd').toLowerCase();
+
+// PAYMENT_PROVIDER picks explicitly; otherwise a configured Stripe key wins over the mock.
+// Production never falls back to the mock: it has to be asked for by name.
+export function createPaymentProvider(): PaymentProvider {
+  const selected = process.env.PAYMENT_PROVIDER || (process.env.STRIPE_SECRET_KEY ? 'stripe' : 'mock');
+
+  if (selected === 'stripe') {
+    if (!process.env.STRIPE_SECRET_KEY) {
+      throw new Error('PAYMENT_PROVIDER=stripe requires STRIPE_SECRET_KEY');
+    }
+    return new StripePaymentProvider(
+      process.env.STRIPE_SECRET_KEY,
+      process.env.STRIPE_WEBHOOK_SECRET,
+      process.env.STRIPE_API_BASE
+    );
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    if (process.env.PAYMENT_PROVIDER !== 'mock') {
+      throw new Error('Production requires STRIPE_SECRET_KEY, or PAYMENT_PROVIDER=mock to run without real charges');
+    }
+    console.warn('Using the mock payment provider in production; no real charges will be made');
+  }
+  return new MockPaymentProvider(requireSecret('MOCK_PAYMENT_WEBHOOK_SECRET'));
+}
+
+export const paymentProvider = createPaymentProvider();
+
+export function toCents(amount: number) {
+  return Math.round(amount * 100);
+}
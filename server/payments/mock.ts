@@ -0,0 +1,82 @@
+import { createHash } from "crypto";
+import type { ChargeRequest, ChargeResult, PaymentCustomer, PaymentEvent, PaymentMethodSummary, PaymentProvider, RefundResult } from "./types";
+import { verifySignedPayload } from "./signature";
+
+// Test payment methods named after Stripe's, so the same client code works against both providers
+const TEST_PAYMENT_METHODS: Record<string, { brand: string; last4: string; decline?: { code: string; message: string } }> = {
+  pm_card_visa: { brand: 'visa', last4: '4242' },
+  pm_card_mastercard: { brand: 'mastercard', last4: '4444' },
+  pm_card_chargeDeclined: {
+    brand: 'visa',
+    last4: '0002',
+    decline: { code: 'card_declined', message: 'Your card was declined.' }
+  },
+  pm_card_chargeDeclinedInsufficientFunds: {
+    brand: 'visa',
+    last4: '9995',
+    decline: { code: 'insufficient_funds', message: 'Your card has insufficient funds.' }
+  },
+  pm_card_chargeDeclinedExpiredCard: {
+    brand: 'visa',
+    last4: '0069',
+    decline: { code: 'expired_card', message: 'Your card has expired.' }
+  }
+};
+
+function deterministicId(prefix: string, ...parts: (string | number)[]) {
+  return `${prefix}_mock_${createHash('sha256').update(parts.join(':')).digest('hex').slice(0, 24)}`;
+}
+
+/**
+ * Offline processor for development and tests. Every result is derived from its inputs, so
+ * the same request always produces the same ids and outcome; no state survives a restart.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock' as const;
+  private readonly charges = new Map<string, ChargeResult>();
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createCustomer(params: { userId: number; email: string }): Promise<PaymentCustomer> {
+    return { id: deterministicId('cus', params.userId, params.email) };
+  }
+
+  async attachPaymentMethod(customerId: string, paymentMethodId: string): Promise<PaymentMethodSummary> {
+    const method = TEST_PAYMENT_METHODS[paymentMethodId];
+    if (!method) {
+      throw new Error(`Unknown mock payment method: ${paymentMethodId}`);
+    }
+    return { id: paymentMethodId, brand: method.brand, last4: method.last4 };
+  }
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    const existing = this.charges.get(request.idempotencyKey);
+    if (existing) {
+      return existing;
+    }
+
+    const chargeId = deterministicId('pi', request.idempotencyKey);
+    const method = TEST_PAYMENT_METHODS[request.paymentMethodId];
+    let result: ChargeResult;
+    if (!method) {
+      result = { status: 'failed', chargeId, failureCode: 'invalid_payment_method', failureMessage: 'Unknown payment method' };
+    } else if (method.decline) {
+      result = { status: 'failed', chargeId, failureCode: method.decline.code, failureMessage: method.decline.message };
+    } else if (request.amountCents <= 0) {
+      result = { status: 'failed', chargeId, failureCode: 'invalid_amount', failureMessage: 'Amount must be positive' };
+    } else {
+      result = { status: 'succeeded', chargeId };
+    }
+
+    this.charges.set(request.idempotencyKey, result);
+    return result;
+  }
+
+  async refund(chargeId: string, amountCents?: number): Promise<RefundResult> {
+    return { refundId: deterministicId('re', chargeId, amountCents ?? 'full'), status: 'succeeded' };
+  }
+
+  verifyWebhook(payload: Buffer, signatureHeader: string | undefined): PaymentEvent {
+    return verifySignedPayload(payload, signatureHeader, this.webhookSecret);
+  }
+}
@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { WebhookSignatureError, type PaymentEvent } from "./types";
+
+const TOLERANCE_SECONDS = 5 * 60;
+
+// Stripe's scheme: header "t=<unix>,v1=<hex hmac-sha256 of `${t}.${payload}`>"
+export function signWebhookPayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function verifySignedPayload(payload: Buffer, header: string | undefined, secret: string): PaymentEvent {
+  if (!header) {
+    throw new WebhookSignatureError("Missing signature header");
+  }
+
+  const parts = header.split(",").map(part => part.split("=") as [string, string]);
+  const timestamp = Number(parts.find(([key]) => key === "t")?.[1]);
+  const signatures = parts.filter(([key]) => key === "v1").map(([, value]) => value);
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError("Malformed signature header");
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) {
+    throw new WebhookSignatureError("Signature timestamp outside tolerance");
+  }
+
+  const expected = Buffer.from(
+    createHmac("sha256", secret).update(`${timestamp}.${payload.toString("utf8")}`).digest("hex")
+  );
+  const matched = signatures.some(signature => {
+    const candidate = Buffer.from(signature);
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+  if (!matched) {
+    throw new WebhookSignatureError("Signature mismatch");
+  }
+
+  return JSON.parse(payload.toString("utf8")) as PaymentEvent;
+}
@@ -0,0 +1,122 @@
+import type { ChargeRequest, ChargeResult, PaymentCustomer, PaymentEvent, PaymentMethodSummary, PaymentProvider, RefundResult } from "./types";
+import { verifySignedPayload } from "./signature";
+
+interface StripeError {
+  error: { type: string; code?: string; decline_code?: string; message?: string; payment_intent?: { id: string } };
+}
+
+/**
+ * Talks to the Stripe REST API (or anything speaking it, such as stripe-mock) with plain
+ * fetch. Charges are confirmed PaymentIntents, so the ids stored as charge ids are `pi_...`.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+
+  constructor(
+    private readonly secretKey: string,
+    private readonly webhookSecret: string | undefined,
+    private readonly apiBase = 'https://api.stripe.com'
+  ) {}
+
+  private async request<T>(path: string, params: Record<string, string | number | undefined>, idempotencyKey?: string): Promise<T> {
+    const body = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) body.append(key, String(value));
+    }
+
+    const response = await fetch(`${this.apiBase}/v1${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+      },
+      body
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw Object.assign(new Error((data as StripeError).error?.message || `Stripe request failed: ${response.status}`), {
+        stripe: (data as StripeError).error
+      });
+    }
+    return data as T;
+  }
+
+  async createCustomer(params: { userId: number; email: string }): Promise<PaymentCustomer> {
+    const customer = await this.request<{ id: string }>('/customers', {
+      email: params.email,
+      'metadata[userId]': params.userId
+    });
+    return { id: customer.id };
+  }
+
+  async attachPaymentMethod(customerId: string, paymentMethodId: string): Promise<PaymentMethodSummary> {
+    const method = await this.request<{ id: string; card?: { brand: string; last4: string } }>(
+      `/payment_methods/${encodeURIComponent(paymentMethodId)}/attach`,
+      { customer: customerId }
+    );
+    await this.request(`/customers/${encodeURIComponent(customerId)}`, {
+      'invoice_settings[default_payment_method]': method.id
+    });
+    return { id: method.id, brand: method.card?.brand ?? null, last4: method.card?.last4 ?? null };
+  }
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    const params: Record<string, string | number> = {
+      amount: request.amountCents,
+      currency: request.currency,
+      customer: request.customerId,
+      payment_method: request.paymentMethodId,
+      description: request.description,
+      confirm: 'true',
+      off_session: 'true'
+    };
+    for (const [key, value] of Object.entries(request.metadata ?? {})) {
+      params[`metadata[${key}]`] = value;
+    }
+
+    try {
+      const intent = await this.request<{ id: string; status: string }>('/payment_intents', params, request.idempotencyKey);
+      if (intent.status === 'succeeded') {
+        return { status: 'succeeded', chargeId: intent.id };
+      }
+      // Anything else (e.g. requires_action for 3-D Secure) can't complete off-session
+      return {
+        status: 'failed',
+        chargeId: intent.id,
+        failureCode: intent.status === 'requires_action' ? 'authentication_required' : intent.status,
+        failureMessage: 'The payment could not be completed'
+      };
+    } catch (error) {
+      const stripeError = (error as { stripe?: StripeError['error'] }).stripe;
+      if (stripeError?.type === 'card_error') {
+        return {
+          status: 'failed',
+          chargeId: stripeError.payment_intent?.id ?? null,
+          failureCode: stripeError.decline_code || stripeError.code || 'card_declined',
+          failureMessage: stripeError.message || 'Your card was declined'
+        };
+      }
+      throw error;
+    }
+  }
+
+  async refund(chargeId: string, amountCents?: number): Promise<RefundResult> {
+    const refund = await this.request<{ id: string; status: string }>('/refunds', {
+      payment_intent: chargeId,
+      amount: amountCents
+    });
+    return {
+      refundId: refund.id,
+      status: refund.status === 'succeeded' ? 'succeeded' : refund.status === 'failed' ? 'failed' : 'pending'
+    };
+  }
+
+  verifyWebhook(payload: Buffer, signatureHeader: string | undefined): PaymentEvent {
+    if (!this.webhookSecret) {
+      throw new Error('STRIPE_WEBHOOK_SECRET is not configured');
+    }
+    return verifySignedPayload(payload, signatureHeader, this.webhookSecret);
+  }
+}
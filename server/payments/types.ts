@@ -0,0 +1,54 @@
+export interface PaymentCustomer {
+  id: string;
+}
+
+export interface PaymentMethodSummary {
+  id: string;
+  brand: string | null;
+  last4: string | null;
+}
+
+export interface ChargeRequest {
+  customerId: string;
+  paymentMethodId: string;
+  // Smallest currency unit, as every processor expects
+  amountCents: number;
+  currency: string;
+  description: string;
+  // Retrying with the same key must never charge twice
+  idempotencyKey: string;
+  metadata?: Record<string, string>;
+}
+
+// A decline is an expected outcome, not an exception; only transport or configuration problems throw
+export type ChargeResult =
+  | { status: 'succeeded'; chargeId: string }
+  | { status: 'failed'; chargeId: string | null; failureCode: string; failureMessage: string };
+
+export interface RefundResult {
+  refundId: string;
+  status: 'succeeded' | 'pending' | 'failed';
+}
+
+export interface PaymentEvent {
+  id: string;
+  type: string;
+  data: { object: Record<string, unknown> };
+}
+
+export interface PaymentProvider {
+  readonly name: 'stripe' | 'mock';
+  createCustomer(params: { userId: number; email: string }): Promise<PaymentCustomer>;
+  attachPaymentMethod(customerId: string, paymentMethodId: string): Promise<PaymentMethodSummary>;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  refund(chargeId: string, amountCents?: number): Promise<RefundResult>;
+  // Throws WebhookSignatureError when the payload wasn't signed with our secret
+  verifyWebhook(payload: Buffer, signatureHeader: string | undefined): PaymentEvent;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
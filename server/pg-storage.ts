@@ -0,0 +1,624 @@
+import { eq, and, or, lt, gt, asc, desc, ilike, count, sql, isNull, inArray, type SQL } from "drizzle-orm";
+import {
+  models,
+  users,
+  gallery,
+  followerProfiles,
+  creatorProfiles,
+  authTokens,
+  content,
+  subscriptions,
+  subscriptionHistory,
+  contentPurchases
+} from "@shared/schema-pg";
+import type {
+  AuthToken,
+  AuthTokenType,
+  Model,
+  InsertModel,
+  User,
+  Gallery,
+  InsertGallery,
+  FollowerProfile,
+  CreatorProfile,
+  Content,
+  InsertContent,
+  Subscription,
+  InsertSubscription,
+  SubscriptionHistoryEntry,
+  SubscriptionStatus,
+  ContentPurchase,
+  InsertContentPurchase,
+  UpdateContent,
+  UpdateCreatorProfile
+} from "@shared/schema";
+import { getPostgres } from "./pg";
+import { entitledSubscriptionStatuses } from "@shared/schema";
+import { transitionPgSubscription, type TransitionOptions } from "./subscription-lifecycle";
+import {
+  checkApplicantAccount,
+  decodeGalleryCursor,
+  encodeGalleryCursor,
+  ModelApplicationConflictError,
+  normalizeGalleryItem,
+  type AcceptedModelApplication,
+  type ContentFeedQuery,
+  type ContentPurchaseStatus,
+  type ContentWithCreator,
+  type CreatorAccount,
+  type CreatorApprovalDecision,
+  type CreatorContentOptions,
+  type CreatorListing,
+  type FollowerListing,
+  type GalleryPage,
+  type GalleryQuery,
+  type IStorage,
+  type ModelApplicationQuery,
+  type ModelReview,
+  type SubscriptionWithCreator
+} from "./storage-interface";
+
+const creatorSummaryColumns = {
+  id: users.id,
+  username: users.username,
+  displayName: users.displayName,
+  avatarUrl: users.avatarUrl
+};
+
+// IStorage on Postgres. Mirrors DatabaseStorage query for query; the differences are
+// async transactions, ILIKE for SQLite's case-insensitive LIKE, and jsonb containment
+// in place of json_each for tag filters.
+export class PostgresStorage implements IStorage {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async createUser(user: { email: string; password: string; role: string; username?: string; displayName?: string }): Promise<User> {
+    try {
+      const [newUser] = await this.db
+        .insert(users)
+        .values({
+          email: user.email,
+          password: user.password,
+          role: user.role,
+          username: user.username,
+          displayName: user.displayName
+        })
+        .returning();
+      console.log('User created:', { id: newUser.id, email: newUser.email, role: newUser.role });
+      return newUser;
+    } catch (error) {
+      console.error('Failed to create user:', error);
+      throw new Error('Failed to create user');
+    }
+  }
+
+  async createModel(model: Omit<InsertModel, "id">): Promise<Model> {
+    const [newModel] = await this.db
+      .insert(models)
+      .values({ ...model, createdAt: model.createdAt ?? new Date().toISOString() })
+      .returning();
+    return newModel;
+  }
+
+  async getModel(id: number): Promise<Model | undefined> {
+    const [model] = await this.db.select().from(models).where(eq(models.id, id));
+    return model;
+  }
+
+  async getAllModels(): Promise<Model[]> {
+    return this.db.select().from(models);
+  }
+
+  async getModelApplications(query: ModelApplicationQuery): Promise<{ models: Model[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (query.status) {
+      conditions.push(eq(models.status, query.status));
+    }
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      conditions.push(or(
+        ilike(models.firstName, pattern),
+        ilike(models.lastName, pattern),
+        ilike(models.email, pattern),
+        ilike(models.aliasName, pattern)
+      )!);
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await this.db.select({ total: count() }).from(models).where(where);
+    const rows = await this.db
+      .select()
+      .from(models)
+      .where(where)
+      .orderBy(desc(models.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { models: rows, total };
+  }
+
+  async updateModelReview(id: number, review: ModelReview): Promise<Model | undefined> {
+    const [updated] = await this.db
+      .update(models)
+      .set({
+        ...(review.status ? { status: review.status } : {}),
+        ...(review.reviewerNotes !== undefined ? { reviewerNotes: review.reviewerNotes } : {}),
+        reviewedBy: review.reviewedBy,
+        reviewedAt: new Date().toISOString()
+      })
+      .where(eq(models.id, id))
+      .returning();
+    return updated;
+  }
+
+  async acceptModelApplication(id: number, reviewerId: number, passwordHash: string): Promise<AcceptedModelApplication> {
+    return this.db.transaction(async tx => {
+      // Row locks stand in for SQLite's single writer, so two reviewers can't accept at once
+      const [application] = await tx.select().from(models).where(eq(models.id, id)).for('update');
+      if (!application) {
+        throw new Error('Model application not found');
+      }
+      if (application.status === 'accepted') {
+        throw new ModelApplicationConflictError('Model application has already been accepted');
+      }
+
+      const now = new Date().toISOString();
+      let [user] = await tx.select().from(users).where(eq(users.email, application.email)).for('update');
+      checkApplicantAccount(user);
+      if (user) {
+        [user] = await tx.update(users)
+          .set({ role: 'creator', isApproved: 1 })
+          .where(eq(users.id, user.id))
+          .returning();
+      } else {
+        [user] = await tx.insert(users)
+          .values({
+            email: application.email,
+            password: passwordHash,
+            role: 'creator',
+            displayName: application.aliasName || `${application.firstName} ${application.lastName}`,
+            isApproved: 1,
+            createdAt: now
+          })
+          .returning();
+      }
+
+      const profileValues = {
+        aliasName: application.aliasName || application.firstName,
+        onlyfans: application.onlyFansLink || null,
+        approvalStatus: 'approved' as const,
+        approvalDate: now,
+        approvedBy: reviewerId,
+        rejectionReason: null
+      };
+      const [existingProfile] = await tx.select().from(creatorProfiles).where(eq(creatorProfiles.userId, user.id));
+      const [profile] = existingProfile
+        ? await tx.update(creatorProfiles)
+            .set(profileValues)
+            .where(eq(creatorProfiles.id, existingProfile.id))
+            .returning()
+        : await tx.insert(creatorProfiles)
+            .values({ ...profileValues, userId: user.id, createdAt: now })
+            .returning();
+
+      const [model] = await tx.update(models)
+        .set({ status: 'accepted', reviewedBy: reviewerId, reviewedAt: now, userId: user.id })
+        .where(eq(models.id, id))
+        .returning();
+
+      console.log('Model application accepted:', { applicationId: id, userId: user.id, profileId: profile.id });
+      return { model, user, profile };
+    });
+  }
+
+  async getUserById(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, parseInt(id)));
+    return user;
+  }
+
+  async getUser(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async updateUserRole(userId: number, role: string): Promise<void> {
+    await this.db.update(users).set({ role }).where(eq(users.id, userId));
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string): Promise<void> {
+    await this.db.update(users).set({ password: passwordHash }).where(eq(users.id, userId));
+  }
+
+  async markUserVerified(userId: number): Promise<void> {
+    await this.db.update(users).set({ verified: 1 }).where(eq(users.id, userId));
+  }
+
+  async createAuthToken(token: { userId: number; type: AuthTokenType; tokenHash: string; expiresAt: Date }): Promise<AuthToken> {
+    return this.db.transaction(async tx => {
+      await tx.delete(authTokens)
+        .where(and(eq(authTokens.userId, token.userId), eq(authTokens.type, token.type), isNull(authTokens.usedAt)));
+
+      const [created] = await tx.insert(authTokens)
+        .values({
+          userId: token.userId,
+          type: token.type,
+          tokenHash: token.tokenHash,
+          expiresAt: token.expiresAt.toISOString(),
+          createdAt: new Date().toISOString()
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async consumeAuthToken(tokenHash: string, type: AuthTokenType): Promise<AuthToken | undefined> {
+    const now = new Date().toISOString();
+    const [token] = await this.db.update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.type, type),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, now)
+      ))
+      .returning();
+    return token;
+  }
+
+  async getGalleryItems(query: GalleryQuery = {}): Promise<GalleryPage> {
+    try {
+      const sort = query.sort ?? 'newest';
+      const sortColumn = sort === 'title' ? gallery.title : gallery.createdAt;
+      const descending = sort === 'newest';
+
+      const conditions: SQL[] = [];
+      if (query.type) {
+        conditions.push(eq(gallery.type, query.type));
+      }
+      if (query.premium !== undefined) {
+        conditions.push(eq(gallery.isPremium, query.premium));
+      }
+      if (query.contentRating) {
+        conditions.push(eq(gallery.contentRating, query.contentRating));
+      }
+      if (!query.includeHidden) {
+        conditions.push(isNull(gallery.hiddenAt));
+      }
+      for (const tag of query.tags ?? []) {
+        conditions.push(sql`${gallery.tags} @> ${JSON.stringify([tag])}::jsonb`);
+      }
+      if (query.cursor) {
+        const cursor = decodeGalleryCursor(query.cursor);
+        const after = descending ? lt : gt;
+        conditions.push(or(
+          after(sortColumn, cursor.value),
+          and(eq(sortColumn, cursor.value), after(gallery.id, cursor.id))
+        )!);
+      }
+
+      const order = descending ? desc : asc;
+      const select = this.db
+        .select()
+        .from(gallery)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(order(sortColumn), order(gallery.id));
+      // Fetch one extra row to find out whether another page exists
+      const rows = query.limit ? await select.limit(query.limit + 1) : await select;
+
+      const hasMore = query.limit !== undefined && rows.length > query.limit;
+      const items = hasMore ? rows.slice(0, query.limit) : rows;
+      const last = items[items.length - 1];
+      const nextCursor = hasMore && last
+        ? encodeGalleryCursor({ value: sort === 'title' ? last.title : last.createdAt, id: last.id })
+        : null;
+
+      return { items: items.map(normalizeGalleryItem), nextCursor };
+    } catch (error) {
+      console.error('Failed to fetch gallery items:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to fetch gallery items from database: ${message}`);
+    }
+  }
+
+  async getGalleryItem(id: number): Promise<Gallery | undefined> {
+    const [item] = await this.db.select().from(gallery).where(eq(gallery.id, id));
+    return item ? normalizeGalleryItem(item) : undefined;
+  }
+
+  async createGalleryItem(item: Omit<InsertGallery, "id">): Promise<Gallery> {
+    const [newItem] = await this.db.insert(gallery).values(item).returning();
+    return newItem;
+  }
+
+  async setGalleryItemPremium(id: number, isPremium: boolean): Promise<Gallery | undefined> {
+    const [updated] = await this.db.update(gallery).set({ isPremium }).where(eq(gallery.id, id)).returning();
+    return updated;
+  }
+
+  async clearGalleryPremium(): Promise<Gallery[]> {
+    return this.db.update(gallery).set({ isPremium: false }).where(eq(gallery.isPremium, true)).returning();
+  }
+
+  async deleteGalleryItem(id: number): Promise<Gallery | undefined> {
+    const [deletedItem] = await this.db.delete(gallery).where(eq(gallery.id, id)).returning();
+    return deletedItem;
+  }
+
+  async createFollowerProfile(profile: { userId: number }): Promise<FollowerProfile> {
+    try {
+      const [newProfile] = await this.db
+        .insert(followerProfiles)
+        .values({
+          userId: profile.userId,
+          preferences: {},
+          createdAt: new Date().toISOString()
+        })
+        .returning();
+      return newProfile;
+    } catch (error) {
+      console.error('Failed to create follower profile:', error);
+      throw new Error('Failed to create follower profile');
+    }
+  }
+
+  async createCreatorProfile(profile: { userId: number, displayName: string }): Promise<CreatorProfile> {
+    try {
+      const [newProfile] = await this.db
+        .insert(creatorProfiles)
+        .values({
+          userId: profile.userId,
+          aliasName: profile.displayName,
+          approvalStatus: 'pending',
+          monthlySubscriptionPrice: 0,
+          perPostPrice: 0,
+          createdAt: new Date().toISOString()
+        })
+        .returning();
+      return newProfile;
+    } catch (error) {
+      console.error('Failed to create creator profile:', error);
+      throw new Error('Failed to create creator profile');
+    }
+  }
+
+  async hasUsers(): Promise<boolean> {
+    const [user] = await this.db.select({ id: users.id }).from(users).limit(1);
+    return Boolean(user);
+  }
+
+  async listCreators(): Promise<CreatorListing[]> {
+    const rows = await this.db
+      .select({
+        profile: creatorProfiles,
+        user: {
+          id: users.id,
+          email: users.email,
+          username: users.username,
+          displayName: users.displayName,
+          avatarUrl: users.avatarUrl,
+          bio: users.bio,
+          createdAt: users.createdAt
+        }
+      })
+      .from(creatorProfiles)
+      .leftJoin(users, eq(users.id, creatorProfiles.userId))
+      .orderBy(asc(creatorProfiles.id));
+    return rows.map(({ profile, user }) => ({ ...profile, user }));
+  }
+
+  async getCreator(userId: number): Promise<CreatorAccount | undefined> {
+    const [row] = await this.db
+      .select({ user: users, profile: creatorProfiles })
+      .from(users)
+      .leftJoin(creatorProfiles, eq(creatorProfiles.userId, users.id))
+      .where(and(eq(users.id, userId), eq(users.role, 'creator')));
+    return row && { user: row.user, profile: row.profile ?? undefined };
+  }
+
+  async getCreatorProfile(userId: number): Promise<CreatorProfile | undefined> {
+    const [profile] = await this.db.select().from(creatorProfiles).where(eq(creatorProfiles.userId, userId));
+    return profile;
+  }
+
+  async updateCreatorProfile(userId: number, changes: UpdateCreatorProfile): Promise<CreatorProfile | undefined> {
+    const [profile] = await this.db
+      .update(creatorProfiles)
+      .set(changes)
+      .where(eq(creatorProfiles.userId, userId))
+      .returning();
+    return profile;
+  }
+
+  async setCreatorApproval(userId: number, decision: CreatorApprovalDecision): Promise<CreatorProfile> {
+    const values = {
+      approvalStatus: decision.approved ? 'approved' as const : 'rejected' as const,
+      approvalDate: decision.approved ? new Date().toISOString() : null,
+      approvedBy: decision.approved ? decision.reviewedBy : null,
+      rejectionReason: decision.approved ? null : decision.rejectionReason ?? null
+    };
+    const [profile] = await this.db
+      .insert(creatorProfiles)
+      .values({ ...values, userId, createdAt: new Date().toISOString() })
+      .onConflictDoUpdate({ target: creatorProfiles.userId, set: values })
+      .returning();
+    return profile;
+  }
+
+  async listFollowers(): Promise<FollowerListing[]> {
+    const rows = await this.db
+      .select({
+        profile: followerProfiles,
+        user: {
+          id: users.id,
+          username: users.username,
+          email: users.email,
+          createdAt: users.createdAt,
+          role: users.role
+        }
+      })
+      .from(followerProfiles)
+      .leftJoin(users, eq(users.id, followerProfiles.userId))
+      .orderBy(asc(followerProfiles.id));
+    return rows.map(({ profile, user }) => ({ ...profile, user }));
+  }
+
+  async getContentFeed(query: ContentFeedQuery): Promise<ContentWithCreator[]> {
+    const rows = await this.db
+      .select({ content, creator: creatorSummaryColumns })
+      .from(content)
+      .leftJoin(users, eq(users.id, content.creatorId))
+      .where(and(
+        eq(content.isPremium, query.premium ?? false),
+        eq(content.processingStatus, 'ready'),
+        isNull(content.hiddenAt),
+        eq(content.moderationStatus, 'approved'),
+        query.contentType ? eq(content.contentType, query.contentType) : undefined
+      ))
+      .orderBy(desc(content.createdAt), desc(content.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    return rows.map(row => ({ ...row.content, creator: row.creator }));
+  }
+
+  async getCreatorContent(creatorId: number, options: CreatorContentOptions): Promise<ContentWithCreator[]> {
+    const rows = await this.db
+      .select({ content, creator: creatorSummaryColumns })
+      .from(content)
+      .leftJoin(users, eq(users.id, content.creatorId))
+      .where(and(
+        eq(content.creatorId, creatorId),
+        options.includePremium ? undefined : eq(content.isPremium, false),
+        options.includeHidden ? undefined : and(isNull(content.hiddenAt), eq(content.moderationStatus, 'approved'))
+      ))
+      .orderBy(desc(content.createdAt), desc(content.id));
+    return rows.map(row => ({ ...row.content, creator: row.creator }));
+  }
+
+  async getContent(id: number): Promise<Content | undefined> {
+    const [item] = await this.db.select().from(content).where(eq(content.id, id));
+    return item;
+  }
+
+  async createContent(item: Omit<InsertContent, "id">): Promise<Content> {
+    const [created] = await this.db.insert(content).values(item).returning();
+    return created;
+  }
+
+  async updateContent(id: number, changes: UpdateContent): Promise<Content | undefined> {
+    const [updated] = await this.db
+      .update(content)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(content.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteContent(id: number): Promise<Content | undefined> {
+    const [deleted] = await this.db.delete(content).where(eq(content.id, id)).returning();
+    return deleted;
+  }
+
+  async getCurrentSubscriptions(followerId: number): Promise<SubscriptionWithCreator[]> {
+    const rows = await this.db
+      .select({ subscription: subscriptions, creator: creatorSummaryColumns })
+      .from(subscriptions)
+      .leftJoin(users, eq(users.id, subscriptions.creatorId))
+      .where(and(
+        eq(subscriptions.followerId, followerId),
+        or(
+          eq(subscriptions.status, 'past_due'),
+          and(
+            eq(subscriptions.status, 'active'),
+            or(isNull(subscriptions.endDate), gt(subscriptions.endDate, new Date().toISOString()))
+          )
+        )
+      ))
+      .orderBy(asc(subscriptions.id));
+    return rows.map(row => ({ ...row.subscription, creator: row.creator }));
+  }
+
+  async getEntitledSubscription(followerId: number, creatorId: number): Promise<Subscription | undefined> {
+    const [subscription] = await this.db
+      .select()
+      .from(subscriptions)
+      .where(and(
+        eq(subscriptions.followerId, followerId),
+        eq(subscriptions.creatorId, creatorId),
+        inArray(subscriptions.status, entitledSubscriptionStatuses)
+      ));
+    return subscription;
+  }
+
+  async getFollowerSubscription(subscriptionId: number, followerId: number): Promise<Subscription | undefined> {
+    const [subscription] = await this.db
+      .select()
+      .from(subscriptions)
+      .where(and(eq(subscriptions.id, subscriptionId), eq(subscriptions.followerId, followerId)));
+    return subscription;
+  }
+
+  async createSubscription(subscription: Omit<InsertSubscription, "id">): Promise<Subscription> {
+    return this.db.transaction(async tx => {
+      const [created] = await tx.insert(subscriptions).values(subscription).returning();
+      await tx.insert(subscriptionHistory).values({
+        subscriptionId: created.id,
+        fromStatus: null,
+        toStatus: created.status,
+        reason: 'created',
+        paymentId: null,
+        endDate: created.endDate,
+        createdAt: new Date().toISOString()
+      });
+      return created;
+    });
+  }
+
+  async transitionSubscription(
+    subscriptionId: number,
+    toStatus: SubscriptionStatus,
+    reason: string,
+    options: Omit<TransitionOptions, 'executor'> = {}
+  ): Promise<Subscription | undefined> {
+    return this.db.transaction(tx => transitionPgSubscription(tx, subscriptionId, toStatus, reason, options));
+  }
+
+  async getSubscriptionHistory(subscriptionId: number): Promise<SubscriptionHistoryEntry[]> {
+    return this.db
+      .select()
+      .from(subscriptionHistory)
+      .where(eq(subscriptionHistory.subscriptionId, subscriptionId))
+      .orderBy(asc(subscriptionHistory.createdAt), asc(subscriptionHistory.id));
+  }
+
+  async getCompletedPurchase(followerId: number, contentId: number): Promise<ContentPurchase | undefined> {
+    const [purchase] = await this.db
+      .select()
+      .from(contentPurchases)
+      .where(and(
+        eq(contentPurchases.followerId, followerId),
+        eq(contentPurchases.contentId, contentId),
+        eq(contentPurchases.status, 'completed')
+      ));
+    return purchase;
+  }
+
+  async createContentPurchase(purchase: Omit<InsertContentPurchase, "id">): Promise<ContentPurchase> {
+    const [created] = await this.db.insert(contentPurchases).values(purchase).returning();
+    return created;
+  }
+
+  async updateContentPurchaseStatus(id: number, status: ContentPurchaseStatus): Promise<ContentPurchase | undefined> {
+    const [updated] = await this.db
+      .update(contentPurchases)
+      .set({ status, updatedAt: new Date().toISOString() })
+      .where(eq(contentPurchases.id, id))
+      .returning();
+    return updated;
+  }
+}
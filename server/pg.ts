@@ -0,0 +1,46 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase as PgCoreDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from 'ws';
+import * as schema from '@shared/schema-pg';
+
+// DATABASE_URL selects the backend: a postgres:// URL uses Postgres, anything else
+// (including the file: URL in .env) keeps the local SQLite file.
+export const usePostgres = /^postgres(ql)?:\/\//.test(process.env.DATABASE_URL ?? '');
+
+// Typed by the dialect rather than the Neon driver, so queries also run on other Postgres drivers
+export type PgDatabase = PgCoreDatabase<PgQueryResultHKT, typeof schema>;
+
+neonConfig.webSocketConstructor = ws;
+// A plain Postgres server (e.g. a local container) is reached through a WebSocket proxy
+// such as local-neon-http-proxy; Neon itself needs no proxy.
+if (process.env.PG_WS_PROXY) {
+  const proxy = process.env.PG_WS_PROXY;
+  neonConfig.wsProxy = host => `${proxy}/v2?address=${host}`;
+  neonConfig.useSecureWebSocket = false;
+  neonConfig.pipelineTLS = false;
+  neonConfig.pipelineConnect = false;
+}
+
+let connection: { pool: Pool; db: PgDatabase } | undefined;
+
+// Connects on first use, so SQLite deployments never open a pool
+export function getPostgres() {
+  if (!connection) {
+    if (!usePostgres) {
+      throw new Error('DATABASE_URL is not a Postgres connection string');
+    }
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    pool.on('error', error => console.error('Postgres pool error:', error));
+    connection = { pool, db: drizzle(pool, { schema }) };
+  }
+  return connection;
+}
+
+export async function closePostgres() {
+  if (connection) {
+    const { pool } = connection;
+    connection = undefined;
+    await pool.end();
+  }
+}
@@ -4,24 +4,27 @@ import { storage } from "./storage";
 import multer from "multer";
 import type { MulterError } from "multer";
 import * as fsPromises from 'fs/promises';
-import { processImage, ensureImageQuality } from './utils/imageProcessor';
-import { gallery, models } from "../shared/schema";
-import { db, eq, and } from "./db";
+import { processImage, ensureImageQuality, type ImageVariantFile } from './utils/imageProcessor';
+import { models } from "../shared/schema";
 import fs from "fs";
 import path from "path";
 import express from 'express';
 import { setupAuth, requireAuth } from "./auth";
+import { getMediaEntitlements, presentContent, presentGalleryItem } from "./media/access";
+import { getMediaVariants, recordMediaVariants, storeImageFiles } from "./media/variants";
+import { createMediaTeaser } from "./media/teasers";
+import { duplicateWarning, findNearDuplicates } from "./media/duplicates";
+import { uploadWatermark } from "./media/watermarks";
+import { UploadSessionError, claimUploadSession, resumableUpload } from "./media/upload-sessions";
+import { LOCAL_PRESIGN_ROUTE, MEDIA_SCRATCH_DIR, mediaStore, serveLocalPresigned, serveUploads } from "./media/store";
+import { auditTrail } from "./audit";
 import { open } from 'sqlite';
 import sqlite3 from 'sqlite3';
-import { sql } from 'drizzle-orm';
 
-// Set up multer storage
-const uploadDir = path.join(process.cwd(), 'uploads');
-const publicUploadsDir = path.join(process.cwd(), 'client', 'public', 'uploads');
-
-// Ensure upload directories exist with proper permissions
+// Uploads are received and processed in the scratch directory, then put into the media store;
+// make sure it exists with proper permissions
 async function ensureUploadDirectories() {
-  for (const dir of [uploadDir, publicUploadsDir]) {
+  for (const dir of [MEDIA_SCRATCH_DIR]) {
     try {
       // Check if directory exists
       try {
@@ -29,12 +32,12 @@ async function ensureUploadDirectories() {
         console.log(`Directory ${dir} exists and is writable`);
       } catch {
         // Directory doesn't exist or isn't writable, create it
-        await fsPromises.mkdir(dir, { recursive: true, mode: 0o755 });
+        await fsPromises.mkdir(dir, { recursive: true, mode: 0o700 });
         console.log(`Created directory ${dir}`);
       }
 
       // Ensure correct permissions
-      await fsPromises.chmod(dir, 0o755);
+      await fsPromises.chmod(dir, 0o700);
       
       // Verify directory is writable using a safer approach
       const testFile = path.join(dir, '.write-test');
@@ -61,16 +64,16 @@ import { hashPassword } from "./auth";
 const upload = multer({
   storage: multer.diskStorage({
     destination: function (req, file, cb) {
-      // Store files directly in the public uploads directory
-      if (!fs.existsSync(publicUploadsDir)) {
+      // Nothing serves the scratch directory, so raw uploads are never public
+      if (!fs.existsSync(MEDIA_SCRATCH_DIR)) {
         try {
-          fs.mkdirSync(publicUploadsDir, { recursive: true, mode: 0o755 });
+          fs.mkdirSync(MEDIA_SCRATCH_DIR, { recursive: true, mode: 0o700 });
         } catch (error) {
           console.error('Failed to create upload directory:', error);
           return cb(new Error('Failed to create upload directory'), '');
         }
       }
-      cb(null, publicUploadsDir);
+      cb(null, MEDIA_SCRATCH_DIR);
     },
     filename: function (req, file, cb) {
       try {
@@ -103,29 +106,6 @@ const upload = multer({
   }
 });
 
-const initializeDatabase = async () => {
-  await db.run(sql`
-    CREATE TABLE IF NOT EXISTS models (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      first_name TEXT NOT NULL,
-      last_name TEXT NOT NULL,
-      email TEXT NOT NULL UNIQUE,
-      phone TEXT NOT NULL,
-      date_of_birth TEXT NOT NULL,
-      social_platforms TEXT NOT NULL,
-      social_handles TEXT NOT NULL,
-      only_fans_link TEXT,
-      body_photo_url TEXT NOT NULL,
-      license_photo_url TEXT NOT NULL,
-      terms_accepted TEXT NOT NULL,
-      created_at DATETIME NOT NULL
-    )
-  `);
-  console.log('✅ Database initialized');
-};
-
-initializeDatabase();
-
 export async function registerRoutes(app: Express) {
   console.log('Registering routes...');
 
@@ -141,10 +121,31 @@ export async function registerRoutes(app: Express) {
     // Import API routes
     const contentRoutes = (await import('./api/content')).default;
     const subscriptionRoutes = (await import('./api/subscriptions')).default;
+    const galleryRoutes = (await import('./api/gallery')).default;
+    const modelRoutes = (await import('./api/models')).default;
+    const creatorRoutes = (await import('./api/creator')).default;
+    const adminRoutes = (await import('./api/admin')).default;
+    const twoFactorRoutes = (await import('./api/two-factor')).default;
+    const paymentRoutes = (await import('./api/payments')).default;
+    const mediaRoutes = (await import('./api/media')).default;
+    const uploadRoutes = (await import('./api/uploads')).default;
+    const reportRoutes = (await import('./api/reports')).default;
+
+    // Ahead of every API route, so no privileged mutation goes unrecorded
+    app.use('/api', auditTrail());
 
     // Register API routes
     app.use('/api/content', contentRoutes);
     app.use('/api/subscriptions', subscriptionRoutes);
+    app.use('/api/gallery', galleryRoutes);
+    app.use('/api', modelRoutes);
+    app.use('/api/creator', creatorRoutes);
+    app.use('/api/admin', adminRoutes);
+    app.use('/api/auth/2fa', twoFactorRoutes);
+    app.use('/api/payments', paymentRoutes);
+    app.use('/api/media', mediaRoutes);
+    app.use('/api/uploads', uploadRoutes);
+    app.use('/api/reports', reportRoutes);
 
     // Creators API endpoints
     app.get('/api/creators', async (req, res) => {
@@ -156,21 +157,7 @@ export async function registerRoutes(app: Express) {
         }
 
         // Get all creators
-        const creators = await db.query.creatorProfiles.findMany({
-          with: {
-            user: {
-              columns: {
-                id: true,
-                email: true,
-                username: true,
-                displayName: true,
-                avatarUrl: true,
-                bio: true,
-                createdAt: true,
-              }
-            }
-          }
-        });
+        const creators = await storage.listCreators();
         
         res.json(creators);
       } catch (error) {
@@ -190,37 +177,30 @@ export async function registerRoutes(app: Express) {
           return res.status(403).json({ error: 'Unauthorized' });
         }
         
-        const creator = await db.query.users.findFirst({
-          where: (users, { eq, and }) => and(
-            eq(users.id, userId),
-            eq(users.role, 'creator')
-          ),
-          with: {
-            creatorProfile: true
-          }
-        });
+        const creator = await storage.getCreator(userId);
         
         if (!creator) {
           return res.status(404).json({ error: 'Creator not found' });
         }
         
+        const { user, profile } = creator;
         res.json({
-          id: creator.id,
-          email: creator.email,
-          username: creator.username,
-          displayName: creator.display_name,
-          avatarUrl: creator.avatar_url,
-          bio: creator.bio,
-          verified: creator.verified,
-          approved: creator.creatorProfile?.approval_status === 'approved',
-          createdAt: creator.created_at,
-          instagram: creator.creatorProfile?.instagram,
-          twitter: creator.creatorProfile?.twitter,
-          tiktok: creator.creatorProfile?.tiktok,
-          onlyfans: creator.creatorProfile?.onlyfans,
-          featuredImageUrl: creator.creatorProfile?.featured_image_url,
-          monthlySubscriptionPrice: creator.creatorProfile?.monthly_subscription_price,
-          perPostPrice: creator.creatorProfile?.per_post_price
+          id: user.id,
+          email: user.email,
+          username: user.username,
+          displayName: user.displayName,
+          avatarUrl: user.avatarUrl,
+          bio: user.bio,
+          verified: user.verified,
+          approved: profile?.approvalStatus === 'approved',
+          createdAt: user.createdAt,
+          instagram: profile?.instagram,
+          twitter: profile?.twitter,
+          tiktok: profile?.tiktok,
+          onlyfans: profile?.onlyfans,
+          featuredImageUrl: profile?.featuredImageUrl,
+          monthlySubscriptionPrice: profile?.monthlySubscriptionPrice,
+          perPostPrice: profile?.perPostPrice
         });
       } catch (error) {
         console.error('Error fetching creator:', error);
@@ -241,33 +221,11 @@ export async function registerRoutes(app: Express) {
           return res.status(403).json({ error: 'Unauthorized' });
         }
         
-        // For now, return mock content data
-        // In a real implementation, you would query the database for creator content
-        const mockContent = [
-          {
-            id: 1,
-            title: 'Welcome to my page',
-            description: 'This is my first post!',
-            contentType: 'image',
-            url: '/uploads/sample-image-1.jpg',
-            isPremium: false,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          },
-          {
-            id: 2,
-            title: 'Premium Content',
-            description: 'Exclusive content for subscribers',
-            contentType: 'image',
-            url: '/uploads/sample-image-2.jpg',
-            isPremium: true,
-            price: 5.99,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          }
-        ];
+        const creatorContent = await storage.getCreatorContent(creatorId, { includePremium: true, includeHidden: true });
         
-        res.json(mockContent);
+        const entitlements = await getMediaEntitlements(req.user);
+        const variants = await getMediaVariants('content', creatorContent.map(item => item.id));
+        res.json(creatorContent.map(item => presentContent(item, entitlements, variants.get(item.id))));
       } catch (error) {
         console.error('Error fetching creator content:', error);
         res.status(500).json({ 
@@ -283,40 +241,18 @@ export async function registerRoutes(app: Express) {
         const creatorId = parseInt(id);
         const { approved, rejectionReason } = req.body;
         
-        const creator = await db.query.users.findFirst({
-          where: (users, { eq, and }) => and(
-            eq(users.id, creatorId),
-            eq(users.role, 'creator')
-          ),
-          with: {
-            creatorProfile: true
-          }
-        });
+        const creator = await storage.getCreator(creatorId);
         
         if (!creator) {
           return res.status(404).json({ error: 'Creator not found' });
         }
         
-        // Update creator profile approval status
-        if (creator.creatorProfile) {
-          await db.update(storage.creatorProfiles)
-            .set({
-              approval_status: approved ? 'approved' : 'rejected',
-              approval_date: approved ? new Date().toISOString() : null,
-              approved_by: approved ? req.user?.id : null,
-              rejection_reason: !approved ? rejectionReason : null
-            })
-            .where(eq(storage.creatorProfiles.user_id, creatorId));
-        } else {
-          // Create creator profile if it doesn't exist
-          await db.insert(storage.creatorProfiles).values({
-            user_id: creatorId,
-            approval_status: approved ? 'approved' : 'rejected',
-            approval_date: approved ? new Date().toISOString() : null,
-            approved_by: approved ? req.user?.id : null,
-            rejection_reason: !approved ? rejectionReason : null
-          });
-        }
+        // Update the creator profile's approval status, creating the profile if it doesn't exist
+        await storage.setCreatorApproval(creatorId, {
+          approved: Boolean(approved),
+          reviewedBy: req.user!.id,
+          rejectionReason
+        });
         
         res.json({ success: true });
       } catch (error) {
@@ -338,19 +274,7 @@ export async function registerRoutes(app: Express) {
         }
 
         // Get all followers
-        const followers = await db.query.followerProfiles.findMany({
-          with: {
-            user: {
-              columns: {
-                id: true,
-                username: true,
-                email: true,
-                created_at: true,
-                role: true
-              }
-            }
-          }
-        });
+        const followers = await storage.listFollowers();
         
         res.json(followers);
       } catch (error) {
@@ -394,34 +318,31 @@ export async function registerRoutes(app: Express) {
             filename: file.filename
           });
 
-          // Ensure upload directory exists
-          const uploadDir = path.join(process.cwd(), 'client', 'public', 'uploads');
-          console.log('Creating upload directory:', uploadDir);
-          await fsPromises.mkdir(uploadDir, { recursive: true });
-
-          // Move file to public uploads directory
-          const publicPath = path.join(uploadDir, file.filename);
-          console.log('Moving file to:', publicPath);
-          await fsPromises.copyFile(file.path, publicPath);
-          console.log('File moved successfully');
-
-          // Process image if it's a photo
+          // Photos are re-encoded as JPEG, which also strips their location and device metadata;
+          // anything else is stored as-is
+          let filename = file.filename;
           if (file.mimetype.startsWith('image/')) {
             try {
               console.log('Processing image...');
-              await processImage(publicPath, {
-                quality: 80,
-                maxWidth: 2000,
-                maxHeight: 2000
-              });
+              filename = `${path.parse(file.filename).name}.jpg`;
+              const processed = await processImage(file.path, path.join(MEDIA_SCRATCH_DIR, filename), { variants: false });
+              await mediaStore.put(`uploads/${filename}`, processed.path, 'image/jpeg');
               console.log('Image processed successfully');
             } catch (processError) {
+              // Never fall back to publishing the original, which may still carry GPS data
               console.error('Image processing error:', processError);
+              return res.status(400).json({ error: 'Could not process image' });
+            } finally {
+              fsPromises.unlink(file.path).catch(() => {});
             }
+          } else {
+            console.log('Storing file as:', `uploads/${filename}`);
+            await mediaStore.put(`uploads/${filename}`, file.path, file.mimetype);
+            console.log('File stored successfully');
           }
 
           // Return the URL
-          const url = `/uploads/${file.filename}`;
+          const url = `/uploads/${filename}`;
           console.log('Upload successful, returning URL:', url);
           res.json({ url });
         } catch (error) {
@@ -444,9 +365,7 @@ export async function registerRoutes(app: Express) {
         const files = req.files as { [fieldname: string]: Express.Multer.File[] };
 
         // Check if user already exists
-        const existingUser = await db.query.users.findFirst({
-          where: (users, { eq }) => eq(users.email, email)
-        });
+        const existingUser = await storage.getUser(email);
 
         if (existingUser) {
           return res.status(400).json({
@@ -458,33 +377,22 @@ export async function registerRoutes(app: Express) {
         const hashedPassword = await hashPassword(password);
 
         // Create user
-        const user = await db.insert(schema.users).values({
+        const user = await storage.createUser({
           email,
           password: hashedPassword,
           role,
           username,
           displayName
-        }).returning().get();
+        });
 
-        // If creator role, create model profile
+        // Creators start with a pending profile; application details go through /api/models
         if (role === 'creator') {
-          const bodyPhotoUrl = files?.bodyPhoto?.[0]?.path;
-          const licensePhotoUrl = files?.licensePhoto?.[0]?.path;
-
-          await db.insert(schema.creatorProfiles).values({
-            userId: user.id,
-            ...modelData,
-            bodyPhotoUrl,
-            licensePhotoUrl
-          });
+          await storage.createCreatorProfile({ userId: user.id, displayName: displayName || username || email });
         }
 
         // If follower role, create follower profile
         if (role === 'follower') {
-          await db.insert(schema.followerProfiles).values({
-            userId: user.id,
-            preferences: req.body.interests ? JSON.stringify(req.body.interests) : null
-          });
+          await storage.createFollowerProfile({ userId: user.id });
         }
 
         // Log the user in
@@ -531,18 +439,17 @@ export async function registerRoutes(app: Express) {
         const { email, password } = req.body;
         
         // Check if any users exist
-        const existingUsers = await db.select().from(users);
-        if (existingUsers.length > 0) {
+        if (await storage.hasUsers()) {
           return res.status(400).json({ message: 'Setup already completed' });
         }
 
         // Create admin user
         const hashedPassword = await hashPassword(password);
-        const [user] = await db.insert(users).values({
+        const user = await storage.createUser({
           email,
           password: hashedPassword,
           role: 'admin'
-        }).returning();
+        });
 
         return res.json({ message: 'Admin user created successfully', user: { id: user.id, email: user.email } });
       } catch (error) {
@@ -596,7 +503,7 @@ export async function registerRoutes(app: Express) {
     });
     
     // Serve static files after setting headers
-    app.use('/uploads', express.static(publicUploadsDir, {
+    app.use('/uploads', serveUploads({
       maxAge: '1d',
       etag: true,
       lastModified: true,
@@ -608,37 +515,26 @@ export async function registerRoutes(app: Express) {
           res.setHeader('Content-Type', 'image/png');
         } else if (path.endsWith('.webp')) {
           res.setHeader('Content-Type', 'image/webp');
+        } else if (path.endsWith('.avif')) {
+          res.setHeader('Content-Type', 'image/avif');
         }
       }
     }));
+    app.use(LOCAL_PRESIGN_ROUTE, serveLocalPresigned());
     
-    console.log('Serving uploads from:', publicUploadsDir);
+    console.log('Serving uploads from the media store:', mediaStore.name);
 
     // Debug endpoint to check if files exist
     app.get('/api/debug/files', async (req, res) => {
       try {
-        // Check if uploads directories exist
-        const serverUploadsExists = fs.existsSync(uploadDir);
-        const clientUploadsExists = fs.existsSync(publicUploadsDir);
-        
-        // Get list of files in both directories
-        const serverFiles = serverUploadsExists ? fs.readdirSync(uploadDir) : [];
-        const clientFiles = clientUploadsExists ? fs.readdirSync(publicUploadsDir) : [];
+        // Public files, as served under /uploads
+        const files = await mediaStore.list('uploads/');
         
         res.json({
-          directories: {
-            serverUploads: {
-              path: uploadDir,
-              exists: serverUploadsExists,
-              fileCount: serverFiles.length,
-              sampleFiles: serverFiles.slice(0, 5)
-            },
-            clientUploads: {
-              path: publicUploadsDir,
-              exists: clientUploadsExists,
-              fileCount: clientFiles.length,
-              sampleFiles: clientFiles.slice(0, 5)
-            }
+          store: mediaStore.name,
+          uploads: {
+            fileCount: files.length,
+            sampleFiles: files.slice(0, 5).map(file => file.key)
           }
         });
       } catch (error) {
@@ -654,7 +550,7 @@ export async function registerRoutes(app: Express) {
     // Initialize upload directories
     await ensureUploadDirectories();
 
-    app.post("/api/:type(gallery|featured)", requireAuth, async (req, res) => {
+    app.post("/api/:type(gallery|featured)", requireAuth(['admin']), async (req, res) => {
       console.log(`Gallery upload request received for type: ${req.params.type}`);
       console.log(`Server port: ${process.env.PORT || 3004}`);
       console.log(`Authentication status:`, {
@@ -671,8 +567,8 @@ export async function registerRoutes(app: Express) {
       });
       
       let originalPath: string | null = null;
-      let serverProcessedPath: string | null = null;
-      let clientProcessedPath: string | null = null;
+      let processedPath: string | null = null;
+      let processedFiles: ImageVariantFile[] = [];
       
       try {
         // First ensure upload directories exist
@@ -686,7 +582,7 @@ export async function registerRoutes(app: Express) {
             if (err instanceof multer.MulterError) {
               console.error('Multer upload error:', err);
               if (err.code === 'LIMIT_FILE_SIZE') {
-                reject(new Error('File size too large. Maximum size is 5MB'));
+                reject(new Error('File size too large. Maximum size is 50MB'));
               } else {
                 reject(new Error(`Upload error: ${err.message}`));
               }
@@ -696,6 +592,16 @@ export async function registerRoutes(app: Express) {
               reject(new Error('Failed to upload file'));
               return;
             }
+
+            // Large files arrive beforehand through /api/uploads and are referenced by id
+            if (!req.file && typeof req.body.uploadId === 'string') {
+              try {
+                req.file = await claimUploadSession(req.body.uploadId, req.user!.id, MEDIA_SCRATCH_DIR, 'image');
+              } catch (claimError) {
+                reject(claimError);
+                return;
+              }
+            }
             
             if (!req.file) {
               console.error('No file in request');
@@ -740,27 +646,27 @@ export async function registerRoutes(app: Express) {
         const timestamp = Date.now();
         const processedFilename = `processed_${timestamp}_${file.filename}`;
         
-        // Save to both upload directories to ensure availability
-        serverProcessedPath = path.join(uploadDir, processedFilename);
-        clientProcessedPath = path.join(publicUploadsDir, processedFilename);
-        
-        // Ensure we can write to the destinations
-        await fsPromises.access(path.dirname(serverProcessedPath), fs.constants.W_OK);
-        await fsPromises.access(path.dirname(clientProcessedPath), fs.constants.W_OK);
-        
-        // Process the image and save to server uploads
-        const processedImage = await processImage(originalPath, serverProcessedPath);
-        
-        // Also copy to client public uploads
-        await fsPromises.copyFile(serverProcessedPath, clientProcessedPath);
+        // Process the image in the scratch directory
+        processedPath = path.join(MEDIA_SCRATCH_DIR, processedFilename);
+        const processedImage = await processImage(originalPath, processedPath, { watermark: await uploadWatermark() });
+        processedFiles = processedImage.variants;
         
         const imageUrl = `/uploads/${processedFilename}`;
+        const teaser = await createMediaTeaser('gallery', processedPath, imageUrl);
+        const duplicates = await findNearDuplicates(processedImage.perceptualHash, req.user!.id);
         const title = req.body.title || "Featured Model";
         
+        // Parse isPremium flag properly (handle both string and boolean values)
+        const isPremium = req.body.isPremium === true || req.body.isPremium === 'true' ? true : false;
+        console.log('Setting isPremium to:', isPremium, 'from value:', req.body.isPremium);
+
+        // Put the image and its responsive variants into the media store; premium uploads go
+        // straight to the private side and are never publicly reachable
+        await storeImageFiles('gallery', imageUrl, processedImage.variants, isPremium);
+        
         console.log('Processing gallery upload complete:', {
           originalPath,
-          serverProcessedPath,
-          clientProcessedPath,
+          processedPath,
           dimensions: `${processedImage.width}x${processedImage.height}`,
           url: imageUrl,
           title
@@ -784,25 +690,23 @@ export async function registerRoutes(app: Express) {
         // Validate content rating
         const contentRating = req.body.contentRating === 'nsfw' ? 'nsfw' : 'sfw';
         
-        // Parse isPremium flag properly (handle both string and boolean values)
-        const isPremium = req.body.isPremium === true || req.body.isPremium === 'true' ? true : false;
-        console.log('Setting isPremium to:', isPremium, 'from value:', req.body.isPremium);
-        
         // Insert into database
-        const result = await db.insert(gallery).values({
+        const item = await storage.createGalleryItem({
           url: imageUrl,
           title: title,
           type: req.params.type,
           contentRating,
-          is_premium: isPremium,
+          isPremium,
           createdAt: new Date().toISOString(),
           tags,
           instagram: req.body.instagram?.trim() || null,
           tiktok: req.body.tiktok?.trim() || null,
           twitter: req.body.twitter?.trim() || null,
           onlyfans: req.body.onlyfans?.trim() || null,
-          description: req.body.description?.trim() || null
-        }).returning();
+          description: req.body.description?.trim() || null,
+          ...teaser,
+          perceptualHash: processedImage.perceptualHash
+        });
 
         // Clean up original file after successful processing
         try {
@@ -818,8 +722,13 @@ export async function registerRoutes(app: Express) {
           console.error('Failed to clean up files after error:', cleanupError);
         }
 
-        console.log('Successfully saved gallery media:', result[0]);
-        return res.json(result[0]);
+        const variants = await recordMediaVariants('gallery', item.id, imageUrl, processedImage.variants);
+
+        console.log('Successfully saved gallery media:', item);
+        return res.json({
+          ...presentGalleryItem(item, await getMediaEntitlements(req.user), variants),
+          duplicateWarning: duplicateWarning(duplicates, req.user!)
+        });
       } catch (err) {
         console.error('Failed to upload media:', err);
 
@@ -833,10 +742,22 @@ export async function registerRoutes(app: Express) {
               console.warn('Failed to delete original file:', e);
             }
           }
+          // Processed files that didn't make it into the store
+          for (const processedFile of processedFiles) {
+            await fsPromises.unlink(processedFile.path).catch(() => {});
+          }
         } catch (cleanupError) {
           console.error('Failed to clean up files after error:', cleanupError);
         }
 
+        if (err instanceof UploadSessionError) {
+          return res.status(err.status).json({
+            message: err.message,
+            error: err.message,
+            code: err.code
+          });
+        }
+
         if (err instanceof Error) {
           if (err.message.includes('Image dimensions too small')) {
             return res.status(400).json({ 
@@ -852,7 +773,7 @@ export async function registerRoutes(app: Express) {
             });
           } else if (err.message.includes('File size too large')) {
             return res.status(413).json({ 
-              message: 'File size too large. Maximum size is 5MB',
+              message: 'File size too large. Maximum size is 50MB',
               error: err.message,
               code: 'FILE_TOO_LARGE'
             });
@@ -881,123 +802,9 @@ export async function registerRoutes(app: Express) {
       }
     });
 
-    // Temporary endpoint for testing gallery uploads without authentication
-    app.post("/api/test-gallery-upload", upload.single('image'), async (req, res) => {
-      console.log(`Test gallery upload request received`);
-      console.log(`Request headers:`, {
-        contentType: req.headers['content-type'],
-        contentLength: req.headers['content-length'],
-        host: req.headers.host,
-        origin: req.headers.origin,
-      });
-      
-      try {
-        if (!req.file) {
-          console.log('No file in request');
-          return res.status(400).json({ message: 'No file uploaded' });
-        }
-        
-        console.log('File upload successful:', {
-          filename: req.file.filename,
-          size: req.file.size,
-          mimetype: req.file.mimetype
-        });
-        
-        // Skip any image processing for the test endpoint
-        // Just return success immediately
-        const imageUrl = `/uploads/${req.file.filename}`;
-        
-        return res.json({ 
-          message: 'Test upload successful',
-          file: {
-            filename: req.file.filename,
-            size: req.file.size,
-            mimetype: req.file.mimetype,
-            path: req.file.path,
-            url: imageUrl
-          }
-        });
-      } catch (err) {
-        console.error('Test upload failed:', err);
-        return res.status(500).json({ 
-          message: 'Test upload failed',
-          error: err instanceof Error ? err.message : 'Unknown error'
-        });
-      }
-    });
-
-    // Update gallery item premium status
-    app.patch("/api/gallery/:id/premium", requireAuth, async (req, res) => {
-      try {
-        const { id } = req.params;
-        const { isPremium } = req.body;
-        
-        // Convert isPremium to boolean properly
-        const isPremiumBool = isPremium === true || isPremium === 'true' ? true : false;
-        
-        console.log(`Updating premium status for gallery item ${id} to ${isPremiumBool}`);
-        
-        // Validate the ID
-        if (!id || isNaN(Number(id))) {
-          return res.status(400).json({ 
-            message: "Invalid gallery item ID" 
-          });
-        }
-        
-        // Update the gallery item
-        const result = await db.update(gallery)
-          .set({ is_premium: isPremiumBool })
-          .where(eq(gallery.id, Number(id)))
-          .returning();
-        
-        if (!result.length) {
-          return res.status(404).json({ 
-            message: "Gallery item not found" 
-          });
-        }
-        
-        console.log('Successfully updated gallery item:', result[0]);
-        res.json({ 
-          message: "Gallery item updated", 
-          updatedItem: result[0] 
-        });
-      } catch (error) {
-        console.error('Failed to update gallery item:', error);
-        res.status(500).json({ 
-          message: "Failed to update gallery item",
-          error: error instanceof Error ? error.message : "Unknown error"
-        });
-      }
-    });
-
-    // Batch update gallery items to remove premium status
-    app.post("/api/gallery/remove-premium", requireAuth, async (req, res) => {
-      try {
-        console.log('Removing premium status from all gallery items');
-        
-        // Update all gallery items
-        const result = await db.update(gallery)
-          .set({ is_premium: false })
-          .where(eq(gallery.is_premium, true))
-          .returning();
-        
-        console.log(`Successfully updated ${result.length} gallery items`);
-        res.json({ 
-          message: `Successfully removed premium status from ${result.length} gallery items`, 
-          updatedCount: result.length 
-        });
-      } catch (error) {
-        console.error('Failed to update gallery items:', error);
-        res.status(500).json({ 
-          message: "Failed to update gallery items",
-          error: error instanceof Error ? error.message : "Unknown error"
-        });
-      }
-    });
-
     // Featured models endpoints
-    app.post("/api/featured", requireAuth, upload.single("image"), async (req, res) => {
-      let error: unknown;
+    app.post("/api/featured", requireAuth(['admin']), upload.single("image"), resumableUpload('image', MEDIA_SCRATCH_DIR), async (req, res) => {
+      let processedFiles: ImageVariantFile[] = [];
       try {
         // Log request details
         console.log('Featured upload request:', { 
@@ -1023,37 +830,26 @@ export async function registerRoutes(app: Express) {
           return res.status(400).json({ message: "Invalid file type. Only JPEG, PNG, and WebP images are allowed." });
         }
 
-        // Ensure upload directory exists and is writable
-        try {
-          if (!fs.existsSync(uploadDir)) {
-            fs.mkdirSync(uploadDir, { recursive: true, mode: 0o755 });
-            console.log('Created upload directory:', uploadDir);
-          }
-          await fsPromises.access(uploadDir, fs.constants.W_OK);
-        } catch (error) {
-          console.error('Upload directory error:', error);
-          return res.status(500).json({ 
-            message: "Server configuration error: Upload directory is not accessible",
-            error: error instanceof Error ? error.message : "Unknown error"
-          });
-        }
-
         // Process and validate the image
         await ensureImageQuality(req.file.path);
         
         // Generate processed image filename
         const processedFilename = `processed_${req.file.filename}`;
-        const publicImagePath = path.join(publicUploadsDir, processedFilename);
+        const processedPath = path.join(MEDIA_SCRATCH_DIR, processedFilename);
         
         // Process the image to ensure good composition
-        const processedImage = await processImage(req.file.path, publicImagePath);
+        const processedImage = await processImage(req.file.path, processedPath, { watermark: await uploadWatermark() });
+        processedFiles = processedImage.variants;
         
         const imageUrl = `/uploads/${processedFilename}`;
+        const teaser = await createMediaTeaser('gallery', processedPath, imageUrl);
+        const duplicates = await findNearDuplicates(processedImage.perceptualHash, req.user!.id);
         const title = req.body.title || req.file.originalname;
+        await storeImageFiles('gallery', imageUrl, processedImage.variants);
         
         console.log('Processing featured upload:', {
           originalPath: req.file.path,
-          processedPath: publicImagePath,
+          processedPath,
           dimensions: `${processedImage.width}x${processedImage.height}`,
           url: imageUrl,
           title
@@ -1067,7 +863,7 @@ export async function registerRoutes(app: Express) {
           tags
         });
 
-        const result = await db.insert(gallery).values({
+        const item = await storage.createGalleryItem({
           url: imageUrl,
           title: title,
           type: 'featured',
@@ -1077,11 +873,15 @@ export async function registerRoutes(app: Express) {
           tiktok: req.body.tiktok || null,
           twitter: req.body.twitter || null,
           onlyfans: req.body.onlyfans || null,
-          description: req.body.description || null
-        }).returning();
+          description: req.body.description || null,
+          ...teaser,
+          perceptualHash: processedImage.perceptualHash
+        });
 
-        console.log('Successfully saved featured media:', result[0]);
-        res.json(result[0]);
+        await recordMediaVariants('gallery', item.id, imageUrl, processedImage.variants);
+
+        console.log('Successfully saved featured media:', item);
+        res.json({ ...item, duplicateWarning: duplicateWarning(duplicates, req.user!) });
       } catch (error) {
         console.error('Failed to upload media:', error);
         console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
@@ -1091,13 +891,9 @@ export async function registerRoutes(app: Express) {
           stack: error instanceof Error ? error.stack : undefined
         });
       } finally {
-        // Clean up any uploaded files if there was an error
-        if (req.file && error) {
-          try {
-            await fsPromises.unlink(req.file.path);
-          } catch (unlinkError) {
-            console.error('Failed to clean up uploaded file:', unlinkError);
-          }
+        // Clean up the original upload, and any processed files that didn't make it into the store
+        for (const filePath of [...(req.file ? [req.file.path] : []), ...processedFiles.map(file => file.path)]) {
+          fsPromises.unlink(filePath).catch(() => {});
         }
       }
     });
@@ -0,0 +1,23 @@
+import { randomBytes } from "crypto";
+
+const generated = new Map<string, string>();
+
+/**
+ * Reads a signing secret from the environment. Production refuses to start without one, since
+ * a guessable or per-process value would let signatures be forged or break across restarts and
+ * servers. Development falls back to a random value that lasts until the process exits.
+ */
+export function requireSecret(name: string): string {
+  const value = process.env[name];
+  if (value) {
+    return value;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`${name} must be set in production`);
+  }
+  if (!generated.has(name)) {
+    console.warn(`${name} is not set; using a random value that changes on every restart`);
+    generated.set(name, randomBytes(32).toString('hex'));
+  }
+  return generated.get(name)!;
+}
@@ -0,0 +1,290 @@
+import session, { type SessionData } from "express-session";
+import { createHash } from "crypto";
+import { and, eq, gt, lte, ne } from "drizzle-orm";
+import { db } from "./db";
+import { getPostgres, usePostgres } from "./pg";
+import { sessions, type Session } from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+    user?: { id: number; email: string; role: string; username: string | null };
+    // Recorded at login so admins can tell a user's sessions apart
+    client?: { ipAddress?: string; userAgent?: string };
+    // Password accepted but the second factor is still outstanding
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+  }
+}
+
+type Callback = (err?: unknown) => void;
+
+interface SessionStoreOptions {
+  // Lifetime for sessions whose cookie has no explicit expiry
+  ttl?: number;
+  // How often expired rows are deleted
+  sweepInterval?: number;
+}
+
+// Sessions are listed under a hash of their id; the id itself is the cookie value and never leaves the store
+export type ActiveSession = Pick<Session, 'userId' | 'ipAddress' | 'userAgent' | 'createdAt' | 'updatedAt' | 'expiresAt'> & {
+  handle: string;
+};
+
+export function sessionHandle(sid: string) {
+  return createHash('sha256').update(sid).digest('base64url');
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type SessionRow = Pick<Session, 'sid' | 'userId' | 'sess' | 'expiresAt' | 'ipAddress' | 'userAgent' | 'createdAt' | 'updatedAt'>;
+type SessionValues = Omit<SessionRow, 'sid' | 'createdAt'>;
+
+// The sessions table in whichever database DATABASE_URL selects
+interface SessionRows {
+  get(sid: string): Promise<SessionRow | undefined>;
+  upsert(sid: string, createdAt: string, values: SessionValues): Promise<void>;
+  touch(sid: string, expiresAt: number, updatedAt: string): Promise<void>;
+  delete(sid: string): Promise<void>;
+  listActive(now: number): Promise<SessionRow[]>;
+  listForUser(userId: number, now?: number): Promise<SessionRow[]>;
+  clear(): Promise<void>;
+  // The remaining methods return how many rows they deleted
+  deleteExpired(now: number): Promise<number>;
+  deleteForUser(userId: number, sid: string): Promise<number>;
+  deleteAllForUser(userId: number, exceptSid?: string): Promise<number>;
+}
+
+type SessionsTable = typeof sessions | typeof pg.sessions;
+
+function userSessionConditions(table: SessionsTable, userId: number, now?: number) {
+  const conditions = [eq(table.userId, userId)];
+  if (now !== undefined) {
+    conditions.push(gt(table.expiresAt, now));
+  }
+  return and(...conditions);
+}
+
+function exceptSessionConditions(table: SessionsTable, userId: number, exceptSid?: string) {
+  const conditions = [eq(table.userId, userId)];
+  if (exceptSid) {
+    conditions.push(ne(table.sid, exceptSid));
+  }
+  return and(...conditions);
+}
+
+class SqliteSessionRows implements SessionRows {
+  async get(sid: string) {
+    return db.select().from(sessions).where(eq(sessions.sid, sid)).get();
+  }
+
+  async upsert(sid: string, createdAt: string, values: SessionValues) {
+    db.insert(sessions)
+      .values({ sid, createdAt, ...values })
+      .onConflictDoUpdate({ target: sessions.sid, set: values })
+      .run();
+  }
+
+  async touch(sid: string, expiresAt: number, updatedAt: string) {
+    db.update(sessions).set({ expiresAt, updatedAt }).where(eq(sessions.sid, sid)).run();
+  }
+
+  async delete(sid: string) {
+    db.delete(sessions).where(eq(sessions.sid, sid)).run();
+  }
+
+  async listActive(now: number) {
+    return db.select().from(sessions).where(gt(sessions.expiresAt, now)).all();
+  }
+
+  async listForUser(userId: number, now?: number) {
+    return db.select().from(sessions).where(userSessionConditions(sessions, userId, now)).all();
+  }
+
+  async clear() {
+    db.delete(sessions).run();
+  }
+
+  async deleteExpired(now: number) {
+    return db.delete(sessions).where(lte(sessions.expiresAt, now)).run().changes;
+  }
+
+  async deleteForUser(userId: number, sid: string) {
+    return db.delete(sessions).where(and(eq(sessions.userId, userId), eq(sessions.sid, sid))).run().changes;
+  }
+
+  async deleteAllForUser(userId: number, exceptSid?: string) {
+    return db.delete(sessions).where(exceptSessionConditions(sessions, userId, exceptSid)).run().changes;
+  }
+}
+
+class PostgresSessionRows implements SessionRows {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async get(sid: string) {
+    const [row] = await this.db.select().from(pg.sessions).where(eq(pg.sessions.sid, sid));
+    return row;
+  }
+
+  async upsert(sid: string, createdAt: string, values: SessionValues) {
+    await this.db.insert(pg.sessions)
+      .values({ sid, createdAt, ...values })
+      .onConflictDoUpdate({ target: pg.sessions.sid, set: values });
+  }
+
+  async touch(sid: string, expiresAt: number, updatedAt: string) {
+    await this.db.update(pg.sessions).set({ expiresAt, updatedAt }).where(eq(pg.sessions.sid, sid));
+  }
+
+  async delete(sid: string) {
+    await this.db.delete(pg.sessions).where(eq(pg.sessions.sid, sid));
+  }
+
+  async listActive(now: number) {
+    return this.db.select().from(pg.sessions).where(gt(pg.sessions.expiresAt, now));
+  }
+
+  async listForUser(userId: number, now?: number) {
+    return this.db.select().from(pg.sessions).where(userSessionConditions(pg.sessions, userId, now));
+  }
+
+  async clear() {
+    await this.db.delete(pg.sessions);
+  }
+
+  async deleteExpired(now: number) {
+    const removed = await this.db.delete(pg.sessions)
+      .where(lte(pg.sessions.expiresAt, now))
+      .returning({ sid: pg.sessions.sid });
+    return removed.length;
+  }
+
+  async deleteForUser(userId: number, sid: string) {
+    const removed = await this.db.delete(pg.sessions)
+      .where(and(eq(pg.sessions.userId, userId), eq(pg.sessions.sid, sid)))
+      .returning({ sid: pg.sessions.sid });
+    return removed.length;
+  }
+
+  async deleteAllForUser(userId: number, exceptSid?: string) {
+    const removed = await this.db.delete(pg.sessions)
+      .where(exceptSessionConditions(pg.sessions, userId, exceptSid))
+      .returning({ sid: pg.sessions.sid });
+    return removed.length;
+  }
+}
+
+/**
+ * express-session store backed by the app's database, so sessions survive restarts
+ * and can be shared by every process using the same database.
+ */
+export class DatabaseSessionStore extends session.Store {
+  private readonly ttl: number;
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor(private readonly rows: SessionRows, options: SessionStoreOptions = {}) {
+    super();
+    this.ttl = options.ttl ?? DAY;
+    this.sweepTimer = setInterval(() => {
+      this.sweep()
+        .then(removed => {
+          if (removed > 0) {
+            console.log(`Swept ${removed} expired sessions`);
+          }
+        })
+        .catch(error => console.error('Failed to sweep expired sessions:', error));
+    }, options.sweepInterval ?? 15 * 60 * 1000);
+    // Don't keep the process alive just to sweep sessions
+    this.sweepTimer.unref();
+  }
+
+  private expiryFor(sess: SessionData) {
+    const expires = sess.cookie?.expires;
+    return expires ? new Date(expires).getTime() : Date.now() + this.ttl;
+  }
+
+  get(sid: string, callback: (err: unknown, session?: SessionData | null) => void) {
+    (async () => {
+      const row = await this.rows.get(sid);
+      if (!row) {
+        return null;
+      }
+      if (row.expiresAt <= Date.now()) {
+        await this.rows.delete(sid);
+        return null;
+      }
+      return row.sess as SessionData;
+    })().then(sess => callback(null, sess), callback);
+  }
+
+  set(sid: string, sess: SessionData, callback?: Callback) {
+    const now = new Date().toISOString();
+    this.rows.upsert(sid, now, {
+      userId: sess.passport?.user ?? null,
+      sess,
+      expiresAt: this.expiryFor(sess),
+      ipAddress: sess.client?.ipAddress ?? null,
+      userAgent: sess.client?.userAgent ?? null,
+      updatedAt: now
+    }).then(() => callback?.(), error => callback?.(error));
+  }
+
+  touch(sid: string, sess: SessionData, callback?: Callback) {
+    this.rows.touch(sid, this.expiryFor(sess), new Date().toISOString())
+      .then(() => callback?.(), error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: Callback) {
+    this.rows.delete(sid).then(() => callback?.(), error => callback?.(error));
+  }
+
+  all(callback: (err: unknown, obj?: SessionData[] | { [sid: string]: SessionData } | null) => void) {
+    this.rows.listActive(Date.now()).then(
+      rows => callback(null, Object.fromEntries(rows.map(row => [row.sid, row.sess as SessionData]))),
+      callback
+    );
+  }
+
+  length(callback: (err: unknown, length?: number) => void) {
+    this.rows.listActive(Date.now()).then(rows => callback(null, rows.length), callback);
+  }
+
+  clear(callback?: Callback) {
+    this.rows.clear().then(() => callback?.(), error => callback?.(error));
+  }
+
+  sweep(): Promise<number> {
+    return this.rows.deleteExpired(Date.now());
+  }
+
+  async listForUser(userId: number): Promise<ActiveSession[]> {
+    const rows = await this.rows.listForUser(userId, Date.now());
+    return rows.map(({ sid, userId, ipAddress, userAgent, createdAt, updatedAt, expiresAt }) => ({
+      handle: sessionHandle(sid),
+      userId,
+      ipAddress,
+      userAgent,
+      createdAt,
+      updatedAt,
+      expiresAt
+    }));
+  }
+
+  // Returns whether the session existed and belonged to the user
+  async revoke(userId: number, handle: string): Promise<boolean> {
+    const match = (await this.rows.listForUser(userId)).find(row => sessionHandle(row.sid) === handle);
+    if (!match) {
+      return false;
+    }
+    return await this.rows.deleteForUser(userId, match.sid) > 0;
+  }
+
+  // Revokes all of a user's sessions, optionally keeping the caller's own
+  revokeAllForUser(userId: number, exceptSid?: string): Promise<number> {
+    return this.rows.deleteAllForUser(userId, exceptSid);
+  }
+}
+
+export const sessionStore = new DatabaseSessionStore(usePostgres ? new PostgresSessionRows() : new SqliteSessionRows());
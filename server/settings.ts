@@ -0,0 +1,81 @@
+import { db } from "./db";
+import { getPostgres, usePostgres } from "./pg";
+import { platformSettings, type PlatformSettings } from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+
+const DEFAULT_SETTINGS: PlatformSettings = {
+  requireAdminTwoFactor: false,
+  watermarkPreviews: true,
+  watermarkPosition: 'bottom-right',
+  watermarkOpacity: 0.5,
+  traceablePremiumMedia: false,
+  duplicateHashThreshold: 8,
+  reportHideThreshold: 3,
+  contentApprovalMode: 'off',
+  newCreatorApprovedPosts: 3
+};
+
+interface StoredSetting {
+  key: string;
+  value: unknown;
+}
+
+// The platform_settings table in whichever database DATABASE_URL selects
+interface SettingsStore {
+  list(): Promise<StoredSetting[]>;
+  save(settings: StoredSetting[], updatedBy: number, updatedAt: string): Promise<void>;
+}
+
+class SqliteSettingsStore implements SettingsStore {
+  async list() {
+    return db.select().from(platformSettings).all();
+  }
+
+  async save(settings: StoredSetting[], updatedBy: number, updatedAt: string) {
+    db.transaction(tx => {
+      for (const { key, value } of settings) {
+        tx.insert(platformSettings)
+          .values({ key, value, updatedBy, updatedAt })
+          .onConflictDoUpdate({ target: platformSettings.key, set: { value, updatedBy, updatedAt } })
+          .run();
+      }
+    });
+  }
+}
+
+class PostgresSettingsStore implements SettingsStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async list() {
+    return this.db.select().from(pg.platformSettings);
+  }
+
+  async save(settings: StoredSetting[], updatedBy: number, updatedAt: string) {
+    await this.db.transaction(async tx => {
+      for (const { key, value } of settings) {
+        await tx.insert(pg.platformSettings)
+          .values({ key, value, updatedBy, updatedAt })
+          .onConflictDoUpdate({ target: pg.platformSettings.key, set: { value, updatedBy, updatedAt } });
+      }
+    });
+  }
+}
+
+const store: SettingsStore = usePostgres ? new PostgresSettingsStore() : new SqliteSettingsStore();
+
+// Unset keys fall back to their defaults, so new settings need no data migration
+export async function getPlatformSettings(): Promise<PlatformSettings> {
+  const rows = await store.list();
+  const stored = Object.fromEntries(rows.map(row => [row.key, row.value]));
+  return { ...DEFAULT_SETTINGS, ...stored } as PlatformSettings;
+}
+
+export async function updatePlatformSettings(changes: Partial<PlatformSettings>, updatedBy: number): Promise<PlatformSettings> {
+  const settings = Object.entries(changes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value }));
+  await store.save(settings, updatedBy, new Date().toISOString());
+  return getPlatformSettings();
+}
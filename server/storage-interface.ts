@@ -0,0 +1,236 @@
+import type {
+  AuthToken,
+  AuthTokenType,
+  Model,
+  InsertModel,
+  ModelApplicationStatus,
+  User,
+  Gallery,
+  InsertGallery,
+  FollowerProfile,
+  CreatorProfile,
+  Content,
+  InsertContent,
+  Subscription,
+  InsertSubscription,
+  SubscriptionHistoryEntry,
+  SubscriptionStatus,
+  ContentPurchase,
+  InsertContentPurchase,
+  UpdateContent,
+  UpdateCreatorProfile
+} from "@shared/schema";
+import type { TransitionOptions } from "./subscription-lifecycle";
+
+// The storage contract and the dialect-independent helpers its implementations share.
+// Kept apart from storage.ts so MemoryStorage can be used without opening a database.
+
+export interface ModelApplicationQuery {
+  status?: ModelApplicationStatus;
+  search?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface ModelReview {
+  status?: Exclude<ModelApplicationStatus, 'accepted'>;
+  reviewerNotes?: string | null;
+  reviewedBy: number;
+}
+
+export interface AcceptedModelApplication {
+  model: Model;
+  user: User;
+  profile: CreatorProfile;
+}
+
+// Accepting an application never takes over an account the applicant hasn't proven they own
+export class ModelApplicationConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelApplicationConflictError';
+  }
+}
+
+// Unique constraint failures as reported by better-sqlite3, Postgres and MemoryStorage
+export function isUniqueViolation(error: unknown) {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as Error & { code?: string }).code;
+  return code === 'SQLITE_CONSTRAINT_UNIQUE' || code === '23505' || error.message.startsWith('UNIQUE constraint failed');
+}
+
+// An existing account only becomes the creator account once its email address has been verified,
+// since anyone can register with an address they don't control
+export function checkApplicantAccount(user: User | undefined) {
+  if (user?.role === 'admin') {
+    throw new ModelApplicationConflictError('Applicant email belongs to an administrator account');
+  }
+  if (user && !user.verified) {
+    throw new ModelApplicationConflictError('An account with the applicant email exists but has not verified its email address');
+  }
+}
+
+export type GallerySort = 'newest' | 'oldest' | 'title';
+
+export interface GalleryQuery {
+  type?: string;
+  premium?: boolean;
+  contentRating?: 'sfw' | 'nsfw';
+  tags?: string[];
+  sort?: GallerySort;
+  cursor?: string;
+  limit?: number;
+  // Items hidden by moderation are left out unless this is set, for admins
+  includeHidden?: boolean;
+}
+
+export interface GalleryPage {
+  items: Gallery[];
+  nextCursor: string | null;
+}
+
+// The public face of a creator shown next to their content and subscriptions
+export type CreatorSummary = Pick<User, 'id' | 'username' | 'displayName' | 'avatarUrl'>;
+
+export type ContentWithCreator = Content & { creator: CreatorSummary | null };
+
+// Only finished, published items are listed; videos still being transcoded, hidden items and
+// posts awaiting approval are left out
+export interface ContentFeedQuery {
+  limit: number;
+  offset: number;
+  contentType?: Content['contentType'];
+  // Defaults to free content only
+  premium?: boolean;
+}
+export interface CreatorContentOptions {
+  includePremium: boolean;
+  // Items hidden by moderation, and posts pending or rejected in the approval queue; listed
+  // for the creator themselves and admins
+  includeHidden?: boolean;
+}
+
+export type SubscriptionWithCreator = Subscription & { creator: CreatorSummary | null };
+
+export type CreatorListing = CreatorProfile & {
+  user: Pick<User, 'id' | 'email' | 'username' | 'displayName' | 'avatarUrl' | 'bio' | 'createdAt'> | null;
+};
+
+export type FollowerListing = FollowerProfile & {
+  user: Pick<User, 'id' | 'username' | 'email' | 'createdAt' | 'role'> | null;
+};
+
+// A user with the creator role and their profile, which older accounts may lack
+export interface CreatorAccount {
+  user: User;
+  profile: CreatorProfile | undefined;
+}
+
+export interface CreatorApprovalDecision {
+  approved: boolean;
+  reviewedBy: number;
+  rejectionReason?: string | null;
+}
+
+export type ContentPurchaseStatus = ContentPurchase['status'];
+
+// Cursors are opaque to clients: the sort key of the last item plus its id as a tie-breaker
+interface GalleryCursor {
+  value: string;
+  id: number;
+}
+
+export function encodeGalleryCursor(cursor: GalleryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeGalleryCursor(cursor: string): GalleryCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof parsed?.value !== 'string' || typeof parsed?.id !== 'number') {
+      throw new Error('Malformed cursor');
+    }
+    return parsed;
+  } catch {
+    throw new Error('Invalid gallery cursor');
+  }
+}
+
+export interface IStorage {
+  createUser(user: { email: string; password: string; role: string; username?: string; displayName?: string }): Promise<User>;
+  createModel(model: Omit<InsertModel, "id">): Promise<Model>;
+  getModel(id: number): Promise<Model | undefined>;
+  getAllModels(): Promise<Model[]>;
+  getModelApplications(query: ModelApplicationQuery): Promise<{ models: Model[]; total: number }>;
+  updateModelReview(id: number, review: ModelReview): Promise<Model | undefined>;
+  acceptModelApplication(id: number, reviewerId: number, passwordHash: string): Promise<AcceptedModelApplication>;
+  getUserById(id: string): Promise<User | undefined>;
+  getUser(email: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  updateUserRole(userId: number, role: string): Promise<void>;
+  updateUserPassword(userId: number, passwordHash: string): Promise<void>;
+  markUserVerified(userId: number): Promise<void>;
+  createAuthToken(token: { userId: number; type: AuthTokenType; tokenHash: string; expiresAt: Date }): Promise<AuthToken>;
+  consumeAuthToken(tokenHash: string, type: AuthTokenType): Promise<AuthToken | undefined>;
+  getGalleryItems(query?: GalleryQuery): Promise<GalleryPage>;
+  getGalleryItem(id: number): Promise<Gallery | undefined>;
+  createGalleryItem(item: Omit<InsertGallery, "id">): Promise<Gallery>;
+  setGalleryItemPremium(id: number, isPremium: boolean): Promise<Gallery | undefined>;
+  // Returns the items that were premium
+  clearGalleryPremium(): Promise<Gallery[]>;
+  deleteGalleryItem(id: number): Promise<Gallery | undefined>;
+  createFollowerProfile(profile: { userId: number }): Promise<FollowerProfile>;
+  createCreatorProfile(profile: { userId: number, displayName: string }): Promise<CreatorProfile>;
+  hasUsers(): Promise<boolean>;
+
+  listCreators(): Promise<CreatorListing[]>;
+  getCreator(userId: number): Promise<CreatorAccount | undefined>;
+  getCreatorProfile(userId: number): Promise<CreatorProfile | undefined>;
+  updateCreatorProfile(userId: number, changes: UpdateCreatorProfile): Promise<CreatorProfile | undefined>;
+  setCreatorApproval(userId: number, decision: CreatorApprovalDecision): Promise<CreatorProfile>;
+  listFollowers(): Promise<FollowerListing[]>;
+
+  getContentFeed(query: ContentFeedQuery): Promise<ContentWithCreator[]>;
+  getCreatorContent(creatorId: number, options: CreatorContentOptions): Promise<ContentWithCreator[]>;
+  getContent(id: number): Promise<Content | undefined>;
+  createContent(item: Omit<InsertContent, "id">): Promise<Content>;
+  updateContent(id: number, changes: UpdateContent): Promise<Content | undefined>;
+  deleteContent(id: number): Promise<Content | undefined>;
+
+  // Active subscriptions that haven't ended, plus past-due ones still in their grace period
+  getCurrentSubscriptions(followerId: number): Promise<SubscriptionWithCreator[]>;
+  getEntitledSubscription(followerId: number, creatorId: number): Promise<Subscription | undefined>;
+  getFollowerSubscription(subscriptionId: number, followerId: number): Promise<Subscription | undefined>;
+  // Also writes the first history entry
+  createSubscription(subscription: Omit<InsertSubscription, "id">): Promise<Subscription>;
+  transitionSubscription(subscriptionId: number, toStatus: SubscriptionStatus, reason: string, options?: Omit<TransitionOptions, 'executor'>): Promise<Subscription | undefined>;
+  getSubscriptionHistory(subscriptionId: number): Promise<SubscriptionHistoryEntry[]>;
+
+  getCompletedPurchase(followerId: number, contentId: number): Promise<ContentPurchase | undefined>;
+  createContentPurchase(purchase: Omit<InsertContentPurchase, "id">): Promise<ContentPurchase>;
+  updateContentPurchaseStatus(id: number, status: ContentPurchaseStatus): Promise<ContentPurchase | undefined>;
+}
+
+// Process items to ensure URLs and tags are correctly formatted
+export function normalizeGalleryItem(item: Gallery): Gallery {
+  // Ensure URL is properly formatted
+  if (item.url && !item.url.startsWith('http')) {
+    const filename = item.url.split('/').pop();
+    // Use a relative URL that will be resolved by the static middleware
+    item.url = `/uploads/${filename}`;
+  }
+
+  // Ensure tags are properly formatted
+  if (typeof item.tags === 'string') {
+    try {
+      item.tags = JSON.parse(item.tags);
+    } catch (e) {
+      console.warn('Failed to parse tags for item:', item.id);
+      item.tags = [];
+    }
+  }
+
+  return item;
+}
@@ -1,22 +1,77 @@
-import { models, users, gallery, followerProfiles, creatorProfiles, type Model, type User, type Gallery, type FollowerProfile, type CreatorProfile } from "@shared/schema";
+import {
+  models,
+  users,
+  gallery,
+  followerProfiles,
+  creatorProfiles,
+  authTokens,
+  content,
+  subscriptions,
+  contentPurchases,
+  type AuthToken,
+  type AuthTokenType,
+  type Model,
+  type InsertModel,
+  type ModelApplicationStatus,
+  type User,
+  type Gallery,
+  type InsertGallery,
+  type FollowerProfile,
+  type CreatorProfile,
+  type Content,
+  type InsertContent,
+  type Subscription,
+  type InsertSubscription,
+  type SubscriptionHistoryEntry,
+  type SubscriptionStatus,
+  type ContentPurchase,
+  type InsertContentPurchase,
+  type UpdateContent,
+  type UpdateCreatorProfile
+} from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, lt, gt, asc, desc, like, count, sql, isNull, inArray, type SQL } from "drizzle-orm";
+import {
+  ENTITLED_SUBSCRIPTION_STATUSES,
+  listSubscriptionHistory,
+  recordSubscriptionCreated,
+  transitionSubscription,
+  type TransitionOptions
+} from "./subscription-lifecycle";
 import { hashPassword } from "./auth";
+import { usePostgres } from "./pg";
+import { PostgresStorage } from "./pg-storage";
+import {
+  checkApplicantAccount,
+  decodeGalleryCursor,
+  encodeGalleryCursor,
+  ModelApplicationConflictError,
+  normalizeGalleryItem,
+  type AcceptedModelApplication,
+  type ContentFeedQuery,
+  type ContentPurchaseStatus,
+  type ContentWithCreator,
+  type CreatorAccount,
+  type CreatorApprovalDecision,
+  type CreatorContentOptions,
+  type CreatorListing,
+  type FollowerListing,
+  type GalleryPage,
+  type GalleryQuery,
+  type IStorage,
+  type ModelApplicationQuery,
+  type ModelReview,
+  type SubscriptionWithCreator
+} from "./storage-interface";
 
-export interface IStorage {
-  createUser(user: { email: string; password: string; role: string; username?: string; displayName?: string }): Promise<User>;
-  createModel(model: Omit<Model, "id">): Promise<Model>;
-  getModel(id: number): Promise<Model | undefined>;
-  getAllModels(): Promise<Model[]>;
-  getUserById(id: string): Promise<User | undefined>;
-  getUser(email: string): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
-  getGalleryItems(type?: string, premium?: boolean): Promise<Gallery[]>;
-  createGalleryItem(item: Omit<Gallery, "id">): Promise<Gallery>;
-  deleteGalleryItem(id: number): Promise<Gallery | undefined>;
-  createFollowerProfile(profile: { userId: number }): Promise<FollowerProfile>;
-  createCreatorProfile(profile: { userId: number, displayName: string }): Promise<CreatorProfile>;
-}
+export * from "./storage-interface";
+
+const creatorSummaryColumns = {
+  id: users.id,
+  username: users.username,
+  displayName: users.displayName,
+  avatarUrl: users.avatarUrl
+};
 
 export class DatabaseStorage implements IStorage {
   async createUser(user: { email: string; password: string; role: string; username?: string; displayName?: string }): Promise<User> {
@@ -28,7 +83,7 @@ export class DatabaseStorage implements IStorage {
           password: user.password,
           role: user.role,
           username: user.username,
-          display_name: user.displayName
+          displayName: user.displayName
         })
         .returning();
       console.log('User created:', { id: newUser.id, email: newUser.email, role: newUser.role });
@@ -38,10 +93,10 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Failed to create user');
     }
   }
-  async createModel(model: Omit<Model, "id">): Promise<Model> {
+  async createModel(model: Omit<InsertModel, "id">): Promise<Model> {
     const [newModel] = await db
       .insert(models)
-      .values(model)
+      .values({ ...model, createdAt: model.createdAt ?? new Date().toISOString() })
       .returning();
     return newModel;
   }
@@ -55,6 +110,114 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(models);
   }
 
+  async getModelApplications(query: ModelApplicationQuery): Promise<{ models: Model[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (query.status) {
+      conditions.push(eq(models.status, query.status));
+    }
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      conditions.push(or(
+        like(models.firstName, pattern),
+        like(models.lastName, pattern),
+        like(models.email, pattern),
+        like(models.aliasName, pattern)
+      )!);
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: count() }).from(models).where(where);
+    const rows = await db
+      .select()
+      .from(models)
+      .where(where)
+      .orderBy(desc(models.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { models: rows, total };
+  }
+
+  async updateModelReview(id: number, review: ModelReview): Promise<Model | undefined> {
+    const [updated] = await db
+      .update(models)
+      .set({
+        ...(review.status ? { status: review.status } : {}),
+        ...(review.reviewerNotes !== undefined ? { reviewerNotes: review.reviewerNotes } : {}),
+        reviewedBy: review.reviewedBy,
+        reviewedAt: new Date().toISOString()
+      })
+      .where(eq(models.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Accepting an application provisions the applicant's account in one transaction:
+  // an existing account with the same verified email is promoted, otherwise a new one is created.
+  async acceptModelApplication(id: number, reviewerId: number, passwordHash: string): Promise<AcceptedModelApplication> {
+    return db.transaction(tx => {
+      const application = tx.select().from(models).where(eq(models.id, id)).get();
+      if (!application) {
+        throw new Error('Model application not found');
+      }
+      if (application.status === 'accepted') {
+        throw new ModelApplicationConflictError('Model application has already been accepted');
+      }
+
+      const now = new Date().toISOString();
+      let user = tx.select().from(users).where(eq(users.email, application.email)).get();
+      checkApplicantAccount(user);
+      if (user) {
+        user = tx.update(users)
+          .set({ role: 'creator', isApproved: 1 })
+          .where(eq(users.id, user.id))
+          .returning()
+          .get();
+      } else {
+        user = tx.insert(users)
+          .values({
+            email: application.email,
+            password: passwordHash,
+            role: 'creator',
+            displayName: application.aliasName || `${application.firstName} ${application.lastName}`,
+            isApproved: 1,
+            createdAt: now
+          })
+          .returning()
+          .get();
+      }
+
+      const profileValues = {
+        aliasName: application.aliasName || application.firstName,
+        onlyfans: application.onlyFansLink || null,
+        approvalStatus: 'approved' as const,
+        approvalDate: now,
+        approvedBy: reviewerId,
+        rejectionReason: null
+      };
+      const existingProfile = tx.select().from(creatorProfiles).where(eq(creatorProfiles.userId, user.id)).get();
+      const profile = existingProfile
+        ? tx.update(creatorProfiles)
+            .set(profileValues)
+            .where(eq(creatorProfiles.id, existingProfile.id))
+            .returning()
+            .get()
+        : tx.insert(creatorProfiles)
+            .values({ ...profileValues, userId: user.id, createdAt: now })
+            .returning()
+            .get();
+
+      const model = tx.update(models)
+        .set({ status: 'accepted', reviewedBy: reviewerId, reviewedAt: now, userId: user.id })
+        .where(eq(models.id, id))
+        .returning()
+        .get();
+
+      console.log('Model application accepted:', { applicationId: id, userId: user.id, profileId: profile.id });
+      return { model, user, profile };
+    });
+  }
+
   async getUserById(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, parseInt(id)));
     return user;
@@ -72,50 +235,107 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getGalleryItems(type?: string, premium?: boolean): Promise<Gallery[]> {
+  async updateUserRole(userId: number, role: string): Promise<void> {
+    await db.update(users).set({ role }).where(eq(users.id, userId));
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string): Promise<void> {
+    await db.update(users).set({ password: passwordHash }).where(eq(users.id, userId));
+  }
+
+  async markUserVerified(userId: number): Promise<void> {
+    await db.update(users).set({ verified: 1 }).where(eq(users.id, userId));
+  }
+
+  // Issuing a token replaces any unused token of the same type, so only the latest email link works
+  async createAuthToken(token: { userId: number; type: AuthTokenType; tokenHash: string; expiresAt: Date }): Promise<AuthToken> {
+    return db.transaction(tx => {
+      tx.delete(authTokens)
+        .where(and(eq(authTokens.userId, token.userId), eq(authTokens.type, token.type), isNull(authTokens.usedAt)))
+        .run();
+
+      return tx.insert(authTokens)
+        .values({
+          userId: token.userId,
+          type: token.type,
+          tokenHash: token.tokenHash,
+          expiresAt: token.expiresAt.toISOString(),
+          createdAt: new Date().toISOString()
+        })
+        .returning()
+        .get();
+    });
+  }
+
+  // Marks the token used in the same statement that checks it, so it can only be redeemed once
+  async consumeAuthToken(tokenHash: string, type: AuthTokenType): Promise<AuthToken | undefined> {
+    const now = new Date().toISOString();
+    const [token] = await db.update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.type, type),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, now)
+      ))
+      .returning();
+    return token;
+  }
+
+  async getGalleryItems(query: GalleryQuery = {}): Promise<GalleryPage> {
     try {
-      let query = db.select().from(gallery);
-      
+      const sort = query.sort ?? 'newest';
+      const sortColumn = sort === 'title' ? gallery.title : gallery.createdAt;
+      const descending = sort === 'newest';
+
       // Build where conditions
-      const conditions = [];
-      if (type) {
-        conditions.push(eq(gallery.type, type));
+      const conditions: SQL[] = [];
+      if (query.type) {
+        conditions.push(eq(gallery.type, query.type));
+      }
+      if (query.premium !== undefined) {
+        conditions.push(eq(gallery.isPremium, query.premium));
+      }
+      if (query.contentRating) {
+        conditions.push(eq(gallery.contentRating, query.contentRating));
+      }
+      if (!query.includeHidden) {
+        conditions.push(isNull(gallery.hiddenAt));
       }
-      if (premium !== undefined) {
-        conditions.push(eq(gallery.isPremium, premium));
+      // Tags are stored as a JSON array, so match each requested tag against its elements
+      for (const tag of query.tags ?? []) {
+        conditions.push(sql`exists (select 1 from json_each(${gallery.tags}) where json_each.value = ${tag})`);
       }
-      
-      // Apply conditions if any exist
-      if (conditions.length > 0) {
-        query = query.where(and(...conditions));
+      if (query.cursor) {
+        const cursor = decodeGalleryCursor(query.cursor);
+        const after = descending ? lt : gt;
+        conditions.push(or(
+          after(sortColumn, cursor.value),
+          and(eq(sortColumn, cursor.value), after(gallery.id, cursor.id))
+        )!);
       }
 
-      const items = await query;
-      if (!items || !Array.isArray(items)) {
+      const order = descending ? desc : asc;
+      const rows = await db
+        .select()
+        .from(gallery)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(order(sortColumn), order(gallery.id))
+        .limit(query.limit ? query.limit + 1 : -1);
+
+      if (!rows || !Array.isArray(rows)) {
         throw new Error('Invalid response from database');
       }
-      
-      // Process items to ensure URLs are correctly formatted
-      return items.map(item => {
-        // Ensure URL is properly formatted
-        if (item.url && !item.url.startsWith('http')) {
-          const filename = item.url.split('/').pop();
-          // Use a relative URL that will be resolved by the static middleware
-          item.url = `/uploads/${filename}`;
-        }
-        
-        // Ensure tags are properly formatted
-        if (typeof item.tags === 'string') {
-          try {
-            item.tags = JSON.parse(item.tags);
-          } catch (e) {
-            console.warn('Failed to parse tags for item:', item.id);
-            item.tags = [];
-          }
-        }
-        
-        return item;
-      });
+
+      // Fetch one extra row to find out whether another page exists
+      const hasMore = query.limit !== undefined && rows.length > query.limit;
+      const items = hasMore ? rows.slice(0, query.limit) : rows;
+      const last = items[items.length - 1];
+      const nextCursor = hasMore && last
+        ? encodeGalleryCursor({ value: sort === 'title' ? last.title : last.createdAt, id: last.id })
+        : null;
+
+      return { items: items.map(normalizeGalleryItem), nextCursor };
     } catch (error) {
       console.error('Failed to fetch gallery items:', error);
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -123,7 +343,12 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createGalleryItem(item: Omit<Gallery, "id">): Promise<Gallery> {
+  async getGalleryItem(id: number): Promise<Gallery | undefined> {
+    const [item] = await db.select().from(gallery).where(eq(gallery.id, id));
+    return item ? normalizeGalleryItem(item) : undefined;
+  }
+
+  async createGalleryItem(item: Omit<InsertGallery, "id">): Promise<Gallery> {
     const [newItem] = await db
       .insert(gallery)
       .values(item)
@@ -131,6 +356,23 @@ export class DatabaseStorage implements IStorage {
     return newItem;
   }
 
+  async setGalleryItemPremium(id: number, isPremium: boolean): Promise<Gallery | undefined> {
+    const [updated] = await db
+      .update(gallery)
+      .set({ isPremium })
+      .where(eq(gallery.id, id))
+      .returning();
+    return updated;
+  }
+
+  async clearGalleryPremium(): Promise<Gallery[]> {
+    return db
+      .update(gallery)
+      .set({ isPremium: false })
+      .where(eq(gallery.isPremium, true))
+      .returning();
+  }
+
   async deleteGalleryItem(id: number): Promise<Gallery | undefined> {
     const [deletedItem] = await db
       .delete(gallery)
@@ -177,6 +419,234 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Failed to create creator profile');
     }
   }
+
+  async hasUsers(): Promise<boolean> {
+    const [user] = await db.select({ id: users.id }).from(users).limit(1);
+    return Boolean(user);
+  }
+
+  async listCreators(): Promise<CreatorListing[]> {
+    const rows = await db
+      .select({
+        profile: creatorProfiles,
+        user: {
+          id: users.id,
+          email: users.email,
+          username: users.username,
+          displayName: users.displayName,
+          avatarUrl: users.avatarUrl,
+          bio: users.bio,
+          createdAt: users.createdAt
+        }
+      })
+      .from(creatorProfiles)
+      .leftJoin(users, eq(users.id, creatorProfiles.userId))
+      .orderBy(asc(creatorProfiles.id));
+    return rows.map(({ profile, user }) => ({ ...profile, user }));
+  }
+
+  async getCreator(userId: number): Promise<CreatorAccount | undefined> {
+    const [row] = await db
+      .select({ user: users, profile: creatorProfiles })
+      .from(users)
+      .leftJoin(creatorProfiles, eq(creatorProfiles.userId, users.id))
+      .where(and(eq(users.id, userId), eq(users.role, 'creator')));
+    return row && { user: row.user, profile: row.profile ?? undefined };
+  }
+
+  async getCreatorProfile(userId: number): Promise<CreatorProfile | undefined> {
+    const [profile] = await db.select().from(creatorProfiles).where(eq(creatorProfiles.userId, userId));
+    return profile;
+  }
+
+  async updateCreatorProfile(userId: number, changes: UpdateCreatorProfile): Promise<CreatorProfile | undefined> {
+    const [profile] = await db
+      .update(creatorProfiles)
+      .set(changes)
+      .where(eq(creatorProfiles.userId, userId))
+      .returning();
+    return profile;
+  }
+
+  // Creates the profile if the creator doesn't have one yet
+  async setCreatorApproval(userId: number, decision: CreatorApprovalDecision): Promise<CreatorProfile> {
+    const values = {
+      approvalStatus: decision.approved ? 'approved' as const : 'rejected' as const,
+      approvalDate: decision.approved ? new Date().toISOString() : null,
+      approvedBy: decision.approved ? decision.reviewedBy : null,
+      rejectionReason: decision.approved ? null : decision.rejectionReason ?? null
+    };
+    const [profile] = await db
+      .insert(creatorProfiles)
+      .values({ ...values, userId, createdAt: new Date().toISOString() })
+      .onConflictDoUpdate({ target: creatorProfiles.userId, set: values })
+      .returning();
+    return profile;
+  }
+
+  async listFollowers(): Promise<FollowerListing[]> {
+    const rows = await db
+      .select({
+        profile: followerProfiles,
+        user: {
+          id: users.id,
+          username: users.username,
+          email: users.email,
+          createdAt: users.createdAt,
+          role: users.role
+        }
+      })
+      .from(followerProfiles)
+      .leftJoin(users, eq(users.id, followerProfiles.userId))
+      .orderBy(asc(followerProfiles.id));
+    return rows.map(({ profile, user }) => ({ ...profile, user }));
+  }
+
+  async getContentFeed(query: ContentFeedQuery): Promise<ContentWithCreator[]> {
+    const rows = await db
+      .select({ content, creator: creatorSummaryColumns })
+      .from(content)
+      .leftJoin(users, eq(users.id, content.creatorId))
+      .where(and(
+        eq(content.isPremium, query.premium ?? false),
+        eq(content.processingStatus, 'ready'),
+        isNull(content.hiddenAt),
+        eq(content.moderationStatus, 'approved'),
+        query.contentType ? eq(content.contentType, query.contentType) : undefined
+      ))
+      .orderBy(desc(content.createdAt), desc(content.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    return rows.map(row => ({ ...row.content, creator: row.creator }));
+  }
+
+  async getCreatorContent(creatorId: number, options: CreatorContentOptions): Promise<ContentWithCreator[]> {
+    const rows = await db
+      .select({ content, creator: creatorSummaryColumns })
+      .from(content)
+      .leftJoin(users, eq(users.id, content.creatorId))
+      .where(and(
+        eq(content.creatorId, creatorId),
+        options.includePremium ? undefined : eq(content.isPremium, false),
+        options.includeHidden ? undefined : and(isNull(content.hiddenAt), eq(content.moderationStatus, 'approved'))
+      ))
+      .orderBy(desc(content.createdAt), desc(content.id));
+    return rows.map(row => ({ ...row.content, creator: row.creator }));
+  }
+
+  async getContent(id: number): Promise<Content | undefined> {
+    const [item] = await db.select().from(content).where(eq(content.id, id));
+    return item;
+  }
+
+  async createContent(item: Omit<InsertContent, "id">): Promise<Content> {
+    const now = new Date().toISOString();
+    const [created] = await db
+      .insert(content)
+      .values({ ...item, createdAt: item.createdAt ?? now, updatedAt: item.updatedAt ?? now })
+      .returning();
+    return created;
+  }
+
+  async updateContent(id: number, changes: UpdateContent): Promise<Content | undefined> {
+    const [updated] = await db
+      .update(content)
+      .set({ ...changes, updatedAt: new Date().toISOString() })
+      .where(eq(content.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteContent(id: number): Promise<Content | undefined> {
+    const [deleted] = await db.delete(content).where(eq(content.id, id)).returning();
+    return deleted;
+  }
+
+  async getCurrentSubscriptions(followerId: number): Promise<SubscriptionWithCreator[]> {
+    const rows = await db
+      .select({ subscription: subscriptions, creator: creatorSummaryColumns })
+      .from(subscriptions)
+      .leftJoin(users, eq(users.id, subscriptions.creatorId))
+      .where(and(
+        eq(subscriptions.followerId, followerId),
+        or(
+          eq(subscriptions.status, 'past_due'),
+          and(
+            eq(subscriptions.status, 'active'),
+            or(isNull(subscriptions.endDate), gt(subscriptions.endDate, new Date().toISOString()))
+          )
+        )
+      ))
+      .orderBy(asc(subscriptions.id));
+    return rows.map(row => ({ ...row.subscription, creator: row.creator }));
+  }
+
+  async getEntitledSubscription(followerId: number, creatorId: number): Promise<Subscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(and(
+        eq(subscriptions.followerId, followerId),
+        eq(subscriptions.creatorId, creatorId),
+        inArray(subscriptions.status, ENTITLED_SUBSCRIPTION_STATUSES)
+      ));
+    return subscription;
+  }
+
+  async getFollowerSubscription(subscriptionId: number, followerId: number): Promise<Subscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(and(eq(subscriptions.id, subscriptionId), eq(subscriptions.followerId, followerId)));
+    return subscription;
+  }
+
+  async createSubscription(subscription: Omit<InsertSubscription, "id">): Promise<Subscription> {
+    return db.transaction(tx => {
+      const created = tx.insert(subscriptions).values(subscription).returning().get();
+      recordSubscriptionCreated(created);
+      return created;
+    });
+  }
+
+  async transitionSubscription(
+    subscriptionId: number,
+    toStatus: SubscriptionStatus,
+    reason: string,
+    options: Omit<TransitionOptions, 'executor'> = {}
+  ): Promise<Subscription | undefined> {
+    return transitionSubscription(subscriptionId, toStatus, reason, options);
+  }
+
+  async getSubscriptionHistory(subscriptionId: number): Promise<SubscriptionHistoryEntry[]> {
+    return listSubscriptionHistory(subscriptionId);
+  }
+
+  async getCompletedPurchase(followerId: number, contentId: number): Promise<ContentPurchase | undefined> {
+    const [purchase] = await db
+      .select()
+      .from(contentPurchases)
+      .where(and(
+        eq(contentPurchases.followerId, followerId),
+        eq(contentPurchases.contentId, contentId),
+        eq(contentPurchases.status, 'completed')
+      ));
+    return purchase;
+  }
+
+  async createContentPurchase(purchase: Omit<InsertContentPurchase, "id">): Promise<ContentPurchase> {
+    const [created] = await db.insert(contentPurchases).values(purchase).returning();
+    return created;
+  }
+
+  async updateContentPurchaseStatus(id: number, status: ContentPurchaseStatus): Promise<ContentPurchase | undefined> {
+    const [updated] = await db
+      .update(contentPurchases)
+      .set({ status, updatedAt: new Date().toISOString() })
+      .where(eq(contentPurchases.id, id))
+      .returning();
+    return updated;
+  }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage: IStorage = usePostgres ? new PostgresStorage() : new DatabaseStorage();
\ No newline at end of file
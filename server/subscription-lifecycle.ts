@@ -0,0 +1,120 @@
+import { asc, eq } from "drizzle-orm";
+import { db } from "./db";
+import type { PgDatabase } from "./pg";
+import {
+  subscriptions,
+  subscriptionHistory,
+  type Subscription,
+  type SubscriptionHistoryEntry,
+  type SubscriptionStatus
+} from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+
+// Monthly subscriptions are billed in fixed 30-day periods
+export const SUBSCRIPTION_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+export { entitledSubscriptionStatuses as ENTITLED_SUBSCRIPTION_STATUSES } from "@shared/schema";
+
+// Either the db itself or a transaction, so transitions can join a caller's transaction
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export interface TransitionOptions {
+  paymentId?: number | null;
+  // Other columns to update alongside the status, e.g. a new end date or dunning state
+  changes?: Partial<Pick<Subscription, 'endDate' | 'renewalAttempts' | 'nextRenewalAttemptAt' | 'pastDueSince'>>;
+  executor?: DbExecutor;
+}
+
+function appendHistory(
+  executor: DbExecutor,
+  subscription: Subscription,
+  fromStatus: SubscriptionStatus | null,
+  reason: string,
+  paymentId: number | null
+) {
+  executor.insert(subscriptionHistory)
+    .values({
+      subscriptionId: subscription.id,
+      fromStatus,
+      toStatus: subscription.status,
+      reason,
+      paymentId,
+      endDate: subscription.endDate,
+      createdAt: new Date().toISOString()
+    })
+    .run();
+}
+
+// The first history entry, written when the subscription row is created
+export function recordSubscriptionCreated(subscription: Subscription, reason = 'created') {
+  appendHistory(db, subscription, null, reason, null);
+}
+
+/**
+ * Moves a subscription to `toStatus` and logs the change. Same-status updates such as a renewal
+ * are logged too, since they change the billing period.
+ */
+export function transitionSubscription(
+  subscriptionId: number,
+  toStatus: SubscriptionStatus,
+  reason: string,
+  options: TransitionOptions = {}
+): Subscription | undefined {
+  const apply = (executor: DbExecutor) => {
+    const current = executor.select().from(subscriptions).where(eq(subscriptions.id, subscriptionId)).get();
+    if (!current) {
+      return undefined;
+    }
+
+    const updated = executor.update(subscriptions)
+      .set({ ...options.changes, status: toStatus, updatedAt: new Date().toISOString() })
+      .where(eq(subscriptions.id, subscriptionId))
+      .returning()
+      .get();
+    appendHistory(executor, updated, current.status, reason, options.paymentId ?? null);
+    return updated;
+  };
+
+  return options.executor ? apply(options.executor) : db.transaction(tx => apply(tx));
+}
+
+// A Postgres transaction; the caller opens it so the transition can join other writes
+export type PgDbExecutor = Pick<PgDatabase, 'select' | 'insert' | 'update'>;
+
+// transitionSubscription for Postgres, locking the row for the rest of the caller's transaction
+export async function transitionPgSubscription(
+  executor: PgDbExecutor,
+  subscriptionId: number,
+  toStatus: SubscriptionStatus,
+  reason: string,
+  options: Omit<TransitionOptions, 'executor'> = {}
+): Promise<Subscription | undefined> {
+  const [current] = await executor.select().from(pg.subscriptions).where(eq(pg.subscriptions.id, subscriptionId)).for('update');
+  if (!current) {
+    return undefined;
+  }
+
+  const [updated] = await executor.update(pg.subscriptions)
+    .set({ ...options.changes, status: toStatus, updatedAt: new Date().toISOString() })
+    .where(eq(pg.subscriptions.id, subscriptionId))
+    .returning();
+  await executor.insert(pg.subscriptionHistory).values({
+    subscriptionId,
+    fromStatus: current.status,
+    toStatus,
+    reason,
+    paymentId: options.paymentId ?? null,
+    endDate: updated.endDate,
+    createdAt: new Date().toISOString()
+  });
+  return updated;
+}
+
+export function listSubscriptionHistory(subscriptionId: number): SubscriptionHistoryEntry[] {
+  return db
+    .select()
+    .from(subscriptionHistory)
+    .where(eq(subscriptionHistory.subscriptionId, subscriptionId))
+    .orderBy(asc(subscriptionHistory.createdAt), asc(subscriptionHistory.id))
+    .all();
+}
@@ -0,0 +1,241 @@
+import { and, eq, lte } from "drizzle-orm";
+import { db } from "./db";
+import { getPostgres, usePostgres } from "./pg";
+import { subscriptions, type Subscription } from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import { storage } from "./storage";
+import { chargeUser, PaymentMethodRequiredError } from "./payments/billing";
+import { SUBSCRIPTION_PERIOD_MS } from "./subscription-lifecycle";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDays(value: string | undefined, fallback: number[]) {
+  if (!value) {
+    return fallback;
+  }
+  const days = value.split(',').map(part => Number(part.trim())).filter(day => Number.isFinite(day) && day > 0);
+  return days.length > 0 ? days.sort((a, b) => a - b) : fallback;
+}
+
+// Retries are scheduled this many days after the first failed renewal
+const RETRY_SCHEDULE_DAYS = parseDays(process.env.SUBSCRIPTION_RETRY_DAYS, [1, 3, 5]);
+// Past-due subscriptions keep access for this long before expiring
+const GRACE_PERIOD_MS = Number(process.env.SUBSCRIPTION_GRACE_DAYS || 7) * DAY_MS;
+const RUN_INTERVAL_MS = Number(process.env.SUBSCRIPTION_RENEWAL_INTERVAL_MINUTES || 15) * 60 * 1000;
+
+export interface RenewalCycleResult {
+  renewed: number;
+  failed: number;
+  expired: number;
+}
+
+// The subscriptions a renewal cycle works on, in whichever database DATABASE_URL selects
+interface RenewalStore {
+  // Past-due subscriptions that went past due on or before the cutoff
+  lapsedIds(cutoff: string): Promise<number[]>;
+  // Monthly subscriptions whose period has ended, then past-due ones whose retry is due
+  due(now: string): Promise<Subscription[]>;
+  scheduleRetries(userId: number, at: string): Promise<void>;
+}
+
+type SubscriptionsTable = typeof subscriptions | typeof pg.subscriptions;
+
+function lapsedConditions(table: SubscriptionsTable, cutoff: string) {
+  return and(eq(table.status, 'past_due'), lte(table.pastDueSince, cutoff));
+}
+
+function renewalDueConditions(table: SubscriptionsTable, now: string) {
+  return and(eq(table.type, 'monthly'), eq(table.status, 'active'), lte(table.endDate, now));
+}
+
+function retryDueConditions(table: SubscriptionsTable, now: string) {
+  return and(eq(table.status, 'past_due'), lte(table.nextRenewalAttemptAt, now));
+}
+
+function pastDueConditions(table: SubscriptionsTable, userId: number) {
+  return and(eq(table.followerId, userId), eq(table.status, 'past_due'));
+}
+
+class SqliteRenewalStore implements RenewalStore {
+  async lapsedIds(cutoff: string) {
+    return db.select({ id: subscriptions.id }).from(subscriptions).where(lapsedConditions(subscriptions, cutoff)).all().map(row => row.id);
+  }
+
+  async due(now: string) {
+    return [
+      ...db.select().from(subscriptions).where(renewalDueConditions(subscriptions, now)).all(),
+      ...db.select().from(subscriptions).where(retryDueConditions(subscriptions, now)).all()
+    ];
+  }
+
+  async scheduleRetries(userId: number, at: string) {
+    db.update(subscriptions)
+      .set({ nextRenewalAttemptAt: at, updatedAt: at })
+      .where(pastDueConditions(subscriptions, userId))
+      .run();
+  }
+}
+
+class PostgresRenewalStore implements RenewalStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async lapsedIds(cutoff: string) {
+    const rows = await this.db.select({ id: pg.subscriptions.id }).from(pg.subscriptions).where(lapsedConditions(pg.subscriptions, cutoff));
+    return rows.map(row => row.id);
+  }
+
+  async due(now: string) {
+    return [
+      ...await this.db.select().from(pg.subscriptions).where(renewalDueConditions(pg.subscriptions, now)),
+      ...await this.db.select().from(pg.subscriptions).where(retryDueConditions(pg.subscriptions, now))
+    ];
+  }
+
+  async scheduleRetries(userId: number, at: string) {
+    await this.db.update(pg.subscriptions)
+      .set({ nextRenewalAttemptAt: at, updatedAt: at })
+      .where(pastDueConditions(pg.subscriptions, userId));
+  }
+}
+
+const store: RenewalStore = usePostgres ? new PostgresRenewalStore() : new SqliteRenewalStore();
+
+// The next retry after `attempts` failures, or null once the schedule or grace period is used up
+function nextRetryAt(pastDueSince: string, attempts: number) {
+  const offsetDays = RETRY_SCHEDULE_DAYS[attempts - 1];
+  if (offsetDays === undefined || offsetDays * DAY_MS >= GRACE_PERIOD_MS) {
+    return null;
+  }
+  return new Date(new Date(pastDueSince).getTime() + offsetDays * DAY_MS).toISOString();
+}
+
+async function renewSubscription(subscription: Subscription, now: Date): Promise<boolean> {
+  const recovering = subscription.status === 'past_due';
+  // A renewal continues the current period; a recovered subscription starts a fresh one
+  const periodStart = recovering || !subscription.endDate ? now.getTime() : new Date(subscription.endDate).getTime();
+  const renewedChanges = {
+    endDate: new Date(periodStart + SUBSCRIPTION_PERIOD_MS).toISOString(),
+    renewalAttempts: 0,
+    nextRenewalAttemptAt: null,
+    pastDueSince: null
+  };
+
+  if (subscription.amount <= 0) {
+    await storage.transitionSubscription(subscription.id, 'active', 'renewed', { changes: renewedChanges });
+    return true;
+  }
+
+  const user = await storage.getUserById(String(subscription.followerId));
+  if (!user) {
+    await storage.transitionSubscription(subscription.id, 'expired', 'subscriber_deleted');
+    return false;
+  }
+
+  let paymentId: number | null = null;
+  let failureReason = 'payment_method_required';
+  try {
+    const { payment, result } = await chargeUser({
+      user,
+      amount: subscription.amount,
+      description: `Monthly subscription renewal for creator ${subscription.creatorId}`,
+      // One key per period and attempt: retrying the same attempt is safe, a new attempt charges again
+      idempotencyKey: `subscription-${subscription.id}-renewal-${subscription.endDate}-${subscription.renewalAttempts}`,
+      subscriptionId: subscription.id
+    });
+    paymentId = payment.id;
+
+    if (result.status === 'succeeded') {
+      await storage.transitionSubscription(subscription.id, 'active', recovering ? 'renewal_recovered' : 'renewed', {
+        paymentId,
+        changes: renewedChanges
+      });
+      return true;
+    }
+    failureReason = result.failureCode;
+  } catch (error) {
+    if (!(error instanceof PaymentMethodRequiredError)) {
+      throw error;
+    }
+  }
+
+  const attempts = subscription.renewalAttempts + 1;
+  const pastDueSince = subscription.pastDueSince ?? now.toISOString();
+  await storage.transitionSubscription(subscription.id, 'past_due', `renewal_failed:${failureReason}`, {
+    paymentId,
+    changes: {
+      renewalAttempts: attempts,
+      pastDueSince,
+      nextRenewalAttemptAt: nextRetryAt(pastDueSince, attempts)
+    }
+  });
+  return false;
+}
+
+/**
+ * Expires past-due subscriptions whose grace period is over, then charges every monthly
+ * subscription that is due for renewal or a scheduled retry.
+ */
+export async function runRenewalCycle(now = new Date()): Promise<RenewalCycleResult> {
+  const result: RenewalCycleResult = { renewed: 0, failed: 0, expired: 0 };
+
+  const lapsed = await store.lapsedIds(new Date(now.getTime() - GRACE_PERIOD_MS).toISOString());
+  for (const id of lapsed) {
+    await storage.transitionSubscription(id, 'expired', 'grace_period_ended', {
+      changes: { nextRenewalAttemptAt: null }
+    });
+    result.expired++;
+  }
+
+  const due = await store.due(now.toISOString());
+
+  for (const subscription of due) {
+    try {
+      if (await renewSubscription(subscription, now)) {
+        result.renewed++;
+      } else {
+        result.failed++;
+      }
+    } catch (error) {
+      // Left as-is so the next cycle tries again with the same idempotency key
+      console.error('Error renewing subscription:', { subscriptionId: subscription.id, error });
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+// Brings a user's pending retries forward, e.g. after they save a new payment method
+export function retryPastDueSubscriptions(userId: number): Promise<void> {
+  return store.scheduleRetries(userId, new Date().toISOString());
+}
+
+let running = false;
+
+async function runScheduledCycle() {
+  // Charges are slow; never let two cycles work on the same subscriptions
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    const result = await runRenewalCycle();
+    if (result.renewed || result.failed || result.expired) {
+      console.log('Subscription renewal cycle finished:', result);
+    }
+  } catch (error) {
+    console.error('Subscription renewal cycle failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startRenewalScheduler() {
+  void runScheduledCycle();
+  const timer = setInterval(runScheduledCycle, RUN_INTERVAL_MS);
+  // Don't keep the process alive just for renewals
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,328 @@
+import { describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import type { SessionData } from 'express-session';
+import type { User } from '@shared/schema';
+import { routerApp, request } from './http';
+import { isUniqueViolation, storage } from '../storage';
+import { sessionStore } from '../session-store';
+import { checkLoginAllowed, listActiveLockouts, recordLoginAttempt, unlockAccount } from '../login-throttle';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  countRemainingRecoveryCodes,
+  isTwoFactorEnabled,
+  redeemRecoveryCode,
+  verifyTwoFactorCode
+} from '../two-factor';
+import { currentTimeStep, generateTotp } from '../totp';
+import { getPlatformSettings, updatePlatformSettings } from '../settings';
+import { chargeUser, findPaymentByChargeId, refundPayment } from '../payments/billing';
+import { retryPastDueSubscriptions, runRenewalCycle } from '../subscription-renewals';
+import { getMediaEntitlements } from '../media/access';
+import { auditTrail, listAuditEvents } from '../audit';
+import { actOnReport, listReports, reportMedia } from '../moderation';
+import { decideContent, initialModerationStatus, listPendingContent } from '../content-approval';
+import { findMediaVariant, getMediaVariants, recordMediaVariants } from '../media/variants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let userCount = 0;
+
+function createUser(role: User['role'] = 'follower') {
+  userCount++;
+  return storage.createUser({ email: `user${userCount}@example.com`, password: 'hash', role });
+}
+
+function createPost(creatorId: number, values: { isPremium?: boolean; moderationStatus?: 'pending' | 'approved' } = {}) {
+  return storage.createContent({
+    creatorId,
+    title: 'Post',
+    contentType: 'image',
+    url: `/uploads/content/post-${userCount}-${Math.random()}.jpg`,
+    ...values
+  });
+}
+
+function setSession(sid: string, sess: Partial<SessionData>) {
+  const cookie = { originalMaxAge: DAY_MS, expires: new Date(Date.now() + DAY_MS) };
+  return new Promise<void>((resolve, reject) => {
+    sessionStore.set(sid, { cookie, ...sess } as SessionData, error => error ? reject(error) : resolve());
+  });
+}
+
+function getSession(sid: string) {
+  return new Promise<SessionData | null | undefined>((resolve, reject) => {
+    sessionStore.get(sid, (error, sess) => error ? reject(error) : resolve(sess));
+  });
+}
+
+/**
+ * Everything that persists outside IStorage, exercised through the module that owns it. Run by
+ * one test file per backend, so each module is checked against SQLite and Postgres alike.
+ */
+export function describeBackend(backend: 'sqlite' | 'postgres') {
+  describe(`persistence on ${backend}`, () => {
+    it('stores sessions and revokes them per user', async () => {
+      const user = await createUser();
+      await setSession(`${backend}-a`, { passport: { user: user.id } });
+      await setSession(`${backend}-b`, { passport: { user: user.id } });
+
+      expect((await getSession(`${backend}-a`))?.passport?.user).toBe(user.id);
+      const listed = await sessionStore.listForUser(user.id);
+      expect(listed).toHaveLength(2);
+
+      expect(await sessionStore.revoke(user.id, listed[0].handle)).toBe(true);
+      expect(await sessionStore.revokeAllForUser(user.id)).toBe(1);
+      expect(await sessionStore.listForUser(user.id)).toHaveLength(0);
+    });
+
+    it('locks an account after repeated failed logins until an admin unlocks it', async () => {
+      const email = `locked-${backend}@example.com`;
+      let locked = false;
+      for (let attempt = 0; attempt < 5; attempt++) {
+        locked = await recordLoginAttempt({ kind: 'login', email, ipAddress: '10.0.0.1', success: false, reason: 'bad_password' });
+      }
+
+      expect(locked).toBe(true);
+      expect(await checkLoginAllowed(email, '10.0.0.1')).toMatchObject({ allowed: false, code: 'ACCOUNT_LOCKED' });
+      expect((await listActiveLockouts()).map(lockout => lockout.email)).toContain(email);
+
+      expect(await unlockAccount(email, 1)).toBe(true);
+      expect((await checkLoginAllowed(email, '10.0.0.1')).allowed).toBe(true);
+    });
+
+    it('enrolls two-factor and redeems each recovery code once', async () => {
+      const user = await createUser('admin');
+      const secret = await beginTwoFactorEnrollment(user.id);
+
+      const codes = await confirmTwoFactorEnrollment(user.id, generateTotp(secret));
+
+      expect(codes).not.toBeNull();
+      expect(await isTwoFactorEnabled(user.id)).toBe(true);
+      expect(await redeemRecoveryCode(user.id, codes![0])).toBe(true);
+      expect(await redeemRecoveryCode(user.id, codes![0])).toBe(false);
+      expect(await countRemainingRecoveryCodes(user.id)).toBe(codes!.length - 1);
+    });
+
+    it('accepts a two-factor code once, even when two requests race with it', async () => {
+      const user = await createUser('admin');
+      const secret = await beginTwoFactorEnrollment(user.id);
+      await confirmTwoFactorEnrollment(user.id, generateTotp(secret, currentTimeStep() - 1));
+      const code = generateTotp(secret);
+
+      const results = await Promise.all([verifyTwoFactorCode(user.id, code), verifyTwoFactorCode(user.id, code)]);
+
+      expect(results.sort()).toEqual([false, true]);
+      expect(await verifyTwoFactorCode(user.id, code)).toBe(false);
+    });
+
+    it('saves platform settings over the defaults', async () => {
+      const admin = await createUser('admin');
+
+      await updatePlatformSettings({ reportHideThreshold: 1 }, admin.id);
+
+      expect(await getPlatformSettings()).toMatchObject({ reportHideThreshold: 1, duplicateHashThreshold: 8 });
+    });
+
+    it('cancels a subscription when its payment is fully refunded, and only then', async () => {
+      const follower = await createUser();
+      const creator = await createUser('creator');
+      const subscription = await storage.createSubscription({
+        followerId: follower.id,
+        creatorId: creator.id,
+        type: 'monthly',
+        amount: 10,
+        status: 'active',
+        endDate: new Date(Date.now() + 30 * DAY_MS).toISOString()
+      });
+      const { payment } = await chargeUser({
+        user: follower,
+        amount: 10,
+        description: 'Subscription',
+        idempotencyKey: `${backend}-refund`,
+        paymentMethodId: 'pm_card_visa',
+        subscriptionId: subscription.id
+      });
+      expect((await getMediaEntitlements(follower))?.subscribedCreatorIds.has(creator.id)).toBe(true);
+
+      const partial = await refundPayment(payment.id, 4);
+      expect(partial).toMatchObject({ status: 200, payment: { status: 'succeeded', refundedAmount: 4 } });
+      expect((await storage.getFollowerSubscription(subscription.id, follower.id))?.status).toBe('active');
+
+      const rest = await refundPayment(payment.id);
+      expect(rest).toMatchObject({ status: 200, payment: { status: 'refunded', refundedAmount: 10 } });
+      expect((await findPaymentByChargeId(payment.providerChargeId!))?.status).toBe('refunded');
+      expect((await storage.getFollowerSubscription(subscription.id, follower.id))?.status).toBe('cancelled');
+      expect((await getMediaEntitlements(follower))?.subscribedCreatorIds.has(creator.id)).toBe(false);
+    });
+
+    it('allows only one subscription or purchase awaiting its first charge', async () => {
+      const follower = await createUser();
+      const creator = await createUser('creator');
+      const post = await createPost(creator.id, { isPremium: true });
+      const pendingSubscription = () => storage.createSubscription({
+        followerId: follower.id,
+        creatorId: creator.id,
+        type: 'monthly',
+        amount: 10,
+        status: 'pending'
+      });
+      const pendingPurchase = () => storage.createContentPurchase({ contentId: post.id, followerId: follower.id, amount: 5, status: 'pending' });
+
+      const subscription = await pendingSubscription();
+      await pendingPurchase();
+
+      expect(isUniqueViolation(await pendingSubscription().catch(error => error))).toBe(true);
+      expect(isUniqueViolation(await pendingPurchase().catch(error => error))).toBe(true);
+      await storage.transitionSubscription(subscription.id, 'payment_failed', 'initial_payment_failed');
+      await expect(pendingSubscription()).resolves.toMatchObject({ status: 'pending' });
+    });
+
+    it('renews due subscriptions and schedules retries for declined ones', async () => {
+      const paying = await createUser();
+      const declined = await createUser();
+      const creator = await createUser('creator');
+      const now = new Date();
+      const subscribe = (followerId: number) => storage.createSubscription({
+        followerId,
+        creatorId: creator.id,
+        type: 'monthly',
+        amount: 10,
+        status: 'active',
+        endDate: new Date(now.getTime() - 1000).toISOString()
+      });
+      const renewing = await subscribe(paying.id);
+      const failing = await subscribe(declined.id);
+      await chargeUser({ user: paying, amount: 1, description: 'Card check', idempotencyKey: `${backend}-paying`, paymentMethodId: 'pm_card_visa' });
+      await chargeUser({
+        user: declined,
+        amount: 1,
+        description: 'Card check',
+        idempotencyKey: `${backend}-declined`,
+        paymentMethodId: 'pm_card_chargeDeclined'
+      });
+
+      const result = await runRenewalCycle(now);
+
+      expect(result).toMatchObject({ renewed: 1, failed: 1 });
+      const renewed = await storage.getFollowerSubscription(renewing.id, paying.id);
+      expect(new Date(renewed!.endDate!).getTime()).toBeGreaterThan(now.getTime());
+      const pastDue = await storage.getFollowerSubscription(failing.id, declined.id);
+      expect(pastDue).toMatchObject({ status: 'past_due', renewalAttempts: 1 });
+      expect((await storage.getSubscriptionHistory(failing.id)).map(entry => entry.toStatus)).toContain('past_due');
+      // Past-due subscribers keep access through the grace period
+      expect((await getMediaEntitlements(declined))?.subscribedCreatorIds.has(creator.id)).toBe(true);
+
+      await retryPastDueSubscriptions(declined.id);
+      const retried = await storage.getFollowerSubscription(failing.id, declined.id);
+      expect(new Date(retried!.nextRenewalAttemptAt!).getTime()).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('entitles buyers to the posts they purchased', async () => {
+      const follower = await createUser();
+      const creator = await createUser('creator');
+      const post = await createPost(creator.id, { isPremium: true });
+      await storage.createContentPurchase({ contentId: post.id, followerId: follower.id, amount: 5, status: 'completed' });
+
+      const entitlements = await getMediaEntitlements(follower);
+
+      expect(entitlements?.purchasedContentIds.has(post.id)).toBe(true);
+      expect(entitlements?.subscribedCreatorIds.has(creator.id)).toBe(false);
+    });
+
+    it('records admin changes in the audit trail', async () => {
+      const admin = await createUser('admin');
+      const router = express.Router();
+      router.use(auditTrail());
+      router.patch('/api/admin/settings', async (req, res) => {
+        res.json(await updatePlatformSettings(req.body, admin.id));
+      });
+
+      const res = await request(routerApp('/', router, admin), 'PATCH', '/api/admin/settings', { watermarkOpacity: 0.25 });
+
+      expect(res.status).toBe(200);
+      await vi.waitFor(async () => {
+        const { items } = await listAuditEvents({ actorId: admin.id, page: 1, pageSize: 10 });
+        expect(items).toHaveLength(1);
+        expect(items[0]).toMatchObject({
+          action: 'settings.update',
+          changes: { watermarkOpacity: { before: 0.5, after: 0.25 } }
+        });
+      });
+    });
+
+    it('hides reported media once enough users report it, and restores it on dismissal', async () => {
+      const creator = await createUser('creator');
+      const first = await createUser();
+      const second = await createUser();
+      const admin = await createUser('admin');
+      const post = await createPost(creator.id);
+      await updatePlatformSettings({ reportHideThreshold: 2 }, admin.id);
+      const report = (reporterId: number) => reportMedia(reporterId, { mediaKind: 'content', mediaId: post.id, reason: 'spam' });
+
+      expect(await report(first.id)).toMatchObject({ status: 201, hidden: false });
+      expect(await report(first.id)).toMatchObject({ status: 409 });
+      expect(await report(second.id)).toMatchObject({ status: 201, hidden: true });
+      expect((await storage.getContent(post.id))?.hiddenAt).not.toBeNull();
+
+      const { items } = await listReports({ status: 'open', page: 1, pageSize: 20 }, admin.id);
+      const queued = items.find(item => item.mediaId === post.id)!;
+      expect(queued.reasons).toEqual([{ reason: 'spam', count: 2 }]);
+      expect(queued.recentEntries.map(entry => entry.reporter?.id).sort()).toEqual([first.id, second.id].sort());
+
+      expect(await actOnReport(queued.id, 'dismiss', admin.id)).toMatchObject({ status: 200 });
+      expect((await storage.getContent(post.id))?.hiddenAt).toBeNull();
+    });
+
+    it('files first reports that arrive together into one case', async () => {
+      const creator = await createUser('creator');
+      const reporters = [await createUser(), await createUser(), await createUser()];
+      const admin = await createUser('admin');
+      const post = await createPost(creator.id);
+      await updatePlatformSettings({ reportHideThreshold: 10 }, admin.id);
+
+      const results = await Promise.all(reporters.map(reporter =>
+        reportMedia(reporter.id, { mediaKind: 'content', mediaId: post.id, reason: 'spam' })
+      ));
+
+      expect(results.map(result => result.status)).toEqual([201, 201, 201]);
+      const { items } = await listReports({ status: 'open', page: 1, pageSize: 50 }, admin.id);
+      expect(items.filter(item => item.mediaId === post.id)).toMatchObject([{ reportCount: 3 }]);
+    });
+
+    it('holds new creators’ posts for approval and publishes them in bulk', async () => {
+      const creator = await createUser('creator');
+      const admin = await createUser('admin');
+      await updatePlatformSettings({ contentApprovalMode: 'new_creators', newCreatorApprovedPosts: 1 }, admin.id);
+
+      expect(await initialModerationStatus(creator.id)).toBe('pending');
+      const post = await createPost(creator.id, { moderationStatus: 'pending' });
+      const { items } = await listPendingContent({ page: 1, pageSize: 50 }, admin);
+      expect(items.find(item => item.id === post.id)).toMatchObject({ creatorApprovedPosts: 0, creator: { id: creator.id } });
+
+      const decided = await decideContent({ decision: 'approve', ids: [post.id, post.id + 1000] }, admin.id);
+
+      expect(decided.decided.map(item => item.id)).toEqual([post.id]);
+      expect(decided.skipped).toEqual([post.id + 1000]);
+      expect((await storage.getContent(post.id))?.moderationStatus).toBe('approved');
+      expect(await initialModerationStatus(creator.id)).toBe('approved');
+    });
+
+    it('records image variants next to their item and finds them per item and rendition', async () => {
+      const creator = await createUser('creator');
+      const post = await createPost(creator.id);
+      const other = await createPost(creator.id);
+      const file = (variant: 'card' | 'full', format: 'webp' | 'jpeg', width: number) =>
+        ({ variant, format, path: `/tmp/scratch/post-${variant}.${format}`, width, height: width, bytes: 100 });
+
+      await recordMediaVariants('content', post.id, '/uploads/content/post.jpg', [file('card', 'webp', 640), file('full', 'jpeg', 1280)]);
+      await recordMediaVariants('content', other.id, '/uploads/content/other.jpg', [file('card', 'webp', 640)]);
+
+      const byId = await getMediaVariants('content', [post.id, other.id]);
+      expect(byId.get(post.id)?.map(row => row.url).sort()).toEqual(['/uploads/content/post-card.webp', '/uploads/content/post-full.jpeg']);
+      expect(byId.get(other.id)).toHaveLength(1);
+      expect(await findMediaVariant('content', post.id, 'card', 'webp')).toMatchObject({ width: 640, url: '/uploads/content/post-card.webp' });
+      expect(await findMediaVariant('gallery', post.id, 'card', 'webp')).toBeUndefined();
+    });
+  });
+}
@@ -0,0 +1,13 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Every test file gets a fresh SQLite database and media directories of its own, so tests never
+// touch the project's database or uploads. Imported ahead of anything that reads these at load time.
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'babes-espresso-test-'));
+process.env.SQLITE_PATH = path.join(dir, 'test.db');
+// Keeps a Postgres DATABASE_URL in the developer's shell from selecting that backend
+process.env.DATABASE_URL = `file:${process.env.SQLITE_PATH}`;
+process.env.PRIVATE_MEDIA_DIR = path.join(dir, 'private', 'media');
+process.env.MEDIA_SCRATCH_DIR = path.join(dir, 'tmp');
+process.env.MAIL_OUTBOX_DIR = path.join(dir, 'outbox');
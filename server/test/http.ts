@@ -0,0 +1,45 @@
+import express, { type Express, type Router } from 'express';
+import type { AddressInfo } from 'net';
+import type { User } from '@shared/schema';
+
+// An app with one router mounted and `user` signed in, standing in for the session and passport
+// middleware that registerRoutes sets up
+export function routerApp(mountPath: string, router: Router, user?: User): Express {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.session = { touch: () => req.session } as unknown as typeof req.session;
+    req.user = user;
+    req.isAuthenticated = (() => user !== undefined) as typeof req.isAuthenticated;
+    next();
+  });
+  app.use(mountPath, router);
+  return app;
+}
+
+// T is the JSON body the route is expected to answer with; it's asserted, not checked. Other
+// responses, such as files, come back as text.
+export interface TestResponse<T = unknown> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+export async function request<T = unknown>(app: Express, method: string, url: string, body?: unknown): Promise<TestResponse<T>> {
+  const server = app.listen(0);
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}${url}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      // Redirects are part of what's being tested
+      redirect: 'manual'
+    });
+    const text = await response.text();
+    const isJson = response.headers.get('content-type')?.includes('application/json');
+    return { status: response.status, headers: response.headers, body: isJson ? JSON.parse(text) : text || undefined };
+  } finally {
+    server.close();
+  }
+}
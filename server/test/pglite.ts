@@ -0,0 +1,25 @@
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import type { Pool } from '@neondatabase/serverless';
+import * as schema from '@shared/schema-pg';
+import type { PgDatabase } from '../pg';
+
+// An in-process Postgres standing in for the Neon pool, for tests that run against the Postgres
+// backend. The migration runner only needs query() and connect(); everything else goes through
+// drizzle. Statements without parameters may hold several commands, as migrations do.
+export function pgliteConnection(): { pool: Pool; db: PgDatabase } {
+  const client = new PGlite();
+  const query = async (text: string, params?: unknown[]) => {
+    if (params) {
+      return client.query(text, params);
+    }
+    const results = await client.exec(text);
+    return results[results.length - 1];
+  };
+  const pool = {
+    query,
+    connect: async () => ({ query, release: () => {} }),
+    end: () => client.close()
+  };
+  return { pool: pool as unknown as Pool, db: drizzle(client, { schema }) };
+}
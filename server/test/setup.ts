@@ -0,0 +1,7 @@
+import './env';
+import { db } from '../db';
+import { runMigrations } from '../migrations/runner';
+import { migrations } from '../migrations';
+
+// Runs before each test file, in the process that file gets to itself
+runMigrations(db.$client, migrations);
@@ -0,0 +1,239 @@
+import { createHash, randomBytes } from "crypto";
+import { and, count, eq, isNull, lt, or } from "drizzle-orm";
+import { db } from "./db";
+import { getPostgres, usePostgres } from "./pg";
+import { twoFactorCredentials, twoFactorRecoveryCodes, type TwoFactorCredential } from "@shared/schema";
+import * as pg from "@shared/schema-pg";
+import { generateTotpSecret, verifyTotp } from "./totp";
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are random, so a plain SHA-256 is enough; dashes and case are ignored when matching
+function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+}
+
+function generateRecoveryCode() {
+  const raw = randomBytes(5).toString("hex");
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+// The two-factor tables in whichever database DATABASE_URL selects
+interface TwoFactorStore {
+  getCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  // Replaces any earlier credential, confirmed or not
+  saveCredential(userId: number, secret: string, createdAt: string): Promise<void>;
+  updateCredential(userId: number, changes: Partial<Pick<TwoFactorCredential, 'enabledAt' | 'lastUsedStep'>>): Promise<void>;
+  // Marks the time step used unless it or a later one already is; false if so, e.g. because a
+  // concurrent request with the same code got there first
+  useStep(userId: number, step: number): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[], createdAt: string): Promise<void>;
+  // Whether an unused code with this hash existed
+  useRecoveryCode(userId: number, codeHash: string, usedAt: string): Promise<boolean>;
+  deleteAll(userId: number): Promise<void>;
+}
+
+type CredentialsTable = typeof twoFactorCredentials | typeof pg.twoFactorCredentials;
+
+function unusedStepConditions(table: CredentialsTable, userId: number, step: number) {
+  return and(eq(table.userId, userId), or(isNull(table.lastUsedStep), lt(table.lastUsedStep, step)));
+}
+
+class SqliteTwoFactorStore implements TwoFactorStore {
+  async getCredential(userId: number) {
+    return db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId)).get();
+  }
+
+  async saveCredential(userId: number, secret: string, createdAt: string) {
+    db.insert(twoFactorCredentials)
+      .values({ userId, secret, createdAt })
+      .onConflictDoUpdate({
+        target: twoFactorCredentials.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt }
+      })
+      .run();
+  }
+
+  async updateCredential(userId: number, changes: Partial<Pick<TwoFactorCredential, 'enabledAt' | 'lastUsedStep'>>) {
+    db.update(twoFactorCredentials).set(changes).where(eq(twoFactorCredentials.userId, userId)).run();
+  }
+
+  async useStep(userId: number, step: number) {
+    return db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(unusedStepConditions(twoFactorCredentials, userId, step))
+      .run().changes > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number) {
+    const [row] = db
+      .select({ remaining: count() })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)))
+      .all();
+    return row?.remaining ?? 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[], createdAt: string) {
+    db.transaction(tx => {
+      tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId)).run();
+      tx.insert(twoFactorRecoveryCodes)
+        .values(codeHashes.map(codeHash => ({ userId, codeHash, createdAt })))
+        .run();
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string, usedAt: string) {
+    return db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .run().changes > 0;
+  }
+
+  async deleteAll(userId: number) {
+    db.transaction(tx => {
+      tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId)).run();
+      tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId)).run();
+    });
+  }
+}
+
+class PostgresTwoFactorStore implements TwoFactorStore {
+  private get db() {
+    return getPostgres().db;
+  }
+
+  async getCredential(userId: number) {
+    const [credential] = await this.db.select().from(pg.twoFactorCredentials).where(eq(pg.twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  async saveCredential(userId: number, secret: string, createdAt: string) {
+    await this.db.insert(pg.twoFactorCredentials)
+      .values({ userId, secret, createdAt })
+      .onConflictDoUpdate({
+        target: pg.twoFactorCredentials.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt }
+      });
+  }
+
+  async updateCredential(userId: number, changes: Partial<Pick<TwoFactorCredential, 'enabledAt' | 'lastUsedStep'>>) {
+    await this.db.update(pg.twoFactorCredentials).set(changes).where(eq(pg.twoFactorCredentials.userId, userId));
+  }
+
+  async useStep(userId: number, step: number) {
+    const used = await this.db
+      .update(pg.twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(unusedStepConditions(pg.twoFactorCredentials, userId, step))
+      .returning({ userId: pg.twoFactorCredentials.userId });
+    return used.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number) {
+    const [row] = await this.db
+      .select({ remaining: count() })
+      .from(pg.twoFactorRecoveryCodes)
+      .where(and(eq(pg.twoFactorRecoveryCodes.userId, userId), isNull(pg.twoFactorRecoveryCodes.usedAt)));
+    return row?.remaining ?? 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[], createdAt: string) {
+    await this.db.transaction(async tx => {
+      await tx.delete(pg.twoFactorRecoveryCodes).where(eq(pg.twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(pg.twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash, createdAt })));
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string, usedAt: string) {
+    const used = await this.db
+      .update(pg.twoFactorRecoveryCodes)
+      .set({ usedAt })
+      .where(and(
+        eq(pg.twoFactorRecoveryCodes.userId, userId),
+        eq(pg.twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(pg.twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: pg.twoFactorRecoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async deleteAll(userId: number) {
+    await this.db.transaction(async tx => {
+      await tx.delete(pg.twoFactorRecoveryCodes).where(eq(pg.twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(pg.twoFactorCredentials).where(eq(pg.twoFactorCredentials.userId, userId));
+    });
+  }
+}
+
+const store: TwoFactorStore = usePostgres ? new PostgresTwoFactorStore() : new SqliteTwoFactorStore();
+
+export function getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+  return store.getCredential(userId);
+}
+
+export async function isTwoFactorEnabled(userId: number) {
+  return Boolean((await getTwoFactorCredential(userId))?.enabledAt);
+}
+
+export function countRemainingRecoveryCodes(userId: number) {
+  return store.countUnusedRecoveryCodes(userId);
+}
+
+// Starts (or restarts) enrollment with a fresh secret; it only takes effect once confirmed
+export async function beginTwoFactorEnrollment(userId: number) {
+  const secret = generateTotpSecret();
+  await store.saveCredential(userId, secret, new Date().toISOString());
+  return secret;
+}
+
+export async function regenerateRecoveryCodes(userId: number) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await store.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode), new Date().toISOString());
+  return codes;
+}
+
+// Returns the plaintext recovery codes on success; they are never retrievable again
+export async function confirmTwoFactorEnrollment(userId: number, code: string): Promise<string[] | null> {
+  const credential = await getTwoFactorCredential(userId);
+  if (!credential || credential.enabledAt) {
+    return null;
+  }
+
+  const step = verifyTotp(credential.secret, code);
+  if (step === null) {
+    return null;
+  }
+
+  await store.updateCredential(userId, { enabledAt: new Date().toISOString(), lastUsedStep: step });
+  return regenerateRecoveryCodes(userId);
+}
+
+export async function verifyTwoFactorCode(userId: number, code: string) {
+  const credential = await getTwoFactorCredential(userId);
+  if (!credential?.enabledAt) {
+    return false;
+  }
+
+  const step = verifyTotp(credential.secret, code);
+  if (step === null) {
+    return false;
+  }
+  // Checked and claimed in one statement, so two requests can't both spend the same code
+  return store.useStep(userId, step);
+}
+
+export function redeemRecoveryCode(userId: number, code: string) {
+  return store.useRecoveryCode(userId, hashRecoveryCode(code), new Date().toISOString());
+}
+
+export function disableTwoFactor(userId: number) {
+  return store.deleteAll(userId);
+}
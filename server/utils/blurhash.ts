@@ -0,0 +1,90 @@
+// BlurHash encoder (https://blurha.sh). The format is small enough to implement here rather
+// than add a dependency; client/src/lib/blurhash.ts holds the matching decoder.
+
+const BASE83_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function encodeBase83(value: number, length: number) {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / 83 ** (length - i)) % 83;
+    result += BASE83_DIGITS[digit];
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number) {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearTosRGB(value: number) {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255);
+}
+
+function signPow(value: number, exponent: number) {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * Encodes raw pixels (RGB or RGBA, row-major) as a BlurHash string. Keep the input small,
+ * e.g. 32x32: the hash only describes a few cosine components, so more pixels just cost time.
+ */
+export function encodeBlurHash(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  channels: number,
+  componentsX = 4,
+  componentsY = 3
+): string {
+  if (componentsX < 1 || componentsX > 9 || componentsY < 1 || componentsY > 9) {
+    throw new Error('BlurHash must have between 1 and 9 components in each direction');
+  }
+
+  const factors: Array<[number, number, number]> = [];
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2;
+      let r = 0, g = 0, b = 0;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const basis = normalisation
+            * Math.cos((Math.PI * i * x) / width)
+            * Math.cos((Math.PI * j * y) / height);
+          const offset = (y * width + x) * channels;
+          r += basis * sRGBToLinear(pixels[offset]);
+          g += basis * sRGBToLinear(pixels[offset + 1]);
+          b += basis * sRGBToLinear(pixels[offset + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encodeBase83((componentsX - 1) + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.map(([r, g, b]) => Math.max(Math.abs(r), Math.abs(g), Math.abs(b))));
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encodeBase83(quantisedMaximum, 1);
+  } else {
+    hash += encodeBase83(0, 1);
+  }
+
+  hash += encodeBase83((linearTosRGB(dc[0]) << 16) + (linearTosRGB(dc[1]) << 8) + linearTosRGB(dc[2]), 4);
+
+  for (const [r, g, b] of ac) {
+    const quantise = (value: number) =>
+      Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)));
+    hash += encodeBase83(quantise(r) * 19 * 19 + quantise(g) * 19 + quantise(b), 2);
+  }
+
+  return hash;
+}
@@ -0,0 +1,169 @@
+import sharp from 'sharp';
+import { createHmac } from 'crypto';
+import type { MediaVariantFormat } from '@shared/schema';
+import { encodeImage } from './imageProcessor';
+import { requireSecret } from '../secrets';
+
+// Must stay the same across restarts and deploys, or marks made before a change can't be read
+const WATERMARK_SECRET = requireSecret('WATERMARK_SECRET');
+
+// The image is split into a grid of blocks, each nudged slightly brighter or darker to carry
+// one bit. Every bit is spread over several blocks scattered across the frame, so crops of
+// one area, recompression and resizing still leave enough of it to read.
+const GRID_COLUMNS = 16;
+const GRID_ROWS = 15;
+const ID_BITS = 24;
+const CHECK_BITS = 16;
+const PAYLOAD_BITS = ID_BITS + CHECK_BITS;
+const BLOCK_COUNT = GRID_COLUMNS * GRID_ROWS;
+// Peak change in 0-255 levels; below what's visible, above what JPEG quality 80 erases
+const STRENGTH = 4;
+// Images smaller than this don't have enough pixels per block to survive recompression
+const MIN_DIMENSION = 240;
+
+export const MAX_TRACEABLE_VIEWER_ID = 2 ** ID_BITS - 1;
+
+export interface TraceResult {
+  viewerId: number;
+  // Share of blocks that agree with the decoded bits; around 0.5 means no mark
+  confidence: number;
+}
+
+function checkBits(viewerId: number) {
+  const digest = createHmac('sha256', WATERMARK_SECRET).update(`viewer:${viewerId}`).digest();
+  return digest.readUInt16BE(0);
+}
+
+function payloadBits(viewerId: number) {
+  const bits: number[] = [];
+  for (let i = ID_BITS - 1; i >= 0; i--) bits.push((viewerId >> i) & 1);
+  const check = checkBits(viewerId);
+  for (let i = CHECK_BITS - 1; i >= 0; i--) bits.push((check >> i) & 1);
+  return bits;
+}
+
+// Which payload bit each block carries: a fixed shuffle so neighbouring blocks carry different bits
+const blockBits: number[] = (() => {
+  const order = Array.from({ length: BLOCK_COUNT }, (_, block) => block % PAYLOAD_BITS);
+  // mulberry32, seeded from the secret so the layout is the same on every server
+  let state = createHmac('sha256', WATERMARK_SECRET).update('block-order').digest().readUInt32BE(0);
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+})();
+
+// Raised-cosine weight across a block, so blocks fade into each other rather than showing edges
+function blockWeight(x: number, y: number, width: number, height: number) {
+  const column = x * GRID_COLUMNS / width;
+  const row = y * GRID_ROWS / height;
+  return Math.sin(Math.PI * (column % 1)) * Math.sin(Math.PI * (row % 1));
+}
+
+function blockIndex(x: number, y: number, width: number, height: number) {
+  return Math.floor(y * GRID_ROWS / height) * GRID_COLUMNS + Math.floor(x * GRID_COLUMNS / width);
+}
+
+/**
+ * Re-encodes an image with the viewer's id hidden in it. The change is invisible but survives
+ * screenshots, recompression and resizing well enough for readViewerMark() to recover the id
+ * given the unmarked original. Images too small to carry the mark are returned unchanged.
+ */
+export async function embedViewerMark(input: string | Buffer, format: MediaVariantFormat, viewerId: number): Promise<Buffer> {
+  if (!Number.isInteger(viewerId) || viewerId < 0 || viewerId > MAX_TRACEABLE_VIEWER_ID) {
+    throw new Error(`Viewer id ${viewerId} can't be encoded in a watermark`);
+  }
+
+  const { data, info } = await sharp(input).raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  if (Math.min(width, height) < MIN_DIMENSION) {
+    return sharp(input).toBuffer();
+  }
+
+  const bits = payloadBits(viewerId);
+  // Alpha, if any, is left alone
+  const colorChannels = Math.min(channels, 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sign = bits[blockBits[blockIndex(x, y, width, height)]] ? 1 : -1;
+      const delta = sign * STRENGTH * blockWeight(x, y, width, height);
+      const offset = (y * width + x) * channels;
+      for (let c = 0; c < colorChannels; c++) {
+        data[offset + c] = Math.min(255, Math.max(0, Math.round(data[offset + c] + delta)));
+      }
+    }
+  }
+
+  return encodeImage(sharp(data, { raw: { width, height, channels } }), format).toBuffer();
+}
+
+/**
+ * Recovers the viewer id from a leaked copy by comparing it with the unmarked original the
+ * copy was served from (any rendition of it will do). Returns null if no valid mark is found,
+ * e.g. the copy was heavily cropped or came from a different image.
+ */
+export async function readViewerMark(leaked: Buffer, original: string | Buffer): Promise<TraceResult | null> {
+  const reference = await sharp(original).rotate().greyscale().raw().toBuffer({ resolveWithObject: true });
+  const { width, height } = reference.info;
+  // Screenshots and re-saves change the size; bring the copy back onto the original's grid
+  const copy = await sharp(leaked)
+    .rotate()
+    .resize(width, height, { fit: 'fill' })
+    .greyscale()
+    .raw()
+    .toBuffer();
+
+  // Re-saves often adjust brightness and contrast; fit copy = gain * original + offset over the
+  // whole image so only the local differences the mark made are left
+  const pixels = width * height;
+  let sumOriginal = 0, sumCopy = 0, sumOriginalSquared = 0, sumProduct = 0;
+  for (let pixel = 0; pixel < pixels; pixel++) {
+    const value = reference.data[pixel];
+    sumOriginal += value;
+    sumCopy += copy[pixel];
+    sumOriginalSquared += value * value;
+    sumProduct += value * copy[pixel];
+  }
+  const variance = pixels * sumOriginalSquared - sumOriginal * sumOriginal;
+  const gain = variance > 0 ? (pixels * sumProduct - sumOriginal * sumCopy) / variance : 1;
+  const offset = (sumCopy - gain * sumOriginal) / pixels;
+
+  const sums = new Float64Array(BLOCK_COUNT);
+  const weights = new Float64Array(BLOCK_COUNT);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const weight = blockWeight(x, y, width, height);
+      const block = blockIndex(x, y, width, height);
+      sums[block] += (copy[pixel] - gain * reference.data[pixel] - offset) * weight;
+      weights[block] += weight;
+    }
+  }
+
+  const votes = new Float64Array(PAYLOAD_BITS);
+  const blockScores: number[] = [];
+  for (let block = 0; block < BLOCK_COUNT; block++) {
+    const score = weights[block] > 0 ? sums[block] / weights[block] : 0;
+    blockScores.push(score);
+    votes[blockBits[block]] += score;
+  }
+
+  const bits = Array.from(votes, vote => vote > 0 ? 1 : 0);
+  let viewerId = 0;
+  for (let i = 0; i < ID_BITS; i++) viewerId = viewerId * 2 + bits[i];
+  let check = 0;
+  for (let i = ID_BITS; i < PAYLOAD_BITS; i++) check = check * 2 + bits[i];
+  if (check !== checkBits(viewerId)) {
+    return null;
+  }
+
+  const agreeing = blockScores.filter((score, block) => (score > 0 ? 1 : 0) === bits[blockBits[block]]).length;
+  return { viewerId, confidence: agreeing / BLOCK_COUNT };
+}
@@ -0,0 +1,119 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import sharp from 'sharp';
+import { processImage } from './imageProcessor';
+
+// 1600x1200 images carrying EXIF (camera make and model, copyright, GPS position) and XMP (GPS
+// position, creator); the JPEG also has IPTC byline and city. libvips doesn't read XMP from PNG
+// iTXt chunks, so the strings below are also looked for in the raw bytes of every output.
+const FIXTURES = fileURLToPath(new URL('../test/fixtures', import.meta.url));
+const IDENTIFYING_STRINGS = ['FixtureCam', 'Fixture Photographer', 'Fixture City', 'GPSLatitude', 'http://ns.adobe.com/xap/1.0/'];
+
+// Every size in three formats, AVIF included, takes several seconds per image
+const ENCODE_TIMEOUT_MS = 60000;
+
+const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-processor-test-'));
+
+afterAll(() => fs.rmSync(outputDir, { recursive: true, force: true }));
+
+// A plain image of the given size, to exercise the variant widths without fixture files
+async function blankImage(name: string, width: number, height: number) {
+  const file = path.join(outputDir, name);
+  await sharp({ create: { width, height, channels: 3, background: '#808080' } }).png().toFile(file);
+  return file;
+}
+
+function sizesOf(files: { variant: string; format: string; width: number; height: number }[]) {
+  return Object.fromEntries(files.filter(file => file.format === 'jpeg').map(file => [file.variant, [file.width, file.height]]));
+}
+
+async function expectNoMetadata(file: string) {
+  const metadata = await sharp(file).metadata();
+  expect(metadata.exif, file).toBeUndefined();
+  expect(metadata.xmp, file).toBeUndefined();
+  expect(metadata.iptc, file).toBeUndefined();
+
+  const bytes = await fs.promises.readFile(file);
+  for (const text of IDENTIFYING_STRINGS) {
+    expect(bytes.includes(text), `${file} contains "${text}"`).toBe(false);
+  }
+}
+
+describe('processImage', () => {
+  it.each(['gps-xmp-iptc.jpg', 'gps-xmp.png'])('strips all metadata from every variant of %s', async fixture => {
+    const input = path.join(FIXTURES, fixture);
+    expect((await sharp(input).metadata()).exif).toBeDefined();
+
+    const result = await processImage(input, path.join(outputDir, `${path.parse(fixture).name}.jpg`));
+
+    expect(new Set(result.variants.map(file => file.variant))).toEqual(new Set(['thumbnail', 'card', 'full', 'original']));
+    expect(new Set(result.variants.map(file => file.format))).toEqual(new Set(['avif', 'webp', 'jpeg']));
+    for (const file of result.variants) {
+      await expectNoMetadata(file.path);
+    }
+  }, ENCODE_TIMEOUT_MS);
+
+  it('stamps the watermark on every rendition, full size included', async () => {
+    const input = path.join(FIXTURES, 'gps-xmp-iptc.jpg');
+    const plain = await processImage(input, path.join(outputDir, 'plain.jpg'));
+    const marked = await processImage(input, path.join(outputDir, 'marked.jpg'), {
+      watermark: { text: 'Fixture Creator', position: 'center', opacity: 1 }
+    });
+
+    const plainJpegs = plain.variants.filter(file => file.format === 'jpeg');
+    const markedJpegs = marked.variants.filter(file => file.format === 'jpeg');
+    expect(markedJpegs.map(file => file.variant)).toEqual(plainJpegs.map(file => file.variant));
+    for (let i = 0; i < markedJpegs.length; i++) {
+      const before = await sharp(plainJpegs[i].path).raw().toBuffer();
+      const after = await sharp(markedJpegs[i].path).raw().toBuffer();
+      expect(after.equals(before), `${markedJpegs[i].variant} is unmarked`).toBe(false);
+    }
+  }, ENCODE_TIMEOUT_MS * 2);
+
+  it('keeps only the copyright notice when asked to', async () => {
+    const result = await processImage(
+      path.join(FIXTURES, 'gps-xmp-iptc.jpg'),
+      path.join(outputDir, 'copyright.jpg'),
+      { variants: false, keepCopyright: true }
+    );
+
+    const metadata = await sharp(result.path).metadata();
+    expect(metadata.exif?.includes('Fixture Photographer')).toBe(true);
+    expect(metadata.exif?.includes('FixtureCam')).toBe(false);
+    expect(metadata.xmp).toBeUndefined();
+    expect(metadata.iptc).toBeUndefined();
+  });
+
+  it('never upscales: widths at or above the source are skipped and the main JPEG is the original', async () => {
+    const outputPath = path.join(outputDir, 'small.jpg');
+
+    const result = await processImage(await blankImage('small.png', 500, 400), outputPath);
+
+    expect(sizesOf(result.variants)).toEqual({ thumbnail: [320, 256], original: [500, 400] });
+    expect(result.variants.filter(file => file.variant === 'original').map(file => file.format).sort()).toEqual(['avif', 'jpeg', 'webp']);
+    expect(result.variants.find(file => file.path === outputPath)).toMatchObject({ variant: 'original', format: 'jpeg' });
+    expect(result).toMatchObject({ path: outputPath, width: 500, height: 400 });
+    for (const file of result.variants) {
+      expect(fs.existsSync(file.path), file.path).toBe(true);
+    }
+  }, ENCODE_TIMEOUT_MS);
+
+  it('caps the original on its longest side and writes the full width as the main JPEG', async () => {
+    const outputPath = path.join(outputDir, 'tall.jpg');
+
+    const result = await processImage(await blankImage('tall.png', 1500, 3000), outputPath, { variants: false });
+    const variants = await processImage(await blankImage('tall-variants.png', 1500, 3000), path.join(outputDir, 'tall-variants.jpg'));
+
+    expect(result.variants).toHaveLength(1);
+    expect(result.variants[0]).toMatchObject({ variant: 'full', format: 'jpeg', path: outputPath, width: 1280, height: 2560 });
+    expect(sizesOf(variants.variants)).toEqual({
+      thumbnail: [320, 640],
+      card: [640, 1280],
+      full: [1280, 2560],
+      original: [1280, 2560]
+    });
+  }, ENCODE_TIMEOUT_MS * 2);
+});
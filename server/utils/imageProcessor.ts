@@ -1,14 +1,243 @@
 import sharp from 'sharp';
 import path from 'path';
 import fs from 'fs';
+import type { MediaVariantFormat, MediaVariantName, WatermarkPosition } from '@shared/schema';
+import { encodeBlurHash } from './blurhash';
+
+// Widths are chosen for phone cards, tablet/desktop grids and full-screen viewing.
+// The original is capped on its longest side rather than its width.
+export const IMAGE_VARIANTS: ReadonlyArray<{ name: MediaVariantName; width: number }> = [
+  { name: 'thumbnail', width: 320 },
+  { name: 'card', width: 640 },
+  { name: 'full', width: 1280 },
+  { name: 'original', width: 2560 }
+];
+
+const FILE_EXTENSIONS: Record<MediaVariantFormat, string> = {
+  avif: 'avif',
+  webp: 'webp',
+  jpeg: 'jpg'
+};
+
+export interface ImageVariantFile {
+  variant: MediaVariantName;
+  format: MediaVariantFormat;
+  path: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
 
 interface ProcessedImage {
   path: string;
   width: number;
   height: number;
+  // Every rendition written, including the JPEG at `path`
+  variants: ImageVariantFile[];
+  // dHash of the upload before any watermark; see computePerceptualHash
+  perceptualHash: string;
+}
+
+export interface WatermarkOptions {
+  // Creator alias or handle; platform uploads carry only the logo
+  text?: string;
+  logoPath?: string;
+  position: WatermarkPosition;
+  // 0-1, applied to the text and logo alike
+  opacity: number;
+}
+
+export interface ProcessImageOptions {
+  // Profile images and other one-off uploads only need the main JPEG
+  variants?: boolean;
+  // Carry the upload's EXIF copyright notice over to the output; everything else is stripped
+  keepCopyright?: boolean;
+  // Stamped onto every rendition, scaled to its size
+  watermark?: WatermarkOptions;
+}
+
+const WATERMARK_GRAVITY: Record<WatermarkPosition, string> = {
+  'top-left': 'northwest',
+  'top-right': 'northeast',
+  'bottom-left': 'southwest',
+  'bottom-right': 'southeast',
+  center: 'centre'
+};
+
+// Set IMAGE_KEEP_COPYRIGHT=true to preserve photographers' copyright notices by default
+const KEEP_COPYRIGHT = process.env.IMAGE_KEEP_COPYRIGHT === 'true';
+
+const EXIF_COPYRIGHT_TAG = 0x8298;
+const EXIF_ASCII_TYPE = 2;
+const MAX_COPYRIGHT_LENGTH = 200;
+
+/**
+ * Reads the Copyright tag from IFD0 of a raw EXIF block as returned by sharp's metadata().
+ * Only this one tag is needed, so the TIFF structure is walked by hand rather than pulling
+ * in an EXIF library. Returns undefined for anything malformed.
+ */
+function readExifCopyright(exif: Buffer): string | undefined {
+  try {
+    // sharp returns the APP1 payload, which starts with "Exif\0\0" before the TIFF header
+    const tiff = exif.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? exif.subarray(6) : exif;
+    const byteOrder = tiff.subarray(0, 2).toString('latin1');
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      return undefined;
+    }
+    const littleEndian = byteOrder === 'II';
+    const u16 = (offset: number) => littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+    const u32 = (offset: number) => littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+    const ifd0 = u32(4);
+    const entries = u16(ifd0);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifd0 + 2 + i * 12;
+      if (u16(entry) !== EXIF_COPYRIGHT_TAG || u16(entry + 2) !== EXIF_ASCII_TYPE) {
+        continue;
+      }
+      const count = u32(entry + 4);
+      const start = count <= 4 ? entry + 8 : u32(entry + 8);
+      // Photographer and editor notices are NUL-separated; keep the photographer's
+      return tiff.subarray(start, start + count).toString('latin1').split('\0')[0];
+    }
+  } catch {
+    // Offsets pointing outside the buffer
+  }
+  return undefined;
+}
+
+// Printable characters only, collapsed whitespace and a bounded length
+function sanitizeCopyright(value: string | undefined): string | undefined {
+  const cleaned = value
+    ?.replace(/[^\x20-\x7E\u00A0-\u00FF]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_COPYRIGHT_LENGTH);
+  return cleaned || undefined;
+}
+
+// Variant files sit next to the main output, e.g. photo.jpg -> photo-card.webp
+export function variantFilePath(outputPath: string, variant: MediaVariantName, format: MediaVariantFormat) {
+  const { dir, name } = path.parse(outputPath);
+  return path.join(dir, `${name}-${variant}.${FILE_EXTENSIONS[format]}`);
+}
+
+interface LoadedLogo {
+  dataUri: string;
+  aspectRatio: number;
+}
+
+// Logos are read once per path; a missing logo is logged and the watermark falls back to text
+const logoCache = new Map<string, Promise<LoadedLogo | null>>();
+
+function loadLogo(logoPath: string) {
+  let logo = logoCache.get(logoPath);
+  if (!logo) {
+    logo = (async () => {
+      try {
+        const png = await sharp(logoPath).png().toBuffer({ resolveWithObject: true });
+        return {
+          dataUri: `data:image/png;base64,${png.data.toString('base64')}`,
+          aspectRatio: png.info.width / png.info.height
+        };
+      } catch (error) {
+        console.warn('Watermark logo could not be loaded:', { logoPath, error });
+        return null;
+      }
+    })();
+    logoCache.set(logoPath, logo);
+  }
+  return logo;
+}
+
+function escapeXml(value: string) {
+  return value.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Draws the watermark as an SVG sized for a rendition of the given dimensions: the logo
+ * followed by the text, scaled to the shorter side so it reads the same at every size.
+ * Returns null when there's nothing to draw.
+ */
+async function renderWatermark(options: WatermarkOptions, width: number, height: number): Promise<Buffer | null> {
+  const logo = options.logoPath ? await loadLogo(options.logoPath) : null;
+  const text = options.text?.trim();
+  if (!logo && !text) {
+    return null;
+  }
+
+  const fontSize = Math.max(11, Math.round(Math.min(width, height) * 0.045));
+  const padding = Math.round(fontSize * 0.6);
+  const logoHeight = logo ? Math.round(fontSize * 1.6) : 0;
+  const logoWidth = logo ? Math.round(logoHeight * logo.aspectRatio) : 0;
+  const gap = logo && text ? Math.round(fontSize * 0.4) : 0;
+  // No font metrics here; average glyph width is a little over half the font size
+  const textWidth = text ? Math.ceil(text.length * fontSize * 0.58) : 0;
+  const boxWidth = Math.min(width, padding * 2 + logoWidth + gap + textWidth);
+  const boxHeight = Math.min(height, padding * 2 + Math.max(logoHeight, fontSize));
+  const middle = boxHeight / 2;
+
+  const parts: string[] = [];
+  if (logo) {
+    parts.push(`<image href="${logo.dataUri}" x="${padding}" y="${middle - logoHeight / 2}" width="${logoWidth}" height="${logoHeight}"/>`);
+  }
+  if (text) {
+    // A dark outline keeps white text legible on light backgrounds
+    parts.push(`<text x="${padding + logoWidth + gap}" y="${middle}" dominant-baseline="central" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" fill="#fff" stroke="#000" stroke-opacity="0.45" stroke-width="${Math.max(1, fontSize / 12)}" paint-order="stroke">${escapeXml(text)}</text>`);
+  }
+  const opacity = Math.min(1, Math.max(0, options.opacity));
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${boxWidth}" height="${boxHeight}"><g opacity="${opacity}">${parts.join('')}</g></svg>`
+  );
 }
 
-export async function processImage(inputPath: string, outputPath: string): Promise<ProcessedImage> {
+// The size resizeTo() will produce from an upright source of the given size
+function renditionSize(variant: { name: MediaVariantName; width: number }, sourceWidth: number, sourceHeight: number) {
+  const scale = variant.name === 'original'
+    ? Math.min(1, variant.width / Math.max(sourceWidth, sourceHeight))
+    : Math.min(1, variant.width / sourceWidth);
+  return {
+    width: Math.max(1, Math.round(sourceWidth * scale)),
+    height: Math.max(1, Math.round(sourceHeight * scale))
+  };
+}
+
+export function encodeImage(image: sharp.Sharp, format: MediaVariantFormat, copyright?: string) {
+  // sharp writes no metadata unless asked, so this is the only EXIF the output carries
+  if (copyright) {
+    image = image.withExif({ IFD0: { Copyright: copyright } });
+  }
+  switch (format) {
+    case 'avif':
+      return image.avif({ quality: 50, effort: 4 });
+    case 'webp':
+      return image.webp({ quality: 75 });
+    case 'jpeg':
+      return image.jpeg({ quality: 80, progressive: true });
+  }
+}
+
+function resizeTo(image: sharp.Sharp, variant: { name: MediaVariantName; width: number }) {
+  return variant.name === 'original'
+    ? image.resize(variant.width, variant.width, { fit: 'inside', withoutEnlargement: true })
+    : image.resize({ width: variant.width, withoutEnlargement: true });
+}
+
+/**
+ * Re-encodes an upload as a JPEG at outputPath and, unless disabled, writes the responsive
+ * variants next to it in AVIF, WebP and JPEG. Widths at or above the source width are skipped
+ * so nothing is upscaled; the capped original is always kept.
+ *
+ * Every output is rotated upright from its EXIF orientation and has all EXIF, XMP and IPTC
+ * metadata (GPS location and device details included) removed, so uploads never leak where
+ * or with what they were taken. With options.watermark, every rendition, full size included,
+ * also carries the creator's branding.
+ */
+export async function processImage(
+  inputPath: string,
+  outputPath: string,
+  options: ProcessImageOptions = {}
+): Promise<ProcessedImage> {
   try {
     console.log('Starting image processing:', { inputPath, outputPath });
     const startTime = Date.now();
@@ -56,41 +285,52 @@ export async function processImage(inputPath: string, outputPath: string): Promi
       throw new Error(`Unsupported image format: ${metadata.format}. Allowed formats: ${allowedFormats.join(', ')}`);
     }
 
-    // Maximum dimensions while maintaining aspect ratio
-    const maxWidth = 1200; // Reduced from 1920 for better performance
-    const maxHeight = 800; // Reduced from 1080 for better performance
-
-    // Calculate target dimensions while maintaining aspect ratio
-    let targetWidth = metadata.width;
-    let targetHeight = metadata.height;
-
-    // Scale down if image is too large
-    if (targetWidth > maxWidth || targetHeight > maxHeight) {
-      const aspectRatio = targetWidth / targetHeight;
-      if (aspectRatio > maxWidth / maxHeight) {
-        targetWidth = maxWidth;
-        targetHeight = Math.round(maxWidth / aspectRatio);
-      } else {
-        targetHeight = maxHeight;
-        targetWidth = Math.round(maxHeight * aspectRatio);
-      }
-      console.log('Resizing image to:', { targetWidth, targetHeight });
-    } else {
-      console.log('Image dimensions are within limits, no resizing needed');
-    }
+    // Orientations 5-8 are rotated a quarter turn, so the upright width is the stored height
+    const quarterTurn = (metadata.orientation ?? 1) >= 5;
+    const sourceWidth = quarterTurn ? metadata.height : metadata.width;
+    const sourceHeight = quarterTurn ? metadata.width : metadata.height;
+    const copyright = (options.keepCopyright ?? KEEP_COPYRIGHT) && metadata.exif
+      ? sanitizeCopyright(readExifCopyright(metadata.exif))
+      : undefined;
+    const selected = IMAGE_VARIANTS.filter(variant => variant.name === 'original' || variant.width < sourceWidth);
+    // The main JPEG is the full-width rendition, or the original when the source is narrower than that
+    const main = selected.find(variant => variant.name === 'full') ?? selected[selected.length - 1];
+    const formats: MediaVariantFormat[] = options.variants === false ? ['jpeg'] : ['avif', 'webp', 'jpeg'];
+    const renditions = options.variants === false ? [main] : selected;
 
-    // Process the image with better error handling
+    // Encode one file at a time; AVIF in particular is memory hungry
+    const variants: ImageVariantFile[] = [];
     try {
-      console.log('Starting image transformation');
-      await image
-        .resize(targetWidth, targetHeight, {
-          fit: 'inside',
-          withoutEnlargement: true
-        })
-        .jpeg({ quality: 80, progressive: true }) // Reduced quality from 85 to 80 for better performance
-        .toFile(outputPath);
+      console.log('Starting image transformation:', { variants: renditions.map(v => v.name), formats });
+      for (const variant of renditions) {
+        const size = renditionSize(variant, sourceWidth, sourceHeight);
+        const watermark = options.watermark
+          ? await renderWatermark(options.watermark, size.width, size.height)
+          : null;
+        for (const format of formats) {
+          const filePath = variant === main && format === 'jpeg'
+            ? outputPath
+            : variantFilePath(outputPath, variant.name, format);
+          // rotate() with no angle applies the EXIF orientation before the tag is dropped
+          let rendition = resizeTo(image.clone().rotate(), variant);
+          if (watermark) {
+            rendition = rendition.composite([{ input: watermark, gravity: WATERMARK_GRAVITY[options.watermark!.position] }]);
+          }
+          const info = await encodeImage(rendition, format, copyright).toFile(filePath);
+          variants.push({
+            variant: variant.name,
+            format,
+            path: filePath,
+            width: info.width,
+            height: info.height,
+            bytes: info.size
+          });
+        }
+      }
       console.log('Image transformation completed');
     } catch (error) {
+      // Don't leave a partial set of variants behind
+      await Promise.all(variants.map(file => fs.promises.unlink(file.path).catch(() => {})));
       throw new Error(`Failed to process image: ${error.message}`);
     }
 
@@ -102,13 +342,18 @@ export async function processImage(inputPath: string, outputPath: string): Promi
       throw new Error(`Failed to verify output file: ${error.message}`);
     }
 
+    const perceptualHash = await computePerceptualHash(inputPath);
+
     const endTime = Date.now();
-    console.log(`Image processing completed in ${endTime - startTime}ms`);
+    console.log(`Image processing completed in ${endTime - startTime}ms (${variants.length} files)`);
 
+    const mainFile = variants.find(file => file.path === outputPath)!;
     return {
       path: outputPath,
-      width: targetWidth,
-      height: targetHeight
+      width: mainFile.width,
+      height: mainFile.height,
+      variants,
+      perceptualHash
     };
   } catch (error) {
     console.error('Error processing image:', error);
@@ -116,6 +361,85 @@ export async function processImage(inputPath: string, outputPath: string): Promi
   }
 }
 
+// Teasers are meant to hint at the image, not stand in for it: it's shrunk to a handful of
+// pixels across, blown back up and softened, so nothing worth saving reaches the browser
+const TEASER_WIDTH = 480;
+const TEASER_PIXELS_ACROSS = 12;
+const BLURHASH_SAMPLE_SIZE = 32;
+
+interface ProcessedTeaser {
+  path: string;
+  width: number;
+  height: number;
+  blurHash: string;
+}
+
+/**
+ * Writes a heavily pixelated and blurred JPEG of an image to outputPath, for showing locked
+ * premium items, and computes a BlurHash of it to paint while the teaser loads.
+ */
+export async function createTeaser(inputPath: string, outputPath: string): Promise<ProcessedTeaser> {
+  try {
+    const upright = sharp(inputPath).rotate();
+
+    const sample = await upright
+      .clone()
+      .resize(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE, { fit: 'fill' })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const blurHash = encodeBlurHash(sample.data, sample.info.width, sample.info.height, sample.info.channels);
+
+    const pixels = await upright
+      .clone()
+      .resize({ width: TEASER_PIXELS_ACROSS })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const { width, height, channels } = pixels.info;
+    const info = await sharp(pixels.data, { raw: { width, height, channels } })
+      .resize({ width: TEASER_WIDTH, kernel: 'nearest' })
+      .blur(6)
+      .jpeg({ quality: 60 })
+      .toFile(outputPath);
+
+    return { path: outputPath, width: info.width, height: info.height, blurHash };
+  } catch (error) {
+    console.error('Error creating teaser:', error);
+    throw new Error(`Failed to create teaser: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// dHash compares each pixel of a 9x8 greyscale thumbnail with its right-hand neighbour,
+// giving 64 bits that survive resizing, recompression and small edits
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+/**
+ * Computes a 64-bit difference hash of an image, as 16 hex characters. Near-duplicate images
+ * have hashes a small Hamming distance apart; see server/media/duplicates.ts.
+ */
+export async function computePerceptualHash(input: string | Buffer): Promise<string> {
+  const { data, info } = await sharp(input)
+    .rotate()
+    .greyscale()
+    .resize(DHASH_WIDTH, DHASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let hash = '';
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    // Each row is 8 bits, so two hex digits
+    let row = 0;
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const offset = (y * DHASH_WIDTH + x) * info.channels;
+      row = (row << 1) | (data[offset] < data[offset + info.channels] ? 1 : 0);
+    }
+    hash += row.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
 export async function ensureImageQuality(inputPath: string): Promise<void> {
   try {
     console.log('Checking image quality:', { inputPath });
@@ -0,0 +1,248 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import fs from 'fs';
+
+const execFileAsync = promisify(execFile);
+
+// ffmpeg and ffprobe are expected on the PATH unless configured
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+
+const MAX_DURATION_SECONDS = Number(process.env.VIDEO_MAX_DURATION_MINUTES || 30) * 60;
+const MIN_HEIGHT = 240;
+// ffprobe reports MP4 and QuickTime files as "mov,mp4,m4a,3gp,3g2,mj2"
+const SUPPORTED_CONTAINERS = ['mov', 'mp4'];
+const SUPPORTED_VIDEO_CODECS = ['h264', 'hevc', 'vp9', 'av1', 'mpeg4'];
+
+const HLS_SEGMENT_SECONDS = 6;
+// Keyframes every 2s line segments up across renditions so players can switch between them
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+export const HLS_LADDER = [
+  { name: '360p', height: 360, videoKbps: 800, audioKbps: 96 },
+  { name: '720p', height: 720, videoKbps: 2800, audioKbps: 128 },
+  { name: '1080p', height: 1080, videoKbps: 5000, audioKbps: 128 }
+];
+
+export class UnsupportedVideoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedVideoError';
+  }
+}
+
+export interface VideoProbe {
+  durationSeconds: number;
+  // As displayed, i.e. after any rotation the file asks for
+  width: number;
+  height: number;
+  videoCodec: string;
+  hasAudio: boolean;
+}
+
+export interface VideoRendition {
+  name: string;
+  width: number;
+  height: number;
+  playlist: string;
+}
+
+export interface ProcessedVideo {
+  posterPath: string;
+  previewPath: string;
+  masterPlaylistPath: string;
+  // Progressive MP4 of the highest rendition, for players without HLS support
+  playbackPath: string;
+  renditions: VideoRendition[];
+}
+
+interface FfprobeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  tags?: { rotate?: string };
+  side_data_list?: Array<{ rotation?: number }>;
+}
+
+interface FfprobeOutput {
+  format?: { format_name?: string; duration?: string };
+  streams?: FfprobeStream[];
+}
+
+async function run(command: string, args: string[], timeoutMs: number) {
+  try {
+    return await execFileAsync(command, args, { timeout: timeoutMs, maxBuffer: 16 * 1024 * 1024 });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim().split('\n').slice(-3).join(' ');
+    throw new Error(`${path.basename(command)} failed: ${stderr || (error instanceof Error ? error.message : error)}`);
+  }
+}
+
+/**
+ * Reads duration, codec and dimensions with ffprobe and rejects anything the pipeline
+ * can't handle. Throws UnsupportedVideoError for bad input, Error if ffprobe itself fails.
+ */
+export async function probeVideo(inputPath: string): Promise<VideoProbe> {
+  const { stdout } = await run(FFPROBE_PATH, [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format',
+    '-show_streams',
+    inputPath
+  ], 60_000);
+
+  let output: FfprobeOutput;
+  try {
+    output = JSON.parse(stdout);
+  } catch {
+    throw new UnsupportedVideoError('Could not read video file');
+  }
+
+  const containers = output.format?.format_name?.split(',') ?? [];
+  if (!containers.some(name => SUPPORTED_CONTAINERS.includes(name))) {
+    throw new UnsupportedVideoError(`Unsupported container: ${output.format?.format_name ?? 'unknown'}. Upload an MP4 or MOV file.`);
+  }
+
+  const video = output.streams?.find(stream => stream.codec_type === 'video');
+  if (!video?.codec_name || !video.width || !video.height) {
+    throw new UnsupportedVideoError('The file has no video stream');
+  }
+  if (!SUPPORTED_VIDEO_CODECS.includes(video.codec_name)) {
+    throw new UnsupportedVideoError(`Unsupported video codec: ${video.codec_name}. Allowed codecs: ${SUPPORTED_VIDEO_CODECS.join(', ')}`);
+  }
+
+  const durationSeconds = Number(output.format?.duration);
+  if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+    throw new UnsupportedVideoError('Could not determine video duration');
+  }
+  if (durationSeconds > MAX_DURATION_SECONDS) {
+    throw new UnsupportedVideoError(`Video is too long. Maximum length is ${MAX_DURATION_SECONDS / 60} minutes.`);
+  }
+
+  // Phones record portrait video as landscape frames plus a rotation flag
+  const rotation = Math.abs(Number(video.side_data_list?.find(data => data.rotation !== undefined)?.rotation ?? video.tags?.rotate ?? 0));
+  const [width, height] = rotation % 180 === 90 ? [video.height, video.width] : [video.width, video.height];
+  if (Math.min(width, height) < MIN_HEIGHT) {
+    throw new UnsupportedVideoError(`Video resolution too low. Minimum is ${MIN_HEIGHT}p.`);
+  }
+
+  return {
+    durationSeconds,
+    width,
+    height,
+    videoCodec: video.codec_name,
+    hasAudio: Boolean(output.streams?.some(stream => stream.codec_type === 'audio'))
+  };
+}
+
+// Ladder rungs up to the source height; nothing is upscaled, but there's always at least one
+function selectRenditions(probe: VideoProbe) {
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  const rungs = HLS_LADDER.filter(rung => rung.height <= probe.height);
+  const selected = rungs.length > 0
+    ? rungs
+    : [{ ...HLS_LADDER[0], name: `${even(probe.height)}p`, height: even(probe.height) }];
+  return selected.map(rung => ({ ...rung, width: even(probe.width * rung.height / probe.height) }));
+}
+
+/**
+ * Transcodes a probed upload into outputDir: a poster frame, a short muted preview loop,
+ * and an H.264/AAC HLS ladder with its master playlist. Metadata such as recording
+ * location is dropped from every output. Files written before a failure are left for the
+ * caller to remove along with the directory.
+ */
+export async function processVideo(inputPath: string, outputDir: string, probe: VideoProbe): Promise<ProcessedVideo> {
+  console.log('Starting video processing:', { inputPath, outputDir, probe });
+  const startTime = Date.now();
+  await fs.promises.mkdir(outputDir, { recursive: true, mode: 0o755 });
+
+  // Allow well beyond real time for slow machines; a stuck encode still gets killed
+  const encodeTimeoutMs = Math.max(10 * 60_000, probe.durationSeconds * 20_000);
+
+  const posterPath = path.join(outputDir, 'poster.jpg');
+  const posterAt = Math.min(probe.durationSeconds * 0.1, 5);
+  await run(FFMPEG_PATH, [
+    '-hide_banner', '-y',
+    '-ss', posterAt.toFixed(2),
+    '-i', inputPath,
+    '-frames:v', '1',
+    '-vf', "scale='min(1280,iw)':-2",
+    '-q:v', '3',
+    '-map_metadata', '-1',
+    posterPath
+  ], 60_000);
+
+  const previewPath = path.join(outputDir, 'preview.mp4');
+  const previewAt = probe.durationSeconds > 8 ? probe.durationSeconds * 0.25 : 0;
+  await run(FFMPEG_PATH, [
+    '-hide_banner', '-y',
+    '-ss', previewAt.toFixed(2),
+    '-t', '4',
+    '-i', inputPath,
+    '-an',
+    '-vf', 'scale=-2:240,fps=15',
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '30', '-pix_fmt', 'yuv420p',
+    '-map_metadata', '-1',
+    '-movflags', '+faststart',
+    previewPath
+  ], encodeTimeoutMs);
+
+  const renditions: VideoRendition[] = [];
+  const selected = selectRenditions(probe);
+  let playbackPath = '';
+  for (let index = 0; index < selected.length; index++) {
+    const rung = selected[index];
+    const mp4Path = path.join(outputDir, `${rung.name}.mp4`);
+    await run(FFMPEG_PATH, [
+      '-hide_banner', '-y',
+      '-i', inputPath,
+      '-map', '0:v:0',
+      ...(probe.hasAudio ? ['-map', '0:a:0'] : []),
+      '-vf', `scale=-2:${rung.height}`,
+      '-c:v', 'libx264', '-preset', 'veryfast', '-profile:v', 'main', '-pix_fmt', 'yuv420p',
+      '-b:v', `${rung.videoKbps}k`,
+      '-maxrate', `${Math.round(rung.videoKbps * 1.07)}k`,
+      '-bufsize', `${Math.round(rung.videoKbps * 1.5)}k`,
+      '-force_key_frames', `expr:gte(t,n_forced*${KEYFRAME_INTERVAL_SECONDS})`,
+      ...(probe.hasAudio ? ['-c:a', 'aac', '-b:a', `${rung.audioKbps}k`, '-ac', '2'] : []),
+      '-map_metadata', '-1',
+      '-movflags', '+faststart',
+      mp4Path
+    ], encodeTimeoutMs);
+
+    // Segmenting is a remux, so each rendition is only encoded once
+    const playlist = `${rung.name}.m3u8`;
+    await run(FFMPEG_PATH, [
+      '-hide_banner', '-y',
+      '-i', mp4Path,
+      '-c', 'copy',
+      '-f', 'hls',
+      '-hls_time', String(HLS_SEGMENT_SECONDS),
+      '-hls_playlist_type', 'vod',
+      '-hls_segment_filename', path.join(outputDir, `${rung.name}_%03d.ts`),
+      path.join(outputDir, playlist)
+    ], encodeTimeoutMs);
+
+    if (index === selected.length - 1) {
+      playbackPath = mp4Path;
+    } else {
+      await fs.promises.unlink(mp4Path);
+    }
+    renditions.push({ name: rung.name, width: rung.width, height: rung.height, playlist });
+    console.log(`Encoded ${rung.name} rendition`);
+  }
+
+  const masterPlaylistPath = path.join(outputDir, 'master.m3u8');
+  const master = ['#EXTM3U', '#EXT-X-VERSION:3'];
+  renditions.forEach((rendition, index) => {
+    const rung = selected[index];
+    const bandwidth = Math.round(rung.videoKbps * 1.07 + (probe.hasAudio ? rung.audioKbps : 0)) * 1000;
+    master.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${rendition.width}x${rendition.height}`, rendition.playlist);
+  });
+  await fs.promises.writeFile(masterPlaylistPath, `${master.join('\n')}\n`);
+
+  console.log(`Video processing completed in ${Date.now() - startTime}ms`);
+  return { posterPath, previewPath, masterPlaylistPath, playbackPath, renditions };
+}
@@ -20,9 +20,6 @@ export function log(message: string, source = "express") {
 export async function setupVite(app: Express, server: Server) {
   // In development, proxy requests to the Vite dev server
   if (process.env.NODE_ENV === 'development') {
-    // Serve uploads directory
-    app.use('/uploads', express.static(path.resolve(__dirname, 'uploads')));
-    
     app.use('/assets', (req, res) => {
       res.redirect(`http://localhost:3007${req.url}`);
     });
@@ -0,0 +1,346 @@
+import { pgTable, serial, text, integer, boolean, doublePrecision, bigint, jsonb } from 'drizzle-orm/pg-core';
+import {
+  modelApplicationStatuses,
+  authTokenTypes,
+  subscriptionStatuses,
+  contentProcessingStatuses,
+  contentModerationStatuses,
+  mediaKinds,
+  mediaVariantNames,
+  mediaVariantFormats,
+  mediaQuarantineReasons,
+  reportReasons,
+  reportStatuses,
+  type AuditChanges
+} from './schema';
+
+// Postgres definitions of the tables in schema.ts. Property names and value types match
+// the SQLite tables exactly, so both dialects share the row types exported from schema.ts.
+// Timestamps stay ISO-8601 text rather than timestamptz for the same reason.
+const now = () => new Date().toISOString();
+
+export const models = pgTable('models', {
+  id: serial('id').primaryKey(),
+  firstName: text('first_name').notNull(),
+  lastName: text('last_name').notNull(),
+  email: text('email').notNull(),
+  phone: text('phone').notNull(),
+  dateOfBirth: text('date_of_birth').notNull(),
+  aliasName: text('alias_name'),
+  socialPlatforms: jsonb('social_platforms').notNull(),
+  socialHandles: text('social_handles'),
+  onlyFansLink: text('only_fans_link'),
+  bodyPhotoUrl: text('body_photo_url').notNull(),
+  licensePhotoUrl: text('license_photo_url').notNull(),
+  termsAccepted: jsonb('terms_accepted').notNull(),
+  status: text('status', { enum: modelApplicationStatuses }).notNull().default('new'),
+  reviewerNotes: text('reviewer_notes'),
+  reviewedBy: integer('reviewed_by'),
+  reviewedAt: text('reviewed_at'),
+  userId: integer('user_id'),
+  createdAt: text('created_at')
+});
+
+export const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull().unique(),
+  password: text('password').notNull(),
+  role: text('role').notNull().default('follower'),
+  username: text('username').unique(),
+  displayName: text('display_name'),
+  avatarUrl: text('avatar_url'),
+  bio: text('bio'),
+  verified: integer('verified').default(0),
+  isApproved: integer('is_approved').default(0),
+  createdAt: text('created_at').notNull().$defaultFn(now),
+  profileId: integer('profile_id')
+});
+
+export const sessions = pgTable('sessions', {
+  sid: text('sid').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  sess: jsonb('sess').notNull(),
+  expiresAt: bigint('expires_at', { mode: 'number' }).notNull(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull()
+});
+
+export const authTokens = pgTable('auth_tokens', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: authTokenTypes }).notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: text('expires_at').notNull(),
+  usedAt: text('used_at'),
+  createdAt: text('created_at').notNull()
+});
+
+export const twoFactorCredentials = pgTable('two_factor_credentials', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  secret: text('secret').notNull(),
+  enabledAt: text('enabled_at'),
+  lastUsedStep: integer('last_used_step'),
+  createdAt: text('created_at').notNull()
+});
+
+export const twoFactorRecoveryCodes = pgTable('two_factor_recovery_codes', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: text('code_hash').notNull(),
+  usedAt: text('used_at'),
+  createdAt: text('created_at').notNull()
+});
+
+export const loginAttempts = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  kind: text('kind', { enum: ['login', 'two_factor', 'register'] }).notNull(),
+  email: text('email'),
+  ipAddress: text('ip_address'),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  success: boolean('success').notNull(),
+  reason: text('reason'),
+  createdAt: text('created_at').notNull()
+});
+
+export const accountLockouts = pgTable('account_lockouts', {
+  email: text('email').primaryKey(),
+  lockedUntil: text('locked_until'),
+  lockedAt: text('locked_at').notNull(),
+  unlockedAt: text('unlocked_at'),
+  unlockedBy: integer('unlocked_by').references(() => users.id)
+});
+
+export const platformSettings = pgTable('platform_settings', {
+  key: text('key').primaryKey(),
+  value: jsonb('value').notNull(),
+  updatedBy: integer('updated_by').references(() => users.id),
+  updatedAt: text('updated_at').notNull()
+});
+
+export const creatorProfiles = pgTable('creator_profiles', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().unique().references(() => users.id),
+  aliasName: text('alias_name'),
+  instagram: text('instagram'),
+  twitter: text('twitter'),
+  tiktok: text('tiktok'),
+  onlyfans: text('onlyfans'),
+  featuredImageUrl: text('featured_image_url'),
+  monthlySubscriptionPrice: doublePrecision('monthly_subscription_price').notNull().default(0),
+  perPostPrice: doublePrecision('per_post_price').notNull().default(0),
+  approvalStatus: text('approval_status', { enum: ['pending', 'approved', 'rejected'] }).notNull().default('pending'),
+  approvalDate: text('approval_date'),
+  approvedBy: integer('approved_by').references(() => users.id),
+  rejectionReason: text('rejection_reason'),
+  createdAt: text('created_at').notNull().$defaultFn(now)
+});
+
+export const followerProfiles = pgTable('follower_profiles', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().unique().references(() => users.id),
+  preferences: jsonb('preferences'),
+  createdAt: text('created_at').notNull().$defaultFn(now)
+});
+
+export const content = pgTable('content', {
+  id: serial('id').primaryKey(),
+  creatorId: integer('creator_id').notNull().references(() => users.id),
+  title: text('title').notNull(),
+  description: text('description'),
+  contentType: text('content_type', { enum: ['image', 'video'] }).notNull(),
+  url: text('url').notNull(),
+  thumbnailUrl: text('thumbnail_url'),
+  isPremium: boolean('is_premium').default(false),
+  price: doublePrecision('price'),
+  processingStatus: text('processing_status', { enum: contentProcessingStatuses }).notNull().default('ready'),
+  processingError: text('processing_error'),
+  durationSeconds: doublePrecision('duration_seconds'),
+  width: integer('width'),
+  height: integer('height'),
+  previewUrl: text('preview_url'),
+  hlsUrl: text('hls_url'),
+  teaserUrl: text('teaser_url'),
+  blurHash: text('blur_hash'),
+  // dHash of the image (or a video's poster frame), for spotting near-duplicate uploads
+  perceptualHash: text('perceptual_hash'),
+  hiddenAt: text('hidden_at'),
+  moderationStatus: text('moderation_status', { enum: contentModerationStatuses }).notNull().default('approved'),
+  moderationReason: text('moderation_reason'),
+  moderatedBy: integer('moderated_by').references(() => users.id, { onDelete: 'set null' }),
+  moderatedAt: text('moderated_at'),
+  createdAt: text('created_at').notNull().$defaultFn(now),
+  updatedAt: text('updated_at').notNull().$defaultFn(now)
+});
+
+export const subscriptions = pgTable('subscriptions', {
+  id: serial('id').primaryKey(),
+  followerId: integer('follower_id').notNull().references(() => users.id),
+  creatorId: integer('creator_id').notNull().references(() => users.id),
+  type: text('type', { enum: ['monthly', 'per_post'] }).notNull(),
+  startDate: text('start_date').notNull().$defaultFn(now),
+  endDate: text('end_date'),
+  amount: doublePrecision('amount').notNull(),
+  status: text('status', { enum: subscriptionStatuses }).notNull().default('active'),
+  renewalAttempts: integer('renewal_attempts').notNull().default(0),
+  nextRenewalAttemptAt: text('next_renewal_attempt_at'),
+  pastDueSince: text('past_due_since'),
+  createdAt: text('created_at').notNull().$defaultFn(now),
+  updatedAt: text('updated_at').notNull().$defaultFn(now)
+});
+
+export const subscriptionHistory = pgTable('subscription_history', {
+  id: serial('id').primaryKey(),
+  subscriptionId: integer('subscription_id').notNull().references(() => subscriptions.id, { onDelete: 'cascade' }),
+  fromStatus: text('from_status', { enum: subscriptionStatuses }),
+  toStatus: text('to_status', { enum: subscriptionStatuses }).notNull(),
+  reason: text('reason').notNull(),
+  paymentId: integer('payment_id'),
+  endDate: text('end_date'),
+  createdAt: text('created_at').notNull()
+});
+
+export const contentPurchases = pgTable('content_purchases', {
+  id: serial('id').primaryKey(),
+  contentId: integer('content_id').notNull().references(() => content.id),
+  followerId: integer('follower_id').notNull().references(() => users.id),
+  amount: doublePrecision('amount').notNull(),
+  status: text('status', { enum: ['pending', 'completed', 'failed', 'refunded'] }).notNull().default('completed'),
+  purchaseDate: text('purchase_date').notNull().$defaultFn(now),
+  createdAt: text('created_at').notNull().$defaultFn(now),
+  updatedAt: text('updated_at').notNull().$defaultFn(now)
+});
+
+export const paymentCustomers = pgTable('payment_customers', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  provider: text('provider').notNull(),
+  customerId: text('customer_id').notNull(),
+  defaultPaymentMethodId: text('default_payment_method_id'),
+  cardBrand: text('card_brand'),
+  cardLast4: text('card_last4'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull()
+});
+
+export const payments = pgTable('payments', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  provider: text('provider').notNull(),
+  providerChargeId: text('provider_charge_id'),
+  amount: doublePrecision('amount').notNull(),
+  currency: text('currency').notNull(),
+  status: text('status', { enum: ['succeeded', 'failed', 'refunded'] }).notNull(),
+  // Partial refunds leave the status as succeeded; it becomes refunded once this reaches amount
+  refundedAmount: doublePrecision('refunded_amount').notNull().default(0),
+  failureCode: text('failure_code'),
+  failureMessage: text('failure_message'),
+  description: text('description').notNull(),
+  subscriptionId: integer('subscription_id').references(() => subscriptions.id),
+  contentPurchaseId: integer('content_purchase_id').references(() => contentPurchases.id),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull()
+});
+
+export const gallery = pgTable('gallery', {
+  id: serial('id').primaryKey(),
+  url: text('url').notNull(),
+  title: text('title').notNull(),
+  type: text('type').notNull().default('gallery'),
+  contentRating: text('content_rating', { enum: ['sfw', 'nsfw'] }).notNull().default('sfw'),
+  isPremium: boolean('is_premium').notNull().default(false),
+  createdAt: text('created_at').notNull(),
+  tags: jsonb('tags').notNull().default([]),
+  instagram: text('instagram'),
+  tiktok: text('tiktok'),
+  twitter: text('twitter'),
+  onlyfans: text('onlyfans'),
+  description: text('description'),
+  teaserUrl: text('teaser_url'),
+  blurHash: text('blur_hash'),
+  // dHash of the image, for spotting near-duplicate uploads
+  perceptualHash: text('perceptual_hash'),
+  hiddenAt: text('hidden_at')
+});
+
+export const mediaVariants = pgTable('media_variants', {
+  id: serial('id').primaryKey(),
+  mediaKind: text('media_kind', { enum: mediaKinds }).notNull(),
+  mediaId: integer('media_id').notNull(),
+  variant: text('variant', { enum: mediaVariantNames }).notNull(),
+  format: text('format', { enum: mediaVariantFormats }).notNull(),
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  url: text('url').notNull(),
+  bytes: integer('bytes').notNull(),
+  createdAt: text('created_at').notNull()
+});
+
+export const uploadSessions = pgTable('upload_sessions', {
+  id: text('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  filename: text('filename').notNull(),
+  mimeType: text('mime_type').notNull(),
+  size: bigint('size', { mode: 'number' }).notNull(),
+  receivedBytes: bigint('received_bytes', { mode: 'number' }).notNull().default(0),
+  expiresAt: text('expires_at').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull()
+});
+
+export const mediaQuarantine = pgTable('media_quarantine', {
+  id: serial('id').primaryKey(),
+  key: text('key').notNull(),
+  quarantineKey: text('quarantine_key').notNull().unique(),
+  size: bigint('size', { mode: 'number' }).notNull(),
+  reason: text('reason', { enum: mediaQuarantineReasons }).notNull(),
+  quarantinedAt: text('quarantined_at').notNull(),
+  deleteAfter: text('delete_after').notNull()
+});
+
+export const mediaReconciliationRuns = pgTable('media_reconciliation_runs', {
+  id: serial('id').primaryKey(),
+  report: jsonb('report').notNull(),
+  dryRun: boolean('dry_run').notNull().default(false),
+  startedAt: text('started_at').notNull(),
+  finishedAt: text('finished_at').notNull()
+});
+
+export const reports = pgTable('reports', {
+  id: serial('id').primaryKey(),
+  mediaKind: text('media_kind', { enum: mediaKinds }).notNull(),
+  mediaId: integer('media_id').notNull(),
+  status: text('status', { enum: reportStatuses }).notNull().default('open'),
+  reportCount: integer('report_count').notNull().default(0),
+  autoHidden: boolean('auto_hidden').notNull().default(false),
+  createdAt: text('created_at').notNull(),
+  lastReportedAt: text('last_reported_at').notNull(),
+  resolvedBy: integer('resolved_by').references(() => users.id, { onDelete: 'set null' }),
+  resolvedAt: text('resolved_at'),
+  resolutionNote: text('resolution_note')
+});
+
+export const reportEntries = pgTable('report_entries', {
+  id: serial('id').primaryKey(),
+  reportId: integer('report_id').notNull().references(() => reports.id, { onDelete: 'cascade' }),
+  reporterId: integer('reporter_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reason: text('reason', { enum: reportReasons }).notNull(),
+  details: text('details'),
+  createdAt: text('created_at').notNull()
+});
+
+export const auditEvents = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  actorId: integer('actor_id'),
+  actorEmail: text('actor_email'),
+  action: text('action').notNull(),
+  method: text('method').notNull(),
+  path: text('path').notNull(),
+  statusCode: integer('status_code').notNull(),
+  targetType: text('target_type'),
+  targetId: text('target_id'),
+  changes: jsonb('changes').$type<AuditChanges>(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: text('created_at').notNull()
+});
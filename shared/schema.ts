@@ -16,9 +16,18 @@ export const models = sqliteTable('models', {
   onlyFansLink: text('only_fans_link'),
   bodyPhotoUrl: text('body_photo_url').notNull(),
   licensePhotoUrl: text('license_photo_url').notNull(),
-  termsAccepted: text('terms_accepted', { mode: 'json' }).notNull()
+  termsAccepted: text('terms_accepted', { mode: 'json' }).notNull(),
+  status: text('status', { enum: ['new', 'under_review', 'accepted', 'declined'] }).notNull().default('new'),
+  reviewerNotes: text('reviewer_notes'),
+  reviewedBy: integer('reviewed_by'),
+  reviewedAt: text('reviewed_at'),
+  userId: integer('user_id'),
+  createdAt: text('created_at')
 });
 
+export const modelApplicationStatuses = ['new', 'under_review', 'accepted', 'declined'] as const;
+export type ModelApplicationStatus = typeof modelApplicationStatuses[number];
+
 export const users = sqliteTable('users', {
   id: integer('id').primaryKey(),
   email: text('email').notNull().unique(),
@@ -34,6 +43,79 @@ export const users = sqliteTable('users', {
   profileId: integer('profile_id')
 });
 
+export const sessions = sqliteTable('sessions', {
+  sid: text('sid').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  sess: text('sess', { mode: 'json' }).notNull(),
+  expiresAt: integer('expires_at').notNull(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull()
+});
+
+// Single-use tokens for password resets and email verification; only the SHA-256 hash is stored
+export const authTokens = sqliteTable('auth_tokens', {
+  id: integer('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: ['password_reset', 'email_verification'] }).notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: text('expires_at').notNull(),
+  usedAt: text('used_at'),
+  createdAt: text('created_at').notNull()
+});
+
+export const authTokenTypes = ['password_reset', 'email_verification'] as const;
+export type AuthTokenType = typeof authTokenTypes[number];
+
+// Kept out of the users row so TOTP secrets never travel with req.user
+export const twoFactorCredentials = sqliteTable('two_factor_credentials', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  secret: text('secret').notNull(),
+  // Null until the user confirms enrollment with a valid code
+  enabledAt: text('enabled_at'),
+  // Last accepted time step, so a code can't be replayed within its validity window
+  lastUsedStep: integer('last_used_step'),
+  createdAt: text('created_at').notNull()
+});
+
+export const twoFactorRecoveryCodes = sqliteTable('two_factor_recovery_codes', {
+  id: integer('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: text('code_hash').notNull(),
+  usedAt: text('used_at'),
+  createdAt: text('created_at').notNull()
+});
+
+// Every login and registration attempt, used for rate limiting and shown to admins
+export const loginAttempts = sqliteTable('login_attempts', {
+  id: integer('id').primaryKey(),
+  kind: text('kind', { enum: ['login', 'two_factor', 'register'] }).notNull(),
+  email: text('email'),
+  ipAddress: text('ip_address'),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  success: integer('success', { mode: 'boolean' }).notNull(),
+  reason: text('reason'),
+  createdAt: text('created_at').notNull()
+});
+
+// Keyed by normalized email so unknown addresses lock the same way as real accounts
+export const accountLockouts = sqliteTable('account_lockouts', {
+  email: text('email').primaryKey(),
+  lockedUntil: text('locked_until'),
+  lockedAt: text('locked_at').notNull(),
+  unlockedAt: text('unlocked_at'),
+  unlockedBy: integer('unlocked_by').references(() => users.id)
+});
+
+// Key/value store for admin-controlled platform policies; values are JSON
+export const platformSettings = sqliteTable('platform_settings', {
+  key: text('key').primaryKey(),
+  value: text('value', { mode: 'json' }).notNull(),
+  updatedBy: integer('updated_by').references(() => users.id),
+  updatedAt: text('updated_at').notNull()
+});
+
 export const creatorProfiles = sqliteTable('creator_profiles', {
   id: integer('id').primaryKey(),
   userId: integer('user_id').notNull().unique().references(() => users.id),
@@ -59,6 +141,16 @@ export const followerProfiles = sqliteTable('follower_profiles', {
   createdAt: text('created_at').notNull().default('CURRENT_TIMESTAMP')
 });
 
+// Videos are 'pending' until the background transcoder has produced their poster,
+// preview and HLS renditions; images are 'ready' as soon as they're uploaded
+export const contentProcessingStatuses = ['pending', 'processing', 'ready', 'failed'] as const;
+export type ContentProcessingStatus = typeof contentProcessingStatuses[number];
+
+// New posts wait in the approval queue as 'pending' when the platform requires approval;
+// everything else, including content posted before the queue existed, is 'approved'
+export const contentModerationStatuses = ['pending', 'approved', 'rejected'] as const;
+export type ContentModerationStatus = typeof contentModerationStatuses[number];
+
 export const content = sqliteTable('content', {
   id: integer('id').primaryKey(),
   creatorId: integer('creator_id').notNull().references(() => users.id),
@@ -69,10 +161,36 @@ export const content = sqliteTable('content', {
   thumbnailUrl: text('thumbnail_url'),
   isPremium: integer('is_premium', { mode: 'boolean' }).default(false),
   price: real('price'),
+  processingStatus: text('processing_status', { enum: contentProcessingStatuses }).notNull().default('ready'),
+  processingError: text('processing_error'),
+  durationSeconds: real('duration_seconds'),
+  width: integer('width'),
+  height: integer('height'),
+  // Short muted loop shown on hover, and the HLS master playlist
+  previewUrl: text('preview_url'),
+  hlsUrl: text('hls_url'),
+  // Blurred stand-in shown to viewers who haven't unlocked the item; always public
+  teaserUrl: text('teaser_url'),
+  blurHash: text('blur_hash'),
+  // dHash of the image (or a video's poster frame), for spotting near-duplicate uploads
+  perceptualHash: text('perceptual_hash'),
+  // Set while the item is hidden by moderation; hidden items are unlisted and their files private
+  hiddenAt: text('hidden_at'),
+  // Only approved items are published; until then their files are private like hidden ones
+  moderationStatus: text('moderation_status', { enum: contentModerationStatuses }).notNull().default('approved'),
+  // Shown to the creator when their post is rejected
+  moderationReason: text('moderation_reason'),
+  moderatedBy: integer('moderated_by').references(() => users.id, { onDelete: 'set null' }),
+  moderatedAt: text('moderated_at'),
   createdAt: text('created_at').notNull().default('CURRENT_TIMESTAMP'),
   updatedAt: text('updated_at').notNull().default('CURRENT_TIMESTAMP')
 });
 
+export const subscriptionStatuses = ['pending', 'active', 'payment_failed', 'past_due', 'cancelled', 'expired'] as const;
+
+// Past-due subscribers keep access during the renewal grace period
+export const entitledSubscriptionStatuses: SubscriptionStatus[] = ['active', 'past_due'];
+
 export const subscriptions = sqliteTable('subscriptions', {
   id: integer('id').primaryKey(),
   followerId: integer('follower_id').notNull().references(() => users.id),
@@ -81,35 +199,106 @@ export const subscriptions = sqliteTable('subscriptions', {
   startDate: text('start_date').notNull().default('CURRENT_TIMESTAMP'),
   endDate: text('end_date'),
   amount: real('amount').notNull(),
-  status: text('status').notNull().default('active'),
+  // 'pending' until the first charge succeeds; 'payment_failed' if it doesn't.
+  // Failed renewals go 'past_due' and then 'expired' once the grace period runs out.
+  status: text('status', { enum: subscriptionStatuses }).notNull().default('active'),
+  // Dunning state, only set while past_due
+  renewalAttempts: integer('renewal_attempts').notNull().default(0),
+  nextRenewalAttemptAt: text('next_renewal_attempt_at'),
+  pastDueSince: text('past_due_since'),
   createdAt: text('created_at').notNull().default('CURRENT_TIMESTAMP'),
   updatedAt: text('updated_at').notNull().default('CURRENT_TIMESTAMP')
 });
 
+// Append-only log of every subscription status change
+export const subscriptionHistory = sqliteTable('subscription_history', {
+  id: integer('id').primaryKey(),
+  subscriptionId: integer('subscription_id').notNull().references(() => subscriptions.id, { onDelete: 'cascade' }),
+  fromStatus: text('from_status', { enum: subscriptionStatuses }),
+  toStatus: text('to_status', { enum: subscriptionStatuses }).notNull(),
+  reason: text('reason').notNull(),
+  paymentId: integer('payment_id'),
+  endDate: text('end_date'),
+  createdAt: text('created_at').notNull()
+});
+
 export const contentPurchases = sqliteTable('content_purchases', {
   id: integer('id').primaryKey(),
   contentId: integer('content_id').notNull().references(() => content.id),
   followerId: integer('follower_id').notNull().references(() => users.id),
   amount: real('amount').notNull(),
+  status: text('status', { enum: ['pending', 'completed', 'failed', 'refunded'] }).notNull().default('completed'),
   purchaseDate: text('purchase_date').notNull().default('CURRENT_TIMESTAMP'),
   createdAt: text('created_at').notNull().default('CURRENT_TIMESTAMP'),
   updatedAt: text('updated_at').notNull().default('CURRENT_TIMESTAMP')
 });
 
+// One processor-side customer per user; recreated if the configured provider changes
+export const paymentCustomers = sqliteTable('payment_customers', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  provider: text('provider').notNull(),
+  customerId: text('customer_id').notNull(),
+  defaultPaymentMethodId: text('default_payment_method_id'),
+  cardBrand: text('card_brand'),
+  cardLast4: text('card_last4'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull()
+});
+
+// Every charge attempt, successful or not, for reconciliation and support
+export const payments = sqliteTable('payments', {
+  id: integer('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  provider: text('provider').notNull(),
+  providerChargeId: text('provider_charge_id'),
+  amount: real('amount').notNull(),
+  currency: text('currency').notNull(),
+  status: text('status', { enum: ['succeeded', 'failed', 'refunded'] }).notNull(),
+  // Partial refunds leave the status as succeeded; it becomes refunded once this reaches amount
+  refundedAmount: real('refunded_amount').notNull().default(0),
+  failureCode: text('failure_code'),
+  failureMessage: text('failure_message'),
+  description: text('description').notNull(),
+  subscriptionId: integer('subscription_id').references(() => subscriptions.id),
+  contentPurchaseId: integer('content_purchase_id').references(() => contentPurchases.id),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull()
+});
+
 // Zod schemas for validation
 export const contentSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   description: z.string().optional(),
   contentType: z.enum(['image', 'video']),
-  url: z.string().url('Invalid URL'),
-  thumbnailUrl: z.string().url('Invalid thumbnail URL').optional(),
+  // Uploaded media is referenced by site-relative paths such as /uploads/content/...
+  url: z.string().min(1, 'URL is required'),
+  thumbnailUrl: z.string().min(1).optional(),
   isPremium: z.boolean().default(false),
   price: z.number().min(0).optional()
 });
 
+export const updateContentSchema = contentSchema
+  .pick({ title: true, description: true, isPremium: true })
+  .extend({ price: z.number().min(0).nullable() })
+  .partial();
+
 export const subscriptionSchema = z.object({
   type: z.enum(['monthly', 'per_post']),
-  amount: z.number().min(0),
+  amount: z.number().min(0).optional(),
+  // Falls back to the user's saved payment method when omitted
+  paymentMethodId: z.string().min(1).optional(),
+});
+
+export const purchaseSchema = z.object({
+  paymentMethodId: z.string().min(1).optional(),
+});
+
+export const paymentMethodSchema = z.object({
+  paymentMethodId: z.string().min(1),
+});
+
+export const refundSchema = z.object({
+  amount: z.number().positive().optional(),
 });
 
 export const gallery = sqliteTable('gallery', {
@@ -125,7 +314,125 @@ export const gallery = sqliteTable('gallery', {
   tiktok: text('tiktok'),
   twitter: text('twitter'),
   onlyfans: text('onlyfans'),
-  description: text('description')
+  description: text('description'),
+  // Blurred stand-in shown to viewers who haven't unlocked the item; always public
+  teaserUrl: text('teaser_url'),
+  blurHash: text('blur_hash'),
+  // dHash of the image, for spotting near-duplicate uploads
+  perceptualHash: text('perceptual_hash'),
+  // Set while the item is hidden by moderation; hidden items are unlisted and their files private
+  hiddenAt: text('hidden_at')
+});
+
+export const mediaKinds = ['gallery', 'content'] as const;
+export const mediaVariantNames = ['thumbnail', 'card', 'full', 'original'] as const;
+export const mediaVariantFormats = ['avif', 'webp', 'jpeg'] as const;
+
+// Resized renditions of a gallery or content image, one row per width and format.
+// media_id refers to gallery.id or content.id depending on media_kind.
+export const mediaVariants = sqliteTable('media_variants', {
+  id: integer('id').primaryKey(),
+  mediaKind: text('media_kind', { enum: mediaKinds }).notNull(),
+  mediaId: integer('media_id').notNull(),
+  variant: text('variant', { enum: mediaVariantNames }).notNull(),
+  format: text('format', { enum: mediaVariantFormats }).notNull(),
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  url: text('url').notNull(),
+  bytes: integer('bytes').notNull(),
+  createdAt: text('created_at').notNull()
+});
+
+// In-progress resumable uploads; the chunks received so far live in the media store under the id
+export const uploadSessions = sqliteTable('upload_sessions', {
+  id: text('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  filename: text('filename').notNull(),
+  mimeType: text('mime_type').notNull(),
+  size: integer('size').notNull(),
+  receivedBytes: integer('received_bytes').notNull().default(0),
+  expiresAt: text('expires_at').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull()
+});
+
+// Why the reconciliation job set a file aside: nothing refers to it, or it's a stale second
+// copy of a file that lives on the other side (public or private) of the store
+export const mediaQuarantineReasons = ['orphan', 'duplicate'] as const;
+
+// Files set aside by the reconciliation job. Each sits at quarantine_key until delete_after,
+// and can be moved back to key until then.
+export const mediaQuarantine = sqliteTable('media_quarantine', {
+  id: integer('id').primaryKey(),
+  key: text('key').notNull(),
+  quarantineKey: text('quarantine_key').notNull().unique(),
+  size: integer('size').notNull(),
+  reason: text('reason', { enum: mediaQuarantineReasons }).notNull(),
+  quarantinedAt: text('quarantined_at').notNull(),
+  deleteAfter: text('delete_after').notNull()
+});
+
+// One row per reconciliation run, with the report it produced
+export const mediaReconciliationRuns = sqliteTable('media_reconciliation_runs', {
+  id: integer('id').primaryKey(),
+  report: text('report', { mode: 'json' }).notNull(),
+  dryRun: integer('dry_run', { mode: 'boolean' }).notNull().default(false),
+  startedAt: text('started_at').notNull(),
+  finishedAt: text('finished_at').notNull()
+});
+
+export const reportReasons = ['underage', 'non_consensual', 'copyright', 'harassment', 'spam', 'other'] as const;
+// open until an admin acts on it: resolved keeps the item hidden, dismissed restores it,
+// removed deletes it
+export const reportStatuses = ['open', 'resolved', 'dismissed', 'removed'] as const;
+
+// One moderation case per reported item, gathering every report made while it's open.
+// media_id refers to gallery.id or content.id depending on media_kind; once the case is
+// closed, new reports about the item open a new one.
+export const reports = sqliteTable('reports', {
+  id: integer('id').primaryKey(),
+  mediaKind: text('media_kind', { enum: mediaKinds }).notNull(),
+  mediaId: integer('media_id').notNull(),
+  status: text('status', { enum: reportStatuses }).notNull().default('open'),
+  reportCount: integer('report_count').notNull().default(0),
+  // Whether reaching the threshold hid the item, so dismissing the case knows to restore it
+  autoHidden: integer('auto_hidden', { mode: 'boolean' }).notNull().default(false),
+  createdAt: text('created_at').notNull(),
+  lastReportedAt: text('last_reported_at').notNull(),
+  resolvedBy: integer('resolved_by').references(() => users.id, { onDelete: 'set null' }),
+  resolvedAt: text('resolved_at'),
+  resolutionNote: text('resolution_note')
+});
+
+// Each user's report within a case; a user can report an item once per case
+export const reportEntries = sqliteTable('report_entries', {
+  id: integer('id').primaryKey(),
+  reportId: integer('report_id').notNull().references(() => reports.id, { onDelete: 'cascade' }),
+  reporterId: integer('reporter_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reason: text('reason', { enum: reportReasons }).notNull(),
+  details: text('details'),
+  createdAt: text('created_at').notNull()
+});
+
+// Field-level before/after values of whatever an audited request changed
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Append-only record of privileged mutations, written by the audit middleware. Triggers
+// reject updates and deletes, so the actor's email is copied in rather than joined from users.
+export const auditEvents = sqliteTable('audit_events', {
+  id: integer('id').primaryKey(),
+  actorId: integer('actor_id'),
+  actorEmail: text('actor_email'),
+  action: text('action').notNull(),
+  method: text('method').notNull(),
+  path: text('path').notNull(),
+  statusCode: integer('status_code').notNull(),
+  targetType: text('target_type'),
+  targetId: text('target_id'),
+  changes: text('changes', { mode: 'json' }).$type<AuditChanges>(),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: text('created_at').notNull()
 });
 
 export const insertModelSchema = createInsertSchema(models)
@@ -136,7 +443,22 @@ export const insertModelSchema = createInsertSchema(models)
     bodyPhoto: z.any(),
     licensePhoto: z.any(),
   })
-  .omit({ id: true, bodyPhotoUrl: true, licensePhotoUrl: true });
+  .omit({
+    id: true,
+    bodyPhotoUrl: true,
+    licensePhotoUrl: true,
+    status: true,
+    reviewerNotes: true,
+    reviewedBy: true,
+    reviewedAt: true,
+    userId: true,
+    createdAt: true
+  });
+
+export const modelReviewSchema = z.object({
+  status: z.enum(['new', 'under_review', 'declined']).optional(),
+  reviewerNotes: z.string().max(2000).nullable().optional()
+});
 
 export const insertUserSchema = createInsertSchema(users)
   .extend({
@@ -158,6 +480,86 @@ export const insertCreatorProfileSchema = createInsertSchema(creatorProfiles)
   })
   .omit({ id: true, createdAt: true });
 
+export const updateCreatorProfileSchema = z.object({
+  aliasName: z.string().min(2).max(50),
+  instagram: z.string().max(30).nullable(),
+  twitter: z.string().max(30).nullable(),
+  tiktok: z.string().max(30).nullable(),
+  onlyfans: z.string().url().nullable(),
+  featuredImageUrl: z.string().min(1).nullable(),
+  monthlySubscriptionPrice: z.number().min(0).max(1000),
+  perPostPrice: z.number().min(0).max(1000)
+}).partial();
+
+export const createReportSchema = z.object({
+  mediaKind: z.enum(mediaKinds),
+  mediaId: z.number().int().positive(),
+  reason: z.enum(reportReasons),
+  details: z.string().trim().max(1000).optional()
+});
+
+export const contentDecisionSchema = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approve'), ids: z.array(z.number().int().positive()).min(1).max(100) }),
+  z.object({
+    decision: z.literal('reject'),
+    ids: z.array(z.number().int().positive()).min(1).max(100),
+    reason: z.string().trim().min(1, 'Give the creator a reason').max(1000)
+  })
+]);
+
+export const resolveReportSchema = z.object({
+  note: z.string().trim().max(1000).optional()
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email()
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8).max(128)
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1)
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app')
+});
+
+export const twoFactorLoginSchema = z.union([
+  twoFactorCodeSchema,
+  z.object({ recoveryCode: z.string().trim().min(1) })
+]);
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1)
+});
+
+// Whose new posts wait in the approval queue: nobody's, creators with fewer than
+// newCreatorApprovedPosts approved posts, or everyone's
+export const contentApprovalModes = ['off', 'new_creators', 'all'] as const;
+
+// Where the visible watermark sits on uploaded images
+export const watermarkPositions = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'] as const;
+
+export const platformSettingsSchema = z.object({
+  requireAdminTwoFactor: z.boolean(),
+  watermarkPreviews: z.boolean(),
+  watermarkPosition: z.enum(watermarkPositions),
+  watermarkOpacity: z.number().min(0.1).max(1),
+  traceablePremiumMedia: z.boolean(),
+  // Largest Hamming distance (of 64 bits) at which two perceptual hashes count as the same image
+  duplicateHashThreshold: z.number().int().min(0).max(20),
+  // Reports from this many users hide an item until an admin reviews it; 0 never hides
+  reportHideThreshold: z.number().int().min(0).max(100),
+  contentApprovalMode: z.enum(contentApprovalModes),
+  newCreatorApprovedPosts: z.number().int().min(1).max(100)
+});
+
+export const updatePlatformSettingsSchema = platformSettingsSchema.partial();
+
 export const insertFollowerProfileSchema = createInsertSchema(followerProfiles)
   .extend({
     preferences: z.record(z.string(), z.any()).optional()
@@ -181,6 +583,39 @@ export type InsertUser = typeof users.$inferInsert;
 export type Gallery = typeof gallery.$inferSelect;
 export type InsertGallery = typeof gallery.$inferInsert;
 
+export type MediaVariant = typeof mediaVariants.$inferSelect;
+export type InsertMediaVariant = typeof mediaVariants.$inferInsert;
+export type MediaVariantName = typeof mediaVariantNames[number];
+export type MediaVariantFormat = typeof mediaVariantFormats[number];
+
+export type UploadSession = typeof uploadSessions.$inferSelect;
+
+export type QuarantinedMedia = typeof mediaQuarantine.$inferSelect;
+export type MediaQuarantineReason = typeof mediaQuarantineReasons[number];
+
+export type Report = typeof reports.$inferSelect;
+export type ReportEntry = typeof reportEntries.$inferSelect;
+export type ReportReason = typeof reportReasons[number];
+export type ReportStatus = typeof reportStatuses[number];
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+export type Session = typeof sessions.$inferSelect;
+
+export type AuthToken = typeof authTokens.$inferSelect;
+
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+
+export type PlatformSettings = z.infer<typeof platformSettingsSchema>;
+export type WatermarkPosition = typeof watermarkPositions[number];
+export type ContentApprovalMode = typeof contentApprovalModes[number];
+export type ContentDecision = z.infer<typeof contentDecisionSchema>;
+export type UpdateContent = z.infer<typeof updateContentSchema>;
+export type UpdateCreatorProfile = z.infer<typeof updateCreatorProfileSchema>;
+
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type AccountLockout = typeof accountLockouts.$inferSelect;
+
 export type CreatorProfile = typeof creatorProfiles.$inferSelect;
 export type InsertCreatorProfile = typeof creatorProfiles.$inferInsert;
 
@@ -192,6 +627,12 @@ export type InsertContent = typeof content.$inferInsert;
 
 export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertSubscription = typeof subscriptions.$inferInsert;
+export type SubscriptionStatus = typeof subscriptionStatuses[number];
+export type SubscriptionHistoryEntry = typeof subscriptionHistory.$inferSelect;
 
 export type ContentPurchase = typeof contentPurchases.$inferSelect;
-export type InsertContentPurchase = typeof contentPurchases.$inferInsert;
\ No newline at end of file
+export type InsertContentPurchase = typeof contentPurchases.$inferInsert;
+
+export type PaymentCustomerRecord = typeof paymentCustomers.$inferSelect;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = typeof payments.$inferInsert;
\ No newline at end of file
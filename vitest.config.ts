@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@shared': path.resolve(__dirname, 'shared')
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['server/**/*.test.ts'],
+    setupFiles: ['server/test/setup.ts'],
+    // Each test file runs in its own process with its own database; see server/test/setup.ts
+    pool: 'forks',
+    testTimeout: 20000
+  }
+});